@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getAccountById,
+  getUnreconciledTransactions,
+  getReconciledTotal,
+  getReconciliations,
+  setClearedStatus,
+  insertReconciliation,
+} from '@/lib/db/queries'
+import { reconciliationDifference } from '@/lib/accounts'
+
+export const dynamic = 'force-dynamic'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * GET /api/accounts/reconcile?accountId=&statementDate=YYYY-MM-DD
+ *
+ * Transactions not yet reconciled up to the statement date, with running
+ * balances, plus the balance already reconciled and past reconciliations.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+    const statementDate = searchParams.get('statementDate') || new Date().toISOString().split('T')[0]
+
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 })
+    }
+    if (!DATE_PATTERN.test(statementDate)) {
+      return NextResponse.json({ error: 'statementDate must be YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const account = await getAccountById(parseInt(accountId), userId)
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    const [transactions, reconciledTotal, history] = await Promise.all([
+      getUnreconciledTransactions(userId, account.id, account.openingBalance, statementDate),
+      getReconciledTotal(userId, account.id),
+      getReconciliations(userId, account.id),
+    ])
+
+    return NextResponse.json({
+      account,
+      statementDate,
+      reconciledBalance: Math.round((account.openingBalance + reconciledTotal) * 100) / 100,
+      transactions,
+      history,
+    })
+  } catch (error) {
+    console.error('Reconcile error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load reconciliation', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/accounts/reconcile
+ *
+ * Mark transactions cleared or uncleared. Body: { ids: number[], cleared: boolean }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ids, cleared } = await request.json()
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json({ error: 'ids are required' }, { status: 400 })
+    }
+
+    const updated = await setClearedStatus(userId, ids.map(Number), cleared ? 'cleared' : 'uncleared')
+
+    return NextResponse.json({ success: true, updated })
+  } catch (error) {
+    console.error('Update cleared status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update transactions', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/accounts/reconcile
+ *
+ * Finish a reconciliation. Body: { accountId, statementDate, statementBalance, transactionIds }
+ * The selected transactions are marked reconciled only if the ledger then
+ * matches the statement balance to the cent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const statementBalance = Number(body.statementBalance)
+    const statementDate = String(body.statementDate || '')
+    const transactionIds: number[] = Array.isArray(body.transactionIds) ? body.transactionIds.map(Number) : []
+
+    if (!body.accountId || !Number.isFinite(statementBalance) || !DATE_PATTERN.test(statementDate)) {
+      return NextResponse.json(
+        { error: 'accountId, statementDate (YYYY-MM-DD) and statementBalance are required' },
+        { status: 400 }
+      )
+    }
+
+    const account = await getAccountById(parseInt(body.accountId), userId)
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    const [candidates, reconciledTotal] = await Promise.all([
+      getUnreconciledTransactions(userId, account.id, account.openingBalance, statementDate),
+      getReconciledTotal(userId, account.id),
+    ])
+    const selected = candidates.filter(t => transactionIds.includes(t.id))
+
+    const difference = reconciliationDifference(
+      statementBalance,
+      account.openingBalance,
+      reconciledTotal,
+      selected.map(t => t.amount)
+    )
+    if (difference !== 0) {
+      return NextResponse.json(
+        { error: `Cleared balance is off by $${difference.toFixed(2)}`, difference },
+        { status: 400 }
+      )
+    }
+
+    await setClearedStatus(userId, selected.map(t => t.id), 'reconciled', account.id)
+    const reconciliation = await insertReconciliation({
+      userId,
+      accountId: account.id,
+      statementDate,
+      statementBalance,
+      clearedBalance: statementBalance,
+      transactionCount: selected.length,
+    })
+
+    return NextResponse.json({
+      success: true,
+      reconciliation,
+      message: `Reconciled ${selected.length} transactions through ${statementDate}`,
+    })
+  } catch (error) {
+    console.error('Complete reconciliation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to complete reconciliation', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getAccountBalances,
+  getAccountById,
+  insertAccount,
+  updateAccount,
+  deleteAccount,
+  linkUnassignedTransactions,
+} from '@/lib/db/queries'
+import { validateAccountInput } from '@/lib/accounts'
+import { ACCOUNT_TYPES } from '@/lib/db/schema'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/accounts?includeArchived=true
+ *
+ * List the user's accounts with current and cleared balances.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeArchived = searchParams.get('includeArchived') === 'true'
+
+    // Transactions imported before accounts existed only carry an account name
+    await linkUnassignedTransactions(userId)
+
+    const accounts = await getAccountBalances(userId, includeArchived)
+
+    return NextResponse.json({ accounts, accountTypes: ACCOUNT_TYPES })
+  } catch (error) {
+    console.error('Accounts error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/accounts
+ *
+ * Create an account. Body: { name, type?, institution?, currency?, openingBalance? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { values, error } = validateAccountInput(await request.json())
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const account = await insertAccount({ ...values, name: values.name!, userId })
+
+    return NextResponse.json({ success: true, account })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'An account with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add account error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create account', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/accounts
+ *
+ * Update an account. Body: { id, ...fields } — set archived to hide it.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateAccountInput(body, true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const account = await updateAccount(parseInt(body.id), userId, values)
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, account })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'An account with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update account error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update account', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/accounts?id=
+ *
+ * Only empty accounts can be deleted; archive accounts that have history.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 })
+    }
+
+    const account = await getAccountById(parseInt(id), userId)
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    const balances = await getAccountBalances(userId, true)
+    const balance = balances.find(b => b.id === account.id)
+    if (balance && balance.transactionCount > 0) {
+      return NextResponse.json(
+        { error: 'Account has transactions. Archive it instead.' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteAccount(account.id, userId)
+
+    return NextResponse.json({ success: true, deleted })
+  } catch (error) {
+    console.error('Delete account error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete account', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
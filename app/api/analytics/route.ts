@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
-import { db, transactions } from '@/lib/db'
-import { eq, desc, lt, sql, and } from 'drizzle-orm'
+import { db, transactions, transactionAllocations } from '@/lib/db'
+import { eq, desc, sql, and } from 'drizzle-orm'
+import { getAccountBalances, linkUnassignedTransactions, getUserCategories, getTopMerchants } from '@/lib/db/queries'
+import { linkTransactionMerchants } from '@/lib/merchants'
+import { rollUpCategoryTotals } from '@/lib/categories'
+import { getBudgetStatuses } from '@/lib/budgets'
 
 // This API route uses runtime-only features (auth/headers).
 // Force dynamic rendering so Next.js won't attempt static export.
@@ -18,18 +22,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get category breakdown for this user
-    const categoryData = await db.select({
-      category: transactions.category,
+    // Get category breakdown for this user (split transactions count once per allocation)
+    const categoryRows = await db.select({
+      category: transactionAllocations.category,
       transaction_count: sql<number>`COUNT(*)`,
       total_spent: sql<number>`ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END))`,
       total_earned: sql<number>`SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END)`,
     })
-      .from(transactions)
-      .where(eq(transactions.userId, userId))
-      .groupBy(transactions.category)
+      .from(transactionAllocations)
+      .where(and(eq(transactionAllocations.userId, userId), eq(transactionAllocations.isTransfer, false)))
+      .groupBy(transactionAllocations.category)
       .orderBy(desc(sql`ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END))`))
 
+    // Roll subcategories up into their parents and color each with the user's category color
+    const userCategories = await getUserCategories(userId)
+    const colors = new Map(userCategories.map(c => [c.name, c.color]))
+    const categoryData = rollUpCategoryTotals(categoryRows, userCategories, ['transaction_count', 'total_spent', 'total_earned'])
+      .sort((a, b) => b.total_spent - a.total_spent)
+      .map(row => ({ ...row, color: row.category ? colors.get(row.category) ?? null : null }))
+
     // Get monthly spending trend for this user (PostgreSQL syntax)
     const monthlyData = await db.select({
       month: sql<string>`TO_CHAR(date::date, 'YYYY-MM')`,
@@ -37,7 +48,7 @@ export async function GET(request: NextRequest) {
       income: sql<number>`SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END)`,
     })
       .from(transactions)
-      .where(eq(transactions.userId, userId))
+      .where(and(eq(transactions.userId, userId), eq(transactions.isTransfer, false)))
       .groupBy(sql`TO_CHAR(date::date, 'YYYY-MM')`)
       .orderBy(desc(sql`TO_CHAR(date::date, 'YYYY-MM')`))
       .limit(12)
@@ -49,30 +60,30 @@ export async function GET(request: NextRequest) {
       .orderBy(desc(transactions.date), desc(transactions.id))
       .limit(20)
 
-    // Get summary statistics for this user
+    // Get summary statistics for this user (transfers between own accounts are
+    // counted as transactions but not as income or expenses)
     const [summary] = await db.select({
       total_transactions: sql<number>`COUNT(*)`,
-      total_expenses: sql<number>`ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END))`,
-      total_income: sql<number>`SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END)`,
-      avg_expense: sql<number>`ABS(AVG(CASE WHEN amount < 0 THEN amount ELSE NULL END))`,
+      total_expenses: sql<number>`ABS(SUM(CASE WHEN amount < 0 AND NOT is_transfer THEN amount ELSE 0 END))`,
+      total_income: sql<number>`SUM(CASE WHEN amount > 0 AND NOT is_transfer THEN amount ELSE 0 END)`,
+      avg_expense: sql<number>`ABS(AVG(CASE WHEN amount < 0 AND NOT is_transfer THEN amount ELSE NULL END))`,
       first_transaction_date: sql<string>`MIN(date)`,
       last_transaction_date: sql<string>`MAX(date)`,
     })
       .from(transactions)
       .where(eq(transactions.userId, userId))
 
-    // Get top merchants for this user
-    const topMerchants = await db.select({
-      description: transactions.description,
-      category: transactions.category,
-      transaction_count: sql<number>`COUNT(*)`,
-      total_amount: sql<number>`ABS(SUM(amount))`,
-    })
-      .from(transactions)
-      .where(and(eq(transactions.userId, userId), lt(transactions.amount, 0)))
-      .groupBy(transactions.description, transactions.category)
-      .orderBy(desc(sql`ABS(SUM(amount))`))
-      .limit(10)
+    // Get top merchants for this user, aggregated through the merchant records
+    // (transactions imported before merchants existed are linked first)
+    await linkTransactionMerchants(userId)
+    const topMerchants = await getTopMerchants(userId, 10)
+
+    // Get per-account balances for this user
+    await linkUnassignedTransactions(userId)
+    const accountBalances = await getAccountBalances(userId)
+
+    // Get budget vs. actual for the current period
+    const budgets = await getBudgetStatuses(userId)
 
     return NextResponse.json({
       categoryData,
@@ -80,6 +91,8 @@ export async function GET(request: NextRequest) {
       recentTransactions,
       summary,
       topMerchants,
+      accountBalances,
+      budgets,
     })
   } catch (error) {
     console.error('Analytics error:', error)
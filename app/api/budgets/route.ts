@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getUserCategories,
+  getBudgetById,
+  insertBudget,
+  updateBudget,
+  deleteBudget,
+} from '@/lib/db/queries'
+import { getBudgetStatuses, summarizeBudgets, validateBudgetInput } from '@/lib/budgets'
+import { BUDGET_PERIODS, ROLLOVER_POLICIES } from '@/lib/db/schema'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/budgets
+ *
+ * List the user's budgets with spent, remaining and projected spending for
+ * the current period, plus the categories a budget can be set on.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [budgets, categories] = await Promise.all([getBudgetStatuses(userId), getUserCategories(userId)])
+
+    return NextResponse.json({
+      budgets,
+      summary: summarizeBudgets(budgets),
+      categories: categories.filter(c => !c.excludeFromBudget).map(c => c.name),
+      periods: BUDGET_PERIODS,
+      rolloverPolicies: ROLLOVER_POLICIES,
+    })
+  } catch (error) {
+    console.error('Budgets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch budgets', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/budgets
+ *
+ * Create a budget. Body: { category, amount, period?, rollover? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { values, error } = validateBudgetInput(await request.json(), await getUserCategories(userId))
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const budget = await insertBudget({ ...values, category: values.category!, amount: values.amount!, userId })
+
+    return NextResponse.json({ success: true, budget })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'This category already has a budget' },
+        { status: 400 }
+      )
+    }
+    console.error('Add budget error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create budget', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/budgets
+ *
+ * Update a budget. Body: { id, ...fields }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Budget ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateBudgetInput(body, await getUserCategories(userId), true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existing = await getBudgetById(parseInt(body.id), userId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 })
+    }
+
+    const budget = await updateBudget(existing.id, userId, values)
+
+    return NextResponse.json({ success: true, budget })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'This category already has a budget' },
+        { status: 400 }
+      )
+    }
+    console.error('Update budget error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update budget', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/budgets?id=123
+ *
+ * Delete a budget.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Budget ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteBudget(parseInt(id), userId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete budget error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete budget', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
-import { db, transactions, categoryRules } from '@/lib/db'
 import { 
   getCategoryRules, 
+  getCategoryRuleById,
   insertCategoryRule, 
+  updateCategoryRule,
   deleteCategoryRule as deleteCategoryRuleQuery 
 } from '@/lib/db/queries'
-import { eq, and, like, sql } from 'drizzle-orm'
+import { validateRuleInput } from '@/lib/ruleEngine'
+import { applyRuleToExisting } from '@/lib/smartCategorization'
 
 export async function GET() {
   try {
@@ -19,9 +21,12 @@ export async function GET() {
       )
     }
 
-    const rules = await getCategoryRules()
+    // The user's own rules first, then the read-only system defaults
+    const rules = await getCategoryRules(userId)
 
-    return NextResponse.json({ rules })
+    return NextResponse.json({
+      rules: rules.map(rule => ({ ...rule, isSystem: rule.userId === null })),
+    })
   } catch (error) {
     console.error('Categories error:', error)
     return NextResponse.json(
@@ -42,39 +47,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { pattern, category } = await request.json()
-
-    if (!pattern || !category) {
+    // A plain { pattern, category } body still creates a substring rule
+    const body = await request.json()
+    const { values, error } = validateRuleInput(body)
+    if (error !== undefined) {
       return NextResponse.json(
-        { error: 'Pattern and category are required' },
+        { error },
         { status: 400 }
       )
     }
 
-    const rule = await insertCategoryRule({
-      pattern: pattern.toUpperCase(),
-      category,
-    })
+    const rule = await insertCategoryRule({ ...values, userId })
 
-    // Re-categorize existing transactions with this pattern (only for this user)
-    // Use PostgreSQL ILIKE for case-insensitive matching
-    const updateResult = await db.update(transactions)
-      .set({ category })
-      .where(and(
-        eq(transactions.userId, userId),
-        like(sql`UPPER(description)`, `%${pattern.toUpperCase()}%`)
-      ))
-      .returning({ id: transactions.id })
+    // Apply the rule to existing transactions it matches (only for this user);
+    // hand-set categories are kept unless the body sets overrideUserCategories
+    const transactionsUpdated = await applyRuleToExisting(userId, rule, body.overrideUserCategories === true)
 
     return NextResponse.json({
       success: true,
       ruleId: rule.id,
-      transactionsUpdated: updateResult.length,
+      rule,
+      transactionsUpdated,
     })
   } catch (error: any) {
     if (error.code === '23505') { // PostgreSQL unique violation
       return NextResponse.json(
-        { error: 'This pattern already exists' },
+        { error: 'A rule with this pattern and these conditions already exists' },
         { status: 400 }
       )
     }
@@ -86,6 +84,78 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/categories
+ *
+ * Edit one of the user's rules. Body: { id, ...rule fields to change }.
+ * The edited rule is applied to existing transactions it matches, except
+ * ones the user categorized by hand unless overrideUserCategories is true.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Check authentication
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json(
+        { error: 'Rule ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getCategoryRuleById(parseInt(body.id), userId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      )
+    }
+    if (existing.userId === null) {
+      return NextResponse.json(
+        { error: 'System rules are read-only' },
+        { status: 403 }
+      )
+    }
+
+    // Validate the rule as a whole so conditions and actions stay consistent
+    const { values, error } = validateRuleInput({ ...existing, ...body })
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const rule = await updateCategoryRule(existing.id, userId, values)
+    const transactionsUpdated = rule ? await applyRuleToExisting(userId, rule, body.overrideUserCategories === true) : 0
+
+    return NextResponse.json({
+      success: true,
+      rule,
+      transactionsUpdated,
+    })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A rule with this pattern and these conditions already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update category error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update category rule', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     // Check authentication
@@ -107,7 +177,21 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    const deleted = await deleteCategoryRuleQuery(parseInt(id))
+    const rule = await getCategoryRuleById(parseInt(id), userId)
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      )
+    }
+    if (rule.userId === null) {
+      return NextResponse.json(
+        { error: 'System rules are read-only' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await deleteCategoryRuleQuery(rule.id, userId)
 
     return NextResponse.json({
       success: true,
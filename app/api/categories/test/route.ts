@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getCategoryRuleById } from '@/lib/db/queries'
+import { validateRuleInput, withRuleDefaults } from '@/lib/ruleEngine'
+import { testRule } from '@/lib/smartCategorization'
+
+export const dynamic = 'force-dynamic'
+
+// Stands in for the ID of a rule that hasn't been saved yet, so it sorts after
+// existing rules of the same priority like a newly inserted rule would
+const UNSAVED_RULE_ID = Number.MAX_SAFE_INTEGER
+
+const MAX_MATCHES = 500
+
+/**
+ * POST /api/categories/test
+ *
+ * Dry-run a rule against the user's existing transactions. Nothing is saved.
+ * Body: the same rule fields as POST /api/categories, plus `id` when testing
+ * changes to an existing rule.
+ * Returns the matching transactions with their category before and after,
+ * counts, and the other rules it overlaps with.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    let id = UNSAVED_RULE_ID
+    if (body.id !== undefined && body.id !== null) {
+      const existing = await getCategoryRuleById(parseInt(body.id), userId)
+      if (!existing) {
+        return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+      }
+      if (existing.userId === null) {
+        return NextResponse.json({ error: 'System rules are read-only' }, { status: 403 })
+      }
+      id = existing.id
+    }
+
+    const { values, error } = validateRuleInput(body)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const result = await testRule(userId, withRuleDefaults(values, id, userId))
+
+    return NextResponse.json({
+      counts: result.counts,
+      conflicts: result.conflicts,
+      matches: result.matches.slice(0, MAX_MATCHES),
+      truncated: result.matches.length > MAX_MATCHES,
+    })
+  } catch (error) {
+    console.error('Rule test error:', error)
+    return NextResponse.json(
+      { error: 'Failed to test rule', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getEnvelopes, insertEnvelopeAllocation } from '@/lib/db/queries'
+import { validateAllocationInput } from '@/lib/envelopes'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/envelopes/allocate
+ *
+ * Assign or move money in a month.
+ * Body: { month, fromEnvelopeId?, toEnvelopeId?, amount, note? }
+ * Leaving out fromEnvelopeId assigns from To Be Assigned; leaving out
+ * toEnvelopeId returns money to it. Covering an overspent envelope is a move
+ * from another envelope into it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { values, error } = validateAllocationInput(await request.json(), await getEnvelopes(userId))
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const allocation = await insertEnvelopeAllocation({ ...values, userId })
+
+    return NextResponse.json({ success: true, allocation })
+  } catch (error) {
+    console.error('Envelope allocation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to move money', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
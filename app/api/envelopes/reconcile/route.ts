@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { linkUnassignedTransactions } from '@/lib/db/queries'
+import { reconcileEnvelopes } from '@/lib/envelopes'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/envelopes/reconcile
+ *
+ * Compare To Be Assigned plus every envelope's balance against what the
+ * checking, savings and credit card accounts actually hold, and break down
+ * the difference.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await linkUnassignedTransactions(userId)
+    const reconciliation = await reconcileEnvelopes(userId)
+
+    return NextResponse.json(reconciliation)
+  } catch (error) {
+    console.error('Envelope reconciliation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reconcile envelopes', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getUserCategories,
+  getEnvelopes,
+  insertEnvelope,
+  updateEnvelope,
+  deleteEnvelope,
+} from '@/lib/db/queries'
+import { getEnvelopeMonth, validateEnvelopeInput, currentMonth } from '@/lib/envelopes'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/envelopes?month=2024-01
+ *
+ * The envelope budget for a month (default: this month): To Be Assigned, the
+ * paychecks that came in, and each envelope's assigned, activity and
+ * available amounts. Also lists the categories an envelope can cover.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const month = searchParams.get('month') || currentMonth()
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json({ error: 'month must be a month like 2024-01' }, { status: 400 })
+    }
+
+    const [budget, categories] = await Promise.all([getEnvelopeMonth(userId, month), getUserCategories(userId)])
+
+    return NextResponse.json({
+      ...budget,
+      categories: categories.filter(c => c.kind === 'expense').map(c => c.name),
+    })
+  } catch (error) {
+    console.error('Envelopes error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch envelopes', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/envelopes
+ *
+ * Create an envelope. Body: { name, categories?, startMonth? }
+ * startMonth defaults to this month.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [categories, envelopes] = await Promise.all([getUserCategories(userId), getEnvelopes(userId)])
+    const { values, error } = validateEnvelopeInput(await request.json(), categories, envelopes)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const envelope = await insertEnvelope({
+      ...values,
+      name: values.name!,
+      startMonth: values.startMonth || currentMonth(),
+      userId,
+    })
+
+    return NextResponse.json({ success: true, envelope })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'An envelope with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add envelope error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create envelope', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/envelopes
+ *
+ * Update an envelope. Body: { id, ...fields }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Envelope ID is required' }, { status: 400 })
+    }
+
+    const [categories, envelopes] = await Promise.all([getUserCategories(userId), getEnvelopes(userId)])
+    const { values, error } = validateEnvelopeInput(body, categories, envelopes, true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const envelope = await updateEnvelope(parseInt(body.id), userId, values)
+    if (!envelope) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, envelope })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'An envelope with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update envelope error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update envelope', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/envelopes?id=123
+ *
+ * Delete an envelope. Whatever it held goes back to To Be Assigned.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Envelope ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteEnvelope(parseInt(id), userId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete envelope error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete envelope', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
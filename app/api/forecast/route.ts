@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getCashFlowForecast, FORECAST_HORIZONS, MAX_FORECAST_DAYS } from '@/lib/forecast'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/forecast?days=30&threshold=500
+ *
+ * Projected daily balances for the user's checking, savings and credit card
+ * accounts, overall and per account, with the recurring and scheduled
+ * transactions expected along the way. `days` defaults to 30; `threshold`
+ * (default 0) flags the first day a balance is projected to drop below it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = Number(searchParams.get('days') || FORECAST_HORIZONS[0])
+    const threshold = Number(searchParams.get('threshold') || 0)
+    if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+      return NextResponse.json({ error: `days must be a whole number from 1 to ${MAX_FORECAST_DAYS}` }, { status: 400 })
+    }
+    if (!Number.isFinite(threshold)) {
+      return NextResponse.json({ error: 'threshold must be a number' }, { status: 400 })
+    }
+
+    const forecast = await getCashFlowForecast(userId, days, threshold)
+
+    return NextResponse.json(forecast)
+  } catch (error) {
+    console.error('Forecast error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build forecast', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getAccounts,
+  getGoalById,
+  insertGoal,
+  updateGoal,
+  deleteGoal,
+} from '@/lib/db/queries'
+import { getGoalProgress, validateGoalInput } from '@/lib/goals'
+import { GOAL_PRIORITIES } from '@/lib/db/schema'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/goals
+ *
+ * List the user's goals with progress, the monthly contribution each needs
+ * to hit its date and whether the recent savings rate covers it, plus the
+ * accounts a goal can be linked to.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [{ goals, summary }, accounts] = await Promise.all([getGoalProgress(userId), getAccounts(userId)])
+
+    return NextResponse.json({
+      goals,
+      summary,
+      accounts: accounts.map(a => ({ id: a.id, name: a.name, type: a.type })),
+      priorities: GOAL_PRIORITIES,
+    })
+  } catch (error) {
+    console.error('Goals error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch goals', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/goals
+ *
+ * Create a goal. Body: { name, targetAmount, targetDate?, accountId? | tag?, priority? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accounts = await getAccounts(userId, true)
+    const { values, error } = validateGoalInput(await request.json(), accounts.map(a => a.id))
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const goal = await insertGoal({ ...values, name: values.name!, targetAmount: values.targetAmount!, userId })
+
+    return NextResponse.json({ success: true, goal })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A goal with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add goal error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create goal', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/goals
+ *
+ * Update a goal. Body: { id, ...fields }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Goal ID is required' }, { status: 400 })
+    }
+
+    const accounts = await getAccounts(userId, true)
+    const { values, error } = validateGoalInput(body, accounts.map(a => a.id), true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existing = await getGoalById(parseInt(body.id), userId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 })
+    }
+
+    const goal = await updateGoal(existing.id, userId, values)
+
+    return NextResponse.json({ success: true, goal })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'A goal with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update goal error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update goal', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/goals?id=123
+ *
+ * Delete a goal.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Goal ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteGoal(parseInt(id), userId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete goal error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete goal', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getImportProfiles,
+  insertImportProfile,
+  updateImportProfile,
+  deleteImportProfile,
+} from '@/lib/db/queries'
+import { validateProfileInput } from '@/lib/import/profiles'
+
+/**
+ * GET /api/import-profiles
+ *
+ * List the user's saved CSV column-mapping profiles.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profiles = await getImportProfiles(userId)
+
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error('Import profiles error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch import profiles', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/import-profiles
+ *
+ * Save a new column-mapping profile.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { values, error } = validateProfileInput(await request.json())
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const profile = await insertImportProfile({ ...values, userId })
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add import profile error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save import profile', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/import-profiles
+ *
+ * Replace the settings of an existing profile. Body: { id, ...profile }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateProfileInput(body)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const profile = await updateImportProfile(parseInt(body.id), userId, values)
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error('Update import profile error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update import profile', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/import-profiles?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteImportProfile(parseInt(id), userId)
+
+    return NextResponse.json({ success: true, deleted })
+  } catch (error) {
+    console.error('Delete import profile error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete import profile', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
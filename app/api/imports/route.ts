@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getImportBatches, getImportBatchById, rollbackImportBatch } from '@/lib/db/queries'
+import { detectRecurringSeries } from '@/lib/recurring'
+
+/**
+ * GET /api/imports
+ *
+ * List the user's past uploads, newest first.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const batches = await getImportBatches(userId)
+
+    return NextResponse.json({
+      imports: batches.map(batch => ({
+        ...batch,
+        methodCounts: JSON.parse(batch.methodCounts || '{}'),
+      })),
+    })
+  } catch (error) {
+    console.error('Import history error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch import history', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/imports?id=
+ *
+ * Roll back an import: deletes the transactions it created and their embeddings.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Import ID is required' }, { status: 400 })
+    }
+
+    const batch = await getImportBatchById(parseInt(id), userId)
+    if (!batch) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+    if (batch.status === 'rolled_back') {
+      return NextResponse.json({ error: 'Import was already rolled back' }, { status: 400 })
+    }
+
+    const deletedCount = await rollbackImportBatch(batch.id, userId)
+    await detectRecurringSeries(userId).catch(err => {
+      console.error('Failed to rescan recurring transactions:', err)
+    })
+
+    return NextResponse.json({
+      success: true,
+      deletedCount,
+      message: `Rolled back "${batch.fileName}": ${deletedCount} transactions deleted`,
+    })
+  } catch (error) {
+    console.error('Rollback import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back import', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
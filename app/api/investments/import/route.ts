@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  ensureAccounts,
+  ensureSecurities,
+  insertNewInvestmentTransactions,
+  insertNewTransactions,
+  updateInvestmentTransaction,
+  upsertHoldings,
+  upsertSecurityPrices,
+} from '@/lib/db/queries'
+import type { NewTransaction } from '@/lib/db/schema'
+import { getTransactionType } from '@/lib/categorization'
+import { batchCategorize } from '@/lib/smartCategorization'
+import { indexUserTransactions } from '@/lib/rag'
+import { prepareBrokerageImport } from '@/lib/import/brokerage'
+import { rebuildLots } from '@/lib/investments'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/investments/import
+ *
+ * Import a brokerage OFX/QFX statement or activity CSV. Form fields:
+ * - file: the statement
+ * - preview: 'true' to return the parsed activity and per-row errors without
+ *   writing anything
+ *
+ * Buys, sells, dividends and fees are recorded against a brokerage account
+ * (created if new), lots are rebuilt, and each new dividend is also recorded
+ * as an income transaction. OFX positions are kept as the brokerage's
+ * reported holdings, and their unit prices go into the price table.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const preview = formData.get('preview') === 'true'
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const prepared = prepareBrokerageImport(await file.text())
+    if (prepared.error) {
+      return NextResponse.json(
+        { error: prepared.error, details: prepared.details },
+        { status: 400 }
+      )
+    }
+
+    const validRows = prepared.rows.filter(r => r.errors.length === 0)
+    const invalidRows = prepared.rows.filter(r => r.errors.length > 0)
+
+    if (preview) {
+      return NextResponse.json({
+        preview: true,
+        format: prepared.format,
+        summary: {
+          total: prepared.rows.length,
+          valid: validRows.length,
+          invalid: invalidRows.length,
+          positions: prepared.positions.length,
+        },
+        rows: prepared.rows.map(({ fingerprint, ...row }) => row),
+        errors: prepared.fileErrors.length > 0 ? prepared.fileErrors : undefined,
+      })
+    }
+
+    const errors: string[] = [
+      ...prepared.fileErrors,
+      ...invalidRows.map(r => `Skipping row ${r.line}: ${r.errors.join(', ')}`),
+    ]
+
+    const accountIds = await ensureAccounts(userId, [
+      ...validRows.map(r => ({ name: r.account, type: 'brokerage' as const })),
+      ...prepared.positions.map(p => ({ name: p.account, type: 'brokerage' as const })),
+    ])
+    const usedSymbols = new Set([...validRows.map(r => r.symbol), ...prepared.positions.map(p => p.symbol)])
+    const securityIds = await ensureSecurities(userId, prepared.securities.filter(s => usedSymbols.has(s.symbol)))
+
+    const inserted = await insertNewInvestmentTransactions(validRows.map(row => ({
+      userId,
+      accountId: accountIds.get(row.account)!,
+      securityId: row.symbol ? securityIds.get(row.symbol) ?? null : null,
+      date: row.date!,
+      type: row.type!,
+      quantity: row.quantity,
+      price: row.price,
+      fees: row.fees,
+      amount: row.amount!,
+      externalId: row.externalId,
+      importFingerprint: row.fingerprint,
+    })))
+    const duplicateCount = validRows.length - inserted.length
+
+    // Dividends count as income: record each new one as a regular transaction
+    const symbols = new Map(Array.from(securityIds.entries()).map(([symbol, id]) => [id, symbol]))
+    const accountNames = new Map(Array.from(accountIds.entries()).map(([name, id]) => [id, name]))
+    const dividends = inserted.filter(t => t.type === 'dividend')
+    let dividendCount = 0
+    if (dividends.length > 0) {
+      try {
+        const descriptions = dividends.map(d => `DIVIDEND ${symbols.get(d.securityId!) || ''}`.trim())
+        const categorizations = await batchCategorize(userId, dividends.map((d, i) => ({
+          description: descriptions[i],
+          amount: d.amount,
+          account: accountNames.get(d.accountId),
+          date: d.date,
+        })))
+        const toInsert: NewTransaction[] = dividends.map((d, i) => ({
+          userId,
+          date: d.date,
+          description: descriptions[i],
+          payee: categorizations[i].payee ?? null,
+          amount: d.amount,
+          category: categorizations[i].category,
+          categoryConfidence: categorizations[i].confidence,
+          categoryMethod: categorizations[i].method,
+          tags: categorizations[i].tags ?? [],
+          transactionType: getTransactionType(d.amount),
+          account: accountNames.get(d.accountId),
+          accountId: d.accountId,
+          importFingerprint: d.importFingerprint,
+        }))
+        const income = await insertNewTransactions(toInsert)
+        const byFingerprint = new Map(income.map(t => [t.importFingerprint, t.id]))
+        for (const dividend of dividends) {
+          const transactionId = byFingerprint.get(dividend.importFingerprint)
+          if (transactionId === undefined) continue
+          await updateInvestmentTransaction(dividend.id, userId, { transactionId })
+          dividendCount++
+        }
+      } catch (error) {
+        errors.push(`Error recording dividend income: ${error}`)
+      }
+    }
+
+    // Reported positions, and their prices, as of the statement date
+    const positions = prepared.positions.filter(p => securityIds.has(p.symbol) && accountIds.has(p.account))
+    await upsertHoldings(positions.map(p => ({
+      userId,
+      accountId: accountIds.get(p.account)!,
+      securityId: securityIds.get(p.symbol)!,
+      quantity: p.quantity,
+      asOf: p.asOf,
+    })))
+    const prices = new Map(positions
+      .filter(p => p.price > 0)
+      .map(p => [`${p.symbol}|${p.asOf}`, { userId, securityId: securityIds.get(p.symbol)!, date: p.asOf, price: p.price }]))
+    const priceCount = await upsertSecurityPrices(Array.from(prices.values()))
+
+    await rebuildLots(userId)
+
+    if (dividendCount > 0) {
+      indexUserTransactions(userId).catch(err => {
+        console.error('Failed to index transactions for RAG:', err)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${inserted.length} new, ${duplicateCount} duplicates skipped`,
+      processedCount: inserted.length,
+      duplicateCount,
+      dividendCount,
+      positionCount: positions.length,
+      priceCount,
+      format: prepared.format,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Brokerage import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import brokerage statement', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getInvestmentTransactions, updateInvestmentTransaction } from '@/lib/db/queries'
+import { lotsOpenBefore, parseLotSelections, rebuildLots, validateLotSelectionInput } from '@/lib/investments'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/investments/lots?sellId=123
+ *
+ * Get the lots a sell could close (those open just before it) and the ones
+ * it's currently set to close
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sellId = searchParams.get('sellId')
+    if (!sellId) {
+      return NextResponse.json({ error: 'Sell ID is required' }, { status: 400 })
+    }
+
+    const activity = await getInvestmentTransactions(userId)
+    const sell = activity.find(t => t.id === parseInt(sellId) && t.type === 'sell')
+    if (!sell) {
+      return NextResponse.json({ error: 'Sell not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      sell: { id: sell.id, date: sell.date, quantity: sell.quantity, method: sell.costBasisMethod },
+      selections: parseLotSelections(sell.lotSelections),
+      lots: lotsOpenBefore(sell, activity).map(lot => ({
+        buyId: lot.buyId,
+        openDate: lot.openDate,
+        available: lot.remainingQuantity,
+        costBasis: lot.costBasis,
+      })),
+    })
+  } catch (error) {
+    console.error('Get lots error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get lots', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/investments/lots
+ *
+ * Pick the lots a sell closes (specific lot), or put it back to oldest
+ * first. Lots and gains after it are worked out again.
+ * Body: { sellId, method: 'fifo' | 'specific', lots?: [{ buyId, quantity }] }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const activity = await getInvestmentTransactions(userId)
+    const sell = activity.find(t => t.id === parseInt(body.sellId))
+    if (!sell) {
+      return NextResponse.json({ error: 'Sell not found' }, { status: 404 })
+    }
+
+    const { values, error } = validateLotSelectionInput(body, sell, activity)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    await updateInvestmentTransaction(sell.id, userId, values)
+    await rebuildLots(userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Update lots error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update lots', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
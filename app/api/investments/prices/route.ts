@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getSecurities, upsertSecurityPrices } from '@/lib/db/queries'
+import { parsePriceCSV } from '@/lib/import/brokerage'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/investments/prices
+ *
+ * Load closing prices into the local price table, replacing any already
+ * loaded for the same security and date. Either a form with a CSV `file`
+ * (symbol, date and price columns) or a JSON body { securityId, date, price }.
+ * Prices for symbols the user doesn't hold are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const securities = await getSecurities(userId)
+    const errors: string[] = []
+    let rows: Array<{ securityId: number; date: string; price: number }> = []
+
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+
+      const parsed = parsePriceCSV(await file.text())
+      if (parsed.prices.length === 0) {
+        return NextResponse.json(
+          { error: 'No prices found in file', details: parsed.errors },
+          { status: 400 }
+        )
+      }
+      errors.push(...parsed.errors)
+
+      const bySymbol = new Map(securities.map(s => [s.symbol, s.id]))
+      const unknown = new Set<string>()
+      for (const price of parsed.prices) {
+        const securityId = bySymbol.get(price.symbol)
+        if (securityId === undefined) {
+          unknown.add(price.symbol)
+          continue
+        }
+        rows.push({ securityId, date: price.date, price: price.price })
+      }
+      if (unknown.size > 0) {
+        errors.push(`Skipped prices for symbols not in your portfolio: ${Array.from(unknown).join(', ')}`)
+      }
+    } else {
+      const body = await request.json()
+      const security = securities.find(s => s.id === parseInt(body.securityId))
+      if (!security) {
+        return NextResponse.json({ error: 'Security not found' }, { status: 404 })
+      }
+      const price = Number(body.price)
+      if (body.price === undefined || body.price === null || !Number.isFinite(price) || price < 0) {
+        return NextResponse.json({ error: 'price must be a number of 0 or more' }, { status: 400 })
+      }
+      if (typeof body.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.date) || isNaN(Date.parse(body.date))) {
+        return NextResponse.json({ error: 'date must be a date like 2024-01-31' }, { status: 400 })
+      }
+      rows = [{ securityId: security.id, date: body.date, price }]
+    }
+
+    // The last price in the file wins when a security and date repeat
+    const unique = new Map(rows.map(r => [`${r.securityId}|${r.date}`, { ...r, userId }]))
+    const loadedCount = await upsertSecurityPrices(Array.from(unique.values()))
+
+    return NextResponse.json({
+      success: true,
+      loadedCount,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Load prices error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load prices', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { updateSecurity } from '@/lib/db/queries'
+import { ASSET_CLASSES } from '@/lib/db/schema'
+import { getPortfolio, validateSecurityInput } from '@/lib/investments'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/investments
+ *
+ * Get the user's portfolio: positions with their lots, valued at the latest
+ * loaded prices, allocation by asset class, realized gains and dividends
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portfolio = await getPortfolio(userId)
+
+    return NextResponse.json({ ...portfolio, assetClasses: ASSET_CLASSES })
+  } catch (error) {
+    console.error('Get portfolio error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get portfolio', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/investments
+ *
+ * Rename a security or change its asset class.
+ * Body: { id, name?, assetClass? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Security ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateSecurityInput(body)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const security = await updateSecurity(parseInt(body.id), userId, values)
+    if (!security) {
+      return NextResponse.json({ error: 'Security not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, security })
+  } catch (error) {
+    console.error('Update security error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update security', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getMerchantById, getMerchantsByIds, mergeMerchants } from '@/lib/db/queries'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/merchants/merge
+ *
+ * Merge merchants into one. Body: { targetId, sourceIds }
+ * The target keeps its name and settings and takes over the others' aliases
+ * and transactions; the others are deleted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { targetId, sourceIds } = await request.json()
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return NextResponse.json({ error: 'targetId and a non-empty sourceIds array are required' }, { status: 400 })
+    }
+
+    const target = await getMerchantById(parseInt(targetId), userId)
+    if (!target) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+
+    const ids = sourceIds.map((id: unknown) => parseInt(String(id))).filter((id: number) => id !== target.id)
+    const sources = await getMerchantsByIds(ids, userId)
+    if (sources.length === 0 || sources.length !== ids.length) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+
+    const merchant = await mergeMerchants(userId, target, sources)
+
+    return NextResponse.json({ success: true, merchant, merged: sources.length })
+  } catch (error) {
+    console.error('Merge merchants error:', error)
+    return NextResponse.json(
+      { error: 'Failed to merge merchants', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
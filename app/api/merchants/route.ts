@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getMerchantsWithStats,
+  getMerchantById,
+  updateMerchant,
+  applyMerchantCategory,
+  getUserCategoryNames,
+} from '@/lib/db/queries'
+import { linkTransactionMerchants, validateMerchantInput } from '@/lib/merchants'
+import { invalidateLocalModel } from '@/lib/smartCategorization'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/merchants
+ *
+ * List the user's merchants with their aliases and spending, biggest first.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Transactions imported before merchants existed only carry a description
+    await linkTransactionMerchants(userId)
+
+    const [merchants, categories] = await Promise.all([getMerchantsWithStats(userId), getUserCategoryNames(userId)])
+
+    return NextResponse.json({
+      merchants: merchants.map(m => ({
+        id: m.id,
+        name: m.name,
+        aliases: m.aliases,
+        defaultCategory: m.defaultCategory,
+        logoUrl: m.logoUrl,
+        website: m.website,
+        transactionCount: m.transactionCount,
+        totalSpent: m.totalSpent,
+        lastDate: m.lastDate,
+      })),
+      categories,
+    })
+  } catch (error) {
+    console.error('Merchants error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch merchants', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/merchants
+ *
+ * Update a merchant. Body: { id, name?, defaultCategory?, logoUrl?, website?, applyToExisting? }
+ * With applyToExisting, the default category is also set on the merchant's
+ * transactions, except those the user categorized by hand.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Merchant ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateMerchantInput(body, true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+    if (values.defaultCategory) {
+      const categories = await getUserCategoryNames(userId)
+      if (!categories.includes(values.defaultCategory)) {
+        return NextResponse.json(
+          { error: `Invalid category. Available categories: ${categories.join(', ')}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const existing = await getMerchantById(parseInt(body.id), userId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+
+    const merchant = await updateMerchant(existing.id, userId, values)
+    if (!merchant) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+
+    let applied = 0
+    if (body.applyToExisting && merchant.defaultCategory) {
+      applied = await applyMerchantCategory(userId, merchant.id, merchant.defaultCategory)
+      if (applied > 0) invalidateLocalModel(userId)
+    }
+
+    return NextResponse.json({ success: true, merchant, applied })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A merchant with this name already exists. Merge them instead.' },
+        { status: 400 }
+      )
+    }
+    console.error('Update merchant error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update merchant', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getMerchantById } from '@/lib/db/queries'
+import { splitMerchant } from '@/lib/merchants'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/merchants/split
+ *
+ * Split aliases off a merchant into a new one. Body: { id, aliases, name }
+ * Transactions whose description maps to those aliases move to the new merchant.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, aliases, name } = await request.json()
+    if (!id || !Array.isArray(aliases) || aliases.length === 0) {
+      return NextResponse.json({ error: 'id and a non-empty aliases array are required' }, { status: 400 })
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 })
+    }
+
+    const merchant = await getMerchantById(parseInt(id), userId)
+    if (!merchant) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+    if (aliases.some((alias: unknown) => !merchant.aliases.includes(String(alias)))) {
+      return NextResponse.json({ error: `Aliases must belong to ${merchant.name}` }, { status: 400 })
+    }
+    if (aliases.length >= merchant.aliases.length) {
+      return NextResponse.json({ error: 'Leave at least one alias on the original merchant' }, { status: 400 })
+    }
+
+    const result = await splitMerchant(userId, merchant, aliases.map(String), name.trim())
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A merchant with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Split merchant error:', error)
+    return NextResponse.json(
+      { error: 'Failed to split merchant', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
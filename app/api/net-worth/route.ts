@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getManualAssets,
+  getManualAssetById,
+  getAssetValuations,
+  insertManualAsset,
+  updateManualAsset,
+  deleteManualAsset,
+} from '@/lib/db/queries'
+import { getNetWorth, netWorthChange, validateManualAssetInput } from '@/lib/netWorth'
+import { MANUAL_ASSET_TYPES, type ManualAssetKind } from '@/lib/db/schema'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/net-worth
+ *
+ * Today's balance sheet (accounts plus manual assets and liabilities), the
+ * month-end net worth history, the change since the start of the year, and
+ * the manual assets with their valuations.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [{ current, history }, assets, valuations] = await Promise.all([
+      getNetWorth(userId),
+      getManualAssets(userId),
+      getAssetValuations(userId),
+    ])
+
+    return NextResponse.json({
+      current,
+      history,
+      yearToDate: netWorthChange(history, `${current.date.slice(0, 4)}-01-01`),
+      manualAssets: assets.map(asset => ({
+        ...asset,
+        valuations: valuations.filter(v => v.assetId === asset.id).reverse(), // Newest first
+      })),
+      assetTypes: MANUAL_ASSET_TYPES,
+    })
+  } catch (error) {
+    console.error('Net worth error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch net worth', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/net-worth
+ *
+ * Add a manual asset or liability with its current value.
+ * Body: { name, kind: 'asset' | 'liability', type?, value, date?, note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = validateManualAssetInput(await request.json())
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const { values, valuation } = result
+    const asset = await insertManualAsset(
+      { ...values, name: values.name!, kind: values.kind!, userId },
+      valuation!
+    )
+
+    return NextResponse.json({ success: true, asset })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'An asset or liability with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add manual asset error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add asset', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/net-worth
+ *
+ * Rename a manual asset or change its type. Body: { id, name?, type? }
+ * Values are changed by recording a valuation.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Asset ID is required' }, { status: 400 })
+    }
+
+    const existing = await getManualAssetById(parseInt(body.id), userId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const { values, error } = validateManualAssetInput(body, true, existing.kind as ManualAssetKind)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const asset = await updateManualAsset(existing.id, userId, values)
+
+    return NextResponse.json({ success: true, asset })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'An asset or liability with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update manual asset error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update asset', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/net-worth?id=123
+ *
+ * Delete a manual asset and its valuations.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Asset ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteManualAsset(parseInt(id), userId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete manual asset error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete asset', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getManualAssetById, upsertAssetValuation, deleteAssetValuation } from '@/lib/db/queries'
+import { validateValuationInput } from '@/lib/netWorth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/net-worth/valuations
+ *
+ * Record what a manual asset is worth (or a liability owes) on a date,
+ * replacing any valuation already on that date.
+ * Body: { assetId, value, date?, note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const asset = body.assetId ? await getManualAssetById(parseInt(body.assetId), userId) : undefined
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const { values, error } = validateValuationInput(body)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const valuation = await upsertAssetValuation({ ...values, assetId: asset.id, userId })
+
+    return NextResponse.json({ success: true, valuation })
+  } catch (error) {
+    console.error('Add valuation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record valuation', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/net-worth/valuations?id=123
+ *
+ * Delete a valuation. An asset always keeps at least one.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Valuation ID is required' }, { status: 400 })
+    }
+
+    const result = await deleteAssetValuation(parseInt(id), userId)
+    if (result === 'not_found') {
+      return NextResponse.json({ error: 'Valuation not found' }, { status: 404 })
+    }
+    if (result === 'last') {
+      return NextResponse.json(
+        { error: 'This is the only valuation; delete the asset instead' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete valuation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete valuation', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getActiveNotifications, dismissNotification, snoozeNotification } from '@/lib/db/queries'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_SNOOZE_DAYS = 7
+
+/**
+ * GET /api/notifications
+ *
+ * List the user's notifications that aren't dismissed or snoozed.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const notifications = await getActiveNotifications(userId)
+
+    return NextResponse.json({ notifications })
+  } catch (error) {
+    console.error('Notifications error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ *
+ * Dismiss or snooze a notification.
+ * Body: { id, action: 'dismiss' } or { id, action: 'snooze', days? } (default 7 days)
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, action, days } = await request.json()
+    if (!id) {
+      return NextResponse.json({ error: 'Notification ID is required' }, { status: 400 })
+    }
+
+    let notification
+    if (action === 'dismiss') {
+      notification = await dismissNotification(parseInt(id), userId)
+    } else if (action === 'snooze') {
+      const snoozeDays = days === undefined ? DEFAULT_SNOOZE_DAYS : Number(days)
+      if (!Number.isFinite(snoozeDays) || snoozeDays <= 0 || snoozeDays > 365) {
+        return NextResponse.json({ error: 'days must be between 1 and 365' }, { status: 400 })
+      }
+      notification = await snoozeNotification(parseInt(id), userId, new Date(Date.now() + snoozeDays * 86_400_000))
+    } else {
+      return NextResponse.json({ error: "action must be 'dismiss' or 'snooze'" }, { status: 400 })
+    }
+
+    if (!notification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, notification })
+  } catch (error) {
+    console.error('Update notification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
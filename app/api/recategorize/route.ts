@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { db, transactions } from '@/lib/db'
-import { eq, and, inArray } from 'drizzle-orm'
-import { smartCategorize, batchCategorize, normalizeMerchant, CATEGORIES } from '@/lib/smartCategorization'
+import { eq, and, or, ne, isNull, inArray } from 'drizzle-orm'
+import { applyRuleActions, getUserCategoryNames } from '@/lib/db/queries'
+import { smartCategorize, batchCategorize, normalizeMerchant } from '@/lib/smartCategorization'
 
 /**
  * POST /api/recategorize
  * 
  * Recategorize transactions using the smart categorization system.
  * Supports single transaction, batch, or all uncategorized.
+ * Categories the user set or confirmed and linked transfers are left alone
+ * unless the body sets overrideUserCategories: true.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -18,19 +21,36 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { transactionIds, recategorizeAll, onlyOther } = body
-
-    let txnsToProcess: Array<{ id: number; description: string }> = []
+    const { transactionIds, recategorizeAll, onlyOther, overrideUserCategories } = body
+
+    // Hand-set categories and the 'Transfer' category of linked pairs are kept by default
+    const protectedCondition = overrideUserCategories === true
+      ? undefined
+      : and(
+          or(isNull(transactions.categoryMethod), ne(transactions.categoryMethod, 'user')),
+          eq(transactions.isTransfer, false)
+        )
+
+    let txnsToProcess: Array<{
+      id: number
+      description: string
+      amount: number
+      account: string | null
+      date: string
+    }> = []
 
     if (recategorizeAll) {
       // Get all transactions (optionally only those categorized as "Other")
       const whereCondition = onlyOther
-        ? and(eq(transactions.userId, userId), eq(transactions.category, 'Other'))
-        : eq(transactions.userId, userId)
+        ? and(eq(transactions.userId, userId), eq(transactions.category, 'Other'), protectedCondition)
+        : and(eq(transactions.userId, userId), protectedCondition)
 
       const allTxns = await db.select({
         id: transactions.id,
         description: transactions.description,
+        amount: transactions.amount,
+        account: transactions.account,
+        date: transactions.date,
       })
         .from(transactions)
         .where(whereCondition)
@@ -41,11 +61,15 @@ export async function POST(request: NextRequest) {
       const selectedTxns = await db.select({
         id: transactions.id,
         description: transactions.description,
+        amount: transactions.amount,
+        account: transactions.account,
+        date: transactions.date,
       })
         .from(transactions)
         .where(and(
           eq(transactions.userId, userId),
-          inArray(transactions.id, transactionIds)
+          inArray(transactions.id, transactionIds),
+          protectedCondition
         ))
 
       txnsToProcess = selectedTxns
@@ -65,8 +89,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Batch categorize for efficiency
-    const descriptions = txnsToProcess.map(t => t.description)
-    const results = await batchCategorize(descriptions)
+    const results = await batchCategorize(userId, txnsToProcess)
 
     // Update transactions with new categories
     let updated = 0
@@ -77,10 +100,8 @@ export async function POST(request: NextRequest) {
       const result = results[i]
 
       // Update the transaction
-      const [updatedTxn] = await db.update(transactions)
-        .set({ category: result.category })
-        .where(and(eq(transactions.id, txn.id), eq(transactions.userId, userId)))
-        .returning({ id: transactions.id, category: transactions.category })
+      // Rule actions can also add tags, rename the payee or mark a transfer
+      const updatedTxn = await applyRuleActions(userId, txn.id, result)
 
       if (updatedTxn) {
         updated++
@@ -125,12 +146,12 @@ export async function GET(request: NextRequest) {
     if (!description) {
       // Return available categories
       return NextResponse.json({
-        categories: CATEGORIES,
+        categories: await getUserCategoryNames(userId),
       })
     }
 
     // Preview categorization for a single description
-    const result = await smartCategorize(description)
+    const result = await smartCategorize(userId, description)
 
     return NextResponse.json({
       description,
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getUserCategoryNames } from '@/lib/db/queries'
+import { getReviewQueue, resolveReviewGroup } from '@/lib/reviewQueue'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/review
+ *
+ * The "Needs review" inbox: 'Other' and low/medium-confidence transactions
+ * grouped by normalized merchant, largest groups first.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [groups, categories] = await Promise.all([getReviewQueue(userId), getUserCategoryNames(userId)])
+
+    return NextResponse.json({
+      groups,
+      total: groups.reduce((sum, g) => sum + g.count, 0),
+      categories,
+    })
+  } catch (error) {
+    console.error('Review queue error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch review queue', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/review
+ *
+ * Approve or correct a merchant group in one action.
+ * Body: { merchant, transactionIds, category, createRule? }
+ * With createRule, a rule for the merchant is created and applied to the rest
+ * of that merchant's transactions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { merchant, transactionIds, category, createRule } = await request.json()
+
+    if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
+      return NextResponse.json({ error: 'transactionIds must be a non-empty array' }, { status: 400 })
+    }
+    const categories = await getUserCategoryNames(userId)
+    if (!categories.includes(category)) {
+      return NextResponse.json(
+        { error: `Invalid category. Available categories: ${categories.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (createRule && (typeof merchant !== 'string' || !merchant.trim())) {
+      return NextResponse.json({ error: 'merchant is required to create a rule' }, { status: 400 })
+    }
+
+    const result = await resolveReviewGroup(
+      userId,
+      transactionIds.map((id: unknown) => parseInt(String(id))).filter(Number.isInteger),
+      merchant || '',
+      category,
+      Boolean(createRule)
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Review resolve error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review group', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
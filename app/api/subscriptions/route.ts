@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { detectRecurringSeries, getSubscriptions, type Subscription } from '@/lib/recurring'
+import { detectSubscriptionAlerts } from '@/lib/subscriptionAlerts'
+
+export const dynamic = 'force-dynamic'
+
+function summarize(subscriptions: Subscription[]) {
+  const active = subscriptions.filter(s => s.status === 'active')
+  const annualTotal = active.reduce((sum, s) => sum + s.annualCost, 0)
+  return {
+    subscriptions,
+    activeCount: active.length,
+    cancelledCount: subscriptions.length - active.length,
+    annualTotal: Math.round(annualTotal * 100) / 100,
+    monthlyTotal: Math.round((annualTotal / 12) * 100) / 100,
+  }
+}
+
+/**
+ * GET /api/subscriptions
+ *
+ * List recurring charges with their annualized cost. Ones whose next charge
+ * is well overdue are marked cancelled.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const subscriptions = await getSubscriptions(userId)
+
+    return NextResponse.json(summarize(subscriptions))
+  } catch (error) {
+    console.error('Subscriptions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch subscriptions', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/subscriptions
+ *
+ * Rescan the user's transactions for recurring series and raise any new
+ * subscription alerts, then list subscriptions.
+ */
+export async function POST() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const series = await detectRecurringSeries(userId)
+    const alerts = await detectSubscriptionAlerts(userId)
+    const subscriptions = await getSubscriptions(userId)
+
+    return NextResponse.json({ ...summarize(subscriptions), seriesCount: series.length, alertCount: alerts.length })
+  } catch (error) {
+    console.error('Detect subscriptions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to detect subscriptions', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
-import { db, transactions } from '@/lib/db'
+import { db, transactions, transactionAllocations } from '@/lib/db'
 import { 
   getTransactionCount, 
   deleteTransaction as deleteTransactionQuery, 
   clearTransactions,
-  updateTransaction as updateTransactionQuery 
+  updateTransaction as updateTransactionQuery,
+  getSplitsForTransactions,
+  getUserCategories,
 } from '@/lib/db/queries'
-import { eq, and, gte, lte, like, desc, asc, sql } from 'drizzle-orm'
+import { eq, and, gte, lte, like, desc, asc, sql, inArray } from 'drizzle-orm'
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,9 +34,16 @@ export async function GET(request: NextRequest) {
 
     // Build conditions array for Drizzle query
     const conditions = [eq(transactions.userId, userId)]
+    const userCategories = await getUserCategories(userId)
 
     if (category) {
-      conditions.push(eq(transactions.category, category))
+      // A parent category also matches its subcategories, and split
+      // transactions match on any of their allocations
+      const parent = userCategories.find(c => c.name === category)
+      const names = [category, ...userCategories.filter(c => parent && c.parentId === parent.id).map(c => c.name)]
+      conditions.push(sql`(${inArray(transactions.category, names)} OR EXISTS (
+        SELECT 1 FROM transaction_splits s WHERE s.transaction_id = ${transactions.id} AND s.category IN ${names}
+      ))`)
     }
 
     if (startDate) {
@@ -75,18 +84,26 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset)
 
-    // Get available categories for filtering (user-specific)
-    const categoriesResult = await db.selectDistinct({ category: transactions.category })
-      .from(transactions)
-      .where(eq(transactions.userId, userId))
-      .orderBy(asc(transactions.category))
+    // Attach split allocations to the transactions on this page
+    const splitsByTransaction = await getSplitsForTransactions(userId, transactionResults.map(t => t.id))
+
+    // Get available categories: the user's set plus any others still in use
+    // (user-specific, including split allocations)
+    const categoriesResult = await db.selectDistinct({ category: transactionAllocations.category })
+      .from(transactionAllocations)
+      .where(eq(transactionAllocations.userId, userId))
+      .orderBy(asc(transactionAllocations.category))
+    const categories = Array.from(new Set([
+      ...userCategories.map(c => c.name),
+      ...categoriesResult.map(c => c.category).filter((c): c is string => !!c),
+    ])).sort()
 
     return NextResponse.json({
-      transactions: transactionResults,
+      transactions: transactionResults.map(t => ({ ...t, splits: splitsByTransaction.get(t.id) || [] })),
       total: Number(countResult?.total || 0),
       limit,
       offset,
-      categories: categoriesResult.map(c => c.category),
+      categories,
     })
   } catch (error) {
     console.error('Transactions error:', error)
@@ -164,10 +181,13 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    const updates: Partial<{ category: string; description: string }> = {}
+    const updates: Partial<{ category: string; categoryMethod: string; categoryConfidence: string; description: string }> = {}
 
     if (category !== undefined) {
+      // A category set by hand is final and leaves the review queue
       updates.category = category
+      updates.categoryMethod = 'user'
+      updates.categoryConfidence = 'high'
     }
 
     if (description !== undefined) {
@@ -188,11 +208,17 @@ export async function PATCH(request: NextRequest) {
     let ruleCreated = false
     let rulePattern: string | undefined
     
+    if (result && category !== undefined) {
+      // Import dynamically to avoid circular deps
+      const { invalidateLocalModel } = await import('@/lib/smartCategorization')
+      // The correction is new training data for the local classifier
+      invalidateLocalModel(userId)
+    }
+
     if (result && category !== undefined && learnFromCorrection) {
       try {
-        // Import dynamically to avoid circular deps
         const { learnFromCorrection: learn } = await import('@/lib/smartCategorization')
-        const learningResult = await learn(result.description, category, true)
+        const learningResult = await learn(userId, result.description, category, true)
         ruleCreated = learningResult.ruleCreated
         rulePattern = learningResult.pattern
       } catch (e) {
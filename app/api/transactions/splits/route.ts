@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getTransactionById, getSplits, replaceSplits, deleteSplits } from '@/lib/db/queries'
+import { validateSplits } from '@/lib/splits'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/transactions/splits?transactionId=
+ *
+ * List a transaction's split allocations.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const transactionId = searchParams.get('transactionId')
+
+    if (!transactionId) {
+      return NextResponse.json({ error: 'transactionId is required' }, { status: 400 })
+    }
+
+    const splits = await getSplits(parseInt(transactionId), userId)
+
+    return NextResponse.json({ splits })
+  } catch (error) {
+    console.error('Splits error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch splits', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/transactions/splits
+ *
+ * Create or replace a transaction's splits.
+ * Body: { transactionId, splits: [{ category, amount, memo? }] }
+ * The allocations must add up to the transaction amount.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.transactionId) {
+      return NextResponse.json({ error: 'transactionId is required' }, { status: 400 })
+    }
+
+    const transaction = await getTransactionById(parseInt(body.transactionId), userId)
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+    if (transaction.isTransfer) {
+      return NextResponse.json({ error: 'Transfers cannot be split' }, { status: 400 })
+    }
+
+    const { splits, error } = validateSplits(transaction.amount, body.splits)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const saved = await replaceSplits(transaction.id, splits)
+
+    return NextResponse.json({
+      success: true,
+      splits: saved,
+      message: `Split into ${saved.length} allocations`,
+    })
+  } catch (error) {
+    console.error('Save splits error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save splits', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/transactions/splits?transactionId=
+ *
+ * Remove a transaction's splits so it counts under its own category again.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const transactionId = searchParams.get('transactionId')
+
+    if (!transactionId) {
+      return NextResponse.json({ error: 'transactionId is required' }, { status: 400 })
+    }
+
+    const removed = await deleteSplits(parseInt(transactionId), userId)
+
+    return NextResponse.json({ success: true, removed })
+  } catch (error) {
+    console.error('Delete splits error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete splits', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getTransferPairs,
+  getTransactionById,
+  linkTransferPair,
+  unlinkTransferPair,
+} from '@/lib/db/queries'
+import { detectTransfers } from '@/lib/transfers'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/transfers
+ *
+ * List linked transfer pairs.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const transfers = await getTransferPairs(userId)
+
+    return NextResponse.json({ transfers })
+  } catch (error) {
+    console.error('Transfers error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch transfers', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/transfers
+ *
+ * With no body (or { windowDays }): detect and link transfers automatically.
+ * With { outflowId, inflowId }: link two transactions manually. Like automatic
+ * matching, the two must be in different accounts and have opposite signs.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    if (body.outflowId !== undefined || body.inflowId !== undefined) {
+      const [outflow, inflow] = await Promise.all([
+        getTransactionById(parseInt(body.outflowId), userId),
+        getTransactionById(parseInt(body.inflowId), userId),
+      ])
+      if (!outflow || !inflow) {
+        return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+      }
+      if (outflow.amount >= 0 || inflow.amount <= 0) {
+        return NextResponse.json(
+          { error: 'outflowId must be negative and inflowId positive' },
+          { status: 400 }
+        )
+      }
+      if (outflow.accountId === null || inflow.accountId === null || outflow.accountId === inflow.accountId) {
+        return NextResponse.json(
+          { error: 'A transfer must move money between two different accounts' },
+          { status: 400 }
+        )
+      }
+      if (outflow.isTransfer || inflow.isTransfer) {
+        return NextResponse.json(
+          { error: 'Transaction is already part of a transfer' },
+          { status: 400 }
+        )
+      }
+
+      await linkTransferPair(userId, outflow.id, inflow.id)
+      return NextResponse.json({ success: true, linked: 1 })
+    }
+
+    const windowDays = body.windowDays !== undefined ? Number(body.windowDays) : undefined
+    if (windowDays !== undefined && (!Number.isFinite(windowDays) || windowDays < 0 || windowDays > 14)) {
+      return NextResponse.json({ error: 'windowDays must be between 0 and 14' }, { status: 400 })
+    }
+
+    const matches = await detectTransfers(userId, windowDays)
+
+    return NextResponse.json({
+      success: true,
+      linked: matches.length,
+      matches,
+      message: `Linked ${matches.length} transfer${matches.length !== 1 ? 's' : ''}`,
+    })
+  } catch (error) {
+    console.error('Detect transfers error:', error)
+    return NextResponse.json(
+      { error: 'Failed to link transfers', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/transfers?id=
+ *
+ * Unlink the transfer a transaction belongs to (both sides).
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Transaction ID is required' }, { status: 400 })
+    }
+
+    const unlinked = await unlinkTransferPair(userId, parseInt(id))
+
+    return NextResponse.json({ success: true, unlinked })
+  } catch (error) {
+    console.error('Unlink transfer error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlink transfer', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
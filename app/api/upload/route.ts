@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
-import Papa from 'papaparse'
-import { insertTransaction, clearTransactions } from '@/lib/db/queries'
-import { getTransactionType, parseDate, parseAmount } from '@/lib/categorization'
-import { batchCategorize, CategorizationResult } from '@/lib/smartCategorization'
+import { insertNewTransactions, clearTransactions, insertImportBatch, updateImportBatch, ensureAccounts, linkUnassignedTransactions, getUserCategoryNames } from '@/lib/db/queries'
+import type { NewTransaction } from '@/lib/db/schema'
+import { getTransactionType } from '@/lib/categorization'
 import { indexUserTransactions } from '@/lib/rag'
+import { prepareImport } from '@/lib/import'
+import { detectTransfers } from '@/lib/transfers'
+import { resolveMerchantIds } from '@/lib/merchants'
+import { detectRecurringSeries } from '@/lib/recurring'
+import { detectSubscriptionAlerts } from '@/lib/subscriptionAlerts'
 
+/**
+ * POST /api/upload
+ *
+ * Import a CSV or OFX/QFX statement. Form fields:
+ * - file: the statement
+ * - clearExisting: 'true' to delete the user's transactions first
+ * - profileId: CSV import profile to use instead of matching by header row
+ * - preview: 'true' to return parsed rows, proposed categories, duplicates and
+ *   per-row errors without writing anything
+ * - categoryOverrides: JSON { [fingerprint]: category } from the review table
+ */
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
@@ -20,6 +35,9 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const file = formData.get('file') as File
     const clearExisting = formData.get('clearExisting') === 'true'
+    const profileId = formData.get('profileId') as string | null
+    const preview = formData.get('preview') === 'true'
+    const overridesField = formData.get('categoryOverrides') as string | null
 
     if (!file) {
       return NextResponse.json(
@@ -28,101 +46,182 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let categoryOverrides: Record<string, string> = {}
+    if (overridesField) {
+      try {
+        categoryOverrides = JSON.parse(overridesField)
+      } catch {
+        return NextResponse.json(
+          { error: 'categoryOverrides must be a JSON object' },
+          { status: 400 }
+        )
+      }
+    }
+
     const text = await file.text()
 
-    // Parse CSV
-    const result = Papa.parse(text, {
-      header: true,
-      skipEmptyLines: true,
+    // Parse, validate, de-duplicate and categorize without writing anything
+    const prepared = await prepareImport(userId, text, {
+      profileId: profileId ? parseInt(profileId) : undefined,
+      ignoreExisting: clearExisting,
     })
 
-    if (result.errors.length > 0) {
+    if (prepared.error) {
       return NextResponse.json(
-        { error: 'Error parsing CSV', details: result.errors },
+        { error: prepared.error, details: prepared.details },
         { status: 400 }
       )
     }
 
+    const newRows = prepared.rows.filter(r => r.errors.length === 0 && !r.duplicate)
+    const duplicateRows = prepared.rows.filter(r => r.duplicate)
+    const invalidRows = prepared.rows.filter(r => r.errors.length > 0)
+    const profile = prepared.profile ? { id: prepared.profile.id, name: prepared.profile.name } : null
+    const categories = await getUserCategoryNames(userId)
+
+    // Dry run: return everything the review table needs
+    if (preview) {
+      return NextResponse.json({
+        preview: true,
+        format: prepared.format,
+        profile,
+        headers: prepared.format === 'csv' ? prepared.headers : undefined,
+        categories,
+        summary: {
+          total: prepared.rows.length,
+          new: newRows.length,
+          duplicates: duplicateRows.length,
+          invalid: invalidRows.length,
+        },
+        rows: prepared.rows.map(row => ({
+          line: row.line,
+          date: row.date,
+          rawDate: row.rawDate,
+          description: row.description,
+          amount: row.amount,
+          rawAmount: row.rawAmount,
+          account: row.account,
+          fingerprint: row.fingerprint,
+          duplicate: row.duplicate,
+          errors: row.errors,
+          category: row.categorization?.category ?? null,
+          method: row.categorization?.method ?? null,
+          confidence: row.categorization?.confidence ?? null,
+          payee: row.categorization?.payee ?? null,
+          tags: row.categorization?.tags ?? [],
+        })),
+        errors: prepared.fileErrors.length > 0 ? prepared.fileErrors : undefined,
+      })
+    }
+
+    let processedCount = 0
+    let duplicateCount = duplicateRows.length
+    const errors: string[] = [
+      ...prepared.fileErrors,
+      ...invalidRows.map(r => `Skipping row ${r.line}: ${r.errors.join(', ')}`),
+    ]
+
     // Clear existing transactions for this user if requested
     if (clearExisting) {
       await clearTransactions(userId)
     }
 
-    let processedCount = 0
-    const errors: string[] = []
+    // Categories edited in the review table win over the proposed ones
+    const categoryFor = (row: typeof newRows[number]): string => {
+      const override = categoryOverrides[row.fingerprint!]
+      return override && categories.includes(override)
+        ? override
+        : row.categorization!.category
+    }
 
-    // First pass: collect all valid rows for batch categorization
-    const validRows: Array<{
-      date: string
-      description: string
-      amount: string | number
-      account: string
-    }> = []
+    // Count categorization methods used
+    const methodCounts = newRows.reduce((acc, r) => {
+      const method = categoryFor(r) !== r.categorization!.category ? 'user' : r.categorization!.method
+      acc[method] = (acc[method] || 0) + 1
+      return acc
+    }, {} as Record<string, number>)
 
-    for (const row of result.data as any[]) {
-      try {
-        const date = row.Date || row.date || row.DATE || 
-                     row['Transaction Date'] || row['Posting Date'] || ''
-        
-        const description = row.Description || row.description || 
-                           row.DESCRIPTION || row.Merchant || row.merchant || 
-                           row.Name || ''
-        
-        const amount = row.Amount || row.amount || row.AMOUNT || 
-                      row.Debit || row.Credit || 0
-
-        if (!date || !description) {
-          errors.push(`Skipping row: missing date or description`)
-          continue
-        }
-
-        validRows.push({
-          date,
-          description: description.trim(),
-          amount,
-          account: row.Account || row.account || 'Default',
-        })
-      } catch (error) {
-        errors.push(`Error processing row: ${error}`)
+    // Record the upload so it can be listed and rolled back later
+    const batch = await insertImportBatch({
+      userId,
+      fileName: file.name || 'upload',
+      format: prepared.format,
+      profileId: prepared.profile?.id ?? null,
+      totalRows: prepared.rows.length,
+      errorCount: invalidRows.length,
+      methodCounts: JSON.stringify(methodCounts),
+    })
+
+    // Link rows to account records, creating accounts seen for the first time
+    const accountIds = await ensureAccounts(userId, newRows.map(r => ({ name: r.account, type: r.accountType })))
+
+    // Link rows to merchants by normalized description, creating new ones as needed
+    const merchantIds = await resolveMerchantIds(userId, newRows.map(r => r.description))
+
+    const toInsert: NewTransaction[] = newRows.map(row => {
+      // A category picked in the review table counts as confirmed by the user
+      const overridden = categoryFor(row) !== row.categorization!.category
+      return {
+        userId: userId,
+        date: row.date!,
+        description: row.description,
+        payee: row.categorization!.payee ?? null,
+        amount: row.amount!,
+        category: categoryFor(row),
+        categoryConfidence: overridden ? 'high' : row.categorization!.confidence,
+        categoryMethod: overridden ? 'user' : row.categorization!.method,
+        tags: row.categorization!.tags ?? [],
+        isTransfer: row.categorization!.markTransfer ?? false,
+        transactionType: getTransactionType(row.amount!),
+        account: row.account,
+        accountId: accountIds.get(row.account),
+        merchantId: merchantIds.get(row.description),
+        externalId: row.externalId,
+        importFingerprint: row.fingerprint,
+        importBatchId: batch.id,
       }
-    }
+    })
 
-    // Batch categorize all descriptions at once (much more efficient)
-    const descriptions = validRows.map(r => r.description)
-    const categorizations = await batchCategorize(descriptions)
+    try {
+      const inserted = await insertNewTransactions(toInsert)
+      processedCount = inserted.length
+      // Rows inserted concurrently by another upload are skipped by the unique index
+      duplicateCount += toInsert.length - inserted.length
+    } catch (error) {
+      errors.push(`Error inserting transactions: ${error}`)
+    }
 
-    // Second pass: insert transactions with categories
-    for (let i = 0; i < validRows.length; i++) {
-      const row = validRows[i]
-      const categorizationResult = categorizations[i]
+    await updateImportBatch(batch.id, userId, {
+      insertedCount: processedCount,
+      duplicateCount,
+    })
 
-      try {
-        const parsedDate = parseDate(row.date)
-        const parsedAmount = parseAmount(row.amount)
-        const category = categorizationResult.category
-        const transactionType = getTransactionType(parsedAmount)
-
-        await insertTransaction({
-          userId: userId,
-          date: parsedDate,
-          description: row.description,
-          amount: parsedAmount,
-          category,
-          transactionType: transactionType,
-          account: row.account,
-        })
+    // Rows imported before accounts existed get an account too, so balances,
+    // forecasts and net worth (which only read) include them
+    try {
+      await linkUnassignedTransactions(userId)
+    } catch (error) {
+      errors.push(`Error linking transactions to accounts: ${error}`)
+    }
 
-        processedCount++
-      } catch (error) {
-        errors.push(`Error inserting transaction: ${error}`)
-      }
+    // Pair up transfers between the user's accounts (e.g. a card payment and
+    // the matching checking withdrawal) so they don't count as income/expense
+    let transfersLinked = 0
+    try {
+      transfersLinked = (await detectTransfers(userId)).length
+    } catch (error) {
+      errors.push(`Error detecting transfers: ${error}`)
     }
 
-    // Count categorization methods used
-    const methodCounts = categorizations.reduce((acc, r) => {
-      acc[r.method] = (acc[r.method] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
+    // New charges can start, continue or extend a subscription, and may be
+    // worth an alert (price went up, trial converted, charged off schedule)
+    let alertCount = 0
+    try {
+      await detectRecurringSeries(userId)
+      alertCount = (await detectSubscriptionAlerts(userId)).length
+    } catch (error) {
+      errors.push(`Error detecting recurring transactions: ${error}`)
+    }
 
     // Index transactions for RAG (async, don't wait)
     // This allows semantic search over the user's transactions
@@ -132,12 +231,23 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Successfully processed ${processedCount} transactions`,
+      message: `${processedCount} new, ${duplicateCount} duplicates skipped`,
       processedCount,
+      duplicateCount,
+      batchId: batch.id,
+      transfersLinked,
+      alertCount,
+      format: prepared.format,
+      profile,
+      headers: prepared.format === 'csv' ? prepared.headers : undefined,
       categorization: {
         byRule: methodCounts['rule'] || 0,
+        byMerchant: methodCounts['merchant'] || 0,
         byPattern: methodCounts['pattern'] || 0,
+        byLocal: methodCounts['local'] || 0,
+        bySimilarity: methodCounts['similarity'] || 0,
         byAI: methodCounts['ai'] || 0,
+        byUser: methodCounts['user'] || 0,
         uncategorized: methodCounts['default'] || 0,
       },
       errors: errors.length > 0 ? errors : undefined,
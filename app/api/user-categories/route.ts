@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  getUserCategories,
+  getUserCategoryById,
+  insertUserCategory,
+  updateUserCategory,
+  deleteUserCategory,
+  getCategoryUsageCounts,
+} from '@/lib/db/queries'
+import { validateCategoryInput, validateParent, PROTECTED_CATEGORIES } from '@/lib/categories'
+import { invalidateLocalModel } from '@/lib/smartCategorization'
+import { CATEGORY_KINDS } from '@/lib/db/schema'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user-categories
+ *
+ * List the user's categories (seeded from the built-in set on first use)
+ * with how many transactions use each.
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [categories, usage] = await Promise.all([getUserCategories(userId), getCategoryUsageCounts(userId)])
+
+    return NextResponse.json({
+      categories: categories.map(c => ({
+        id: c.id,
+        name: c.name,
+        parentId: c.parentId,
+        kind: c.kind,
+        color: c.color,
+        icon: c.icon,
+        excludeFromBudget: c.excludeFromBudget,
+        transactionCount: usage.get(c.name) || 0,
+        protected: PROTECTED_CATEGORIES.includes(c.name),
+      })),
+      kinds: CATEGORY_KINDS,
+    })
+  } catch (error) {
+    console.error('Categories error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch categories', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user-categories
+ *
+ * Create a category. Body: { name, parentId?, kind?, color?, icon?, excludeFromBudget? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { values, error } = validateCategoryInput(await request.json())
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const parentError = validateParent(await getUserCategories(userId), null, values.parentId ?? null)
+    if (parentError) {
+      return NextResponse.json({ error: parentError }, { status: 400 })
+    }
+
+    const category = await insertUserCategory({ ...values, name: values.name!, userId })
+
+    return NextResponse.json({ success: true, category })
+  } catch (error: any) {
+    if (error.code === '23505') { // PostgreSQL unique violation
+      return NextResponse.json(
+        { error: 'A category with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Add category error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create category', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/user-categories
+ *
+ * Update a category. Body: { id, ...fields }. Renaming also renames the
+ * category on the user's transactions, splits and rules.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Category ID is required' }, { status: 400 })
+    }
+
+    const { values, error } = validateCategoryInput(body, true)
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const id = parseInt(body.id)
+    const categories = await getUserCategories(userId)
+    const existing = categories.find(c => c.id === id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+    if (values.name !== undefined && values.name !== existing.name && PROTECTED_CATEGORIES.includes(existing.name)) {
+      return NextResponse.json({ error: `${existing.name} cannot be renamed` }, { status: 400 })
+    }
+    if (values.parentId !== undefined) {
+      const parentError = validateParent(categories, id, values.parentId)
+      if (parentError) {
+        return NextResponse.json({ error: parentError }, { status: 400 })
+      }
+    }
+
+    const category = await updateUserCategory(id, userId, values)
+    if (!category) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+    if (category.name !== existing.name) {
+      invalidateLocalModel(userId)
+    }
+
+    return NextResponse.json({ success: true, category })
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'A category with this name already exists' },
+        { status: 400 }
+      )
+    }
+    console.error('Update category error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update category', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/user-categories?id=&reassignTo=
+ *
+ * Delete a category. Its transactions, splits and rules move to `reassignTo`
+ * (default: its parent, or 'Other'), and its subcategories become top-level.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Category ID is required' }, { status: 400 })
+    }
+
+    const category = await getUserCategoryById(parseInt(id), userId)
+    if (!category) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+    if (PROTECTED_CATEGORIES.includes(category.name)) {
+      return NextResponse.json({ error: `${category.name} cannot be deleted` }, { status: 400 })
+    }
+
+    const categories = await getUserCategories(userId)
+    const parent = categories.find(c => c.id === category.parentId)
+    const reassignTo = searchParams.get('reassignTo') || parent?.name || 'Other'
+    if (reassignTo === category.name || !categories.some(c => c.name === reassignTo)) {
+      return NextResponse.json({ error: 'reassignTo must be another of your categories' }, { status: 400 })
+    }
+
+    await deleteUserCategory(category.id, userId, reassignTo)
+    invalidateLocalModel(userId)
+
+    return NextResponse.json({ success: true, reassignedTo: reassignTo })
+  } catch (error) {
+    console.error('Delete category error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete category', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,23 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Upload, MessageSquare, TrendingUp, Database, List } from 'lucide-react'
+import { Upload, MessageSquare, TrendingUp, Database, List, Landmark, SlidersHorizontal, Inbox, Tags, Store, Repeat, PiggyBank, Mail, Target, Gem, Briefcase } from 'lucide-react'
 import FileUpload from '@/components/FileUpload'
 import ChatInterface from '@/components/ChatInterface'
 import Dashboard from '@/components/Dashboard'
 import TransactionsViewer from '@/components/TransactionsViewer'
+import ImportHistory from '@/components/ImportHistory'
+import AccountsManager from '@/components/AccountsManager'
+import RulesManager from '@/components/RulesManager'
+import CategoriesManager from '@/components/CategoriesManager'
+import MerchantsManager from '@/components/MerchantsManager'
+import ReviewQueue from '@/components/ReviewQueue'
+import SubscriptionsList from '@/components/SubscriptionsList'
+import BudgetsManager from '@/components/BudgetsManager'
+import EnvelopesManager from '@/components/EnvelopesManager'
+import GoalsManager from '@/components/GoalsManager'
+import NetWorthManager from '@/components/NetWorthManager'
+import PortfolioManager from '@/components/PortfolioManager'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import Header from '@/components/Header'
 
@@ -13,9 +25,10 @@ import Header from '@/components/Header'
 export const dynamic = 'force-dynamic'
 
 export default function DashboardPage() {
-  const [activeTab, setActiveTab] = useState<'upload' | 'chat' | 'transactions' | 'dashboard'>('dashboard')
+  const [activeTab, setActiveTab] = useState<'upload' | 'chat' | 'transactions' | 'review' | 'budgets' | 'envelopes' | 'goals' | 'networth' | 'portfolio' | 'accounts' | 'rules' | 'categories' | 'merchants' | 'subscriptions' | 'dashboard'>('dashboard')
   const [isDataLoaded, setIsDataLoaded] = useState(false)
   const [transactionCount, setTransactionCount] = useState(0)
+  const [importVersion, setImportVersion] = useState(0)
 
   // Check if there's existing data on mount
   useEffect(() => {
@@ -39,6 +52,7 @@ export default function DashboardPage() {
 
   const handleUploadSuccess = () => {
     setIsDataLoaded(true)
+    setImportVersion(v => v + 1)
     checkExistingData()
   }
 
@@ -117,6 +131,171 @@ export default function DashboardPage() {
                   <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
                 )}
               </button>
+              <button
+                onClick={() => setActiveTab('review')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'review'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Inbox size={20} />
+                Review
+                {activeTab === 'review' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('budgets')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'budgets'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <PiggyBank size={20} />
+                Budgets
+                {activeTab === 'budgets' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('envelopes')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'envelopes'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Mail size={20} />
+                Envelopes
+                {activeTab === 'envelopes' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('goals')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'goals'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Target size={20} />
+                Goals
+                {activeTab === 'goals' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('networth')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'networth'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Gem size={20} />
+                Net Worth
+                {activeTab === 'networth' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('portfolio')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'portfolio'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Briefcase size={20} />
+                Portfolio
+                {activeTab === 'portfolio' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('accounts')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'accounts'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Landmark size={20} />
+                Accounts
+                {activeTab === 'accounts' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('rules')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'rules'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <SlidersHorizontal size={20} />
+                Rules
+                {activeTab === 'rules' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('categories')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'categories'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Tags size={20} />
+                Categories
+                {activeTab === 'categories' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('merchants')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'merchants'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Store size={20} />
+                Merchants
+                {activeTab === 'merchants' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('subscriptions')}
+                disabled={!isDataLoaded}
+                className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
+                  activeTab === 'subscriptions'
+                    ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                    : 'text-gray-600 hover:bg-white/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent'
+                }`}
+              >
+                <Repeat size={20} />
+                Subscriptions
+                {activeTab === 'subscriptions' && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/50 rounded-t"></div>
+                )}
+              </button>
               <button
                 onClick={() => setActiveTab('upload')}
                 className={`flex items-center gap-2 px-6 py-4 font-medium transition-all relative ${
@@ -135,10 +314,24 @@ export default function DashboardPage() {
 
             <div className="p-6 min-h-[600px]">
               {activeTab === 'upload' && (
-                <FileUpload onUploadSuccess={handleUploadSuccess} />
+                <>
+                  <FileUpload onUploadSuccess={handleUploadSuccess} />
+                  <ImportHistory refreshKey={importVersion} onRollback={checkExistingData} />
+                </>
               )}
               {activeTab === 'chat' && <ChatInterface />}
               {activeTab === 'transactions' && <TransactionsViewer />}
+              {activeTab === 'review' && <ReviewQueue />}
+              {activeTab === 'budgets' && <BudgetsManager />}
+              {activeTab === 'envelopes' && <EnvelopesManager />}
+              {activeTab === 'goals' && <GoalsManager />}
+              {activeTab === 'networth' && <NetWorthManager />}
+              {activeTab === 'portfolio' && <PortfolioManager />}
+              {activeTab === 'accounts' && <AccountsManager />}
+              {activeTab === 'rules' && <RulesManager />}
+              {activeTab === 'categories' && <CategoriesManager />}
+              {activeTab === 'merchants' && <MerchantsManager />}
+              {activeTab === 'subscriptions' && <SubscriptionsList />}
               {activeTab === 'dashboard' && <Dashboard />}
             </div>
           </div>
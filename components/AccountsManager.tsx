@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Save, X, Edit2, Archive, ArchiveRestore, Trash2, CheckSquare, Loader2 } from 'lucide-react'
+import ReconcileAccount from '@/components/ReconcileAccount'
+import type { AccountBalance, AccountType } from '@/types'
+
+const TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit Card',
+  loan: 'Loan',
+  brokerage: 'Brokerage',
+}
+
+interface AccountForm {
+  id?: number
+  name: string
+  type: AccountType
+  institution: string
+  currency: string
+  openingBalance: string
+}
+
+const EMPTY_FORM: AccountForm = {
+  name: '',
+  type: 'checking',
+  institution: '',
+  currency: 'USD',
+  openingBalance: '0',
+}
+
+function formatBalance(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
+
+export default function AccountsManager() {
+  const [accounts, setAccounts] = useState<AccountBalance[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showArchived, setShowArchived] = useState(false)
+  const [form, setForm] = useState<AccountForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reconcilingId, setReconcilingId] = useState<number | null>(null)
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [showArchived])
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch(`/api/accounts?includeArchived=${showArchived}`)
+      if (response.ok) {
+        const data = await response.json()
+        setAccounts(data.accounts)
+      }
+    } catch (err) {
+      console.error('Error fetching accounts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/accounts', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(form.id && { id: form.id }),
+          name: form.name,
+          type: form.type,
+          institution: form.institution,
+          currency: form.currency,
+          openingBalance: parseFloat(form.openingBalance) || 0,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setForm(null)
+        fetchAccounts()
+      } else {
+        setError(data.error || 'Failed to save account')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleArchive = async (account: AccountBalance) => {
+    try {
+      const response = await fetch('/api/accounts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: account.id, archived: !account.archived }),
+      })
+      if (response.ok) fetchAccounts()
+    } catch (err) {
+      console.error('Error archiving account:', err)
+    }
+  }
+
+  const handleDelete = async (account: AccountBalance) => {
+    if (!confirm(`Delete account "${account.name}"?`)) return
+    try {
+      const response = await fetch(`/api/accounts?id=${account.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        fetchAccounts()
+      } else {
+        alert(data.error || 'Failed to delete account')
+      }
+    } catch (err) {
+      console.error('Error deleting account:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const reconciling = accounts.find(a => a.id === reconcilingId)
+  if (reconciling) {
+    return (
+      <ReconcileAccount
+        account={reconciling}
+        onClose={() => {
+          setReconcilingId(null)
+          fetchAccounts()
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-gray-800">Accounts</h2>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded"
+            />
+            Show archived
+          </label>
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+          >
+            <Plus className="mr-1" size={16} />
+            Add Account
+          </button>
+        </div>
+      </div>
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Account name"
+              className="text-sm border rounded px-2 py-1 md:col-span-2"
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as AccountType })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {(Object.keys(TYPE_LABELS) as AccountType[]).map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.institution}
+              onChange={(e) => setForm({ ...form, institution: e.target.value })}
+              placeholder="Institution"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="text"
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              maxLength={3}
+              placeholder="USD"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <label className="text-xs text-gray-600 md:col-span-2">
+              Opening balance
+              <input
+                type="number"
+                step="0.01"
+                value={form.openingBalance}
+                onChange={(e) => setForm({ ...form, openingBalance: e.target.value })}
+                className="ml-2 text-sm border rounded px-2 py-1 w-32"
+              />
+            </label>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="p-3">Account</th>
+              <th className="p-3">Type</th>
+              <th className="p-3 text-right">Balance</th>
+              <th className="p-3 text-right">Cleared</th>
+              <th className="p-3">Last reconciled</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {accounts.map(account => (
+              <tr key={account.id} className={`border-t ${account.archived ? 'text-gray-400' : ''}`}>
+                <td className="p-3">
+                  <p className="font-medium">{account.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {account.institution && `${account.institution} · `}
+                    {account.transactionCount} transactions
+                    {account.unclearedCount > 0 && ` · ${account.unclearedCount} uncleared`}
+                  </p>
+                </td>
+                <td className="p-3">{TYPE_LABELS[account.type] || account.type}</td>
+                <td className={`p-3 text-right font-medium ${account.balance < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                  {formatBalance(account.balance, account.currency)}
+                </td>
+                <td className="p-3 text-right text-gray-600">
+                  {formatBalance(account.clearedBalance, account.currency)}
+                </td>
+                <td className="p-3 text-gray-600">{account.lastReconciledDate || 'Never'}</td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    {!account.archived && (
+                      <button
+                        onClick={() => setReconcilingId(account.id)}
+                        className="text-blue-600 hover:text-blue-700"
+                        title="Reconcile"
+                      >
+                        <CheckSquare size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setForm({
+                        id: account.id,
+                        name: account.name,
+                        type: account.type,
+                        institution: account.institution || '',
+                        currency: account.currency,
+                        openingBalance: account.openingBalance.toString(),
+                      })}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Edit"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleArchive(account)}
+                      className="text-gray-500 hover:text-gray-700"
+                      title={account.archived ? 'Unarchive' : 'Archive'}
+                    >
+                      {account.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                    </button>
+                    {account.transactionCount === 0 && (
+                      <button
+                        onClick={() => handleDelete(account)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {accounts.length === 0 && (
+          <p className="p-6 text-center text-gray-500">No accounts yet. Upload a statement or add one.</p>
+        )}
+      </div>
+    </div>
+  )
+}
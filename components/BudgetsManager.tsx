@@ -0,0 +1,305 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Save, X, Edit2, Trash2, Loader2, PiggyBank } from 'lucide-react'
+import type { BudgetStatus, BudgetSummary, BudgetPeriod, RolloverPolicy } from '@/types'
+
+interface BudgetForm {
+  id?: number
+  category: string
+  amount: string
+  period: BudgetPeriod
+  rollover: RolloverPolicy
+}
+
+const EMPTY_FORM: BudgetForm = {
+  category: '',
+  amount: '',
+  period: 'monthly',
+  rollover: 'none',
+}
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+const ROLLOVER_LABELS: Record<RolloverPolicy, string> = {
+  none: 'No rollover',
+  carry_unspent: 'Carry unspent',
+  carry_all: 'Carry unspent and overspending',
+}
+
+const STATUS_STYLES: Record<BudgetStatus['status'], { bar: string; badge: string; label: string }> = {
+  under: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-700', label: 'On track' },
+  at_risk: { bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-700', label: 'At risk' },
+  over: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-700', label: 'Over budget' },
+}
+
+export default function BudgetsManager() {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([])
+  const [summary, setSummary] = useState<BudgetSummary | null>(null)
+  const [categories, setCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<BudgetForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchBudgets()
+  }, [])
+
+  const fetchBudgets = async () => {
+    try {
+      const response = await fetch('/api/budgets')
+      if (response.ok) {
+        const data = await response.json()
+        setBudgets(data.budgets)
+        setSummary(data.summary)
+        setCategories(data.categories)
+      }
+    } catch (err) {
+      console.error('Error fetching budgets:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/budgets', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(form.id && { id: form.id }),
+          category: form.category,
+          amount: parseFloat(form.amount),
+          period: form.period,
+          rollover: form.rollover,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setForm(null)
+        fetchBudgets()
+      } else {
+        setError(data.error || 'Failed to save budget')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (budget: BudgetStatus) => {
+    if (!confirm(`Delete the ${budget.category} budget?`)) return
+    try {
+      const response = await fetch(`/api/budgets?id=${budget.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        fetchBudgets()
+      }
+    } catch (err) {
+      console.error('Error deleting budget:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const budgeted = new Set(budgets.map(b => b.category))
+  const available = categories.filter(c => !budgeted.has(c) || c === form?.category)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Budgets</h2>
+          <p className="text-sm text-gray-600">
+            Spending this period per category, including its subcategories. Refunds and transfers don&apos;t count.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm({ ...EMPTY_FORM, category: available[0] || '' })}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+        >
+          <Plus className="mr-1" size={16} />
+          Add Budget
+        </button>
+      </div>
+
+      {summary && budgets.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Spent this period</p>
+            <p className="text-2xl font-bold text-gray-800">
+              ${summary.spent.toFixed(2)} <span className="text-sm font-normal text-gray-500">of ${summary.available.toFixed(2)}</span>
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Over budget</p>
+            <p className={`text-2xl font-bold ${summary.overCount > 0 ? 'text-red-600' : 'text-gray-800'}`}>{summary.overCount}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">On pace to go over</p>
+            <p className={`text-2xl font-bold ${summary.atRiskCount > 0 ? 'text-yellow-600' : 'text-gray-800'}`}>{summary.atRiskCount}</p>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {available.map(cat => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              placeholder="Amount"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <select
+              value={form.period}
+              onChange={(e) => setForm({ ...form, period: e.target.value as BudgetPeriod })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={form.rollover}
+              onChange={(e) => setForm({ ...form, rollover: e.target.value as RolloverPolicy })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {Object.entries(ROLLOVER_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.category || !(parseFloat(form.amount) > 0)}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {budgets.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <PiggyBank size={40} className="mb-2" />
+          <p>No budgets yet. Add one to track spending against a limit.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-600">
+                <th className="p-3">Category</th>
+                <th className="p-3 w-1/3">Progress</th>
+                <th className="p-3 text-right">Remaining</th>
+                <th className="p-3 text-right">Projected</th>
+                <th className="p-3">Status</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {budgets.map(budget => {
+                const style = STATUS_STYLES[budget.status]
+                return (
+                  <tr key={budget.id} className="border-t">
+                    <td className="p-3">
+                      <p className="font-medium text-gray-800">{budget.category}</p>
+                      <p className="text-xs text-gray-500">
+                        {PERIOD_LABELS[budget.period]} · {budget.daysLeft} day{budget.daysLeft !== 1 ? 's' : ''} left
+                      </p>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>${budget.spent.toFixed(2)} spent</span>
+                        <span>
+                          of ${budget.available.toFixed(2)}
+                          {budget.carryOver !== 0 && (
+                            <span className="text-gray-400">
+                              {' '}({budget.carryOver > 0 ? '+' : '−'}${Math.abs(budget.carryOver).toFixed(2)} rolled over)
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(budget.percentUsed, 100)}%` }} />
+                      </div>
+                    </td>
+                    <td className={`p-3 text-right font-medium ${budget.remaining < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                      {budget.remaining < 0 ? '−' : ''}${Math.abs(budget.remaining).toFixed(2)}
+                    </td>
+                    <td className="p-3 text-right text-gray-600">${budget.projected.toFixed(2)}</td>
+                    <td className="p-3">
+                      <span className={`text-xs px-2 py-0.5 rounded ${style.badge}`}>{style.label}</span>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setForm({
+                            id: budget.id,
+                            category: budget.category,
+                            amount: String(budget.amount),
+                            period: budget.period,
+                            rollover: budget.rollover,
+                          })}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Edit"
+                        >
+                          <Edit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(budget)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import { Loader2, AlertTriangle } from 'lucide-react'
+import type { CashFlowForecast as Forecast } from '@/types'
+
+const HORIZONS = [30, 60, 90]
+
+const ACCOUNT_COLORS = ['#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16']
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toFixed(2)}`
+}
+
+export default function CashFlowForecast() {
+  const [forecast, setForecast] = useState<Forecast | null>(null)
+  const [days, setDays] = useState(30)
+  const [threshold, setThreshold] = useState('0')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchForecast(days, threshold)
+    // Threshold changes are applied on blur/Enter, not on every keystroke
+  }, [days])
+
+  const fetchForecast = async (d: number, t: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/forecast?days=${d}&threshold=${parseFloat(t) || 0}`)
+      if (response.ok) {
+        setForecast(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching forecast:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!loading && (!forecast || forecast.accounts.length === 0)) return null
+
+  const chartData = forecast?.daily.map((day, i) => ({
+    date: day.date.slice(5),
+    Total: day.balance,
+    ...Object.fromEntries(forecast.accounts.map(a => [a.name, a.balances[i]])),
+  }))
+  const upcoming = forecast?.events.slice(0, 8) || []
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold">Cash-Flow Forecast</h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Alert below $
+            <input
+              type="number"
+              step="50"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              onBlur={() => fetchForecast(days, threshold)}
+              onKeyDown={(e) => e.key === 'Enter' && fetchForecast(days, threshold)}
+              className="w-24 text-sm border rounded px-2 py-1"
+            />
+          </label>
+          <div className="flex border rounded-lg overflow-hidden">
+            {HORIZONS.map(h => (
+              <button
+                key={h}
+                onClick={() => setDays(h)}
+                className={`px-3 py-1 text-sm ${days === h ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+              >
+                {h}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading || !forecast ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="animate-spin text-blue-500" size={48} />
+        </div>
+      ) : (
+        <>
+          {(forecast.belowThresholdDate || forecast.accounts.some(a => a.belowThresholdDate)) && (
+            <div className="flex items-start gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              <div>
+                {forecast.belowThresholdDate && (
+                  <p>Your total balance is projected to drop below {formatMoney(forecast.threshold)} on {forecast.belowThresholdDate}.</p>
+                )}
+                {forecast.accounts.filter(a => a.belowThresholdDate).map(a => (
+                  <p key={a.id}>{a.name} is projected to drop below {formatMoney(forecast.threshold)} on {a.belowThresholdDate}.</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+            <div>
+              <p className="text-gray-500">In {forecast.days} days</p>
+              <p className="text-xl font-bold text-gray-800">{formatMoney(forecast.endingBalance)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Lowest point</p>
+              <p className={`text-xl font-bold ${forecast.lowestBalance < forecast.threshold ? 'text-red-600' : 'text-gray-800'}`}>
+                {formatMoney(forecast.lowestBalance)} <span className="text-sm font-normal text-gray-500">on {forecast.lowestDate}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Everyday spending</p>
+              <p className="text-xl font-bold text-gray-800">
+                {formatMoney(forecast.dailyDiscretionary)} <span className="text-sm font-normal text-gray-500">/ day</span>
+              </p>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" minTickGap={20} />
+              <YAxis />
+              <Tooltip formatter={(value: any) => `$${value.toFixed(2)}`} />
+              <Legend />
+              <ReferenceLine y={forecast.threshold} stroke="#ef4444" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="Total" stroke="#3b82f6" strokeWidth={2} dot={false} />
+              {forecast.accounts.length > 1 && forecast.accounts.map((account, index) => (
+                <Line
+                  key={account.id}
+                  type="monotone"
+                  dataKey={account.name}
+                  stroke={ACCOUNT_COLORS[index % ACCOUNT_COLORS.length]}
+                  strokeWidth={1}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          {upcoming.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Coming up</p>
+              <ul className="divide-y text-sm">
+                {upcoming.map((event, i) => (
+                  <li key={`${event.date}-${event.name}-${i}`} className="flex justify-between py-1.5">
+                    <span className="text-gray-700">
+                      {event.date} · {event.name}
+                      <span className="text-gray-400"> · {event.accountName}</span>
+                    </span>
+                    <span className={`font-medium ${event.amount > 0 ? 'text-green-600' : 'text-gray-800'}`}>
+                      {formatMoney(event.amount)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Plus, Save, X, Edit2, Trash2, Loader2, Lock, Tag, Coffee, ShoppingCart, Utensils, Car, Fuel, Film, ShoppingBag,
+  HeartPulse, Dumbbell, Zap, Shield, Repeat, Plane, GraduationCap, Sparkles, PawPrint, Home, ArrowLeftRight,
+  Banknote, Receipt, Wallet, Baby, Gift, Briefcase, Smartphone, type LucideIcon,
+} from 'lucide-react'
+import type { UserCategory, CategoryKind } from '@/types'
+
+// Icons a category can use, by lucide-react name (as stored in categories.icon)
+const ICONS: Record<string, LucideIcon> = {
+  Tag, Coffee, ShoppingCart, Utensils, Car, Fuel, Film, ShoppingBag, HeartPulse, Dumbbell, Zap, Shield, Repeat,
+  Plane, GraduationCap, Sparkles, PawPrint, Home, ArrowLeftRight, Banknote, Receipt, Wallet, Baby, Gift,
+  Briefcase, Smartphone,
+}
+
+const KIND_STYLES: Record<CategoryKind, string> = {
+  expense: 'bg-red-50 text-red-700',
+  income: 'bg-green-50 text-green-700',
+  transfer: 'bg-gray-100 text-gray-600',
+}
+
+interface CategoryForm {
+  id?: number
+  name: string
+  parentId: string
+  kind: CategoryKind
+  color: string
+  icon: string
+  excludeFromBudget: boolean
+}
+
+const EMPTY_FORM: CategoryForm = {
+  name: '',
+  parentId: '',
+  kind: 'expense',
+  color: '#3b82f6',
+  icon: 'Tag',
+  excludeFromBudget: false,
+}
+
+export default function CategoriesManager() {
+  const [categories, setCategories] = useState<UserCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<CategoryForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchCategories()
+  }, [])
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/user-categories')
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(data.categories)
+      }
+    } catch (err) {
+      console.error('Error fetching categories:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/user-categories', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(form.id && { id: form.id }),
+          name: form.name,
+          parentId: form.parentId ? parseInt(form.parentId) : null,
+          kind: form.kind,
+          color: form.color,
+          icon: form.icon,
+          excludeFromBudget: form.excludeFromBudget,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setForm(null)
+        fetchCategories()
+      } else {
+        setError(data.error || 'Failed to save category')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: UserCategory) => {
+    const parent = categories.find(c => c.id === category.parentId)
+    const target = parent?.name || 'Other'
+    const message = category.transactionCount > 0
+      ? `Delete "${category.name}"? Its ${category.transactionCount} transactions and its rules will move to ${target}.`
+      : `Delete "${category.name}"?`
+    if (!confirm(message)) return
+    try {
+      const response = await fetch(`/api/user-categories?id=${category.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        fetchCategories()
+      } else {
+        alert(data.error || 'Failed to delete category')
+      }
+    } catch (err) {
+      console.error('Error deleting category:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  // Top-level categories, each followed by its subcategories
+  const topLevel = categories.filter(c => c.parentId === null)
+  const ordered = topLevel.flatMap(parent => [parent, ...categories.filter(c => c.parentId === parent.id)])
+  const hasChildren = (id?: number) => id !== undefined && categories.some(c => c.parentId === id)
+  const editing = form?.id !== undefined ? categories.find(c => c.id === form.id) : undefined
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Categories</h2>
+          <p className="text-sm text-gray-600">
+            Charts roll subcategories up into their parent. The categorizer picks from this list.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm(EMPTY_FORM)}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+        >
+          <Plus className="mr-1" size={16} />
+          Add Category
+        </button>
+      </div>
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Category name"
+              disabled={editing?.protected}
+              className="text-sm border rounded px-2 py-1 md:col-span-2 disabled:bg-gray-100"
+            />
+            <select
+              value={form.parentId}
+              onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+              disabled={hasChildren(form.id)}
+              title={hasChildren(form.id) ? 'Categories with subcategories stay top-level' : undefined}
+              className="text-sm border rounded px-2 py-1 bg-white disabled:bg-gray-100"
+            >
+              <option value="">No parent (top-level)</option>
+              {topLevel.filter(c => c.id !== form.id).map(c => (
+                <option key={c.id} value={c.id}>Under {c.name}</option>
+              ))}
+            </select>
+            <select
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as CategoryKind })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              <option value="expense">Expense</option>
+              <option value="income">Income</option>
+              <option value="transfer">Transfer</option>
+            </select>
+            <select
+              value={form.icon}
+              onChange={(e) => setForm({ ...form, icon: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {Object.keys(ICONS).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Color
+              <input
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value })}
+                className="h-7 w-10 border rounded"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={form.excludeFromBudget}
+              onChange={(e) => setForm({ ...form, excludeFromBudget: e.target.checked })}
+              className="rounded"
+            />
+            Exclude from budgets
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="p-3">Category</th>
+              <th className="p-3">Kind</th>
+              <th className="p-3 text-right">Transactions</th>
+              <th className="p-3">Budget</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.map(category => {
+              const Icon = (category.icon && ICONS[category.icon]) || Tag
+              return (
+                <tr key={category.id} className="border-t">
+                  <td className={`p-3 ${category.parentId !== null ? 'pl-10' : ''}`}>
+                    <span className="flex items-center gap-2 font-medium text-gray-800">
+                      <span
+                        className="flex items-center justify-center w-6 h-6 rounded-full text-white"
+                        style={{ backgroundColor: category.color || '#9ca3af' }}
+                      >
+                        <Icon size={14} />
+                      </span>
+                      {category.name}
+                      {category.protected && <Lock size={12} className="text-gray-400" />}
+                    </span>
+                  </td>
+                  <td className="p-3">
+                    <span className={`text-xs px-2 py-0.5 rounded ${KIND_STYLES[category.kind]}`}>{category.kind}</span>
+                  </td>
+                  <td className="p-3 text-right text-gray-600">{category.transactionCount}</td>
+                  <td className="p-3 text-gray-600">{category.excludeFromBudget ? 'Excluded' : 'Included'}</td>
+                  <td className="p-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setForm({
+                          id: category.id,
+                          name: category.name,
+                          parentId: category.parentId !== null ? String(category.parentId) : '',
+                          kind: category.kind,
+                          color: category.color || '#9ca3af',
+                          icon: category.icon || 'Tag',
+                          excludeFromBudget: category.excludeFromBudget,
+                        })}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Edit"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      {!category.protected && (
+                        <button
+                          onClick={() => handleDelete(category)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
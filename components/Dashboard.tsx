@@ -17,6 +17,9 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { Loader2, TrendingDown, TrendingUp, DollarSign, Activity } from 'lucide-react'
+import type { AccountBalance, BudgetStatus } from '@/types'
+import CashFlowForecast from '@/components/CashFlowForecast'
+import NetWorthChart from '@/components/NetWorthChart'
 
 interface AnalyticsData {
   categoryData: any[]
@@ -24,6 +27,14 @@ interface AnalyticsData {
   recentTransactions: any[]
   summary: any
   topMerchants: any[]
+  accountBalances: AccountBalance[]
+  budgets: BudgetStatus[]
+}
+
+const BUDGET_BAR_STYLES: Record<BudgetStatus['status'], string> = {
+  under: 'bg-green-500',
+  at_risk: 'bg-yellow-500',
+  over: 'bg-red-500',
 }
 
 const COLORS = [
@@ -125,6 +136,57 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Account Balances */}
+      {data.accountBalances?.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold mb-4">Account Balances</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {data.accountBalances.map((account) => (
+              <div key={account.id} className="border rounded-lg p-4">
+                <p className="text-sm text-gray-500 truncate" title={account.name}>{account.name}</p>
+                <p className={`text-xl font-bold ${account.balance < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                  {new Intl.NumberFormat('en-US', { style: 'currency', currency: account.currency }).format(account.balance)}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {account.lastReconciledDate ? `Reconciled through ${account.lastReconciledDate}` : 'Never reconciled'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Net Worth */}
+      <NetWorthChart />
+
+      {/* Budget Progress */}
+      {data.budgets?.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold mb-4">Budget Progress</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            {data.budgets.slice(0, 8).map((budget) => (
+              <div key={budget.id}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-700">{budget.category}</span>
+                  <span className={budget.status === 'over' ? 'text-red-600' : 'text-gray-500'}>
+                    ${budget.spent.toFixed(2)} of ${budget.available.toFixed(2)}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${BUDGET_BAR_STYLES[budget.status]}`}
+                    style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Cash-Flow Forecast */}
+      <CashFlowForecast />
+
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Category Breakdown */}
@@ -141,8 +203,8 @@ export default function Dashboard() {
                 outerRadius={100}
                 label={(entry) => `${entry.category}: $${entry.total_spent.toFixed(2)}`}
               >
-                {data.categoryData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                {data.categoryData.filter((c: any) => c.total_spent > 0).map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} />
                 ))}
               </Pie>
               <Tooltip formatter={(value: any) => `$${value.toFixed(2)}`} />
@@ -175,7 +237,11 @@ export default function Dashboard() {
               <XAxis dataKey="category" angle={-45} textAnchor="end" height={100} />
               <YAxis />
               <Tooltip formatter={(value: any) => `$${value.toFixed(2)}`} />
-              <Bar dataKey="total_spent" fill="#3b82f6" name="Total Spent" />
+              <Bar dataKey="total_spent" fill="#3b82f6" name="Total Spent">
+                {data.categoryData.slice(0, 8).map((entry, index) => (
+                  <Cell key={`bar-${index}`} fill={entry.color || '#3b82f6'} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -228,7 +294,10 @@ export default function Dashboard() {
                   {merchant.category}
                 </span>
               </div>
-              <p className="font-medium text-sm mb-1 truncate" title={merchant.description}>
+              <p className="flex items-center gap-2 font-medium text-sm mb-1 truncate" title={merchant.description}>
+                {merchant.logo_url && (
+                  <img src={merchant.logo_url} alt="" className="w-5 h-5 rounded object-contain" />
+                )}
                 {merchant.description}
               </p>
               <p className="text-lg font-bold text-red-600">
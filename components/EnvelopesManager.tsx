@@ -0,0 +1,551 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Save, X, Edit2, Trash2, Loader2, Mail, ChevronLeft, ChevronRight, ArrowRightLeft, Scale } from 'lucide-react'
+import type { EnvelopeMonth, EnvelopeBalance, EnvelopeReconciliation } from '@/types'
+
+interface EnvelopeForm {
+  id?: number
+  name: string
+  categories: string[]
+  startMonth: string
+}
+
+interface MoveForm {
+  fromEnvelopeId: string // '' = To Be Assigned
+  toEnvelopeId: string
+  amount: string
+  note: string
+}
+
+function thisMonth(): string {
+  return new Date().toISOString().slice(0, 7)
+}
+
+function shiftMonth(month: string, offset: number): string {
+  const [year, m] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, m - 1 + offset, 1)).toISOString().slice(0, 7)
+}
+
+function formatMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toFixed(2)}`
+}
+
+export default function EnvelopesManager() {
+  const [month, setMonth] = useState(thisMonth())
+  const [budget, setBudget] = useState<EnvelopeMonth | null>(null)
+  const [categories, setCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<EnvelopeForm | null>(null)
+  const [move, setMove] = useState<MoveForm | null>(null)
+  const [assignAmounts, setAssignAmounts] = useState<Record<number, string>>({})
+  const [reconciliation, setReconciliation] = useState<EnvelopeReconciliation | null>(null)
+  const [reconciling, setReconciling] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchEnvelopes(month)
+  }, [month])
+
+  const fetchEnvelopes = async (m: string) => {
+    try {
+      const response = await fetch(`/api/envelopes?month=${m}`)
+      if (response.ok) {
+        const data = await response.json()
+        setBudget(data)
+        setCategories(data.categories)
+      }
+    } catch (err) {
+      console.error('Error fetching envelopes:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const refresh = () => {
+    fetchEnvelopes(month)
+    if (reconciliation) fetchReconciliation()
+  }
+
+  const fetchReconciliation = async () => {
+    setReconciling(true)
+    try {
+      const response = await fetch('/api/envelopes/reconcile')
+      if (response.ok) {
+        setReconciliation(await response.json())
+      }
+    } catch (err) {
+      console.error('Error reconciling envelopes:', err)
+    } finally {
+      setReconciling(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/envelopes', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(form.id && { id: form.id }),
+          name: form.name,
+          categories: form.categories,
+          startMonth: form.startMonth,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setForm(null)
+        refresh()
+      } else {
+        setError(data.error || 'Failed to save envelope')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (envelope: EnvelopeBalance) => {
+    if (!confirm(`Delete the ${envelope.name} envelope? Everything assigned to it goes back to To Be Assigned.`)) return
+    try {
+      const response = await fetch(`/api/envelopes?id=${envelope.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        refresh()
+      }
+    } catch (err) {
+      console.error('Error deleting envelope:', err)
+    }
+  }
+
+  const allocate = async (body: { fromEnvelopeId?: number; toEnvelopeId?: number; amount: number; note?: string }) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/envelopes/allocate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month, ...body }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        refresh()
+        return true
+      }
+      setError(data.error || 'Failed to move money')
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const handleAssign = async (envelope: EnvelopeBalance) => {
+    const amount = parseFloat(assignAmounts[envelope.id] || '')
+    if (!(amount > 0)) return
+    if (await allocate({ toEnvelopeId: envelope.id, amount })) {
+      setAssignAmounts({ ...assignAmounts, [envelope.id]: '' })
+    }
+  }
+
+  const handleMove = async () => {
+    if (!move) return
+    const ok = await allocate({
+      ...(move.fromEnvelopeId && { fromEnvelopeId: Number(move.fromEnvelopeId) }),
+      ...(move.toEnvelopeId && { toEnvelopeId: Number(move.toEnvelopeId) }),
+      amount: parseFloat(move.amount),
+      ...(move.note && { note: move.note }),
+    })
+    if (ok) setMove(null)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const envelopes = budget?.envelopes || []
+  const taken = new Set(envelopes.filter(e => e.id !== form?.id).flatMap(e => e.categories))
+  const toBeAssigned = budget?.toBeAssigned ?? 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Envelopes</h2>
+          <p className="text-sm text-gray-600">
+            Give every dollar of income a job. Unspent money stays in its envelope; cover overspending by moving money from another.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setMove({ fromEnvelopeId: '', toEnvelopeId: String(envelopes[0]?.id ?? ''), amount: '', note: '' })}
+            disabled={envelopes.length === 0}
+            className="flex items-center px-4 py-2 border text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowRightLeft className="mr-1" size={16} />
+            Move Money
+          </button>
+          <button
+            onClick={() => setForm({ name: '', categories: [], startMonth: month })}
+            className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+          >
+            <Plus className="mr-1" size={16} />
+            Add Envelope
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-4">
+        <button onClick={() => setMonth(shiftMonth(month, -1))} className="p-1 text-gray-500 hover:text-gray-800" title="Previous month">
+          <ChevronLeft size={20} />
+        </button>
+        <span className="text-lg font-medium text-gray-800 w-44 text-center">{formatMonth(month)}</span>
+        <button onClick={() => setMonth(shiftMonth(month, 1))} className="p-1 text-gray-500 hover:text-gray-800" title="Next month">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      {budget && envelopes.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className={`rounded-lg shadow p-4 ${toBeAssigned < 0 ? 'bg-red-50' : toBeAssigned > 0 ? 'bg-green-50' : 'bg-white'}`}>
+            <p className="text-sm text-gray-600">To Be Assigned</p>
+            <p className={`text-2xl font-bold ${toBeAssigned < 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatMoney(toBeAssigned)}</p>
+            {toBeAssigned < 0 && <p className="text-xs text-red-600">More is assigned than you have. Take money back from an envelope.</p>}
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Income this month</p>
+            <p className="text-2xl font-bold text-gray-800">{formatMoney(budget.income)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Assigned this month</p>
+            <p className="text-2xl font-bold text-gray-800">{formatMoney(budget.assigned)}</p>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Envelope name (e.g. Groceries)"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Counts spending from
+              <input
+                type="month"
+                value={form.startMonth}
+                onChange={(e) => setForm({ ...form, startMonth: e.target.value })}
+                className="text-sm border rounded px-2 py-1"
+              />
+            </label>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Categories it pays for (subcategories included)</p>
+            <div className="flex flex-wrap gap-2">
+              {categories.filter(c => !taken.has(c)).map(cat => {
+                const selected = form.categories.includes(cat)
+                return (
+                  <button
+                    key={cat}
+                    onClick={() => setForm({
+                      ...form,
+                      categories: selected ? form.categories.filter(c => c !== cat) : [...form.categories, cat],
+                    })}
+                    className={`text-xs px-2 py-1 rounded border ${selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                  >
+                    {cat}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {move && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={move.fromEnvelopeId}
+              onChange={(e) => setMove({ ...move, fromEnvelopeId: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              <option value="">From To Be Assigned</option>
+              {envelopes.map(e => (
+                <option key={e.id} value={e.id}>From {e.name} ({formatMoney(e.available)})</option>
+              ))}
+            </select>
+            <select
+              value={move.toEnvelopeId}
+              onChange={(e) => setMove({ ...move, toEnvelopeId: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              <option value="">To To Be Assigned</option>
+              {envelopes.map(e => (
+                <option key={e.id} value={e.id}>To {e.name} ({formatMoney(e.available)})</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={move.amount}
+              onChange={(e) => setMove({ ...move, amount: e.target.value })}
+              placeholder="Amount"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="text"
+              value={move.note}
+              onChange={(e) => setMove({ ...move, note: e.target.value })}
+              placeholder="Note (optional)"
+              className="text-sm border rounded px-2 py-1"
+            />
+          </div>
+          {error && !form && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleMove}
+              disabled={saving || move.fromEnvelopeId === move.toEnvelopeId || !(parseFloat(move.amount) > 0)}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <ArrowRightLeft className="mr-1" size={14} />
+              Move
+            </button>
+            <button
+              onClick={() => { setMove(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && !form && !move && <p className="text-sm text-red-600">{error}</p>}
+
+      {envelopes.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Mail size={40} className="mb-2" />
+          <p>No envelopes yet. Add one and assign your income to it.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-600">
+                <th className="p-3">Envelope</th>
+                <th className="p-3 text-right">Assigned</th>
+                <th className="p-3 text-right">Activity</th>
+                <th className="p-3 text-right">Available</th>
+                <th className="p-3">Assign</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {envelopes.map(envelope => (
+                <tr key={envelope.id} className={`border-t ${envelope.overspent ? 'bg-red-50' : ''}`}>
+                  <td className="p-3">
+                    <p className="font-medium text-gray-800">{envelope.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {envelope.categories.length > 0 ? envelope.categories.join(', ') : 'No categories'}
+                    </p>
+                  </td>
+                  <td className="p-3 text-right text-gray-800">{formatMoney(envelope.assigned)}</td>
+                  <td className={`p-3 text-right ${envelope.activity < 0 ? 'text-gray-800' : 'text-green-600'}`}>
+                    {formatMoney(envelope.activity)}
+                  </td>
+                  <td className="p-3 text-right">
+                    <span className={`font-medium px-2 py-0.5 rounded ${
+                      envelope.overspent ? 'bg-red-100 text-red-700' : envelope.available > 0 ? 'bg-green-100 text-green-700' : 'text-gray-600'
+                    }`}>
+                      {formatMoney(envelope.available)}
+                    </span>
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={assignAmounts[envelope.id] || ''}
+                        onChange={(e) => setAssignAmounts({ ...assignAmounts, [envelope.id]: e.target.value })}
+                        placeholder="0.00"
+                        className="w-24 text-sm border rounded px-2 py-1"
+                      />
+                      <button
+                        onClick={() => handleAssign(envelope)}
+                        disabled={saving || !(parseFloat(assignAmounts[envelope.id] || '') > 0)}
+                        className="px-2 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        Assign
+                      </button>
+                      {envelope.overspent && (
+                        <button
+                          onClick={() => setMove({
+                            fromEnvelopeId: String(envelopes.find(e => e.id !== envelope.id && e.available > 0)?.id ?? ''),
+                            toEnvelopeId: String(envelope.id),
+                            amount: Math.abs(envelope.available).toFixed(2),
+                            note: `Cover ${envelope.name} overspending`,
+                          })}
+                          className="px-2 py-1 border border-red-300 text-red-700 text-xs rounded hover:bg-red-100"
+                        >
+                          Cover
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setForm({
+                          id: envelope.id,
+                          name: envelope.name,
+                          categories: envelope.categories,
+                          startMonth: envelope.startMonth,
+                        })}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Edit"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(envelope)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {budget && budget.paychecks.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Paychecks in {formatMonth(month)}</h3>
+          <ul className="divide-y text-sm">
+            {budget.paychecks.map(paycheck => (
+              <li key={paycheck.id} className="flex justify-between py-1.5">
+                <span className="text-gray-700">
+                  {paycheck.date} · {paycheck.description}
+                  {paycheck.account && <span className="text-gray-400"> · {paycheck.account}</span>}
+                </span>
+                <span className="font-medium text-green-600">{formatMoney(paycheck.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {envelopes.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700">Reconcile with accounts</h3>
+              <p className="text-xs text-gray-500">
+                To Be Assigned plus every envelope should match what your checking, savings and credit card accounts hold today.
+              </p>
+            </div>
+            <button
+              onClick={fetchReconciliation}
+              disabled={reconciling}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              {reconciling ? <Loader2 className="mr-1 animate-spin" size={14} /> : <Scale className="mr-1" size={14} />}
+              Reconcile
+            </button>
+          </div>
+          {reconciliation && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <ul className="divide-y">
+                {reconciliation.accounts.map(account => (
+                  <li key={account.id} className="flex justify-between py-1">
+                    <span className="text-gray-700">{account.name}</span>
+                    <span className="text-gray-800">{formatMoney(account.balance)}</span>
+                  </li>
+                ))}
+                <li className="flex justify-between py-1 font-semibold">
+                  <span>Accounts</span>
+                  <span>{formatMoney(reconciliation.accountsTotal)}</span>
+                </li>
+              </ul>
+              <ul className="divide-y">
+                <li className="flex justify-between py-1">
+                  <span className="text-gray-700">To Be Assigned</span>
+                  <span>{formatMoney(reconciliation.toBeAssigned)}</span>
+                </li>
+                <li className="flex justify-between py-1">
+                  <span className="text-gray-700">In envelopes</span>
+                  <span>{formatMoney(reconciliation.envelopesTotal)}</span>
+                </li>
+                <li className="flex justify-between py-1 font-semibold">
+                  <span>Budget</span>
+                  <span>{formatMoney(reconciliation.budgetTotal)}</span>
+                </li>
+                <li className={`flex justify-between py-1 font-semibold ${Math.abs(reconciliation.difference) < 0.01 ? 'text-green-600' : 'text-yellow-700'}`}>
+                  <span>Difference</span>
+                  <span>{formatMoney(reconciliation.difference)}</span>
+                </li>
+                {Math.abs(reconciliation.difference) >= 0.01 && (
+                  <>
+                    <li className="flex justify-between py-1 text-xs text-gray-500">
+                      <span>Activity in categories without an envelope</span>
+                      <span>{formatMoney(reconciliation.outsideEnvelopes)}</span>
+                    </li>
+                    <li className="flex justify-between py-1 text-xs text-gray-500">
+                      <span>Transfers to or from loans and investments, and other</span>
+                      <span>{formatMoney(reconciliation.unexplained)}</span>
+                    </li>
+                  </>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
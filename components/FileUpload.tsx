@@ -1,7 +1,13 @@
 'use client'
 
-import { useState, useRef } from 'react'
-import { Upload, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { Upload, CheckCircle, AlertCircle, Loader2, Settings2, Trash2 } from 'lucide-react'
+import ImportProfileEditor, { type ImportProfileSummary } from '@/components/ImportProfileEditor'
+import ImportPreview from '@/components/ImportPreview'
+import type { ImportPreviewResponse } from '@/types'
+import { readCSVHeaders, computeHeaderFingerprint, guessCSVSettings, type CSVImportSettings } from '@/lib/import/csv'
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.ofx', '.qfx']
 
 interface FileUploadProps {
   onUploadSuccess: () => void
@@ -12,30 +18,135 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
   const [uploading, setUploading] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [clearExisting, setClearExisting] = useState(true)
+  const [fileText, setFileText] = useState<string | null>(null)
+  const [profiles, setProfiles] = useState<ImportProfileSummary[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('') // '' = auto-match
+  const [editingProfile, setEditingProfile] = useState(false)
+  const [preview, setPreview] = useState<ImportPreviewResponse | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/import-profiles')
+      if (response.ok) {
+        const data = await response.json()
+        setProfiles(data.profiles)
+      }
+    } catch (error) {
+      console.error('Error fetching import profiles:', error)
+    }
+  }
+
+  // Work out which profile the server will use (same matching rule as the upload route)
+  const mapping = useMemo(() => {
+    if (!fileText) return null
+    const explicit = profiles.find(p => p.id.toString() === selectedProfileId)
+    if (explicit) return { profile: explicit, settings: explicit as CSVImportSettings }
+    for (const profile of profiles) {
+      const { headers } = readCSVHeaders(fileText, profile)
+      if (headers.length > 0 && computeHeaderFingerprint(headers) === profile.headerFingerprint) {
+        return { profile, settings: profile as CSVImportSettings }
+      }
+    }
+    const { headers, delimiter } = readCSVHeaders(fileText)
+    return { profile: null, settings: guessCSVSettings(headers, delimiter) }
+  }, [fileText, profiles, selectedProfileId])
+
+  const handleDeleteProfile = async (id: number) => {
+    if (!confirm('Delete this import profile?')) return
+    try {
+      const response = await fetch(`/api/import-profiles?id=${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        if (selectedProfileId === id.toString()) setSelectedProfileId('')
+        fetchProfiles()
+      }
+    } catch (error) {
+      console.error('Error deleting import profile:', error)
+    }
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0]
-      if (selectedFile.type === 'text/csv' || selectedFile.name.endsWith('.csv')) {
+      const name = selectedFile.name.toLowerCase()
+      if (selectedFile.type === 'text/csv' || SUPPORTED_EXTENSIONS.some(ext => name.endsWith(ext))) {
         setFile(selectedFile)
         setMessage(null)
+        setEditingProfile(false)
+        setPreview(null)
+        // Only CSVs need a column mapping; OFX/QFX carry their own structure
+        if (name.endsWith('.csv') || selectedFile.type === 'text/csv') {
+          selectedFile.text().then(setFileText)
+        } else {
+          setFileText(null)
+        }
       } else {
-        setMessage({ type: 'error', text: 'Please select a valid CSV file' })
+        setMessage({ type: 'error', text: 'Please select a CSV, OFX or QFX file' })
         setFile(null)
+        setFileText(null)
       }
     }
   }
 
-  const handleUpload = async () => {
+  const buildFormData = () => {
+    const formData = new FormData()
+    formData.append('file', file!)
+    formData.append('clearExisting', clearExisting.toString())
+    if (selectedProfileId) {
+      formData.append('profileId', selectedProfileId)
+    }
+    return formData
+  }
+
+  // Dry run: parse, validate and categorize without saving, then show the review table
+  const handlePreview = async () => {
     if (!file) return
 
     setUploading(true)
     setMessage(null)
+    setEditingProfile(false)
 
-    const formData = new FormData()
-    formData.append('file', file)
-    formData.append('clearExisting', clearExisting.toString())
+    const formData = buildFormData()
+    formData.append('preview', 'true')
+
+    try {
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreview(data)
+      } else {
+        setMessage({
+          type: 'error',
+          text: data.error || 'Failed to read file',
+        })
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: 'Network error. Please try again.',
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleUpload = async (categoryOverrides: Record<string, string>) => {
+    if (!file) return
+
+    setUploading(true)
+    setMessage(null)
+
+    const formData = buildFormData()
+    formData.append('categoryOverrides', JSON.stringify(categoryOverrides))
 
     try {
       const response = await fetch('/api/upload', {
@@ -51,6 +162,8 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
           text: data.message || 'File uploaded successfully!',
         })
         setFile(null)
+        setFileText(null)
+        setPreview(null)
         if (fileInputRef.current) {
           fileInputRef.current.value = ''
         }
@@ -78,7 +191,7 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
           Upload Bank Statement
         </h2>
         <p className="text-gray-600 mb-4">
-          Upload your bank statement in CSV format. The system will automatically
+          Upload your bank statement as CSV or OFX/QFX. The system will automatically
           categorize transactions and make them available for analysis.
         </p>
         
@@ -93,6 +206,15 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
             <li><strong>Amount</strong> (negative for expenses, positive for income)</li>
             <li>Optional: <strong>Account</strong>, <strong>Category</strong></li>
           </ul>
+          <p className="text-sm text-gray-600 mt-2">
+            Different layout (separate debit/credit columns, DD/MM dates, preamble lines)?
+            Customize the column mapping once and save it as a profile — it will be
+            matched automatically next time.
+          </p>
+          <p className="text-sm text-gray-600 mt-2">
+            <strong>OFX/QFX</strong> exports (Quicken, Money, most banks) are detected
+            automatically, including the account they belong to.
+          </p>
         </div>
       </div>
 
@@ -105,14 +227,14 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
             className="cursor-pointer inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors mb-4"
           >
             <Upload className="mr-2" size={20} />
-            Select CSV File
+            Select Statement File
           </label>
           
           <input
             ref={fileInputRef}
             id="file-upload"
             type="file"
-            accept=".csv"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             onChange={handleFileChange}
             className="hidden"
           />
@@ -129,7 +251,71 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
           )}
         </div>
 
-        {file && (
+        {file && fileText && mapping && !preview && (
+          <div className="mt-6 p-4 border rounded-lg">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm font-medium text-gray-700" htmlFor="import-profile">
+                Column mapping
+              </label>
+              <select
+                id="import-profile"
+                value={selectedProfileId}
+                onChange={(e) => setSelectedProfileId(e.target.value)}
+                className="text-sm border rounded px-2 py-1 bg-white"
+              >
+                <option value="">Auto-match saved profile</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setEditingProfile(!editingProfile)}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Settings2 size={16} />
+                {mapping.profile ? 'Edit profile' : 'Customize & save'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {mapping.profile
+                ? `Using profile "${mapping.profile.name}"`
+                : 'No saved profile matches these headers — columns were guessed.'}
+              {' '}Date: <strong>{mapping.settings.dateColumn || '?'}</strong>,
+              {' '}Description: <strong>{mapping.settings.descriptionColumn || '?'}</strong>,
+              {' '}Amount: <strong>
+                {mapping.settings.amountSign === 'debit_credit'
+                  ? `${mapping.settings.debitColumn || '—'} / ${mapping.settings.creditColumn || '—'}`
+                  : mapping.settings.amountColumn || '?'}
+              </strong>
+            </p>
+
+            {editingProfile && (
+              <ImportProfileEditor
+                key={mapping.profile?.id ?? 'new'}
+                fileText={fileText}
+                initialSettings={mapping.settings}
+                profile={mapping.profile}
+                onSaved={(profile) => {
+                  setEditingProfile(false)
+                  setSelectedProfileId(profile.id.toString())
+                  fetchProfiles()
+                }}
+                onCancel={() => setEditingProfile(false)}
+              />
+            )}
+          </div>
+        )}
+
+        {file && preview && (
+          <ImportPreview
+            preview={preview}
+            committing={uploading}
+            onConfirm={handleUpload}
+            onCancel={() => setPreview(null)}
+          />
+        )}
+
+        {file && !preview && (
           <div className="mt-6">
             <label className="flex items-center justify-center space-x-2 text-sm text-gray-600 mb-4">
               <input
@@ -142,25 +328,50 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
             </label>
 
             <button
-              onClick={handleUpload}
+              onClick={handlePreview}
               disabled={uploading}
               className="w-full flex items-center justify-center px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {uploading ? (
                 <>
                   <Loader2 className="mr-2 animate-spin" size={20} />
-                  Processing...
+                  Reading file...
                 </>
               ) : (
                 <>
                   <Upload className="mr-2" size={20} />
-                  Upload and Process
+                  Preview Import
                 </>
               )}
             </button>
           </div>
         )}
 
+        {profiles.length > 0 && !file && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Saved import profiles</h3>
+            <ul className="divide-y border rounded-lg">
+              {profiles.map((p) => (
+                <li key={p.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium text-gray-700">{p.name}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {p.dateFormat === 'auto' ? 'auto dates' : p.dateFormat} · {p.amountSign.replace('_', '/')}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => handleDeleteProfile(p.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {message && (
           <div
             className={`mt-4 p-4 rounded-lg flex items-start ${
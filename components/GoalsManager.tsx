@@ -0,0 +1,324 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Save, X, Edit2, Trash2, Loader2, Target } from 'lucide-react'
+import type { GoalProgress, GoalSummary, GoalPriority } from '@/types'
+
+interface GoalForm {
+  id?: number
+  name: string
+  targetAmount: string
+  targetDate: string
+  linkType: 'account' | 'tag'
+  accountId: string
+  tag: string
+  priority: GoalPriority
+}
+
+const EMPTY_FORM: GoalForm = {
+  name: '',
+  targetAmount: '',
+  targetDate: '',
+  linkType: 'account',
+  accountId: '',
+  tag: '',
+  priority: 'medium',
+}
+
+const PRIORITY_LABELS: Record<GoalPriority, string> = {
+  high: 'High priority',
+  medium: 'Medium priority',
+  low: 'Low priority',
+}
+
+const STATUS_STYLES: Record<GoalProgress['status'], { bar: string; badge: string; label: string }> = {
+  achieved: { bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-700', label: 'Achieved' },
+  on_track: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-700', label: 'On track' },
+  behind: { bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-700', label: 'Behind' },
+}
+
+export default function GoalsManager() {
+  const [goals, setGoals] = useState<GoalProgress[]>([])
+  const [summary, setSummary] = useState<GoalSummary | null>(null)
+  const [accounts, setAccounts] = useState<Array<{ id: number; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<GoalForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchGoals()
+  }, [])
+
+  const fetchGoals = async () => {
+    try {
+      const response = await fetch('/api/goals')
+      if (response.ok) {
+        const data = await response.json()
+        setGoals(data.goals)
+        setSummary(data.summary)
+        setAccounts(data.accounts)
+      }
+    } catch (err) {
+      console.error('Error fetching goals:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/goals', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(form.id && { id: form.id }),
+          name: form.name,
+          targetAmount: parseFloat(form.targetAmount),
+          targetDate: form.targetDate || null,
+          ...(form.linkType === 'account' ? { accountId: form.accountId } : { tag: form.tag }),
+          priority: form.priority,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setForm(null)
+        fetchGoals()
+      } else {
+        setError(data.error || 'Failed to save goal')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (goal: GoalProgress) => {
+    if (!confirm(`Delete the ${goal.name} goal?`)) return
+    try {
+      const response = await fetch(`/api/goals?id=${goal.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        fetchGoals()
+      }
+    } catch (err) {
+      console.error('Error deleting goal:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const linked = form && (form.linkType === 'account' ? form.accountId : form.tag.trim())
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Goals</h2>
+          <p className="text-sm text-gray-600">
+            Track savings toward a target from an account&apos;s balance or from transactions with a tag.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm({ ...EMPTY_FORM, accountId: String(accounts[0]?.id ?? '') })}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+        >
+          <Plus className="mr-1" size={16} />
+          Add Goal
+        </button>
+      </div>
+
+      {summary && goals.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">You save per month</p>
+            <p className={`text-2xl font-bold ${summary.monthlySavings < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+              {summary.monthlySavings < 0 ? '−' : ''}${Math.abs(summary.monthlySavings).toFixed(2)}
+            </p>
+            <p className="text-xs text-gray-500">Income minus spending, last 3 months</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Goals need per month</p>
+            <p className="text-2xl font-bold text-gray-800">${summary.requiredMonthly.toFixed(2)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Behind</p>
+            <p className={`text-2xl font-bold ${summary.behindCount > 0 ? 'text-yellow-600' : 'text-gray-800'}`}>{summary.behindCount}</p>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Goal name (e.g. Emergency fund)"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.targetAmount}
+              onChange={(e) => setForm({ ...form, targetAmount: e.target.value })}
+              placeholder="Target amount"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="date"
+              value={form.targetDate}
+              onChange={(e) => setForm({ ...form, targetDate: e.target.value })}
+              title="Target date (optional)"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value as GoalPriority })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={form.linkType}
+              onChange={(e) => setForm({ ...form, linkType: e.target.value as GoalForm['linkType'] })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              <option value="account">Track an account balance</option>
+              <option value="tag">Track tagged transactions</option>
+            </select>
+            {form.linkType === 'account' ? (
+              <select
+                value={form.accountId}
+                onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+                className="text-sm border rounded px-2 py-1 bg-white"
+              >
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={form.tag}
+                onChange={(e) => setForm({ ...form, tag: e.target.value })}
+                placeholder="Tag (e.g. emergency-fund)"
+                className="text-sm border rounded px-2 py-1"
+              />
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || !(parseFloat(form.targetAmount) > 0) || !linked}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {goals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Target size={40} className="mb-2" />
+          <p>No goals yet. Add one to track savings toward a target.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {goals.map(goal => {
+            const style = STATUS_STYLES[goal.status]
+            return (
+              <div key={goal.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-800">{goal.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {goal.tag !== null ? `Tagged “${goal.tag}”` : goal.accountName ?? 'Account removed'}
+                      {' · '}{PRIORITY_LABELS[goal.priority]}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs px-2 py-0.5 rounded ${style.badge}`}>{style.label}</span>
+                    <button
+                      onClick={() => setForm({
+                        id: goal.id,
+                        name: goal.name,
+                        targetAmount: String(goal.targetAmount),
+                        targetDate: goal.targetDate || '',
+                        linkType: goal.tag !== null ? 'tag' : 'account',
+                        accountId: String(goal.accountId ?? accounts[0]?.id ?? ''),
+                        tag: goal.tag || '',
+                        priority: goal.priority,
+                      })}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Edit"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>${goal.current.toFixed(2)} saved</span>
+                    <span>of ${goal.targetAmount.toFixed(2)} ({goal.percentComplete}%)</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className={`h-full ${style.bar}`} style={{ width: `${goal.percentComplete}%` }} />
+                  </div>
+                </div>
+                {goal.status !== 'achieved' && (
+                  <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+                    <div>
+                      <p className="text-gray-400">Needed per month</p>
+                      <p className="font-medium text-gray-800">
+                        {goal.requiredMonthly !== null ? `$${goal.requiredMonthly.toFixed(2)} until ${goal.targetDate}` : 'No target date'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">At your savings rate</p>
+                      <p className="font-medium text-gray-800">
+                        {goal.projectedDate ? `Reached by ${goal.projectedDate}` : 'No savings left over for it'}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { UserButton, useUser } from '@clerk/nextjs'
 import { Sparkles, TrendingUp } from 'lucide-react'
 import Link from 'next/link'
+import NotificationBell from '@/components/NotificationBell'
 
 export default function Header() {
   const { user, isLoaded } = useUser()
@@ -50,6 +51,7 @@ export default function Header() {
           <div className="flex items-center gap-4">
             {isLoaded && user && (
               <>
+                <NotificationBell />
                 <div className="hidden md:flex flex-col items-end">
                   <span className="text-sm font-medium text-slate-200">
                     {user.firstName || user.username || 'User'}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { History, Undo2, Loader2 } from 'lucide-react'
+import type { ImportBatchSummary } from '@/types'
+
+interface ImportHistoryProps {
+  refreshKey?: number // Bump to reload after a new upload
+  onRollback?: () => void
+}
+
+export default function ImportHistory({ refreshKey, onRollback }: ImportHistoryProps) {
+  const [imports, setImports] = useState<ImportBatchSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchImports()
+  }, [refreshKey])
+
+  const fetchImports = async () => {
+    try {
+      const response = await fetch('/api/imports')
+      if (response.ok) {
+        const data = await response.json()
+        setImports(data.imports)
+      }
+    } catch (error) {
+      console.error('Error fetching import history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRollback = async (batch: ImportBatchSummary) => {
+    if (!confirm(`Roll back "${batch.fileName}"? This deletes the ${batch.remainingCount} transactions it imported.`)) return
+
+    setRollingBackId(batch.id)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/imports?id=${batch.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        fetchImports()
+        onRollback?.()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to roll back import' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error. Please try again.' })
+    } finally {
+      setRollingBackId(null)
+    }
+  }
+
+  if (loading || imports.length === 0) return null
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-800 mb-3">
+        <History size={20} />
+        Import History
+      </h3>
+
+      {message && (
+        <p className={`mb-3 text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <ul className="divide-y border rounded-lg bg-white">
+        {imports.map((batch) => (
+          <li key={batch.id} className="flex items-center justify-between px-4 py-3 text-sm">
+            <div>
+              <p className={`font-medium ${batch.status === 'rolled_back' ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                {batch.fileName}
+                <span className="ml-2 text-xs uppercase text-gray-400">{batch.format}</span>
+              </p>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {new Date(batch.createdAt).toLocaleString()} · {batch.insertedCount} imported
+                {batch.duplicateCount > 0 && ` · ${batch.duplicateCount} duplicates skipped`}
+                {batch.errorCount > 0 && ` · ${batch.errorCount} errors`}
+                {batch.status === 'completed' && batch.remainingCount < batch.insertedCount &&
+                  ` · ${batch.remainingCount} remaining`}
+              </p>
+            </div>
+            {batch.status === 'rolled_back' ? (
+              <span className="text-xs text-gray-400">Rolled back</span>
+            ) : (
+              <button
+                onClick={() => handleRollback(batch)}
+                disabled={rollingBackId !== null || batch.remainingCount === 0}
+                className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Delete the transactions from this import"
+              >
+                {rollingBackId === batch.id ? <Loader2 className="animate-spin" size={14} /> : <Undo2 size={14} />}
+                Undo import
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { CheckCircle, AlertCircle, Copy, Loader2, X } from 'lucide-react'
+import type { ImportPreviewResponse, ImportPreviewRow } from '@/types'
+
+interface ImportPreviewProps {
+  preview: ImportPreviewResponse
+  committing: boolean
+  onConfirm: (categoryOverrides: Record<string, string>) => void
+  onCancel: () => void
+}
+
+type RowFilter = 'all' | 'new' | 'duplicate' | 'invalid'
+
+const METHOD_STYLES: Record<string, string> = {
+  rule: 'bg-purple-100 text-purple-700',
+  merchant: 'bg-indigo-100 text-indigo-700',
+  pattern: 'bg-blue-100 text-blue-700',
+  local: 'bg-teal-100 text-teal-700',
+  similarity: 'bg-cyan-100 text-cyan-700',
+  ai: 'bg-amber-100 text-amber-700',
+  fallback: 'bg-gray-100 text-gray-600',
+}
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  high: 'text-green-600',
+  medium: 'text-yellow-600',
+  low: 'text-red-600',
+}
+
+function rowStatus(row: ImportPreviewRow): Exclude<RowFilter, 'all'> {
+  if (row.errors.length > 0) return 'invalid'
+  if (row.duplicate) return 'duplicate'
+  return 'new'
+}
+
+export default function ImportPreview({ preview, committing, onConfirm, onCancel }: ImportPreviewProps) {
+  const [filter, setFilter] = useState<RowFilter>('all')
+  const [overrides, setOverrides] = useState<Record<string, string>>({})
+
+  const visibleRows = useMemo(
+    () => preview.rows.filter(row => filter === 'all' || rowStatus(row) === filter),
+    [preview.rows, filter]
+  )
+
+  const setCategory = (row: ImportPreviewRow, category: string) => {
+    if (!row.fingerprint) return
+    setOverrides(prev => {
+      const next = { ...prev }
+      if (category === row.category) {
+        delete next[row.fingerprint!]
+      } else {
+        next[row.fingerprint!] = category
+      }
+      return next
+    })
+  }
+
+  const filters: { value: RowFilter; label: string; count: number }[] = [
+    { value: 'all', label: 'All', count: preview.summary.total },
+    { value: 'new', label: 'New', count: preview.summary.new },
+    { value: 'duplicate', label: 'Duplicates', count: preview.summary.duplicates },
+    { value: 'invalid', label: 'Errors', count: preview.summary.invalid },
+  ]
+
+  return (
+    <div className="mt-6 border rounded-lg">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h3 className="font-medium text-gray-800">Review import</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {preview.format === 'ofx' ? 'OFX/QFX statement' : preview.profile ? `CSV · profile "${preview.profile.name}"` : 'CSV · guessed columns'}
+            {' '}— nothing has been saved yet. Adjust categories below, then confirm.
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" title="Cancel import">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 px-4 pt-3">
+        {filters.map(f => (
+          <button
+            key={f.value}
+            onClick={() => setFilter(f.value)}
+            className={`px-3 py-1 text-xs rounded-full border ${
+              filter === f.value ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {f.label} ({f.count})
+          </button>
+        ))}
+      </div>
+
+      {preview.errors && preview.errors.length > 0 && (
+        <div className="mx-4 mt-3 p-2 bg-yellow-50 text-yellow-800 text-xs rounded">
+          {preview.errors.slice(0, 5).map((e, i) => <p key={i}>{e}</p>)}
+          {preview.errors.length > 5 && <p>…and {preview.errors.length - 5} more</p>}
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-auto mt-3">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-gray-600">
+              <th className="p-2">Status</th>
+              <th className="p-2">Date</th>
+              <th className="p-2">Description</th>
+              <th className="p-2 text-right">Amount</th>
+              <th className="p-2">Category</th>
+              <th className="p-2">Method</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => {
+              const status = rowStatus(row)
+              return (
+                <tr key={row.line} className={`border-t ${status === 'new' ? '' : 'bg-gray-50 text-gray-500'}`}>
+                  <td className="p-2 whitespace-nowrap">
+                    {status === 'new' && <CheckCircle className="text-green-500" size={14} />}
+                    {status === 'duplicate' && (
+                      <span className="flex items-center gap-1" title="Already imported">
+                        <Copy size={14} /> Duplicate
+                      </span>
+                    )}
+                    {status === 'invalid' && (
+                      <span className="flex items-center gap-1 text-red-600" title={row.errors.join(', ')}>
+                        <AlertCircle size={14} /> {row.errors.join(', ')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-2 whitespace-nowrap">{row.date || row.rawDate || '—'}</td>
+                  <td className="p-2 truncate max-w-[220px]" title={row.description}>
+                    {row.payee || row.description || '—'}
+                    <span className="block text-gray-400">
+                      {row.account}
+                      {row.tags.length > 0 && ` · ${row.tags.map(t => `#${t}`).join(' ')}`}
+                    </span>
+                  </td>
+                  <td className={`p-2 text-right whitespace-nowrap ${
+                    row.amount === null ? 'text-red-600' : row.amount < 0 ? 'text-red-600' : 'text-green-600'
+                  }`}>
+                    {row.amount === null ? row.rawAmount || '—' : row.amount.toFixed(2)}
+                  </td>
+                  <td className="p-2">
+                    {status === 'new' && row.category ? (
+                      <select
+                        value={(row.fingerprint && overrides[row.fingerprint]) || row.category}
+                        onChange={(e) => setCategory(row, e.target.value)}
+                        className={`border rounded px-1 py-0.5 bg-white ${
+                          row.fingerprint && overrides[row.fingerprint] ? 'border-blue-400' : ''
+                        }`}
+                      >
+                        {preview.categories.map(c => (
+                          <option key={c} value={c}>{c}</option>
+                        ))}
+                      </select>
+                    ) : '—'}
+                  </td>
+                  <td className="p-2 whitespace-nowrap">
+                    {row.fingerprint && overrides[row.fingerprint] ? (
+                      <span className="px-2 py-0.5 rounded bg-green-100 text-green-700">edited</span>
+                    ) : row.method ? (
+                      <>
+                        <span className={`px-2 py-0.5 rounded ${METHOD_STYLES[row.method]}`}>{row.method}</span>
+                        {row.confidence && (
+                          <span className={`ml-1 ${CONFIDENCE_STYLES[row.confidence]}`}>{row.confidence}</span>
+                        )}
+                      </>
+                    ) : null}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <p className="p-4 text-center text-sm text-gray-500">No rows</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between p-4 border-t">
+        <span className="text-sm text-gray-600">
+          {preview.summary.new} new · {preview.summary.duplicates} duplicates · {preview.summary.invalid} with errors
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(overrides)}
+            disabled={committing || preview.summary.new === 0}
+            className="flex items-center px-4 py-2 text-sm bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {committing && <Loader2 className="mr-2 animate-spin" size={16} />}
+            Import {preview.summary.new} transactions
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Save, X, Loader2 } from 'lucide-react'
+import {
+  readCSVHeaders,
+  computeHeaderFingerprint,
+  parseCSVWithSettings,
+  DATE_FORMATS,
+  type CSVImportSettings,
+  type AmountSign,
+  type DateFormat,
+} from '@/lib/import/csv'
+
+export interface ImportProfileSummary extends CSVImportSettings {
+  id: number
+  name: string
+  headerFingerprint: string
+}
+
+interface ImportProfileEditorProps {
+  fileText: string
+  initialSettings: CSVImportSettings
+  profile?: ImportProfileSummary | null
+  onSaved: (profile: ImportProfileSummary) => void
+  onCancel: () => void
+}
+
+const DELIMITERS = [
+  { value: '', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+const SIGN_LABELS: Record<AmountSign, string> = {
+  signed: 'One amount column, negative = expense',
+  inverted: 'One amount column, positive = expense',
+  debit_credit: 'Separate debit and credit columns',
+}
+
+export default function ImportProfileEditor({
+  fileText,
+  initialSettings,
+  profile,
+  onSaved,
+  onCancel,
+}: ImportProfileEditorProps) {
+  const [name, setName] = useState(profile?.name || '')
+  const [settings, setSettings] = useState<CSVImportSettings>(initialSettings)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const headers = useMemo(
+    () => readCSVHeaders(fileText, { delimiter: settings.delimiter, headerRowOffset: settings.headerRowOffset }).headers,
+    [fileText, settings.delimiter, settings.headerRowOffset]
+  )
+
+  // Parse the first few rows with the current mapping so the user can sanity-check it
+  const sampleRows = useMemo(
+    () => parseCSVWithSettings(fileText, settings).rows.slice(0, 3),
+    [fileText, settings]
+  )
+
+  const update = (changes: Partial<CSVImportSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/import-profiles', {
+        method: profile ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(profile && { id: profile.id }),
+          ...settings,
+          name,
+          headerFingerprint: computeHeaderFingerprint(headers),
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onSaved(data.profile)
+      } else {
+        setError(data.error || 'Failed to save profile')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const columnSelect = (label: string, key: keyof CSVImportSettings, optional = false) => (
+    <label className="block">
+      <span className="text-xs font-medium text-gray-600">{label}</span>
+      <select
+        value={(settings[key] as string | null) || ''}
+        onChange={(e) => update({ [key]: e.target.value || null })}
+        className="mt-1 w-full text-sm border rounded px-2 py-1 bg-white"
+      >
+        {optional && <option value="">— None —</option>}
+        {headers.map((h) => (
+          <option key={h} value={h}>{h}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border rounded-lg text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-700">
+          {profile ? `Edit profile "${profile.name}"` : 'Save column mapping as profile'}
+        </h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="block md:col-span-3">
+          <span className="text-xs font-medium text-gray-600">Profile name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Chase Checking"
+            className="mt-1 w-full text-sm border rounded px-2 py-1"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600">Delimiter</span>
+          <select
+            value={settings.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+            className="mt-1 w-full text-sm border rounded px-2 py-1 bg-white"
+          >
+            {DELIMITERS.map((d) => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600">Lines before header row</span>
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={settings.headerRowOffset}
+            onChange={(e) => update({ headerRowOffset: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="mt-1 w-full text-sm border rounded px-2 py-1"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600">Date format</span>
+          <select
+            value={settings.dateFormat}
+            onChange={(e) => update({ dateFormat: e.target.value as DateFormat })}
+            className="mt-1 w-full text-sm border rounded px-2 py-1 bg-white"
+          >
+            {DATE_FORMATS.map((f) => (
+              <option key={f} value={f}>{f === 'auto' ? 'Auto-detect' : f}</option>
+            ))}
+          </select>
+        </label>
+
+        {columnSelect('Date column', 'dateColumn')}
+        {columnSelect('Description column', 'descriptionColumn')}
+        {columnSelect('Account column', 'accountColumn', true)}
+
+        <label className="block md:col-span-3">
+          <span className="text-xs font-medium text-gray-600">Amount sign convention</span>
+          <select
+            value={settings.amountSign}
+            onChange={(e) => update({ amountSign: e.target.value as AmountSign })}
+            className="mt-1 w-full text-sm border rounded px-2 py-1 bg-white"
+          >
+            {(Object.keys(SIGN_LABELS) as AmountSign[]).map((sign) => (
+              <option key={sign} value={sign}>{SIGN_LABELS[sign]}</option>
+            ))}
+          </select>
+        </label>
+
+        {settings.amountSign === 'debit_credit' ? (
+          <>
+            {columnSelect('Debit column', 'debitColumn', true)}
+            {columnSelect('Credit column', 'creditColumn', true)}
+          </>
+        ) : (
+          columnSelect('Amount column', 'amountColumn')
+        )}
+
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600">Default account</span>
+          <input
+            type="text"
+            value={settings.defaultAccount || ''}
+            onChange={(e) => update({ defaultAccount: e.target.value || null })}
+            placeholder="Used when no account column"
+            className="mt-1 w-full text-sm border rounded px-2 py-1"
+          />
+        </label>
+      </div>
+
+      {sampleRows.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-600 mb-1">Preview</p>
+          <table className="w-full text-xs bg-white border rounded">
+            <tbody>
+              {sampleRows.map((row) => (
+                <tr key={row.line} className="border-t">
+                  <td className={`p-1 ${row.date ? 'text-gray-600' : 'text-red-600'}`}>
+                    {row.date || `Invalid: ${row.rawDate}`}
+                  </td>
+                  <td className="p-1 truncate max-w-[200px]">{row.description}</td>
+                  <td className={`p-1 text-right ${
+                    row.amount === null ? 'text-red-600' : row.amount < 0 ? 'text-red-600' : 'text-green-600'
+                  }`}>
+                    {row.amount === null ? `Invalid: ${row.rawAmount}` : row.amount.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        onClick={handleSave}
+        disabled={saving || !name.trim()}
+        className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? <Loader2 className="mr-2 animate-spin" size={16} /> : <Save className="mr-2" size={16} />}
+        Save Profile
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { Save, X, Edit2, Loader2, Merge, Split, Store, ChevronDown, ChevronRight, ExternalLink } from 'lucide-react'
+import type { Merchant } from '@/types'
+
+interface MerchantForm {
+  id: number
+  name: string
+  defaultCategory: string
+  logoUrl: string
+  website: string
+  applyToExisting: boolean
+}
+
+interface SplitDraft {
+  aliases: string[]
+  name: string
+}
+
+export default function MerchantsManager() {
+  const [merchants, setMerchants] = useState<Merchant[]>([])
+  const [categories, setCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<number[]>([])
+  const [mergeTarget, setMergeTarget] = useState<number | null>(null)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [split, setSplit] = useState<SplitDraft>({ aliases: [], name: '' })
+  const [form, setForm] = useState<MerchantForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchMerchants()
+  }, [])
+
+  const fetchMerchants = async () => {
+    try {
+      const response = await fetch('/api/merchants')
+      if (response.ok) {
+        const data = await response.json()
+        setMerchants(data.merchants)
+        setCategories(data.categories)
+      }
+    } catch (err) {
+      console.error('Error fetching merchants:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]))
+  }
+
+  const post = async (url: string, method: string, body: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Request failed')
+        return null
+      }
+      return data
+    } catch {
+      setError('Network error. Please try again.')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMerge = async () => {
+    const targetId = mergeTarget ?? selected[0]
+    const target = merchants.find(m => m.id === targetId)
+    const data = await post('/api/merchants/merge', 'POST', {
+      targetId,
+      sourceIds: selected.filter(id => id !== targetId),
+    })
+    if (data) {
+      setMessage(`Merged ${data.merged} merchant${data.merged !== 1 ? 's' : ''} into ${target?.name}`)
+      setSelected([])
+      setMergeTarget(null)
+      fetchMerchants()
+    }
+  }
+
+  const handleSplit = async (merchant: Merchant) => {
+    const data = await post('/api/merchants/split', 'POST', {
+      id: merchant.id,
+      aliases: split.aliases,
+      name: split.name,
+    })
+    if (data) {
+      setMessage(`Created ${data.merchant.name} with ${data.moved} transaction${data.moved !== 1 ? 's' : ''}`)
+      setSplit({ aliases: [], name: '' })
+      fetchMerchants()
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    const data = await post('/api/merchants', 'PATCH', {
+      id: form.id,
+      name: form.name,
+      defaultCategory: form.defaultCategory,
+      logoUrl: form.logoUrl,
+      website: form.website,
+      applyToExisting: form.applyToExisting,
+    })
+    if (data) {
+      if (data.applied > 0) {
+        setMessage(`${data.merchant.name}: ${data.applied} transaction${data.applied !== 1 ? 's' : ''} set to ${data.merchant.defaultCategory}`)
+      }
+      setForm(null)
+      fetchMerchants()
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const query = search.trim().toUpperCase()
+  const visible = query
+    ? merchants.filter(m => m.name.toUpperCase().includes(query) || m.aliases.some(a => a.includes(query)))
+    : merchants
+  const selectedMerchants = merchants.filter(m => selected.includes(m.id))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Merchants</h2>
+          <p className="text-sm text-gray-600">
+            Merge merchants that are the same business, or split off aliases that aren&apos;t
+          </p>
+        </div>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search merchants"
+          className="text-sm border rounded-lg px-3 py-2 w-64"
+        />
+      </div>
+
+      {message && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">{message}</div>
+      )}
+      {error && !form && <p className="text-sm text-red-600">{error}</p>}
+
+      {selectedMerchants.length >= 2 && (
+        <div className="p-4 bg-gray-50 border rounded-lg flex flex-wrap items-center gap-3 text-sm">
+          <span>Merge {selectedMerchants.length} merchants into</span>
+          <select
+            value={mergeTarget ?? selected[0]}
+            onChange={(e) => setMergeTarget(parseInt(e.target.value))}
+            className="border rounded px-2 py-1 bg-white"
+          >
+            {selectedMerchants.map(m => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleMerge}
+            disabled={saving}
+            className="flex items-center px-3 py-1.5 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Merge className="mr-1" size={14} />
+            Merge
+          </button>
+          <button
+            onClick={() => { setSelected([]); setMergeTarget(null) }}
+            className="flex items-center px-3 py-1.5 border rounded hover:bg-gray-100"
+          >
+            <X className="mr-1" size={14} />
+            Clear
+          </button>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Merchant name"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <select
+              value={form.defaultCategory}
+              onChange={(e) => setForm({ ...form, defaultCategory: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              <option value="">No default category</option>
+              {categories.map(cat => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <input
+              type="url"
+              value={form.logoUrl}
+              onChange={(e) => setForm({ ...form, logoUrl: e.target.value })}
+              placeholder="Logo URL"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="url"
+              value={form.website}
+              onChange={(e) => setForm({ ...form, website: e.target.value })}
+              placeholder="Website"
+              className="text-sm border rounded px-2 py-1"
+            />
+          </div>
+          {form.defaultCategory && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={form.applyToExisting}
+                onChange={(e) => setForm({ ...form, applyToExisting: e.target.checked })}
+                className="rounded"
+              />
+              Also set this category on existing transactions (except ones you categorized yourself)
+            </label>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="p-3 w-8"></th>
+              <th className="p-3">Merchant</th>
+              <th className="p-3">Aliases</th>
+              <th className="p-3">Default category</th>
+              <th className="p-3 text-right">Transactions</th>
+              <th className="p-3 text-right">Spent</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(merchant => {
+              const isExpanded = expanded === merchant.id
+              return (
+                <Fragment key={merchant.id}>
+                  <tr className="border-t">
+                    <td className="p-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(merchant.id)}
+                        onChange={() => toggleSelected(merchant.id)}
+                        className="rounded"
+                      />
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        {merchant.logoUrl ? (
+                          <img src={merchant.logoUrl} alt="" className="w-6 h-6 rounded object-contain" />
+                        ) : (
+                          <Store size={18} className="text-gray-400" />
+                        )}
+                        <span className="font-medium text-gray-800">{merchant.name}</span>
+                        {merchant.website && (
+                          <a href={merchant.website} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-blue-600">
+                            <ExternalLink size={12} />
+                          </a>
+                        )}
+                      </div>
+                      {merchant.lastDate && <p className="text-xs text-gray-500 ml-8">Last seen {merchant.lastDate}</p>}
+                    </td>
+                    <td className="p-3">
+                      <button
+                        onClick={() => {
+                          setExpanded(isExpanded ? null : merchant.id)
+                          setSplit({ aliases: [], name: '' })
+                        }}
+                        className="flex items-center gap-1 text-gray-600 hover:text-gray-800"
+                      >
+                        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        {merchant.aliases.length} alias{merchant.aliases.length !== 1 ? 'es' : ''}
+                      </button>
+                    </td>
+                    <td className="p-3 text-gray-700">{merchant.defaultCategory || '—'}</td>
+                    <td className="p-3 text-right text-gray-600">{merchant.transactionCount}</td>
+                    <td className="p-3 text-right font-medium">${merchant.totalSpent.toFixed(2)}</td>
+                    <td className="p-3">
+                      <div className="flex justify-end">
+                        <button
+                          onClick={() => {
+                            setError(null)
+                            setForm({
+                              id: merchant.id,
+                              name: merchant.name,
+                              defaultCategory: merchant.defaultCategory || '',
+                              logoUrl: merchant.logoUrl || '',
+                              website: merchant.website || '',
+                              applyToExisting: false,
+                            })
+                          }}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Edit"
+                        >
+                          <Edit2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="px-8 py-3 space-y-2">
+                        {merchant.aliases.map(alias => (
+                          <label key={alias} className="flex items-center gap-2 text-xs text-gray-700">
+                            {merchant.aliases.length > 1 && (
+                              <input
+                                type="checkbox"
+                                checked={split.aliases.includes(alias)}
+                                onChange={(e) => setSplit({
+                                  ...split,
+                                  aliases: e.target.checked
+                                    ? [...split.aliases, alias]
+                                    : split.aliases.filter(a => a !== alias),
+                                })}
+                                className="rounded"
+                              />
+                            )}
+                            <span className="font-mono">{alias}</span>
+                          </label>
+                        ))}
+                        {split.aliases.length > 0 && (
+                          <div className="flex items-center gap-2 pt-1">
+                            <input
+                              type="text"
+                              value={split.name}
+                              onChange={(e) => setSplit({ ...split, name: e.target.value })}
+                              placeholder="New merchant name"
+                              className="text-sm border rounded px-2 py-1"
+                            />
+                            <button
+                              onClick={() => handleSplit(merchant)}
+                              disabled={saving || !split.name.trim() || split.aliases.length >= merchant.aliases.length}
+                              className="flex items-center px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50"
+                            >
+                              <Split className="mr-1" size={14} />
+                              Split off {split.aliases.length}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <p className="p-6 text-center text-gray-500">No merchants found.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import type { NetWorthData } from '@/types'
+
+const TYPE_LABELS: Record<string, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit cards',
+  loan: 'Loans',
+  brokerage: 'Brokerage',
+  property: 'Property',
+  vehicle: 'Vehicles',
+  investment: 'Investments',
+  mortgage: 'Mortgage',
+  student_loan: 'Student loans',
+  auto_loan: 'Auto loans',
+  other: 'Other',
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function NetWorthChart() {
+  const [data, setData] = useState<NetWorthData | null>(null)
+
+  useEffect(() => {
+    fetchNetWorth()
+  }, [])
+
+  const fetchNetWorth = async () => {
+    try {
+      const response = await fetch('/api/net-worth')
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching net worth:', err)
+    }
+  }
+
+  if (!data || data.current.items.length === 0) return null
+
+  const { current, history, yearToDate } = data
+  const breakdown = current.breakdown.map(entry => ({
+    name: `${TYPE_LABELS[entry.type] || entry.type}${entry.type === 'other' ? (entry.kind === 'asset' ? ' assets' : ' debts') : ''}`,
+    value: entry.value,
+    kind: entry.kind,
+  }))
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold">Net Worth</h3>
+        <div className="text-right">
+          <p className={`text-2xl font-bold ${current.netWorth < 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatMoney(current.netWorth)}</p>
+          {yearToDate && (
+            <p className={`text-sm ${yearToDate.change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {yearToDate.change >= 0 ? '+' : ''}{formatMoney(yearToDate.change)}
+              {yearToDate.percentChange !== null && ` (${yearToDate.percentChange >= 0 ? '+' : ''}${yearToDate.percentChange}%)`}
+              <span className="text-gray-500"> since {yearToDate.from}</span>
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={history}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(0, 7)} minTickGap={20} />
+            <YAxis />
+            <Tooltip formatter={(value: any) => formatMoney(value)} />
+            <Legend />
+            <Line type="monotone" dataKey="netWorth" stroke="#3b82f6" strokeWidth={2} name="Net worth" />
+            <Line type="monotone" dataKey="assets" stroke="#10b981" strokeWidth={1} dot={false} name="Assets" />
+            <Line type="monotone" dataKey="liabilities" stroke="#ef4444" strokeWidth={1} dot={false} name="Liabilities" />
+          </LineChart>
+        </ResponsiveContainer>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={breakdown} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" />
+            <YAxis type="category" dataKey="name" width={110} />
+            <Tooltip formatter={(value: any) => formatMoney(value)} />
+            <Bar dataKey="value" name="Balance">
+              {breakdown.map((entry, index) => (
+                <Cell key={`breakdown-${index}`} fill={entry.kind === 'asset' ? '#10b981' : '#ef4444'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Save, X, Edit2, Trash2, Loader2, Gem, ChevronDown, ChevronRight } from 'lucide-react'
+import type { NetWorthData, ManualAsset, ManualAssetKind, BalanceSheetItem } from '@/types'
+
+interface AssetForm {
+  id?: number
+  name: string
+  kind: ManualAssetKind
+  type: string
+  value: string
+  date: string
+}
+
+interface ValuationForm {
+  assetId: number
+  value: string
+  date: string
+  note: string
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit card',
+  loan: 'Loan',
+  brokerage: 'Brokerage',
+  property: 'Property',
+  vehicle: 'Vehicle',
+  investment: 'Investment',
+  mortgage: 'Mortgage',
+  student_loan: 'Student loan',
+  auto_loan: 'Auto loan',
+  other: 'Other',
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function NetWorthManager() {
+  const [data, setData] = useState<NetWorthData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<AssetForm | null>(null)
+  const [valuation, setValuation] = useState<ValuationForm | null>(null)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchNetWorth()
+  }, [])
+
+  const fetchNetWorth = async () => {
+    try {
+      const response = await fetch('/api/net-worth')
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching net worth:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/net-worth', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form.id
+          ? { id: form.id, name: form.name, type: form.type }
+          : { name: form.name, kind: form.kind, type: form.type, value: parseFloat(form.value), date: form.date }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setForm(null)
+        fetchNetWorth()
+      } else {
+        setError(result.error || 'Failed to save')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveValuation = async () => {
+    if (!valuation) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/net-worth/valuations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...valuation, value: parseFloat(valuation.value) }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setValuation(null)
+        fetchNetWorth()
+      } else {
+        setError(result.error || 'Failed to record value')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (asset: ManualAsset) => {
+    if (!confirm(`Delete ${asset.name} and its value history?`)) return
+    try {
+      const response = await fetch(`/api/net-worth?id=${asset.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        fetchNetWorth()
+      }
+    } catch (err) {
+      console.error('Error deleting asset:', err)
+    }
+  }
+
+  const handleDeleteValuation = async (id: number) => {
+    try {
+      const response = await fetch(`/api/net-worth/valuations?id=${id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (response.ok) {
+        fetchNetWorth()
+      } else {
+        alert(result.error || 'Failed to delete value')
+      }
+    } catch (err) {
+      console.error('Error deleting valuation:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center text-red-600 p-8">
+        <p>Failed to load net worth</p>
+      </div>
+    )
+  }
+
+  const { current, manualAssets, assetTypes } = data
+  const manualById = new Map(manualAssets.map(a => [a.id, a]))
+
+  const renderItems = (items: BalanceSheetItem[], kind: ManualAssetKind) => (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-left text-gray-600">
+            <th className="p-3">{kind === 'asset' ? 'Assets' : 'Liabilities'}</th>
+            <th className="p-3 text-right">{formatMoney(kind === 'asset' ? current.assets : current.liabilities)}</th>
+            <th className="p-3"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.length === 0 && (
+            <tr className="border-t">
+              <td colSpan={3} className="p-3 text-gray-500">None</td>
+            </tr>
+          )}
+          {items.map(item => {
+            const asset = item.source === 'manual' ? manualById.get(item.id) : undefined
+            const isExpanded = asset && expanded === asset.id
+            return [
+              <tr key={`${item.source}-${item.id}`} className="border-t">
+                <td className="p-3">
+                  <div className="flex items-center gap-1">
+                    {asset && (
+                      <button onClick={() => setExpanded(isExpanded ? null : asset.id)} className="text-gray-400 hover:text-gray-600">
+                        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                      </button>
+                    )}
+                    <span className="font-medium text-gray-800">{item.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {TYPE_LABELS[item.type] || item.type}
+                    {item.source === 'account' ? ' account' : ` · valued ${item.valuedOn}`}
+                  </p>
+                </td>
+                <td className={`p-3 text-right font-medium ${item.value < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                  {formatMoney(item.value)}
+                </td>
+                <td className="p-3">
+                  {asset && (
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setValuation({ assetId: asset.id, value: '', date: today(), note: '' })}
+                        className="px-2 py-1 border text-xs rounded hover:bg-gray-50"
+                      >
+                        Update value
+                      </button>
+                      <button
+                        onClick={() => setForm({ id: asset.id, name: asset.name, kind: asset.kind, type: asset.type, value: '', date: '' })}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Edit"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(asset)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>,
+              isExpanded && asset && (
+                <tr key={`${item.id}-history`} className="bg-gray-50">
+                  <td colSpan={3} className="px-8 py-2">
+                    <ul className="divide-y text-xs">
+                      {asset.valuations.map(v => (
+                        <li key={v.id} className="flex items-center justify-between py-1">
+                          <span className="text-gray-600">
+                            {v.date}{v.note && <span className="text-gray-400"> · {v.note}</span>}
+                          </span>
+                          <span className="flex items-center gap-3">
+                            <span className="text-gray-800">{formatMoney(v.value)}</span>
+                            {asset.valuations.length > 1 && (
+                              <button onClick={() => handleDeleteValuation(v.id)} className="text-gray-400 hover:text-red-600" title="Delete">
+                                <Trash2 size={12} />
+                              </button>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              ),
+            ]
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Net Worth</h2>
+          <p className="text-sm text-gray-600">
+            Your accounts plus things you own and owe outside them, like a home, a car or a mortgage.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm({ name: '', kind: 'asset', type: assetTypes.asset[0], value: '', date: today() })}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+        >
+          <Plus className="mr-1" size={16} />
+          Add Asset or Liability
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Net worth</p>
+          <p className={`text-2xl font-bold ${current.netWorth < 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatMoney(current.netWorth)}</p>
+          {data.yearToDate && (
+            <p className={`text-xs ${data.yearToDate.change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {data.yearToDate.change >= 0 ? '+' : ''}{formatMoney(data.yearToDate.change)} since {data.yearToDate.from}
+            </p>
+          )}
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Assets</p>
+          <p className="text-2xl font-bold text-green-600">{formatMoney(current.assets)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Liabilities</p>
+          <p className="text-2xl font-bold text-red-600">{formatMoney(current.liabilities)}</p>
+        </div>
+      </div>
+
+      {form && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name (e.g. Home, Student loan)"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <select
+              value={form.kind}
+              disabled={!!form.id}
+              onChange={(e) => {
+                const kind = e.target.value as ManualAssetKind
+                setForm({ ...form, kind, type: assetTypes[kind][0] })
+              }}
+              className="text-sm border rounded px-2 py-1 bg-white disabled:opacity-50"
+            >
+              <option value="asset">Asset</option>
+              <option value="liability">Liability</option>
+            </select>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value })}
+              className="text-sm border rounded px-2 py-1 bg-white"
+            >
+              {assetTypes[form.kind].map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type] || type}</option>
+              ))}
+            </select>
+            {!form.id && (
+              <>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  placeholder={form.kind === 'asset' ? 'Current value' : 'Amount owed'}
+                  className="text-sm border rounded px-2 py-1"
+                />
+                <input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="text-sm border rounded px-2 py-1"
+                />
+              </>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || (!form.id && !(parseFloat(form.value) >= 0))}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setForm(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {valuation && (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+          <p className="text-sm font-medium text-gray-700">Update value of {manualById.get(valuation.assetId)?.name}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={valuation.value}
+              onChange={(e) => setValuation({ ...valuation, value: e.target.value })}
+              placeholder="Value"
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="date"
+              value={valuation.date}
+              onChange={(e) => setValuation({ ...valuation, date: e.target.value })}
+              className="text-sm border rounded px-2 py-1"
+            />
+            <input
+              type="text"
+              value={valuation.note}
+              onChange={(e) => setValuation({ ...valuation, note: e.target.value })}
+              placeholder="Note (e.g. appraisal)"
+              className="text-sm border rounded px-2 py-1"
+            />
+          </div>
+          {error && !form && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveValuation}
+              disabled={saving || !(parseFloat(valuation.value) >= 0)}
+              className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+            >
+              <Save className="mr-1" size={14} />
+              Save
+            </button>
+            <button
+              onClick={() => { setValuation(null); setError(null) }}
+              className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+            >
+              <X className="mr-1" size={14} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {current.items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Gem size={40} className="mb-2" />
+          <p>Nothing to show yet. Import transactions or add an asset.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          {renderItems(current.items.filter(i => i.kind === 'asset'), 'asset')}
+          {renderItems(current.items.filter(i => i.kind === 'liability'), 'liability')}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Bell, ArrowUpRight, Gift, CalendarClock, Clock, X, type LucideIcon } from 'lucide-react'
+import type { AppNotification } from '@/types'
+
+const TYPE_ICONS: Record<AppNotification['type'], { icon: LucideIcon; style: string }> = {
+  price_increase: { icon: ArrowUpRight, style: 'bg-red-100 text-red-600' },
+  trial_conversion: { icon: Gift, style: 'bg-purple-100 text-purple-600' },
+  off_cadence: { icon: CalendarClock, style: 'bg-yellow-100 text-yellow-700' },
+}
+
+const SNOOZE_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '1 week', days: 7 },
+  { label: '1 month', days: 30 },
+]
+
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [open, setOpen] = useState(false)
+  const [snoozing, setSnoozing] = useState<number | null>(null)
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [])
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+      }
+    } catch (err) {
+      console.error('Error fetching notifications:', err)
+    }
+  }
+
+  const update = async (notification: AppNotification, action: 'dismiss' | 'snooze', days?: number) => {
+    // Hide it right away; a failed request brings it back on the next fetch
+    setNotifications(prev => prev.filter(n => n.id !== notification.id))
+    setSnoozing(null)
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: notification.id, action, days }),
+      })
+    } catch (err) {
+      console.error('Error updating notification:', err)
+      fetchNotifications()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          if (!open) fetchNotifications()
+          setOpen(!open)
+        }}
+        className="relative p-2 text-slate-400 hover:text-blue-400 transition-colors"
+        title="Notifications"
+      >
+        <Bell size={20} />
+        {notifications.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 flex items-center justify-center text-[10px] font-bold text-white bg-red-500 rounded-full">
+            {notifications.length > 9 ? '9+' : notifications.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white rounded-lg shadow-xl border text-sm">
+          <div className="px-4 py-3 border-b font-semibold text-gray-800">Notifications</div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-gray-500">You&apos;re all caught up.</p>
+          ) : (
+            notifications.map(notification => {
+              const { icon: Icon, style } = TYPE_ICONS[notification.type] ?? TYPE_ICONS.off_cadence
+              return (
+                <div key={notification.id} className="flex gap-3 px-4 py-3 border-b last:border-b-0">
+                  <span className={`flex items-center justify-center w-8 h-8 rounded-full shrink-0 ${style}`}>
+                    <Icon size={16} />
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-800">{notification.title}</p>
+                    <p className="text-xs text-gray-600">{notification.message}</p>
+                    {snoozing === notification.id && (
+                      <div className="flex gap-2 mt-2">
+                        {SNOOZE_OPTIONS.map(option => (
+                          <button
+                            key={option.days}
+                            onClick={() => update(notification, 'snooze', option.days)}
+                            className="px-2 py-0.5 text-xs border rounded hover:bg-gray-100"
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <button
+                      onClick={() => update(notification, 'dismiss')}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Dismiss"
+                    >
+                      <X size={14} />
+                    </button>
+                    <button
+                      onClick={() => setSnoozing(snoozing === notification.id ? null : notification.id)}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Snooze"
+                    >
+                      <Clock size={14} />
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
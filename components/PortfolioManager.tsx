@@ -0,0 +1,505 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Upload, Save, X, Loader2, Briefcase, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react'
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts'
+import type { PortfolioData, PortfolioPosition, RealizedGain, AssetClass } from '@/types'
+
+interface LotPicker {
+  sell: RealizedGain
+  lots: Array<{ buyId: number; openDate: string; available: number; costBasis: number }>
+  quantities: Record<number, string>
+}
+
+const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+  mutual_fund: 'Mutual funds',
+  bond: 'Bonds',
+  cash: 'Cash',
+  other: 'Other',
+}
+
+const ASSET_CLASS_COLORS: Record<AssetClass, string> = {
+  stock: '#3b82f6',
+  etf: '#10b981',
+  mutual_fund: '#8b5cf6',
+  bond: '#f59e0b',
+  cash: '#06b6d4',
+  other: '#9ca3af',
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatGain(amount: number): string {
+  return `${amount >= 0 ? '+' : ''}${formatMoney(amount)}`
+}
+
+function formatShares(quantity: number): string {
+  return quantity.toLocaleString('en-US', { maximumFractionDigits: 4 })
+}
+
+export default function PortfolioManager() {
+  const [data, setData] = useState<PortfolioData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<{ text: string; errors?: string[]; failed?: boolean } | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [picker, setPicker] = useState<LotPicker | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPortfolio()
+  }, [])
+
+  const fetchPortfolio = async () => {
+    try {
+      const response = await fetch('/api/investments')
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching portfolio:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>, kind: 'activity' | 'prices') => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setUploading(true)
+    setMessage(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch(kind === 'activity' ? '/api/investments/import' : '/api/investments/prices', {
+        method: 'POST',
+        body: formData,
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setMessage({
+          text: kind === 'activity'
+            ? `Imported ${result.message}${result.dividendCount > 0 ? `, ${result.dividendCount} dividends added to income` : ''}`
+            : `Loaded ${result.loadedCount} prices`,
+          errors: result.errors,
+        })
+        fetchPortfolio()
+      } else {
+        const details = Array.isArray(result.details) ? result.details : result.details ? [String(result.details)] : undefined
+        setMessage({ text: result.error || 'Upload failed', errors: details, failed: true })
+      }
+    } catch {
+      setMessage({ text: 'Network error. Please try again.', failed: true })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleAssetClass = async (position: PortfolioPosition, assetClass: AssetClass) => {
+    try {
+      const response = await fetch('/api/investments', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: position.securityId, assetClass }),
+      })
+      if (response.ok) {
+        fetchPortfolio()
+      }
+    } catch (err) {
+      console.error('Error updating asset class:', err)
+    }
+  }
+
+  const openPicker = async (sell: RealizedGain) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/investments/lots?sellId=${sell.sellId}`)
+      const result = await response.json()
+      if (!response.ok) {
+        alert(result.error || 'Failed to load lots')
+        return
+      }
+      const current = new Map(sell.lots.map(l => [l.buyId, l.quantity]))
+      setPicker({
+        sell,
+        lots: result.lots,
+        quantities: Object.fromEntries(result.lots.map((lot: LotPicker['lots'][number]) => [lot.buyId, current.has(lot.buyId) ? String(current.get(lot.buyId)) : ''])),
+      })
+    } catch (err) {
+      console.error('Error loading lots:', err)
+    }
+  }
+
+  const saveLots = async (method: 'fifo' | 'specific') => {
+    if (!picker) return
+    setSaving(true)
+    setError(null)
+    try {
+      const lots = Object.entries(picker.quantities)
+        .filter(([, quantity]) => parseFloat(quantity) > 0)
+        .map(([buyId, quantity]) => ({ buyId: parseInt(buyId), quantity: parseFloat(quantity) }))
+      const response = await fetch('/api/investments/lots', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sellId: picker.sell.sellId, method, ...(method === 'specific' && { lots }) }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setPicker(null)
+        fetchPortfolio()
+      } else {
+        setError(result.error || 'Failed to save lots')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center text-red-600 p-8">
+        <p>Failed to load portfolio</p>
+      </div>
+    )
+  }
+
+  const { positions, allocation, realized, summary, assetClasses } = data
+  const pickedTotal = picker
+    ? Object.values(picker.quantities).reduce((sum, q) => sum + (parseFloat(q) || 0), 0)
+    : 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Portfolio</h2>
+          <p className="text-sm text-gray-600">
+            Holdings from your brokerage activity, valued at the prices you load.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <label className={`flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Upload className="mr-1" size={16} />
+            Import Activity
+            <input type="file" accept=".ofx,.qfx,.csv" onChange={(e) => handleUpload(e, 'activity')} className="hidden" />
+          </label>
+          <label className={`flex items-center px-4 py-2 border text-sm rounded-lg hover:bg-gray-50 cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Upload className="mr-1" size={16} />
+            Load Prices
+            <input type="file" accept=".csv" onChange={(e) => handleUpload(e, 'prices')} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg text-sm ${message.failed ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          <div className="flex items-start justify-between">
+            <p>{message.text}</p>
+            <button onClick={() => setMessage(null)} className="opacity-60 hover:opacity-100">
+              <X size={14} />
+            </button>
+          </div>
+          {message.errors && message.errors.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-xs text-gray-700">
+              {message.errors.slice(0, 10).map((err, i) => <li key={i}>{err}</li>)}
+              {message.errors.length > 10 && <li>…and {message.errors.length - 10} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {positions.length === 0 && realized.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Briefcase size={40} className="mb-2" />
+          <p>No investments yet. Import a brokerage OFX/QFX statement or activity CSV.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Market value</p>
+              <p className="text-2xl font-bold text-gray-800">{formatMoney(summary.marketValue)}</p>
+              <p className="text-xs text-gray-500">
+                Cost basis {formatMoney(summary.costBasis)}
+                {summary.unpricedCount > 0 && ` · ${summary.unpricedCount} without a price`}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Unrealized gain</p>
+              <p className={`text-2xl font-bold ${summary.unrealizedGain < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatGain(summary.unrealizedGain)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Realized this year</p>
+              <p className={`text-2xl font-bold ${summary.realizedGainYearToDate < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatGain(summary.realizedGainYearToDate)}</p>
+              <p className="text-xs text-gray-500">All time {formatGain(summary.realizedGain)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Dividends this year</p>
+              <p className="text-2xl font-bold text-gray-800">{formatMoney(summary.dividendsYearToDate)}</p>
+              <p className="text-xs text-gray-500">All time {formatMoney(summary.dividends)}</p>
+            </div>
+          </div>
+
+          {allocation.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-4">Allocation by Asset Class</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+                <ResponsiveContainer width="100%" height={240}>
+                  <PieChart>
+                    <Pie data={allocation} dataKey="marketValue" nameKey="assetClass" cx="50%" cy="50%" innerRadius={50} outerRadius={100}>
+                      {allocation.map(entry => (
+                        <Cell key={entry.assetClass} fill={ASSET_CLASS_COLORS[entry.assetClass]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value: any, name: any) => [formatMoney(value), ASSET_CLASS_LABELS[name as AssetClass] || name]} />
+                  </PieChart>
+                </ResponsiveContainer>
+                <ul className="space-y-2 text-sm">
+                  {allocation.map(entry => (
+                    <li key={entry.assetClass} className="flex items-center justify-between">
+                      <span className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: ASSET_CLASS_COLORS[entry.assetClass] }} />
+                        {ASSET_CLASS_LABELS[entry.assetClass]}
+                      </span>
+                      <span className="text-gray-600">{formatMoney(entry.marketValue)} · {entry.percent}%</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="p-3">Holding</th>
+                  <th className="p-3">Asset class</th>
+                  <th className="p-3 text-right">Shares</th>
+                  <th className="p-3 text-right">Cost basis</th>
+                  <th className="p-3 text-right">Price</th>
+                  <th className="p-3 text-right">Market value</th>
+                  <th className="p-3 text-right">Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map(position => {
+                  const key = `${position.accountId}:${position.securityId}`
+                  const isExpanded = expanded === key
+                  const mismatch = position.reportedQuantity !== null && Math.abs(position.reportedQuantity - position.quantity) > 0.0001
+                  return [
+                    <tr key={key} className="border-t">
+                      <td className="p-3">
+                        <div className="flex items-center gap-1">
+                          {position.lots.length > 0 && (
+                            <button onClick={() => setExpanded(isExpanded ? null : key)} className="text-gray-400 hover:text-gray-600">
+                              {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            </button>
+                          )}
+                          <span className="font-medium text-gray-800">{position.symbol}</span>
+                        </div>
+                        <p className="text-xs text-gray-500">{position.name} · {position.accountName}</p>
+                      </td>
+                      <td className="p-3">
+                        <select
+                          value={position.assetClass}
+                          onChange={(e) => handleAssetClass(position, e.target.value as AssetClass)}
+                          className="text-xs border rounded px-1 py-0.5 bg-white"
+                        >
+                          {assetClasses.map(assetClass => (
+                            <option key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-3 text-right">
+                        {formatShares(position.quantity)}
+                        {mismatch && (
+                          <p className="flex items-center justify-end gap-1 text-xs text-yellow-600" title="The brokerage reports a different quantity; some activity may be missing">
+                            <AlertCircle size={12} />
+                            Broker: {formatShares(position.reportedQuantity!)}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3 text-right">
+                        {formatMoney(position.costBasis)}
+                        <p className="text-xs text-gray-500">{formatMoney(position.averageCost)}/sh</p>
+                      </td>
+                      <td className="p-3 text-right">
+                        {position.price !== null ? (
+                          <>
+                            {formatMoney(position.price)}
+                            <p className="text-xs text-gray-500">{position.priceDate}</p>
+                          </>
+                        ) : (
+                          <span className="text-xs text-gray-400">No price</span>
+                        )}
+                      </td>
+                      <td className="p-3 text-right font-medium text-gray-800">
+                        {position.marketValue !== null ? formatMoney(position.marketValue) : '—'}
+                      </td>
+                      <td className={`p-3 text-right ${position.unrealizedGain !== null && position.unrealizedGain < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {position.unrealizedGain !== null ? formatGain(position.unrealizedGain) : '—'}
+                        {position.unrealizedPercent !== null && <p className="text-xs">{position.unrealizedPercent}%</p>}
+                      </td>
+                    </tr>,
+                    isExpanded && (
+                      <tr key={`${key}-lots`} className="bg-gray-50">
+                        <td colSpan={7} className="px-8 py-2">
+                          <ul className="divide-y text-xs">
+                            {position.lots.map(lot => (
+                              <li key={lot.buyId} className="flex items-center justify-between py-1">
+                                <span className="text-gray-600">
+                                  Bought {lot.openDate} · {formatShares(lot.quantity)} shares · {lot.term === 'long' ? 'long-term' : 'short-term'}
+                                </span>
+                                <span className="flex gap-4">
+                                  <span className="text-gray-800">Basis {formatMoney(lot.costBasis)}</span>
+                                  {lot.unrealizedGain !== null && (
+                                    <span className={lot.unrealizedGain < 0 ? 'text-red-600' : 'text-green-600'}>{formatGain(lot.unrealizedGain)}</span>
+                                  )}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ),
+                  ]
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {picker && (
+            <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+              <p className="text-sm font-medium text-gray-700">
+                Pick the lots for the sale of {formatShares(picker.sell.quantity)} {picker.sell.symbol} on {picker.sell.date}
+              </p>
+              {picker.lots.length === 0 ? (
+                <p className="text-sm text-gray-500">No lots were open before this sale.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {picker.lots.map(lot => (
+                    <div key={lot.buyId} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-gray-600">
+                        {lot.openDate} · {formatShares(lot.available)} sh at {formatMoney(lot.costBasis / lot.available)}
+                      </span>
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        max={lot.available}
+                        value={picker.quantities[lot.buyId] ?? ''}
+                        onChange={(e) => setPicker({ ...picker, quantities: { ...picker.quantities, [lot.buyId]: e.target.value } })}
+                        placeholder="Shares"
+                        className="w-28 text-sm border rounded px-2 py-1"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">Picked {formatShares(pickedTotal)} of {formatShares(picker.sell.quantity)} shares</p>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveLots('specific')}
+                  disabled={saving || Math.abs(pickedTotal - picker.sell.quantity) > 0.000001}
+                  className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+                >
+                  <Save className="mr-1" size={14} />
+                  Save
+                </button>
+                <button
+                  onClick={() => saveLots('fifo')}
+                  disabled={saving}
+                  className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Use oldest first (FIFO)
+                </button>
+                <button
+                  onClick={() => { setPicker(null); setError(null) }}
+                  className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+                >
+                  <X className="mr-1" size={14} />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {realized.length > 0 && (
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-600">
+                    <th className="p-3">Sale</th>
+                    <th className="p-3 text-right">Shares</th>
+                    <th className="p-3 text-right">Proceeds</th>
+                    <th className="p-3 text-right">Cost basis</th>
+                    <th className="p-3 text-right">Realized gain</th>
+                    <th className="p-3">Lots</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {realized.map(sale => (
+                    <tr key={sale.sellId} className="border-t">
+                      <td className="p-3">
+                        <span className="font-medium text-gray-800">{sale.symbol}</span>
+                        <p className="text-xs text-gray-500">{sale.date} · {sale.accountName}</p>
+                      </td>
+                      <td className="p-3 text-right">
+                        {formatShares(sale.quantity)}
+                        {sale.unmatchedQuantity > 0 && (
+                          <p className="flex items-center justify-end gap-1 text-xs text-yellow-600" title="No buy on record for these shares, so they're left out of the gain">
+                            <AlertCircle size={12} />
+                            {formatShares(sale.unmatchedQuantity)} unmatched
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3 text-right">{formatMoney(sale.proceeds)}</td>
+                      <td className="p-3 text-right">{formatMoney(sale.costBasis)}</td>
+                      <td className={`p-3 text-right ${sale.gain < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatGain(sale.gain)}
+                        <p className="text-xs text-gray-500">
+                          {sale.shortTerm !== 0 && `Short ${formatGain(sale.shortTerm)}`}
+                          {sale.shortTerm !== 0 && sale.longTerm !== 0 && ' · '}
+                          {sale.longTerm !== 0 && `Long ${formatGain(sale.longTerm)}`}
+                        </p>
+                      </td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-gray-500">{sale.method === 'specific' ? 'Specific' : 'FIFO'}</span>
+                          <button
+                            onClick={() => openPicker(sale)}
+                            className="px-2 py-1 border text-xs rounded hover:bg-gray-50"
+                          >
+                            Pick lots
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { ArrowLeft, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
+import type { AccountBalance, Transaction } from '@/types'
+
+interface ReconcileAccountProps {
+  account: AccountBalance
+  onClose: () => void
+}
+
+type ReconcileTransaction = Transaction & { id: number; runningBalance: number }
+
+function formatBalance(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
+
+export default function ReconcileAccount({ account, onClose }: ReconcileAccountProps) {
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0])
+  const [statementBalance, setStatementBalance] = useState('')
+  const [transactions, setTransactions] = useState<ReconcileTransaction[]>([])
+  const [reconciledBalance, setReconciledBalance] = useState(account.openingBalance)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchTransactions()
+  }, [statementDate])
+
+  const fetchTransactions = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ accountId: account.id.toString(), statementDate })
+      const response = await fetch(`/api/accounts/reconcile?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setTransactions(data.transactions)
+        setReconciledBalance(data.reconciledBalance)
+        // Transactions already marked cleared start out ticked
+        setSelected(new Set(
+          data.transactions
+            .filter((t: ReconcileTransaction) => t.clearedStatus === 'cleared')
+            .map((t: ReconcileTransaction) => t.id)
+        ))
+      }
+    } catch (error) {
+      console.error('Error loading reconciliation:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = async (tx: ReconcileTransaction) => {
+    const cleared = !selected.has(tx.id)
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (cleared) next.add(tx.id)
+      else next.delete(tx.id)
+      return next
+    })
+    // Persist cleared flags so an unfinished reconciliation can be resumed
+    try {
+      await fetch('/api/accounts/reconcile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [tx.id], cleared }),
+      })
+    } catch (error) {
+      console.error('Error updating cleared status:', error)
+    }
+  }
+
+  const clearedBalance = useMemo(() => {
+    const selectedTotal = transactions
+      .filter(t => selected.has(t.id))
+      .reduce((sum, t) => sum + t.amount, 0)
+    return Math.round((reconciledBalance + selectedTotal) * 100) / 100
+  }, [transactions, selected, reconciledBalance])
+
+  const target = parseFloat(statementBalance)
+  const difference = Number.isFinite(target) ? Math.round((target - clearedBalance) * 100) / 100 : null
+
+  const handleFinish = async () => {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/accounts/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountId: account.id,
+          statementDate,
+          statementBalance: target,
+          transactionIds: Array.from(selected),
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        setStatementBalance('')
+        fetchTransactions()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to reconcile' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Network error. Please try again.' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onClose} className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700">
+        <ArrowLeft size={16} />
+        Back to accounts
+      </button>
+
+      <h2 className="text-2xl font-semibold text-gray-800">Reconcile {account.name}</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 border rounded-lg">
+        <label className="text-sm text-gray-600">
+          Statement ending date
+          <input
+            type="date"
+            value={statementDate}
+            onChange={(e) => setStatementDate(e.target.value)}
+            className="mt-1 block w-full border rounded px-2 py-1"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Statement ending balance
+          <input
+            type="number"
+            step="0.01"
+            value={statementBalance}
+            onChange={(e) => setStatementBalance(e.target.value)}
+            placeholder="0.00"
+            className="mt-1 block w-full border rounded px-2 py-1"
+          />
+        </label>
+        <div className="text-sm text-gray-600">
+          Cleared balance
+          <p className="mt-1 text-lg font-semibold text-gray-800">{formatBalance(clearedBalance, account.currency)}</p>
+        </div>
+        <div className="text-sm text-gray-600">
+          Difference
+          <p className={`mt-1 text-lg font-semibold ${
+            difference === null ? 'text-gray-400' : difference === 0 ? 'text-green-600' : 'text-red-600'
+          }`}>
+            {difference === null ? '—' : formatBalance(difference, account.currency)}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="animate-spin text-blue-500" size={32} />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow max-h-[400px] overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-600">
+                <th className="p-2">Cleared</th>
+                <th className="p-2">Date</th>
+                <th className="p-2">Description</th>
+                <th className="p-2 text-right">Amount</th>
+                <th className="p-2 text-right">Running balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map(tx => (
+                <tr
+                  key={tx.id}
+                  onClick={() => toggle(tx)}
+                  className={`border-t cursor-pointer ${selected.has(tx.id) ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="p-2">
+                    <input type="checkbox" checked={selected.has(tx.id)} readOnly className="rounded" />
+                  </td>
+                  <td className="p-2 text-gray-600">{tx.date}</td>
+                  <td className="p-2 truncate max-w-[250px]" title={tx.description}>{tx.description}</td>
+                  <td className={`p-2 text-right ${tx.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatBalance(tx.amount, account.currency)}
+                  </td>
+                  <td className="p-2 text-right text-gray-600">{formatBalance(tx.runningBalance, account.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {transactions.length === 0 && (
+            <p className="p-6 text-center text-gray-500">Everything up to this date is reconciled.</p>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${
+          message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+        }`}>
+          {message.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+          {message.text}
+        </div>
+      )}
+
+      <button
+        onClick={handleFinish}
+        disabled={saving || difference !== 0}
+        className="flex items-center px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving && <Loader2 className="mr-2 animate-spin" size={16} />}
+        Finish Reconciliation
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { Check, Inbox, Loader2, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ReviewGroup } from '@/types'
+
+interface GroupDraft {
+  category: string
+  createRule: boolean
+}
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  low: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+}
+
+export default function ReviewQueue() {
+  const [groups, setGroups] = useState<ReviewGroup[]>([])
+  const [categories, setCategories] = useState<string[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [drafts, setDrafts] = useState<Record<string, GroupDraft>>({})
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [savingMerchant, setSavingMerchant] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchQueue()
+  }, [])
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch('/api/review')
+      if (response.ok) {
+        const data = await response.json()
+        setGroups(data.groups)
+        setTotal(data.total)
+        setCategories(data.categories)
+      }
+    } catch (err) {
+      console.error('Error fetching review queue:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const draftFor = (group: ReviewGroup): GroupDraft =>
+    drafts[group.merchant] ?? { category: group.suggestedCategory, createRule: group.count > 1 }
+
+  const updateDraft = (group: ReviewGroup, changes: Partial<GroupDraft>) => {
+    setDrafts(prev => ({ ...prev, [group.merchant]: { ...draftFor(group), ...changes } }))
+  }
+
+  const handleResolve = async (group: ReviewGroup) => {
+    const draft = draftFor(group)
+    setSavingMerchant(group.merchant)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          merchant: group.merchant,
+          transactionIds: group.transactionIds,
+          category: draft.category,
+          createRule: draft.createRule,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(
+          `${group.merchant}: ${data.updated} transaction${data.updated !== 1 ? 's' : ''} set to ${draft.category}` +
+          (data.ruleCreated ? `, rule "${data.rulePattern}" created and applied to ${data.ruleApplied} more` : '')
+        )
+        fetchQueue()
+      } else {
+        setMessage(data.error || 'Failed to update')
+      }
+    } catch {
+      setMessage('Network error. Please try again.')
+    } finally {
+      setSavingMerchant(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Needs Review</h2>
+          <p className="text-sm text-gray-600">
+            {total} transaction{total !== 1 ? 's' : ''} from {groups.length} merchant{groups.length !== 1 ? 's' : ''} the
+            categorizer wasn&apos;t sure about
+          </p>
+        </div>
+      </div>
+
+      {message && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">{message}</div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Inbox size={40} className="mb-2" />
+          <p>All caught up. Nothing to review.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-600">
+                <th className="p-3">Merchant</th>
+                <th className="p-3 text-right">Transactions</th>
+                <th className="p-3 text-right">Total</th>
+                <th className="p-3">Current</th>
+                <th className="p-3">Category</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => {
+                const draft = draftFor(group)
+                const isExpanded = expanded === group.merchant
+                return (
+                  <Fragment key={group.merchant}>
+                    <tr className="border-t">
+                      <td className="p-3">
+                        <button
+                          onClick={() => setExpanded(isExpanded ? null : group.merchant)}
+                          className="flex items-center gap-1 font-medium text-gray-800"
+                        >
+                          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          {group.merchant}
+                        </button>
+                        <p className="text-xs text-gray-500 ml-5">Last seen {group.lastDate}</p>
+                      </td>
+                      <td className="p-3 text-right">{group.count}</td>
+                      <td className={`p-3 text-right ${group.totalAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {group.totalAmount.toFixed(2)}
+                      </td>
+                      <td className="p-3">
+                        <span className="text-gray-700">{Object.keys(group.categories).join(', ')}</span>
+                        {group.confidence && (
+                          <span className={`ml-2 text-xs px-2 py-0.5 rounded ${CONFIDENCE_STYLES[group.confidence]}`}>
+                            {group.confidence}
+                          </span>
+                        )}
+                        {group.methods.length > 0 && (
+                          <span className="block text-xs text-gray-400">via {group.methods.join(', ')}</span>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        <select
+                          value={draft.category}
+                          onChange={(e) => updateDraft(group, { category: e.target.value })}
+                          className="text-sm border rounded px-2 py-1 bg-white"
+                        >
+                          {categories.map(cat => (
+                            <option key={cat} value={cat}>{cat}</option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1 mt-1 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={draft.createRule}
+                            onChange={(e) => updateDraft(group, { createRule: e.target.checked })}
+                            className="rounded"
+                          />
+                          Create rule
+                        </label>
+                      </td>
+                      <td className="p-3">
+                        <button
+                          onClick={() => handleResolve(group)}
+                          disabled={savingMerchant !== null}
+                          className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+                        >
+                          {savingMerchant === group.merchant
+                            ? <Loader2 className="mr-1 animate-spin" size={14} />
+                            : <Check className="mr-1" size={14} />}
+                          {draft.category === group.suggestedCategory ? 'Approve' : 'Save'}
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-8 py-2">
+                          {group.samples.map(sample => (
+                            <div key={sample.id} className="flex gap-4 text-xs text-gray-600 py-0.5">
+                              <span className="w-24">{sample.date}</span>
+                              <span className="flex-1 truncate">{sample.description}</span>
+                              <span className="w-32 truncate">{sample.account}</span>
+                              <span className="w-20 text-right">{sample.amount.toFixed(2)}</span>
+                            </div>
+                          ))}
+                          {group.count > group.samples.length && (
+                            <p className="text-xs text-gray-400 py-0.5">and {group.count - group.samples.length} more</p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useState } from 'react'
+import { FlaskConical, Save, X, AlertTriangle, Loader2 } from 'lucide-react'
+import type { CategoryRule, RuleTestResponse, RuleTestMatch } from '@/types'
+
+interface RuleEditorProps {
+  rule?: CategoryRule // Omit to create a new rule
+  categories: string[]
+  onSaved: () => void
+  onCancel: () => void
+}
+
+interface RuleForm {
+  pattern: string
+  matchType: CategoryRule['matchType']
+  amountMin: string
+  amountMax: string
+  sign: '' | 'expense' | 'income'
+  account: string
+  dayOfMonthMin: string
+  dayOfMonthMax: string
+  priority: string
+  stopProcessing: boolean
+  category: string
+  setTag: string
+  renamePayee: string
+  markTransfer: boolean
+}
+
+const STATUS_STYLES: Record<RuleTestMatch['status'], string> = {
+  change: 'bg-green-100 text-green-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  overridden: 'bg-yellow-100 text-yellow-700',
+}
+
+function toForm(rule?: CategoryRule): RuleForm {
+  const text = (value: number | string | null | undefined) => (value === null || value === undefined ? '' : String(value))
+  return {
+    pattern: text(rule?.pattern),
+    matchType: rule?.matchType ?? 'contains',
+    amountMin: text(rule?.amountMin),
+    amountMax: text(rule?.amountMax),
+    sign: rule?.sign ?? '',
+    account: text(rule?.account),
+    dayOfMonthMin: text(rule?.dayOfMonthMin),
+    dayOfMonthMax: text(rule?.dayOfMonthMax),
+    priority: text(rule?.priority ?? 100),
+    stopProcessing: rule?.stopProcessing ?? false,
+    category: text(rule?.category),
+    setTag: text(rule?.setTag),
+    renamePayee: text(rule?.renamePayee),
+    markTransfer: rule?.markTransfer ?? false,
+  }
+}
+
+export default function RuleEditor({ rule, categories, onSaved, onCancel }: RuleEditorProps) {
+  const [form, setForm] = useState<RuleForm>(() => toForm(rule))
+  const [testResult, setTestResult] = useState<RuleTestResponse | null>(null)
+  const [testing, setTesting] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<RuleForm>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+    setTestResult(null) // Results are stale once the rule changes
+  }
+
+  const payload = () => ({
+    ...(rule && { id: rule.id }),
+    pattern: form.pattern,
+    matchType: form.matchType,
+    amountMin: form.amountMin,
+    amountMax: form.amountMax,
+    sign: form.sign,
+    account: form.account,
+    dayOfMonthMin: form.dayOfMonthMin,
+    dayOfMonthMax: form.dayOfMonthMax,
+    priority: form.priority || 100,
+    stopProcessing: form.stopProcessing,
+    category: form.category,
+    setTag: form.setTag,
+    renamePayee: form.renamePayee,
+    markTransfer: form.markTransfer,
+  })
+
+  const handleTest = async () => {
+    setTesting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/categories/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload()),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setTestResult(data)
+      } else {
+        setError(data.error || 'Failed to test rule')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/categories', {
+        method: rule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload()),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onSaved()
+      } else {
+        setError(data.error || 'Failed to save rule')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 border rounded-lg space-y-4">
+      <h3 className="font-semibold text-gray-800">{rule ? 'Edit rule' : 'New rule'}</h3>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-500 uppercase">When</p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <select
+            value={form.matchType}
+            onChange={(e) => update({ matchType: e.target.value as RuleForm['matchType'] })}
+            className="text-sm border rounded px-2 py-1 bg-white"
+          >
+            <option value="contains">Description contains</option>
+            <option value="regex">Description matches regex</option>
+            <option value="merchant">Merchant equals</option>
+          </select>
+          <input
+            type="text"
+            value={form.pattern}
+            onChange={(e) => update({ pattern: e.target.value })}
+            placeholder={form.matchType === 'regex' ? '^AMZN\\s+MKTP' : 'e.g. COSTCO'}
+            className="text-sm border rounded px-2 py-1 md:col-span-3 font-mono"
+          />
+          <select
+            value={form.sign}
+            onChange={(e) => update({ sign: e.target.value as RuleForm['sign'] })}
+            className="text-sm border rounded px-2 py-1 bg-white"
+          >
+            <option value="">Expense or income</option>
+            <option value="expense">Expense only</option>
+            <option value="income">Income only</option>
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={form.amountMin}
+            onChange={(e) => update({ amountMin: e.target.value })}
+            placeholder="Min amount"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={form.amountMax}
+            onChange={(e) => update({ amountMax: e.target.value })}
+            placeholder="Max amount"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <input
+            type="text"
+            value={form.account}
+            onChange={(e) => update({ account: e.target.value })}
+            placeholder="Account"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <label className="text-xs text-gray-600 flex items-center gap-2">
+            Day of month
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={form.dayOfMonthMin}
+              onChange={(e) => update({ dayOfMonthMin: e.target.value })}
+              className="text-sm border rounded px-2 py-1 w-16"
+            />
+            to
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={form.dayOfMonthMax}
+              onChange={(e) => update({ dayOfMonthMax: e.target.value })}
+              className="text-sm border rounded px-2 py-1 w-16"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-500 uppercase">Then</p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <input
+            type="text"
+            list="rule-categories"
+            value={form.category}
+            onChange={(e) => update({ category: e.target.value })}
+            placeholder="Set category"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <datalist id="rule-categories">
+            {categories.map(cat => (
+              <option key={cat} value={cat} />
+            ))}
+          </datalist>
+          <input
+            type="text"
+            value={form.setTag}
+            onChange={(e) => update({ setTag: e.target.value })}
+            placeholder="Add tag"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <input
+            type="text"
+            value={form.renamePayee}
+            onChange={(e) => update({ renamePayee: e.target.value })}
+            placeholder="Rename payee to"
+            className="text-sm border rounded px-2 py-1"
+          />
+          <label className="text-sm text-gray-600 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.markTransfer}
+              onChange={(e) => update({ markTransfer: e.target.checked })}
+              className="rounded"
+            />
+            Mark as transfer
+          </label>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Priority
+            <input
+              type="number"
+              value={form.priority}
+              onChange={(e) => update({ priority: e.target.value })}
+              className="text-sm border rounded px-2 py-1 w-20"
+            />
+            <span className="text-xs text-gray-400">lower runs first</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.stopProcessing}
+              onChange={(e) => update({ stopProcessing: e.target.checked })}
+              className="rounded"
+            />
+            Stop processing later rules
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleTest}
+          disabled={testing}
+          className="flex items-center px-3 py-1.5 border text-sm rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+        >
+          {testing ? <Loader2 className="mr-1 animate-spin" size={14} /> : <FlaskConical className="mr-1" size={14} />}
+          Test against history
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+        >
+          <Save className="mr-1" size={14} />
+          {testResult ? `Save and update ${testResult.counts.changed}` : 'Save'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+        >
+          <X className="mr-1" size={14} />
+          Cancel
+        </button>
+      </div>
+
+      {testResult && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span><strong>{testResult.counts.matched}</strong> matched</span>
+            <span className="text-green-700"><strong>{testResult.counts.changed}</strong> would change</span>
+            <span className="text-gray-600"><strong>{testResult.counts.unchanged}</strong> already match</span>
+            <span className="text-yellow-700"><strong>{testResult.counts.overridden}</strong> decided by another rule</span>
+          </div>
+
+          {testResult.conflicts.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded text-sm space-y-1">
+              <p className="flex items-center gap-1 font-medium text-yellow-800">
+                <AlertTriangle size={14} />
+                Overlapping rules
+              </p>
+              {testResult.conflicts.map(conflict => (
+                <p key={conflict.ruleId} className="text-yellow-800">
+                  {conflict.relation === 'shadowed_by' ? 'Shadowed by' : 'Shadows'}{' '}
+                  <span className="font-mono">{conflict.pattern || '(no pattern)'}</span>
+                  {conflict.category && ` → ${conflict.category}`}
+                  {conflict.isSystem && ' (system)'}
+                  {' '}on {conflict.overlap} transaction{conflict.overlap !== 1 ? 's' : ''}
+                  {!conflict.sameCategory && conflict.category && form.category && ' — different category'}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {testResult.matches.length > 0 && (
+            <div className="bg-white rounded border max-h-[320px] overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-600">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Description</th>
+                    <th className="p-2 text-right">Amount</th>
+                    <th className="p-2">Category</th>
+                    <th className="p-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {testResult.matches.map(match => (
+                    <tr key={match.id} className="border-t">
+                      <td className="p-2 whitespace-nowrap text-gray-600">{match.date}</td>
+                      <td className="p-2 truncate max-w-[220px]" title={match.description}>
+                        {match.description}
+                        {match.payee && match.payee !== match.description && (
+                          <span className="block text-gray-400">→ {match.payee}</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">{match.amount?.toFixed(2)}</td>
+                      <td className="p-2 whitespace-nowrap">
+                        {match.fromCategory || '—'}
+                        {match.toCategory !== match.fromCategory && <> → <strong>{match.toCategory}</strong></>}
+                        {match.addedTags.map(tag => (
+                          <span key={tag} className="ml-1 text-purple-600">#{tag}</span>
+                        ))}
+                        {match.markTransfer && <span className="ml-1 text-gray-500">(transfer)</span>}
+                      </td>
+                      <td className="p-2">
+                        <span className={`px-2 py-0.5 rounded ${STATUS_STYLES[match.status]}`}>
+                          {match.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {testResult.truncated && (
+                <p className="p-2 text-center text-gray-500">Showing the first {testResult.matches.length} matches</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Edit2, Trash2, Loader2, Lock } from 'lucide-react'
+import RuleEditor from '@/components/RuleEditor'
+import type { CategoryRule } from '@/types'
+
+const MATCH_LABELS: Record<CategoryRule['matchType'], string> = {
+  contains: 'contains',
+  regex: 'matches',
+  merchant: 'merchant is',
+}
+
+function describeConditions(rule: CategoryRule): string {
+  const parts: string[] = []
+  if (rule.pattern) parts.push(`${MATCH_LABELS[rule.matchType]} "${rule.pattern}"`)
+  if (rule.sign) parts.push(rule.sign)
+  if (rule.amountMin !== null && rule.amountMax !== null) {
+    parts.push(`amount ${rule.amountMin}–${rule.amountMax}`)
+  } else if (rule.amountMin !== null) {
+    parts.push(`amount ≥ ${rule.amountMin}`)
+  } else if (rule.amountMax !== null) {
+    parts.push(`amount ≤ ${rule.amountMax}`)
+  }
+  if (rule.account) parts.push(`account "${rule.account}"`)
+  if (rule.dayOfMonthMin !== null || rule.dayOfMonthMax !== null) {
+    parts.push(`day ${rule.dayOfMonthMin ?? 1}–${rule.dayOfMonthMax ?? 31}`)
+  }
+  return parts.join(', ')
+}
+
+function describeActions(rule: CategoryRule): string {
+  const parts: string[] = []
+  if (rule.category) parts.push(rule.category)
+  if (rule.setTag) parts.push(`#${rule.setTag}`)
+  if (rule.renamePayee) parts.push(`payee "${rule.renamePayee}"`)
+  if (rule.markTransfer) parts.push('transfer')
+  if (rule.stopProcessing) parts.push('stop')
+  return parts.join(', ')
+}
+
+export default function RulesManager() {
+  const [rules, setRules] = useState<CategoryRule[]>([])
+  const [categories, setCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<CategoryRule | 'new' | null>(null)
+  const [showSystem, setShowSystem] = useState(false)
+
+  useEffect(() => {
+    fetchRules()
+    fetchCategories()
+  }, [])
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules)
+      }
+    } catch (err) {
+      console.error('Error fetching rules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/transactions?limit=1')
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(data.categories || [])
+      }
+    } catch (err) {
+      console.error('Error fetching categories:', err)
+    }
+  }
+
+  const handleDelete = async (rule: CategoryRule) => {
+    if (!confirm(`Delete rule "${describeConditions(rule)}"?`)) return
+    try {
+      const response = await fetch(`/api/categories?id=${rule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        fetchRules()
+      } else {
+        alert(data.error || 'Failed to delete rule')
+      }
+    } catch (err) {
+      console.error('Error deleting rule:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const ruleCategories = rules.map(r => r.category).filter((c): c is string => !!c)
+  const allCategories = Array.from(new Set([...categories, ...ruleCategories])).sort()
+  const visibleRules = showSystem ? rules : rules.filter(r => !r.isSystem)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-gray-800">Rules</h2>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showSystem}
+              onChange={(e) => setShowSystem(e.target.checked)}
+              className="rounded"
+            />
+            Show system rules
+          </label>
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600"
+          >
+            <Plus className="mr-1" size={16} />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <RuleEditor
+          key={editing === 'new' ? 'new' : editing.id}
+          rule={editing === 'new' ? undefined : editing}
+          categories={allCategories}
+          onSaved={() => {
+            setEditing(null)
+            fetchRules()
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="p-3">Priority</th>
+              <th className="p-3">When</th>
+              <th className="p-3">Then</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRules.map(rule => (
+              <tr key={rule.id} className={`border-t ${rule.isSystem ? 'text-gray-500' : ''}`}>
+                <td className="p-3 text-gray-600">{rule.priority}</td>
+                <td className="p-3 font-mono text-xs">{describeConditions(rule)}</td>
+                <td className="p-3">{describeActions(rule)}</td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    {rule.isSystem ? (
+                      <span className="flex items-center gap-1 text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">
+                        <Lock size={12} />
+                        System
+                      </span>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setEditing(rule)}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Edit"
+                        >
+                          <Edit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRules.length === 0 && (
+          <p className="p-6 text-center text-gray-500">No rules yet. Add one and test it against your history.</p>
+        )}
+      </div>
+    </div>
+  )
+}
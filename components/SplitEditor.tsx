@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Save, X, Trash2, Loader2 } from 'lucide-react'
+import { splitRemainder } from '@/lib/splits'
+import type { Transaction } from '@/types'
+
+interface SplitEditorProps {
+  transaction: Transaction & { id: number }
+  categories: string[]
+  onSaved: () => void
+  onCancel: () => void
+}
+
+interface SplitRow {
+  category: string
+  amount: string
+  memo: string
+}
+
+// Amounts are entered as positive numbers and take the transaction's sign on save
+function initialRows(transaction: Transaction): SplitRow[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits.map(s => ({
+      category: s.category,
+      amount: Math.abs(s.amount).toFixed(2),
+      memo: s.memo || '',
+    }))
+  }
+  return [
+    { category: transaction.category || '', amount: Math.abs(transaction.amount).toFixed(2), memo: '' },
+    { category: '', amount: '', memo: '' },
+  ]
+}
+
+export default function SplitEditor({ transaction, categories, onSaved, onCancel }: SplitEditorProps) {
+  const [rows, setRows] = useState<SplitRow[]>(() => initialRows(transaction))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sign = transaction.amount < 0 ? -1 : 1
+  const remaining = splitRemainder(Math.abs(transaction.amount), rows.map(r => parseFloat(r.amount)))
+  const isSplit = (transaction.splits?.length || 0) > 0
+
+  const updateRow = (index: number, changes: Partial<SplitRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/transactions/splits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transactionId: transaction.id,
+          splits: rows.map(r => ({
+            category: r.category,
+            amount: sign * (parseFloat(r.amount) || 0),
+            memo: r.memo,
+          })),
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onSaved()
+      } else {
+        setError(data.error || 'Failed to save splits')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUnsplit = async () => {
+    if (!confirm('Remove the splits? The transaction will count under its own category again.')) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/transactions/splits?transactionId=${transaction.id}`, { method: 'DELETE' })
+      if (response.ok) onSaved()
+    } catch (err) {
+      console.error('Error removing splits:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700">
+          Split ${Math.abs(transaction.amount).toFixed(2)} across categories
+        </span>
+        <span className={remaining === 0 ? 'text-green-600' : 'text-red-600'}>
+          {remaining === 0 ? 'Fully allocated' : `$${remaining.toFixed(2)} ${remaining > 0 ? 'left to allocate' : 'over'}`}
+        </span>
+      </div>
+
+      <datalist id={`split-categories-${transaction.id}`}>
+        {categories.map(cat => (
+          <option key={cat} value={cat} />
+        ))}
+      </datalist>
+
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            list={`split-categories-${transaction.id}`}
+            value={row.category}
+            onChange={(e) => updateRow(index, { category: e.target.value })}
+            placeholder="Category"
+            className="text-sm border rounded px-2 py-1 w-40"
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={row.amount}
+            onChange={(e) => updateRow(index, { amount: e.target.value })}
+            placeholder="0.00"
+            className="text-sm border rounded px-2 py-1 w-28 text-right"
+          />
+          <input
+            type="text"
+            value={row.memo}
+            onChange={(e) => updateRow(index, { memo: e.target.value })}
+            placeholder="Memo (optional)"
+            className="text-sm border rounded px-2 py-1 flex-1"
+          />
+          <button
+            onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+            disabled={rows.length <= 2}
+            className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+            title="Remove allocation"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setRows(prev => [
+            ...prev,
+            { category: '', amount: remaining > 0 ? remaining.toFixed(2) : '', memo: '' },
+          ])}
+          className="flex items-center px-3 py-1.5 border text-sm rounded hover:bg-gray-100"
+        >
+          <Plus className="mr-1" size={14} />
+          Add allocation
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || remaining !== 0}
+          className="flex items-center px-3 py-1.5 bg-green-500 text-white text-sm rounded hover:bg-green-600 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="mr-1 animate-spin" size={14} /> : <Save className="mr-1" size={14} />}
+          Save split
+        </button>
+        {isSplit && (
+          <button
+            onClick={handleUnsplit}
+            disabled={saving}
+            className="flex items-center px-3 py-1.5 border text-sm text-red-600 rounded hover:bg-red-50"
+          >
+            <Trash2 className="mr-1" size={14} />
+            Remove split
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="flex items-center px-3 py-1.5 text-sm text-gray-600 rounded hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, RefreshCw, Repeat } from 'lucide-react'
+import type { Subscription, RecurringCadence } from '@/types'
+
+interface SubscriptionsData {
+  subscriptions: Subscription[]
+  activeCount: number
+  cancelledCount: number
+  annualTotal: number
+  monthlyTotal: number
+}
+
+const CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  annual: 'Yearly',
+}
+
+export default function SubscriptionsList() {
+  const [data, setData] = useState<SubscriptionsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSubscriptions()
+  }, [])
+
+  const fetchSubscriptions = async () => {
+    try {
+      const response = await fetch('/api/subscriptions')
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching subscriptions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRescan = async () => {
+    setScanning(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/subscriptions', { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        setData(result)
+      } else {
+        setError(result.error || 'Failed to scan transactions')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-blue-500" size={48} />
+      </div>
+    )
+  }
+
+  const subscriptions = data?.subscriptions ?? []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Subscriptions</h2>
+          <p className="text-sm text-gray-600">
+            Charges that repeat weekly, every two weeks, monthly or yearly, found from your transactions
+          </p>
+        </div>
+        <button
+          onClick={handleRescan}
+          disabled={scanning}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          <RefreshCw className={`mr-1 ${scanning ? 'animate-spin' : ''}`} size={16} />
+          Rescan
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {data && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Active subscriptions</p>
+            <p className="text-2xl font-bold text-gray-800">{data.activeCount}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Per month</p>
+            <p className="text-2xl font-bold text-red-600">${data.monthlyTotal.toFixed(2)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Per year</p>
+            <p className="text-2xl font-bold text-red-600">${data.annualTotal.toFixed(2)}</p>
+          </div>
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Repeat size={40} className="mb-2" />
+          <p>No recurring charges found yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-600">
+                <th className="p-3">Merchant</th>
+                <th className="p-3">Every</th>
+                <th className="p-3 text-right">Amount</th>
+                <th className="p-3 text-right">Per year</th>
+                <th className="p-3">Last charged</th>
+                <th className="p-3">Next due</th>
+              </tr>
+            </thead>
+            <tbody>
+              {subscriptions.map(sub => {
+                const cancelled = sub.status === 'cancelled'
+                return (
+                  <tr key={sub.id} className={`border-t ${cancelled ? 'text-gray-400' : ''}`}>
+                    <td className="p-3">
+                      <p className={`font-medium ${cancelled ? '' : 'text-gray-800'}`}>{sub.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {sub.category || 'Uncategorized'} · {sub.occurrences} charge{sub.occurrences !== 1 ? 's' : ''}
+                      </p>
+                    </td>
+                    <td className="p-3">{CADENCE_LABELS[sub.cadence]}</td>
+                    <td className="p-3 text-right">
+                      ${sub.amount.toFixed(2)}
+                      {sub.amountStdDev >= 0.01 && (
+                        <span className="block text-xs text-gray-500">± ${sub.amountStdDev.toFixed(2)}</span>
+                      )}
+                    </td>
+                    <td className={`p-3 text-right font-medium ${cancelled ? '' : 'text-red-600'}`}>
+                      ${sub.annualCost.toFixed(2)}
+                    </td>
+                    <td className="p-3">{sub.lastChargedDate}</td>
+                    <td className="p-3">
+                      {cancelled ? (
+                        <span
+                          className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600"
+                          title={`Expected by ${sub.nextDueDate}`}
+                        >
+                          Seems cancelled
+                        </span>
+                      ) : (
+                        sub.nextDueDate
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
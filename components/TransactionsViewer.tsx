@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Search, ChevronLeft, ChevronRight, Filter, X, Edit2, Trash2, Save } from 'lucide-react'
+import { useState, useEffect, Fragment } from 'react'
+import { Search, ChevronLeft, ChevronRight, Filter, X, Edit2, Trash2, Save, ArrowLeftRight, Scissors } from 'lucide-react'
+import SplitEditor from '@/components/SplitEditor'
 import type { Transaction } from '@/types'
 
 interface TransactionsResponse {
@@ -22,6 +23,8 @@ export default function TransactionsViewer() {
   const [categoryFilter, setCategoryFilter] = useState('')
   const [editingId, setEditingId] = useState<number | null>(null)
   const [editCategory, setEditCategory] = useState('')
+  const [splittingId, setSplittingId] = useState<number | null>(null)
+  const [transferMessage, setTransferMessage] = useState<string | null>(null)
   const limit = 20
 
   useEffect(() => {
@@ -83,6 +86,31 @@ export default function TransactionsViewer() {
     }
   }
 
+  const handleDetectTransfers = async () => {
+    setTransferMessage(null)
+    try {
+      const response = await fetch('/api/transfers', { method: 'POST' })
+      const data = await response.json()
+      setTransferMessage(response.ok ? data.message : data.error || 'Failed to find transfers')
+      if (response.ok) fetchTransactions()
+    } catch (error) {
+      console.error('Error detecting transfers:', error)
+    }
+  }
+
+  const handleUnlinkTransfer = async (id: number) => {
+    if (!confirm('Unlink this transfer? Both sides will count as income/expense again.')) return
+
+    try {
+      const response = await fetch(`/api/transfers?id=${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        fetchTransactions()
+      }
+    } catch (error) {
+      console.error('Error unlinking transfer:', error)
+    }
+  }
+
   const totalPages = Math.ceil(total / limit)
 
   return (
@@ -135,8 +163,21 @@ export default function TransactionsViewer() {
             Clear filters
           </button>
         )}
+
+        <button
+          onClick={handleDetectTransfers}
+          className="flex items-center gap-1 px-3 py-2 text-sm border rounded-lg text-gray-600 hover:bg-gray-50"
+          title="Pair money moved between your own accounts so it isn't counted as income or spending"
+        >
+          <ArrowLeftRight size={16} />
+          Find transfers
+        </button>
       </div>
 
+      {transferMessage && (
+        <div className="text-sm text-blue-700">{transferMessage}</div>
+      )}
+
       {/* Results count */}
       <div className="text-sm text-gray-600">
         Showing {((page - 1) * limit) + 1} - {Math.min(page * limit, total)} of {total} transactions
@@ -170,7 +211,8 @@ export default function TransactionsViewer() {
                 </tr>
               ) : (
                 transactions.map((tx) => (
-                  <tr key={tx.id} className="border-t hover:bg-gray-50">
+                  <Fragment key={tx.id}>
+                  <tr className="border-t hover:bg-gray-50">
                     <td className="px-4 py-3 text-gray-600">{tx.date}</td>
                     <td className="px-4 py-3 max-w-xs truncate" title={tx.description}>
                       {tx.description}
@@ -202,11 +244,33 @@ export default function TransactionsViewer() {
                             <X size={16} />
                           </button>
                         </div>
+                      ) : tx.splits && tx.splits.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {tx.splits.map((split) => (
+                            <span
+                              key={split.id}
+                              className="px-2 py-1 bg-purple-100 text-purple-700 rounded text-xs"
+                              title={split.memo || undefined}
+                            >
+                              {split.category} ${Math.abs(split.amount).toFixed(2)}
+                            </span>
+                          ))}
+                        </div>
                       ) : (
                         <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs">
                           {tx.category}
                         </span>
                       )}
+                      {tx.isTransfer && editingId !== tx.id && (
+                        <button
+                          onClick={() => handleUnlinkTransfer(tx.id!)}
+                          className="ml-2 inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs hover:bg-gray-200"
+                          title="Linked transfer between your accounts — excluded from income and spending. Click to unlink."
+                        >
+                          <ArrowLeftRight size={12} />
+                          Linked
+                        </button>
+                      )}
                     </td>
                     <td className={`px-4 py-3 text-right font-medium ${
                       tx.amount < 0 ? 'text-red-600' : 'text-green-600'
@@ -225,6 +289,15 @@ export default function TransactionsViewer() {
                         >
                           <Edit2 size={16} />
                         </button>
+                        {!tx.isTransfer && (
+                          <button
+                            onClick={() => setSplittingId(splittingId === tx.id ? null : tx.id!)}
+                            className={tx.splits?.length ? 'text-purple-600 hover:text-purple-700' : 'text-gray-400 hover:text-purple-600'}
+                            title={tx.splits?.length ? 'Edit split' : 'Split across categories'}
+                          >
+                            <Scissors size={16} />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDelete(tx.id!)}
                           className="text-gray-400 hover:text-red-600"
@@ -235,6 +308,22 @@ export default function TransactionsViewer() {
                       </div>
                     </td>
                   </tr>
+                  {splittingId === tx.id && (
+                    <tr className="border-t">
+                      <td colSpan={5} className="px-4 py-3">
+                        <SplitEditor
+                          transaction={{ ...tx, id: tx.id! }}
+                          categories={categories}
+                          onSaved={() => {
+                            setSplittingId(null)
+                            fetchTransactions()
+                          }}
+                          onCancel={() => setSplittingId(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
                 ))
               )}
             </tbody>
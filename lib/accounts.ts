@@ -0,0 +1,64 @@
+/**
+ * Account Helpers
+ *
+ * Validation for account payloads and the reconciliation balance check.
+ */
+
+import { ACCOUNT_TYPES, type NewAccount } from './db/schema'
+
+/**
+ * Validate an account payload from the API. With `partial`, only the fields
+ * present are checked (for PATCH). Returns the values to store or an error message.
+ */
+export function validateAccountInput(
+  body: Record<string, unknown>,
+  partial = false
+): { values: Partial<Omit<NewAccount, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewAccount, 'userId'>> = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    values.name = name
+  }
+  if (body.type !== undefined) {
+    if (!(ACCOUNT_TYPES as readonly unknown[]).includes(body.type)) {
+      return { error: `type must be one of: ${ACCOUNT_TYPES.join(', ')}` }
+    }
+    values.type = body.type as string
+  }
+  if (body.institution !== undefined) {
+    values.institution = typeof body.institution === 'string' && body.institution.trim()
+      ? body.institution.trim()
+      : null
+  }
+  if (body.currency !== undefined) {
+    const currency = String(body.currency).trim().toUpperCase()
+    if (!/^[A-Z]{3}$/.test(currency)) return { error: 'currency must be a 3-letter ISO code' }
+    values.currency = currency
+  }
+  if (body.openingBalance !== undefined) {
+    const openingBalance = Number(body.openingBalance)
+    if (!Number.isFinite(openingBalance)) return { error: 'openingBalance must be a number' }
+    values.openingBalance = openingBalance
+  }
+  if (body.archived !== undefined) {
+    values.archived = Boolean(body.archived)
+  }
+
+  return { values }
+}
+
+/**
+ * Difference between a statement balance and the balance the ledger would have
+ * once the given transactions are reconciled. Zero (to the cent) means it balances.
+ */
+export function reconciliationDifference(
+  statementBalance: number,
+  openingBalance: number,
+  reconciledTotal: number,
+  selectedAmounts: number[]
+): number {
+  const cleared = openingBalance + reconciledTotal + selectedAmounts.reduce((sum, a) => sum + a, 0)
+  return Math.round((statementBalance - cleared) * 100) / 100
+}
@@ -3,6 +3,7 @@ import { ChatOpenAI } from "@langchain/openai";
 import { StateGraph, Annotation, END, START } from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import { createFinanceTools } from "./tools";
+import { getUserCategoryNames } from "../db/queries";
 
 import * as dotenv from "dotenv";
 dotenv.config({ path: '.env.local' })
@@ -51,13 +52,13 @@ const AgentState = Annotation.Root({
 type AgentStateType = typeof AgentState.State;
 
 // Create the model with tool binding for a specific user
-function createModel(userId: string) {
+function createModel(userId: string, categories: string[]) {
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error("OPENAI_API_KEY is not set");
   }
 
-  const tools = createFinanceTools(userId);
+  const tools = createFinanceTools(userId, categories);
   
   return {
     model: new ChatOpenAI({
@@ -86,6 +87,9 @@ IMPORTANT GUIDELINES:
 - If data is insufficient, explain what's missing
 - Be conversational but concise
 - For spending questions, use ABS() on amounts since expenses are negative
+- Transfers between the user's own accounts (is_transfer = true) are not income or spending; leave them out of totals
+- Split transactions spread one charge over several categories; category totals come from the transaction_allocations view
+- Each user has their own category set, which may include subcategories (e.g. Restaurants under Dining); use get_categories to see it
 
 TOOL SELECTION STRATEGY:
 - For "how much did I spend" questions → use sql_query or get_financial_summary
@@ -96,21 +100,33 @@ TOOL SELECTION STRATEGY:
 - For "recategorize" or "fix categories" → use recategorize_transactions
 - For "what category is..." → use preview_categorization
 - For finding similar transactions → use find_similar_transactions (uses pgvector)
+- For account balances ("how much is in checking?") → use get_account_balances
+- For "where do I spend the most" or merchant questions → use get_top_merchants
+- For subscriptions and recurring bills ("what am I subscribed to?") → use get_subscriptions
+- For budget questions ("am I on budget?", "how much is left for dining?") → use get_budget_status
+- For envelope questions ("how much is left to assign?", "which envelopes are overspent?") → use get_envelopes
+- For questions about future balances ("can I cover rent on the 1st?", "will I run low this month?") → use get_cash_flow_forecast, with date set to the day in question and a days horizon that reaches it
+- For savings goal questions ("how far am I from my emergency fund goal?", "am I on track for the vacation?") → use get_goal_progress
+- For net worth questions ("what's my net worth?", "how has my net worth changed this year?") → use get_net_worth
+- For investment questions ("how are my investments doing?", "what are my realized gains this year?", "what's my asset allocation?") → use get_portfolio
 
 CATEGORIZATION SYSTEM:
 The system uses a smart multi-tier categorization approach:
 1. Rule-based: Exact matches from learned patterns (from user corrections)
-2. Pattern-based: Extended pattern matching for common merchants
-3. AI-powered: GPT-4o-mini fallback for unrecognized merchants
+2. Merchant: The default category the user set on the merchant
+3. Pattern-based: Extended pattern matching for common merchants
+4. Local: A classifier trained on the user's own categorized transactions
+5. Similarity: A vote over the most similar past transactions (pgvector)
+6. AI-powered: GPT-4o-mini fallback for unrecognized merchants
 
 When users correct a category, the system can learn and create rules for future transactions.
 
 When you have enough information to answer, provide a clear, helpful response.`;
 
 // Agent node that decides what to do next
-function createAgentNode(userId: string) {
+function createAgentNode(userId: string, categories: string[]) {
   return async function agentNode(state: AgentStateType): Promise<Partial<AgentStateType>> {
-    const { model } = createModel(userId);
+    const { model } = createModel(userId, categories);
     
     // Add system message if this is the first call
     const messages = state.messages.length === 0 || 
@@ -125,8 +141,8 @@ function createAgentNode(userId: string) {
 }
 
 // Create tool node for a specific user
-function createToolNodeWithTracking(userId: string) {
-  const tools = createFinanceTools(userId);
+function createToolNodeWithTracking(userId: string, categories: string[]) {
+  const tools = createFinanceTools(userId, categories);
   const toolNode = new ToolNode(tools);
   
   return async function toolNodeWithTracking(state: AgentStateType): Promise<Partial<AgentStateType>> {
@@ -262,10 +278,10 @@ function shouldContinue(state: AgentStateType): "tools" | "respond" | typeof END
   return "respond";
 }
 
-// Build the graph for a specific user
-function createFinanceAgentGraph(userId: string) {
-  const agentNode = createAgentNode(userId);
-  const toolNodeWithTracking = createToolNodeWithTracking(userId);
+// Build the graph for a specific user; tool descriptions list their categories
+function createFinanceAgentGraph(userId: string, categories: string[]) {
+  const agentNode = createAgentNode(userId, categories);
+  const toolNodeWithTracking = createToolNodeWithTracking(userId, categories);
   
   const workflow = new StateGraph(AgentState)
     .addNode("agent", agentNode)
@@ -297,7 +313,7 @@ export async function runFinanceAgent(userQuery: string, userId: string): Promis
   console.log('[Agent] OPENAI_API_KEY set:', !!process.env.OPENAI_API_KEY)
   
   try {
-    const graph = createFinanceAgentGraph(userId);
+    const graph = createFinanceAgentGraph(userId, await getUserCategoryNames(userId));
     
     const initialState = {
       messages: [new HumanMessage(userQuery)],
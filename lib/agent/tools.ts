@@ -14,7 +14,10 @@ import {
   getFinancialSummary, 
   getMonthlyTrends,
   searchTransactions,
-  executeRawQuery 
+  executeRawQuery,
+  getAccountBalances,
+  getUserCategories,
+  getTopMerchants
 } from "../db/queries";
 import { augmentQuery, findSimilarTransactions } from "../rag";
 import { 
@@ -24,6 +27,16 @@ import {
   CATEGORIES,
   normalizeMerchant 
 } from "../smartCategorization";
+import { findCategoryName } from "../categories";
+import { linkTransactionMerchants } from "../merchants";
+import { getSubscriptions } from "../recurring";
+import { getBudgetStatuses, summarizeBudgets } from "../budgets";
+import { getEnvelopeMonth } from "../envelopes";
+import { getCashFlowForecast, forecastBalanceOn, MAX_FORECAST_DAYS } from "../forecast";
+import { daysBetween, currentDate } from "../dates";
+import { getGoalProgress } from "../goals";
+import { getNetWorth, netWorthChange } from "../netWorth";
+import { getPortfolio } from "../investments";
 
 /**
  * Create SQL Query Tool - Executes read-only SQL queries against the Postgres database
@@ -64,20 +77,33 @@ TABLE: transactions
 - user_id: TEXT (user identifier)
 - date: TEXT (format: YYYY-MM-DD)
 - description: TEXT (merchant/transaction description)
+- payee: TEXT (cleaned-up payee name set by the user's rules, often null)
 - amount: REAL (negative for expenses, positive for income)
 - category: TEXT (e.g., 'Coffee', 'Groceries', 'Dining', 'Transportation', etc.)
-- account: TEXT (optional account name)
+- category_confidence: TEXT ('high', 'medium' or 'low'; how sure the categorizer was)
+- category_method: TEXT ('rule', 'merchant', 'pattern', 'local', 'similarity', 'ai', 'fallback', or 'user' when set by the user)
+- tags: TEXT[] (labels set by the user's rules; filter with 'tag' = ANY(tags))
+- account: TEXT (account name)
+- account_id: INTEGER (account the transaction belongs to)
+- merchant_id: INTEGER (merchant the description was linked to; use get_top_merchants for merchant names)
+- cleared_status: TEXT ('uncleared', 'cleared' or 'reconciled')
+- is_transfer: BOOLEAN (true for money moved between the user's own accounts)
+- transfer_pair_id: INTEGER (id of the other side of the transfer)
 - transaction_type: TEXT ('expense' or 'income')
 - created_at: TIMESTAMP
 
-TABLE: category_rules
-- id: SERIAL PRIMARY KEY
-- pattern: TEXT (merchant pattern to match)
-- category: TEXT (category to assign)
-- created_at: TIMESTAMP
+VIEW: transaction_allocations (one row per split allocation, or per transaction when it isn't split)
+- transaction_id: INTEGER (id of the transaction)
+- split_id: INTEGER (null when the transaction isn't split)
+- user_id, date, description, account, account_id, is_transfer: same as transactions
+- category: TEXT (category of the allocation)
+- amount: REAL (amount of the allocation)
+- memo: TEXT (note on the allocation)
 
 IMPORTANT TIPS (PostgreSQL syntax):
 - Use ABS(amount) when summing expenses to get positive totals
+- ALWAYS add is_transfer = false when totalling income, expenses or spending - transfers between the user's own accounts (e.g. credit card payments, moves to savings) are neither
+- For totals BY CATEGORY (or filtering spending on a category) query transaction_allocations instead of transactions, so split transactions (e.g. one store receipt covering groceries and household) count in each of their categories
 - Use TO_CHAR(date::date, 'YYYY-MM') for monthly grouping
 - Use CURRENT_DATE for current date
 - Use DATE_TRUNC('month', CURRENT_DATE) for month start
@@ -100,12 +126,22 @@ export function createGetCategoresTool(userId: string) {
   return tool(
     async (): Promise<string> => {
       try {
-        const categories = await getSpendingByCategory(userId, 50);
+        const [categories, definitions] = await Promise.all([
+          getSpendingByCategory(userId, 50, false),
+          getUserCategories(userId),
+        ]);
+        const byId = new Map(definitions.map(c => [c.id, c]));
 
         return JSON.stringify({
           success: true,
           categories: categories,
           count: categories.length,
+          categorySet: definitions.map(c => ({
+            name: c.name,
+            parent: c.parentId !== null ? byId.get(c.parentId)?.name ?? null : null,
+            kind: c.kind,
+            excludeFromBudget: c.excludeFromBudget,
+          })),
         });
       } catch (error) {
         return JSON.stringify({
@@ -116,7 +152,7 @@ export function createGetCategoresTool(userId: string) {
     },
     {
       name: "get_categories",
-      description: "Get all unique transaction categories with their transaction counts and total spending. Use this to understand what categories exist before querying.",
+      description: "Get spending and transaction counts per category (subcategories listed separately), plus the user's category set with each category's parent, kind (expense/income/transfer) and budget exclusion. Use this to understand what categories exist before querying.",
       schema: z.object({}),
     }
   );
@@ -222,7 +258,7 @@ export function createGetMonthlyTrendsTool(userId: string) {
 /**
  * Create Search Transactions Tool - Search transactions for the user
  */
-export function createSearchTransactionsTool(userId: string) {
+export function createSearchTransactionsTool(userId: string, categories: string[] = [...CATEGORIES]) {
   return tool(
     async ({ searchTerm, category, limit }: { searchTerm?: string; category?: string; limit?: number }): Promise<string> => {
       try {
@@ -265,7 +301,7 @@ export function createSearchTransactionsTool(userId: string) {
       description: "Search for specific transactions by description text or filter by category. Returns matching transactions with details.",
       schema: z.object({
         searchTerm: z.string().optional().describe("Text to search for in transaction descriptions"),
-        category: z.string().optional().describe("Category to filter by"),
+        category: z.string().optional().describe(`Category to filter by. One of: ${categories.join(", ")}`),
         limit: z.number().optional().describe("Maximum results to return (max 50)"),
       }),
     }
@@ -468,11 +504,11 @@ export function createSimilarTransactionsTool(userId: string) {
 /**
  * Create Preview Categorization Tool - Preview what category would be assigned to a merchant
  */
-export function createPreviewCategorizationTool() {
+export function createPreviewCategorizationTool(userId: string) {
   return tool(
     async ({ description }: { description: string }): Promise<string> => {
       try {
-        const result = await smartCategorize(description);
+        const result = await smartCategorize(userId, description);
         
         return JSON.stringify({
           success: true,
@@ -482,7 +518,7 @@ export function createPreviewCategorizationTool() {
           confidence: result.confidence,
           method: result.method,
           suggestRule: result.suggestRule,
-          availableCategories: CATEGORIES,
+          availableCategories: (await getUserCategories(userId)).map(c => c.name),
         });
       } catch (error) {
         return JSON.stringify({
@@ -496,8 +532,11 @@ export function createPreviewCategorizationTool() {
       description: `Preview what category would be assigned to a merchant/transaction description.
 Uses the smart categorization system which:
 1. First checks for exact rule matches from learned patterns
-2. Then uses extended pattern matching for common merchants
-3. Finally falls back to AI (GPT-4o-mini) for unrecognized merchants
+2. Then the default category the user set on the merchant
+3. Then uses extended pattern matching for common merchants
+4. Then a local classifier trained on the user's own categorized history
+5. Then a similarity-weighted vote over the user's most similar past transactions
+6. Finally falls back to AI (GPT-4o-mini) for unrecognized merchants
 
 Returns the category, confidence level (high/medium/low), and which method was used.`,
       schema: z.object({
@@ -532,8 +571,7 @@ export function createRecategorizeTool(userId: string) {
         }
 
         // Batch categorize
-        const descriptions = toProcess.map(t => t.description);
-        const results = await batchCategorize(descriptions);
+        const results = await batchCategorize(userId, toProcess);
 
         // Count method usage
         const methodCounts: Record<string, number> = {};
@@ -586,20 +624,21 @@ Use this when users ask to "fix categories" or "recategorize".`,
 /**
  * Create Learn Category Tool - Create a categorization rule from a user correction
  */
-export function createLearnCategoryTool() {
+export function createLearnCategoryTool(userId: string, categories: string[] = [...CATEGORIES]) {
   return tool(
     async ({ description, category }: { description: string; category: string }): Promise<string> => {
       try {
-        // Validate category (case-insensitive check)
-        const validCategory = CATEGORIES.find(c => c.toLowerCase() === category.toLowerCase());
+        // Validate against the user's current categories (case-insensitive check)
+        const available = (await getUserCategories(userId)).map(c => c.name);
+        const validCategory = findCategoryName(available, category);
         if (!validCategory) {
           return JSON.stringify({
             success: false,
-            error: `Invalid category. Available categories: ${CATEGORIES.join(', ')}`,
+            error: `Invalid category. Available categories: ${available.join(', ')}`,
           });
         }
 
-        const result = await learnFromCorrection(description, validCategory, true);
+        const result = await learnFromCorrection(userId, description, validCategory, true);
         
         return JSON.stringify({
           success: true,
@@ -625,28 +664,389 @@ use this tool to create a rule so future transactions are auto-categorized.
 The pattern is automatically normalized (prefixes like SQ*, PP* are stripped).`,
       schema: z.object({
         description: z.string().describe("The merchant name or transaction description"),
-        category: z.string().describe("The correct category to assign"),
+        category: z.string().describe(`The correct category to assign. One of: ${categories.join(", ")}`),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Account Balances Tool - Returns current and cleared balance per account
+ */
+export function createGetAccountBalancesTool(userId: string) {
+  return tool(
+    async ({ includeArchived }: { includeArchived?: boolean }): Promise<string> => {
+      try {
+        const accounts = await getAccountBalances(userId, includeArchived || false);
+        const netBalance = accounts.reduce((sum, a) => sum + a.balance, 0);
+
+        return JSON.stringify({
+          success: true,
+          accounts: accounts,
+          count: accounts.length,
+          netBalance: Math.round(netBalance * 100) / 100,
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get account balances",
+        });
+      }
+    },
+    {
+      name: "get_account_balances",
+      description: "Get each account's current balance (opening balance plus all transactions), cleared balance, type, institution, uncleared transaction count and the date it was last reconciled. Use this for balance questions like \"how much is in my checking account?\".",
+      schema: z.object({
+        includeArchived: z.boolean().optional().describe("Include archived accounts. Defaults to false."),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Top Merchants Tool - Returns spending per merchant, with aliases merged
+ */
+export function createGetTopMerchantsTool(userId: string) {
+  return tool(
+    async ({ limit }: { limit?: number }): Promise<string> => {
+      try {
+        await linkTransactionMerchants(userId);
+        const merchants = await getTopMerchants(userId, Math.min(limit || 10, 50));
+
+        return JSON.stringify({
+          success: true,
+          merchants: merchants,
+          count: merchants.length,
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get top merchants",
+        });
+      }
+    },
+    {
+      name: "get_top_merchants",
+      description: "Get the merchants the user spends the most at, with transaction count, total spent and most common category. Different spellings of a merchant's description (e.g. \"SQ *BLUE BOTTLE #12\" and \"BLUE BOTTLE COFFEE SF\") are counted as one merchant. Use this for questions like \"where do I spend the most?\".",
+      schema: z.object({
+        limit: z.number().optional().describe("Number of merchants to return (max 50). Defaults to 10."),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Subscriptions Tool - Returns detected recurring charges with their yearly cost
+ */
+export function createGetSubscriptionsTool(userId: string) {
+  return tool(
+    async ({ includeCancelled }: { includeCancelled?: boolean }): Promise<string> => {
+      try {
+        const all = await getSubscriptions(userId);
+        const active = all.filter(s => s.status === "active");
+        const annualTotal = active.reduce((sum, s) => sum + s.annualCost, 0);
+
+        return JSON.stringify({
+          success: true,
+          subscriptions: includeCancelled ? all : active,
+          activeCount: active.length,
+          cancelledCount: all.length - active.length,
+          annualTotal: Math.round(annualTotal * 100) / 100,
+          monthlyTotal: Math.round((annualTotal / 12) * 100) / 100,
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get subscriptions",
+        });
+      }
+    },
+    {
+      name: "get_subscriptions",
+      description: "Get the user's subscriptions and other recurring charges, detected from their transactions: merchant, cadence (weekly/biweekly/monthly/annual), expected amount, yearly cost, last charged date and next due date, plus monthly and yearly totals. Series whose next charge is well overdue are marked cancelled. Use this for questions like \"what am I subscribed to?\" or \"how much do I pay for subscriptions?\".",
+      schema: z.object({
+        includeCancelled: z.boolean().optional().describe("Also list subscriptions that seem cancelled. Defaults to false."),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Budget Status Tool - Returns budget vs. actual for the current period
+ */
+export function createGetBudgetStatusTool(userId: string) {
+  return tool(
+    async ({ category }: { category?: string }): Promise<string> => {
+      try {
+        const all = await getBudgetStatuses(userId);
+        const budgets = category
+          ? all.filter(b => b.category.toLowerCase() === category.toLowerCase())
+          : all;
+
+        return JSON.stringify({
+          success: true,
+          budgets: budgets,
+          count: budgets.length,
+          summary: summarizeBudgets(budgets),
+          ...(all.length === 0 && { note: "The user has not set up any budgets yet." }),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get budget status",
+        });
+      }
+    },
+    {
+      name: "get_budget_status",
+      description: "Get budget vs. actual for the current period of each of the user's budgets: amount, rollover carried in, available, spent, remaining, projected spending by the end of the period at the current pace, and a status ('under', 'at_risk' when the projection exceeds the budget, or 'over'). A budget on a category includes its subcategories. Use this for questions like \"am I on budget?\" or \"how much can I still spend on dining this month?\".",
+      schema: z.object({
+        category: z.string().optional().describe("Only return the budget for this category"),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Get Envelopes Tool - Returns the envelope budget for a month
+ */
+export function createGetEnvelopesTool(userId: string) {
+  return tool(
+    async ({ month }: { month?: string }): Promise<string> => {
+      try {
+        const budget = await getEnvelopeMonth(userId, month);
+
+        return JSON.stringify({
+          success: true,
+          ...budget,
+          overspent: budget.envelopes.filter(e => e.overspent).map(e => e.name),
+          ...(budget.envelopes.length === 0 && { note: "The user has not set up any envelopes yet." }),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get envelopes",
+        });
+      }
+    },
+    {
+      name: "get_envelopes",
+      description: "Get the user's envelope (zero-based) budget for a month: To Be Assigned (income not yet given to an envelope), the paychecks received that month, and for each envelope the amount assigned this month, activity (net spending in its categories, negative when spent) and the available balance carried forward. Envelopes with a negative balance are overspent and need money moved in from another envelope. Use this for questions like \"how much do I have left to assign?\" or \"what's left in my groceries envelope?\".",
+      schema: z.object({
+        month: z.string().regex(/^\d{4}-\d{2}$/).optional().describe("Month as YYYY-MM (defaults to the current month)"),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Cash-Flow Forecast Tool - Projects balances over the coming days
+ */
+export function createGetCashFlowForecastTool(userId: string) {
+  return tool(
+    async ({ days = 30, threshold = 0, date }: { days?: number; threshold?: number; date?: string }): Promise<string> => {
+      try {
+        // Reach far enough to cover the requested date
+        if (date) {
+          const ahead = daysBetween(currentDate(), date);
+          if (ahead < 0) {
+            return JSON.stringify({ success: false, error: `${date} is in the past; the forecast starts today (${currentDate()})` });
+          }
+          if (ahead > MAX_FORECAST_DAYS) {
+            return JSON.stringify({ success: false, error: `${date} is more than ${MAX_FORECAST_DAYS} days ahead; the forecast can't reach it` });
+          }
+          days = Math.max(days, ahead);
+        }
+
+        const forecast = await getCashFlowForecast(userId, days, threshold);
+        if (forecast.accounts.length === 0) {
+          return JSON.stringify({
+            success: true,
+            note: "The user has no checking, savings or credit card accounts to forecast.",
+          });
+        }
+
+        // The full daily series is too long to be useful; give the agent the highlights
+        return JSON.stringify({
+          success: true,
+          today: forecast.today,
+          days: forecast.days,
+          threshold: forecast.threshold,
+          startingBalance: forecast.startingBalance,
+          endingBalance: forecast.endingBalance,
+          lowestBalance: forecast.lowestBalance,
+          lowestDate: forecast.lowestDate,
+          belowThresholdDate: forecast.belowThresholdDate,
+          dailyDiscretionary: forecast.dailyDiscretionary,
+          accounts: forecast.accounts.map(({ balances, ...account }) => account),
+          ...(date && {
+            onDate: {
+              date,
+              projectedBalance: forecastBalanceOn(forecast, date),
+              accounts: forecast.accounts.map(a => ({
+                name: a.name,
+                projectedBalance: a.balances[forecast.daily.findIndex(d => d.date === date)] ?? null,
+              })),
+              eventsUpToDate: forecast.events.filter(e => e.date <= date),
+            },
+          }),
+          upcomingEvents: forecast.events.slice(0, 30),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to build forecast",
+        });
+      }
+    },
+    {
+      name: "get_cash_flow_forecast",
+      description: "Forecast the user's checking, savings and credit card balances over the next days from their recurring charges and paychecks, transactions already scheduled, and their average everyday spending. Returns the projected ending and lowest balance, the first date the total drops below `threshold`, per-account projections and the upcoming recurring/scheduled transactions. Pass `date` to get the projected balance on that day (end of day, after that day's transactions); `days` is extended to reach it. Use this for questions like \"will I be able to cover rent on the 1st?\" or \"when will I run low on cash?\".",
+      schema: z.object({
+        days: z.number().int().min(1).max(365).optional().describe("How many days ahead to forecast (default 30; 30, 60 or 90 are typical)"),
+        threshold: z.number().optional().describe("Flag the first day the balance is projected to fall below this amount (default 0)"),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("A date (YYYY-MM-DD) to report the projected balance for; the forecast is extended to reach it, up to 365 days ahead"),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Goal Progress Tool - Returns progress toward the user's savings goals
+ */
+export function createGetGoalProgressTool(userId: string) {
+  return tool(
+    async ({ name }: { name?: string }): Promise<string> => {
+      try {
+        const { goals: all, summary } = await getGoalProgress(userId);
+        const goals = name
+          ? all.filter(g => g.name.toLowerCase().includes(name.toLowerCase()))
+          : all;
+
+        return JSON.stringify({
+          success: true,
+          goals: goals,
+          count: goals.length,
+          summary: summary,
+          ...(all.length === 0 && { note: "The user has not set up any savings goals yet." }),
+          ...(all.length > 0 && goals.length === 0 && { note: `No goal matches "${name}". Goals: ${all.map(g => g.name).join(", ")}` }),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get goal progress",
+        });
+      }
+    },
+    {
+      name: "get_goal_progress",
+      description: "Get progress toward the user's savings goals: amount saved (from a linked account's balance or transactions with a tag), target amount and date, what's remaining, the monthly contribution needed to reach it by its date, and whether the user's recent savings rate (income minus spending over the last 3 months, shared out by goal priority) keeps it on track, with a projected completion date. Use this for questions like \"how far am I from my emergency fund goal?\" or \"am I on track to save for the vacation?\".",
+      schema: z.object({
+        name: z.string().optional().describe("Only return goals whose name contains this text"),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Net Worth Tool - Returns the balance sheet and net worth history
+ */
+export function createGetNetWorthTool(userId: string) {
+  return tool(
+    async ({ since }: { since?: string }): Promise<string> => {
+      try {
+        const { current, history } = await getNetWorth(userId);
+        const start = since || `${current.date.slice(0, 4)}-01-01`;
+
+        return JSON.stringify({
+          success: true,
+          date: current.date,
+          netWorth: current.netWorth,
+          assets: current.assets,
+          liabilities: current.liabilities,
+          items: current.items,
+          breakdown: current.breakdown,
+          change: netWorthChange(history, start),
+          history: history.map(s => ({ date: s.date, netWorth: s.netWorth, assets: s.assets, liabilities: s.liabilities })),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get net worth",
+        });
+      }
+    },
+    {
+      name: "get_net_worth",
+      description: "Get the user's net worth: today's balance sheet (every account's balance, with credit cards and loans as liabilities and brokerage accounts including their holdings, plus manually tracked assets like a home or car and liabilities like a mortgage, at their latest valuation), a breakdown by type, month-end net worth history, and the change since a date (default: the start of this year). Use this for questions like \"what's my net worth?\" or \"how has my net worth changed this year?\".",
+      schema: z.object({
+        since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Measure the change from this date (YYYY-MM-DD); defaults to January 1 of this year"),
+      }),
+    }
+  );
+}
+
+/**
+ * Create Portfolio Tool - Returns investment holdings, gains and allocation
+ */
+export function createGetPortfolioTool(userId: string) {
+  return tool(
+    async ({ symbol }: { symbol?: string }): Promise<string> => {
+      try {
+        const portfolio = await getPortfolio(userId);
+        const match = (s: string) => !symbol || s.toUpperCase() === symbol.toUpperCase();
+
+        return JSON.stringify({
+          success: true,
+          summary: portfolio.summary,
+          allocation: portfolio.allocation,
+          positions: portfolio.positions.filter(p => match(p.symbol)),
+          realized: portfolio.realized.filter(r => match(r.symbol)).slice(0, 50),
+          ...(portfolio.positions.length === 0 && { note: "No brokerage activity imported yet" }),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to get portfolio",
+        });
+      }
+    },
+    {
+      name: "get_portfolio",
+      description: "Get the user's investment portfolio from imported brokerage activity: each position's shares, cost basis (lots matched FIFO or by the lots the user picked), latest loaded price, market value and unrealized gain; allocation by asset class; realized gains per sell, split into short and long term; and dividend income. Prices come from the user's own price table, so positions without a loaded price have no market value. Use this for questions like \"how are my investments doing?\", \"what did I realize from selling AAPL?\" or \"how much of my portfolio is in bonds?\".",
+      schema: z.object({
+        symbol: z.string().optional().describe("Only return positions and sells for this ticker symbol"),
       }),
     }
   );
 }
 
 /**
- * Create all finance tools for a specific user
+ * Create all finance tools for a specific user. `categories` (the user's
+ * category names) is listed in tool descriptions that take a category.
  */
-export function createFinanceTools(userId: string) {
+export function createFinanceTools(userId: string, categories: string[] = [...CATEGORIES]) {
   return [
     createSqlQueryTool(userId),
     createGetCategoresTool(userId),
     createGetSummaryTool(userId),
     createGetMonthlyTrendsTool(userId),
-    createSearchTransactionsTool(userId),
+    createSearchTransactionsTool(userId, categories),
     createComparePeriodsTool(userId),
     createRetrievalTool(userId),
     createSimilarTransactionsTool(userId),
-    createPreviewCategorizationTool(),
+    createPreviewCategorizationTool(userId),
     createRecategorizeTool(userId),
-    createLearnCategoryTool(),
+    createLearnCategoryTool(userId, categories),
+    createGetAccountBalancesTool(userId),
+    createGetTopMerchantsTool(userId),
+    createGetSubscriptionsTool(userId),
+    createGetBudgetStatusTool(userId),
+    createGetEnvelopesTool(userId),
+    createGetCashFlowForecastTool(userId),
+    createGetGoalProgressTool(userId),
+    createGetNetWorthTool(userId),
+    createGetPortfolioTool(userId),
   ];
 }
 
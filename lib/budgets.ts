@@ -0,0 +1,214 @@
+/**
+ * Budgets
+ *
+ * Budget vs. actual per category. Spending follows the same conventions as
+ * getSpendingByCategory: only expense allocations count (refunds and
+ * transfers don't), totals are positive, and a budget on a top-level
+ * category covers its subcategories too.
+ *
+ * Rollover carries each finished period's balance into the next according to
+ * the budget's policy, starting from the period the budget was created in.
+ */
+
+import { getBudgets, getUserCategories, getMonthlyCategoryTotals } from './db/queries'
+import {
+  BUDGET_PERIODS, ROLLOVER_POLICIES,
+  type Budget, type BudgetPeriod, type NewBudget, type RolloverPolicy, type UserCategory,
+} from './db/schema'
+import { daysBetween, addDays, addMonths, formatDate, currentDate } from './dates'
+
+export interface BudgetStatus {
+  id: number
+  category: string
+  period: BudgetPeriod
+  rollover: RolloverPolicy
+  amount: number
+  carryOver: number // Balance carried in from earlier periods (negative when overspending carried)
+  available: number // amount + carryOver
+  spent: number
+  remaining: number
+  projected: number // Spending by the end of the period at the current pace
+  percentUsed: number
+  status: 'under' | 'at_risk' | 'over' // 'at_risk' when the projection exceeds what's available
+  periodStart: string
+  periodEnd: string
+  daysLeft: number
+}
+
+export interface BudgetSummary {
+  available: number
+  spent: number
+  overCount: number
+  atRiskCount: number
+}
+
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * First day of the period that contains `date`
+ */
+export function getPeriodStart(period: BudgetPeriod, date: string): string {
+  const [year, month] = date.split('-').map(Number)
+  const length = PERIOD_MONTHS[period]
+  const startMonth = Math.floor((month - 1) / length) * length + 1
+  return `${year}-${String(startMonth).padStart(2, '0')}-01`
+}
+
+/**
+ * Last day of the period starting on `start`
+ */
+export function getPeriodEnd(period: BudgetPeriod, start: string): string {
+  return addDays(addMonths(start, PERIOD_MONTHS[period]), -1)
+}
+
+// month (YYYY-MM) -> category -> amount spent
+type SpendingByMonth = Map<string, Map<string, number>>
+
+/**
+ * Work out where a budget stands on `today` (YYYY-MM-DD)
+ */
+export function computeBudgetStatus(
+  budget: Budget,
+  categories: UserCategory[],
+  spending: SpendingByMonth,
+  today: string
+): BudgetStatus {
+  const period = budget.period as BudgetPeriod
+  const rollover = budget.rollover as RolloverPolicy
+  const length = PERIOD_MONTHS[period]
+
+  const node = categories.find(c => c.name === budget.category)
+  const covered = [budget.category, ...(node ? categories.filter(c => c.parentId === node.id).map(c => c.name) : [])]
+  const spentIn = (start: string) => {
+    let total = 0
+    for (let i = 0; i < length; i++) {
+      const month = spending.get(addMonths(start, i).slice(0, 7))
+      for (const name of covered) total += month?.get(name) || 0
+    }
+    return total
+  }
+
+  const start = getPeriodStart(period, today)
+  let carryOver = 0
+  if (rollover !== 'none') {
+    const created = budget.createdAt ? formatDate(budget.createdAt) : today
+    for (let p = getPeriodStart(period, created); p < start; p = addMonths(p, length)) {
+      const balance = budget.amount + carryOver - spentIn(p)
+      carryOver = rollover === 'carry_unspent' ? Math.max(0, balance) : balance
+    }
+  }
+
+  const end = getPeriodEnd(period, start)
+  const spent = spentIn(start)
+  const available = budget.amount + carryOver
+  const elapsed = daysBetween(start, today) + 1
+  const projected = (spent / elapsed) * (daysBetween(start, end) + 1)
+
+  return {
+    id: budget.id,
+    category: budget.category,
+    period,
+    rollover,
+    amount: budget.amount,
+    carryOver: round2(carryOver),
+    available: round2(available),
+    spent: round2(spent),
+    remaining: round2(available - spent),
+    projected: round2(projected),
+    percentUsed: available > 0 ? Math.round((spent / available) * 100) : spent > 0 ? 100 : 0,
+    status: spent > available ? 'over' : projected > available ? 'at_risk' : 'under',
+    periodStart: start,
+    periodEnd: end,
+    daysLeft: daysBetween(today, end),
+  }
+}
+
+/**
+ * Get budget vs. actual for each of a user's budgets, over budget first
+ */
+export async function getBudgetStatuses(userId: string, today = currentDate()): Promise<BudgetStatus[]> {
+  const budgets = await getBudgets(userId)
+  if (budgets.length === 0) return []
+
+  // Rollover needs spending back to the earliest period any budget started in
+  const since = budgets
+    .map(b => getPeriodStart(b.period as BudgetPeriod, b.createdAt ? formatDate(b.createdAt) : today))
+    .reduce((a, b) => (a < b ? a : b))
+  const [categories, rows] = await Promise.all([
+    getUserCategories(userId),
+    getMonthlyCategoryTotals(userId, since),
+  ])
+
+  const spending: SpendingByMonth = new Map()
+  for (const row of rows) {
+    if (row.category === null || row.spent === 0) continue
+    const month = spending.get(row.month) || new Map<string, number>()
+    month.set(row.category, (month.get(row.category) || 0) + row.spent)
+    spending.set(row.month, month)
+  }
+
+  const order = { over: 0, at_risk: 1, under: 2 }
+  return budgets
+    .map(budget => computeBudgetStatus(budget, categories, spending, today))
+    .sort((a, b) => order[a.status] - order[b.status] || b.percentUsed - a.percentUsed)
+}
+
+/**
+ * Totals across budgets, for the dashboard and the agent
+ */
+export function summarizeBudgets(statuses: BudgetStatus[]): BudgetSummary {
+  return {
+    available: round2(statuses.reduce((sum, s) => sum + s.available, 0)),
+    spent: round2(statuses.reduce((sum, s) => sum + s.spent, 0)),
+    overCount: statuses.filter(s => s.status === 'over').length,
+    atRiskCount: statuses.filter(s => s.status === 'at_risk').length,
+  }
+}
+
+/**
+ * Validate a budget payload from the API against the user's categories. With
+ * `partial`, only the fields present are checked (for PATCH). Returns the
+ * values to store or an error message.
+ */
+export function validateBudgetInput(
+  body: Record<string, unknown>,
+  categories: UserCategory[],
+  partial = false
+): { values: Partial<Omit<NewBudget, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewBudget, 'userId'>> = {}
+
+  if (body.category !== undefined || !partial) {
+    const name = typeof body.category === 'string' ? body.category.trim().toLowerCase() : ''
+    const category = categories.find(c => c.name.toLowerCase() === name)
+    if (!category) return { error: 'category must be one of your categories' }
+    if (category.excludeFromBudget) return { error: `${category.name} is excluded from budgets` }
+    values.category = category.name
+  }
+  if (body.amount !== undefined || !partial) {
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) return { error: 'amount must be a positive number' }
+    values.amount = round2(amount)
+  }
+  if (body.period !== undefined) {
+    if (!BUDGET_PERIODS.includes(body.period as BudgetPeriod)) {
+      return { error: `period must be one of: ${BUDGET_PERIODS.join(', ')}` }
+    }
+    values.period = body.period as BudgetPeriod
+  }
+  if (body.rollover !== undefined) {
+    if (!ROLLOVER_POLICIES.includes(body.rollover as RolloverPolicy)) {
+      return { error: `rollover must be one of: ${ROLLOVER_POLICIES.join(', ')}` }
+    }
+    values.rollover = body.rollover as RolloverPolicy
+  }
+
+  return { values }
+}
@@ -0,0 +1,210 @@
+/**
+ * Category Helpers
+ *
+ * Built-in defaults for new users' category sets, validation for category
+ * payloads, and the hierarchy helpers used to roll subcategory totals up into
+ * their parents and to describe the set to the LLM.
+ */
+
+import { CATEGORY_KINDS, type CategoryKind, type NewUserCategory, type UserCategory } from './db/schema'
+import type { Category } from './smartCategorization'
+
+export type CategoryNode = Pick<UserCategory, 'id' | 'name' | 'parentId'>
+
+interface CategoryStyle {
+  color: string
+  icon: string // lucide-react icon name
+  kind?: CategoryKind
+  excludeFromBudget?: boolean
+}
+
+// Seeded into each user's category set the first time it is read
+const DEFAULT_CATEGORY_STYLES: Record<Category, CategoryStyle> = {
+  'Coffee': { color: '#92400e', icon: 'Coffee' },
+  'Groceries': { color: '#10b981', icon: 'ShoppingCart' },
+  'Dining': { color: '#f97316', icon: 'Utensils' },
+  'Transportation': { color: '#3b82f6', icon: 'Car' },
+  'Gas': { color: '#64748b', icon: 'Fuel' },
+  'Entertainment': { color: '#ec4899', icon: 'Film' },
+  'Shopping': { color: '#8b5cf6', icon: 'ShoppingBag' },
+  'Healthcare': { color: '#ef4444', icon: 'HeartPulse' },
+  'Fitness': { color: '#84cc16', icon: 'Dumbbell' },
+  'Utilities': { color: '#f59e0b', icon: 'Zap' },
+  'Insurance': { color: '#0ea5e9', icon: 'Shield' },
+  'Subscriptions': { color: '#6366f1', icon: 'Repeat' },
+  'Travel': { color: '#06b6d4', icon: 'Plane' },
+  'Education': { color: '#14b8a6', icon: 'GraduationCap' },
+  'Personal Care': { color: '#d946ef', icon: 'Sparkles' },
+  'Pets': { color: '#a16207', icon: 'PawPrint' },
+  'Home': { color: '#0d9488', icon: 'Home' },
+  'Transfer': { color: '#94a3b8', icon: 'ArrowLeftRight', kind: 'transfer', excludeFromBudget: true },
+  'Cash Withdrawal': { color: '#78716c', icon: 'Banknote' },
+  'Fees': { color: '#dc2626', icon: 'Receipt' },
+  'Income': { color: '#16a34a', icon: 'Wallet', kind: 'income', excludeFromBudget: true },
+  'Other': { color: '#9ca3af', icon: 'Tag' },
+}
+
+// 'Other' is the categorizer's fallback and 'Transfer' is what mark-transfer
+// rules assign, so neither can be renamed or deleted
+export const PROTECTED_CATEGORIES = ['Other', 'Transfer']
+
+/**
+ * The built-in categories as rows for a new user's category set
+ */
+export function getDefaultCategories(userId: string): NewUserCategory[] {
+  return Object.entries(DEFAULT_CATEGORY_STYLES).map(([name, style]) => ({
+    userId,
+    name,
+    kind: style.kind ?? 'expense',
+    color: style.color,
+    icon: style.icon,
+    excludeFromBudget: style.excludeFromBudget ?? false,
+  }))
+}
+
+/**
+ * The built-in categories as a flat hierarchy, for callers without a user
+ */
+export function getDefaultCategoryNodes(): CategoryNode[] {
+  return Object.keys(DEFAULT_CATEGORY_STYLES).map((name, i) => ({ id: -(i + 1), name, parentId: null }))
+}
+
+/**
+ * Find a category by name, ignoring case. Returns the stored spelling.
+ */
+export function findCategoryName(names: readonly string[], value: string): string | undefined {
+  const wanted = value.trim().toLowerCase()
+  return names.find(name => name.toLowerCase() === wanted)
+}
+
+/**
+ * Validate a category payload from the API. With `partial`, only the fields
+ * present are checked (for PATCH). The parent is checked separately against
+ * the user's set (see validateParent).
+ */
+export function validateCategoryInput(
+  body: Record<string, unknown>,
+  partial = false
+): { values: Partial<Omit<NewUserCategory, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewUserCategory, 'userId'>> = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > 50) return { error: 'name must be 50 characters or fewer' }
+    values.name = name
+  }
+  if (body.parentId !== undefined) {
+    if (body.parentId === null || body.parentId === '') {
+      values.parentId = null
+    } else {
+      const parentId = Number(body.parentId)
+      if (!Number.isInteger(parentId)) return { error: 'parentId must be a category ID' }
+      values.parentId = parentId
+    }
+  }
+  if (body.kind !== undefined) {
+    if (!(CATEGORY_KINDS as readonly unknown[]).includes(body.kind)) {
+      return { error: `kind must be one of: ${CATEGORY_KINDS.join(', ')}` }
+    }
+    values.kind = body.kind as string
+  }
+  if (body.color !== undefined) {
+    if (body.color === null || body.color === '') {
+      values.color = null
+    } else if (typeof body.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(body.color)) {
+      return { error: 'color must be a hex color like #3b82f6' }
+    } else {
+      values.color = body.color.toLowerCase()
+    }
+  }
+  if (body.icon !== undefined) {
+    values.icon = typeof body.icon === 'string' && body.icon.trim() ? body.icon.trim() : null
+  }
+  if (body.excludeFromBudget !== undefined) {
+    values.excludeFromBudget = Boolean(body.excludeFromBudget)
+  }
+
+  return { values }
+}
+
+/**
+ * Check that `parentId` can be the parent of category `id` (null when
+ * creating). Only one level of nesting is allowed, so the parent must be
+ * top-level and the category must not have children of its own.
+ * Returns an error message, or null when the parent is fine.
+ */
+export function validateParent(categories: CategoryNode[], id: number | null, parentId: number | null): string | null {
+  if (parentId === null) return null
+  if (parentId === id) return 'A category cannot be its own parent'
+
+  const parent = categories.find(c => c.id === parentId)
+  if (!parent) return 'Parent category not found'
+  if (parent.parentId !== null) return `${parent.name} is already a subcategory; subcategories cannot be nested`
+  if (id !== null && categories.some(c => c.parentId === id)) {
+    return 'A category with subcategories cannot become a subcategory'
+  }
+  return null
+}
+
+/**
+ * Map each category name to the name of its top-level category
+ * (itself for top-level categories)
+ */
+export function getRollupMap(categories: CategoryNode[]): Map<string, string> {
+  const byId = new Map(categories.map(c => [c.id, c]))
+  return new Map(categories.map(c => {
+    const parent = c.parentId !== null ? byId.get(c.parentId) : undefined
+    return [c.name, parent ? parent.name : c.name]
+  }))
+}
+
+/**
+ * Roll per-category totals up into top-level categories, summing the given
+ * numeric fields. Categories outside the user's set are kept as they are.
+ * Rows come back in the order their top-level category first appears.
+ */
+export function rollUpCategoryTotals<T extends { category: string | null }>(
+  rows: T[],
+  categories: CategoryNode[],
+  fields: Array<keyof T>
+): T[] {
+  const rollup = getRollupMap(categories)
+  const totals = new Map<string | null, T>()
+  for (const row of rows) {
+    const category = row.category !== null ? rollup.get(row.category) ?? row.category : null
+    let total = totals.get(category)
+    if (!total) {
+      total = { ...row, category }
+      for (const field of fields) total[field] = 0 as T[keyof T]
+      totals.set(category, total)
+    }
+    // Aggregates can come back from Postgres as numeric strings
+    for (const field of fields) {
+      const sum = Number(total[field] ?? 0) + Number(row[field] ?? 0)
+      total[field] = (Math.round(sum * 100) / 100) as T[keyof T]
+    }
+  }
+  return Array.from(totals.values())
+}
+
+/**
+ * Describe a category set for an LLM prompt: every name it may answer with,
+ * plus which ones are subcategories of which
+ */
+export function describeCategoriesForPrompt(categories: CategoryNode[]): string {
+  const names = categories.map(c => c.name)
+  const byId = new Map(categories.map(c => [c.id, c]))
+  const children = new Map<string, string[]>()
+  for (const c of categories) {
+    const parent = c.parentId !== null ? byId.get(c.parentId) : undefined
+    if (parent) children.set(parent.name, [...(children.get(parent.name) ?? []), c.name])
+  }
+
+  let description = `Available categories: ${names.join(', ')}`
+  if (children.size > 0) {
+    const lines = Array.from(children.entries()).map(([parent, subs]) => `- ${parent}: ${subs.join(', ')}`)
+    description += `\n\nSubcategories (prefer the most specific category that fits):\n${lines.join('\n')}`
+  }
+  return description
+}
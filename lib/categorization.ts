@@ -1,4 +1,5 @@
 import { getCategoryRules } from './db/queries'
+import { applyRules } from './ruleEngine'
 
 export interface TransactionRow {
   date: string
@@ -36,15 +37,14 @@ const EXTENDED_PATTERNS: Record<string, string[]> = {
  * Autonomous categorization using enhanced pattern matching
  * This function matches transaction descriptions against known patterns
  */
-export async function categorizeTransaction(description: string): Promise<string> {
-  const rules = await getCategoryRules()
+export async function categorizeTransaction(userId: string, description: string): Promise<string> {
+  const rules = await getCategoryRules(userId)
   const upperDesc = description.toUpperCase()
 
-  // First try database rules (user-customizable)
-  for (const rule of rules) {
-    if (upperDesc.includes(rule.pattern.toUpperCase())) {
-      return rule.category
-    }
+  // First try database rules (the user's own, then system defaults)
+  const outcome = applyRules(rules, { description })
+  if (outcome?.category) {
+    return outcome.category
   }
 
   // Then try extended pattern matching
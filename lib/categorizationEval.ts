@@ -0,0 +1,211 @@
+/**
+ * Categorization Evaluation
+ *
+ * Scores categorizer output against a labeled set: overall accuracy,
+ * precision/recall per category, a confusion matrix, and how much of the set
+ * each method (rule, pattern, local, ai, ...) covered and how accurately.
+ * Used by scripts/eval-categorization.ts to catch regressions when patterns,
+ * merchant normalization or the AI prompt change.
+ */
+
+import Papa from 'papaparse'
+import { parseMoney } from './import/csv'
+
+export interface LabeledTransaction {
+  line: number
+  description: string
+  amount: number | null
+  expected: string
+}
+
+export interface EvalCase {
+  description: string
+  expected: string
+  predicted: string
+  method: string
+  confidence: string
+}
+
+export interface CategoryMetrics {
+  category: string
+  support: number // Rows labeled with this category
+  predicted: number // Rows predicted as this category
+  truePositives: number
+  precision: number
+  recall: number
+  f1: number
+}
+
+export interface MethodCoverage {
+  method: string
+  count: number
+  coverage: number // Share of all rows decided by this method
+  correct: number
+  accuracy: number
+}
+
+export interface EvalReport {
+  total: number
+  correct: number
+  accuracy: number
+  categories: CategoryMetrics[]
+  methods: MethodCoverage[]
+  confusion: {
+    labels: string[]
+    matrix: number[][] // matrix[expected][predicted], indexed like labels
+  }
+  errors: EvalCase[]
+}
+
+const DESCRIPTION_HEADERS = ['description', 'desc', 'merchant', 'payee']
+const AMOUNT_HEADERS = ['amount', 'amt']
+const CATEGORY_HEADERS = ['expected', 'expected_category', 'expected category', 'category', 'label']
+
+/**
+ * Parse a labeled CSV with description, amount (optional) and expected
+ * category columns. Header names are matched case-insensitively.
+ */
+export function parseLabeledCSV(text: string): { rows: LabeledTransaction[]; errors: string[] } {
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim().toLowerCase(),
+  })
+  const headers = result.meta.fields || []
+  const find = (candidates: string[]) => candidates.find(c => headers.includes(c))
+
+  const descriptionHeader = find(DESCRIPTION_HEADERS)
+  const amountHeader = find(AMOUNT_HEADERS)
+  const categoryHeader = find(CATEGORY_HEADERS)
+  if (!descriptionHeader || !categoryHeader) {
+    return { rows: [], errors: ['CSV needs a description column and an expected category column'] }
+  }
+
+  const rows: LabeledTransaction[] = []
+  const errors: string[] = []
+  result.data.forEach((record, index) => {
+    const line = index + 2 // 1-based, after the header row
+    const description = (record[descriptionHeader] || '').trim()
+    const expected = (record[categoryHeader] || '').trim()
+    if (!description || !expected) {
+      errors.push(`Line ${line}: missing description or expected category`)
+      return
+    }
+    rows.push({
+      line,
+      description,
+      amount: amountHeader ? parseMoney(record[amountHeader]) : null,
+      expected,
+    })
+  })
+  return { rows, errors }
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? 0 : numerator / denominator)
+
+/**
+ * Score a set of categorized cases
+ */
+export function evaluate(cases: EvalCase[]): EvalReport {
+  const labels = Array.from(new Set(cases.flatMap(c => [c.expected, c.predicted]))).sort()
+  const labelIndex = new Map(labels.map((label, i) => [label, i]))
+  const matrix = labels.map(() => labels.map(() => 0))
+  for (const c of cases) {
+    matrix[labelIndex.get(c.expected)!][labelIndex.get(c.predicted)!]++
+  }
+
+  const categories = labels.map((category, i) => {
+    const truePositives = matrix[i][i]
+    const support = matrix[i].reduce((sum, n) => sum + n, 0)
+    const predicted = matrix.reduce((sum, row) => sum + row[i], 0)
+    const precision = ratio(truePositives, predicted)
+    const recall = ratio(truePositives, support)
+    return {
+      category,
+      support,
+      predicted,
+      truePositives,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+    }
+  })
+
+  const byMethod = new Map<string, { count: number; correct: number }>()
+  for (const c of cases) {
+    const entry = byMethod.get(c.method) ?? { count: 0, correct: 0 }
+    entry.count++
+    if (c.predicted === c.expected) entry.correct++
+    byMethod.set(c.method, entry)
+  }
+  const methods = Array.from(byMethod.entries())
+    .map(([method, { count, correct }]) => ({
+      method,
+      count,
+      coverage: ratio(count, cases.length),
+      correct,
+      accuracy: ratio(correct, count),
+    }))
+    .sort((a, b) => b.count - a.count)
+
+  const correct = cases.filter(c => c.predicted === c.expected).length
+  return {
+    total: cases.length,
+    correct,
+    accuracy: ratio(correct, cases.length),
+    categories,
+    methods,
+    confusion: { labels, matrix },
+    errors: cases.filter(c => c.predicted !== c.expected),
+  }
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`
+
+/**
+ * Render a report as plain text tables for the terminal
+ */
+export function formatReport(report: EvalReport, options: { maxErrors?: number } = {}): string {
+  const { maxErrors = 20 } = options
+  const lines: string[] = []
+
+  lines.push(`Accuracy: ${pct(report.accuracy)} (${report.correct}/${report.total})`, '')
+
+  lines.push('Method coverage')
+  lines.push(`  ${'method'.padEnd(12)}${'rows'.padStart(6)}${'coverage'.padStart(10)}${'accuracy'.padStart(10)}`)
+  for (const m of report.methods) {
+    lines.push(`  ${m.method.padEnd(12)}${String(m.count).padStart(6)}${pct(m.coverage).padStart(10)}${pct(m.accuracy).padStart(10)}`)
+  }
+  lines.push('')
+
+  const width = Math.max(8, ...report.categories.map(c => c.category.length)) + 2
+  lines.push('Per category')
+  lines.push(`  ${'category'.padEnd(width)}${'support'.padStart(8)}${'precision'.padStart(11)}${'recall'.padStart(9)}${'f1'.padStart(8)}`)
+  for (const c of report.categories) {
+    if (c.support === 0 && c.predicted === 0) continue
+    lines.push(
+      `  ${c.category.padEnd(width)}${String(c.support).padStart(8)}${pct(c.precision).padStart(11)}` +
+      `${pct(c.recall).padStart(9)}${c.f1.toFixed(2).padStart(8)}`
+    )
+  }
+  lines.push('')
+
+  // Columns are labeled by index to keep the matrix narrow
+  const { labels, matrix } = report.confusion
+  const cell = Math.max(4, String(report.total).length + 1)
+  lines.push('Confusion matrix (rows: expected, columns: predicted)')
+  lines.push(`  ${''.padEnd(width + 4)}${labels.map((_, i) => String(i).padStart(cell)).join('')}`)
+  labels.forEach((label, i) => {
+    const row = matrix[i].map(n => (n === 0 ? '.' : String(n)).padStart(cell)).join('')
+    lines.push(`  ${String(i).padStart(2)}  ${label.padEnd(width)}${row}`)
+  })
+
+  if (report.errors.length > 0) {
+    lines.push('', `Misses (${Math.min(maxErrors, report.errors.length)} of ${report.errors.length})`)
+    for (const e of report.errors.slice(0, maxErrors)) {
+      lines.push(`  ${e.description} — expected ${e.expected}, got ${e.predicted} via ${e.method} (${e.confidence})`)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,45 @@
+/**
+ * Date Helpers
+ *
+ * Arithmetic on the YYYY-MM-DD strings transactions store their dates as,
+ * done in UTC so results don't shift with the server's time zone.
+ */
+
+export function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+export function daysBetween(a: string, b: string): number {
+  return Math.round((toDate(b).getTime() - toDate(a).getTime()) / 86_400_000)
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toDate(date)
+  d.setUTCDate(d.getUTCDate() + days)
+  return formatDate(d)
+}
+
+/**
+ * Add months keeping the day of month, clamped to the end of shorter months
+ * (Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: string, months: number): string {
+  const d = toDate(date)
+  const day = d.getUTCDate()
+  d.setUTCDate(1)
+  d.setUTCMonth(d.getUTCMonth() + months)
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate()
+  d.setUTCDate(Math.min(day, lastDay))
+  return formatDate(d)
+}
+
+/**
+ * Today's date as YYYY-MM-DD
+ */
+export function currentDate(): string {
+  return formatDate(new Date())
+}
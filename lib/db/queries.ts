@@ -5,8 +5,23 @@
  * Replaces the old SQLite-based database.ts functions.
  */
 
-import { eq, and, desc, sql, like, gte, lt, asc } from 'drizzle-orm'
-import { db, transactions, categoryRules, vectorStore, type Transaction, type NewTransaction, type CategoryRule, type NewCategoryRule } from './index'
+import { eq, and, or, isNull, isNotNull, desc, sql, like, gte, lt, lte, asc, inArray, notInArray, arrayOverlaps } from 'drizzle-orm'
+import {
+  db, transactions, transactionSplits, transactionAllocations, categoryRules, vectorStore, importProfiles, importBatches,
+  accounts, reconciliations, dismissedTransfers, userCategories, budgets, envelopes, envelopeAllocations, goals,
+  manualAssets, assetValuations, netWorthSnapshots, securities, investmentTransactions, lots, holdings, securityPrices,
+  merchants, recurringSeries, notifications,
+  type Transaction, type TransactionSplit, type NewTransaction, type CategoryRule, type NewCategoryRule, type ImportProfile, type NewImportProfile,
+  type ImportBatch, type NewImportBatch, type Account, type NewAccount, type AccountType, type Reconciliation,
+  type UserCategory, type NewUserCategory, type Budget, type NewBudget,
+  type Envelope, type NewEnvelope, type EnvelopeAllocation, type NewEnvelopeAllocation, type Goal, type NewGoal,
+  type ManualAsset, type NewManualAsset, type AssetValuation, type NewAssetValuation, type NetWorthSnapshot, type NewNetWorthSnapshot, type Merchant, type NewMerchant, type RecurringSeries, type NewRecurringSeries,
+  type Notification, type NewNotification, type AssetClass, type Security, type NewSecurity,
+  type InvestmentTransaction, type NewInvestmentTransaction, type Lot, type NewLot, type Holding, type NewHolding,
+  type SecurityPrice, type NewSecurityPrice,
+} from './index'
+import { getDefaultCategories, rollUpCategoryTotals } from '../categories'
+import { scopeAgentQuery, AGENT_QUERYABLE_TABLES } from '../sqlGuard'
 
 // ============================================================================
 // TRANSACTION QUERIES
@@ -28,6 +43,45 @@ export async function insertTransactions(txns: NewTransaction[]): Promise<Transa
   return db.insert(transactions).values(txns).returning()
 }
 
+/**
+ * Insert transactions, silently skipping any whose import fingerprint
+ * already exists for the user. Returns only the rows that were inserted.
+ */
+export async function insertNewTransactions(txns: NewTransaction[]): Promise<Transaction[]> {
+  const inserted: Transaction[] = []
+  const batchSize = 100
+  for (let i = 0; i < txns.length; i += batchSize) {
+    const batch = txns.slice(i, i + batchSize)
+    const rows = await db.insert(transactions)
+      .values(batch)
+      .onConflictDoNothing({ target: [transactions.userId, transactions.importFingerprint] })
+      .returning()
+    inserted.push(...rows)
+  }
+  return inserted
+}
+
+/**
+ * Get which of the given import fingerprints already exist for a user
+ */
+export async function getExistingFingerprints(userId: string, fingerprints: string[]): Promise<Set<string>> {
+  const existing = new Set<string>()
+  const batchSize = 500
+  for (let i = 0; i < fingerprints.length; i += batchSize) {
+    const batch = fingerprints.slice(i, i + batchSize)
+    const rows = await db.select({ fingerprint: transactions.importFingerprint })
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        inArray(transactions.importFingerprint, batch)
+      ))
+    for (const row of rows) {
+      if (row.fingerprint) existing.add(row.fingerprint)
+    }
+  }
+  return existing
+}
+
 /**
  * Get transactions for a user
  */
@@ -65,6 +119,55 @@ export async function updateTransaction(
   return result
 }
 
+export interface RuleActionUpdate {
+  category?: string
+  payee?: string
+  tags?: string[]
+  markTransfer?: boolean
+  method?: string // How the category was decided, stored with it
+  confidence?: string
+}
+
+/**
+ * Apply categorization rule actions to a transaction: set the category and
+ * payee, add tags (keeping existing ones) and mark it as a transfer
+ */
+export async function applyRuleActions(
+  userId: string,
+  id: number,
+  actions: RuleActionUpdate
+): Promise<boolean> {
+  return (await applyRuleActionsToMany(userId, [id], actions)) > 0
+}
+
+/**
+ * Apply the same rule actions to several transactions in one UPDATE.
+ * Returns the number of transactions updated.
+ */
+export async function applyRuleActionsToMany(
+  userId: string,
+  ids: number[],
+  actions: RuleActionUpdate
+): Promise<number> {
+  const hasTags = actions.tags !== undefined && actions.tags.length > 0
+  const newTags = sql.join((actions.tags || []).map(tag => sql`${tag}`), sql`, `)
+  const updates = {
+    ...(actions.category && { category: actions.category }),
+    ...(actions.category && actions.method && { categoryMethod: actions.method }),
+    ...(actions.category && actions.confidence && { categoryConfidence: actions.confidence }),
+    ...(actions.payee && { payee: actions.payee }),
+    ...(hasTags && { tags: sql`ARRAY(SELECT DISTINCT unnest(${transactions.tags} || ARRAY[${newTags}]::text[]))` }),
+    ...(actions.markTransfer && { isTransfer: true }),
+  }
+  if (ids.length === 0 || Object.keys(updates).length === 0) return 0
+
+  const result = await db.update(transactions)
+    .set(updates)
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)))
+    .returning({ id: transactions.id })
+  return result.length
+}
+
 /**
  * Delete a transaction
  */
@@ -72,9 +175,31 @@ export async function deleteTransaction(id: number, userId: string): Promise<boo
   const result = await db.delete(transactions)
     .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
     .returning({ id: transactions.id })
+  await releaseTransferPartners(userId, result.map(r => r.id))
   return result.length > 0
 }
 
+// Update that takes a transaction out of a transfer: the category it had
+// before linking comes back, unless the user changed it since
+function unlinkedTransferFields() {
+  return {
+    isTransfer: false,
+    transferPairId: null,
+    category: sql`CASE WHEN ${transactions.category} = 'Transfer' THEN COALESCE(${transactions.preTransferCategory}, ${transactions.category}) ELSE ${transactions.category} END`,
+    preTransferCategory: null,
+  }
+}
+
+/**
+ * Unlink the other side of any transfers whose transaction was deleted
+ */
+async function releaseTransferPartners(userId: string, deletedIds: number[]): Promise<void> {
+  if (deletedIds.length === 0) return
+  await db.update(transactions)
+    .set(unlinkedTransferFields())
+    .where(and(eq(transactions.userId, userId), inArray(transactions.transferPairId, deletedIds)))
+}
+
 /**
  * Clear all transactions for a user
  */
@@ -131,224 +256,2024 @@ export async function getTransactionCount(userId: string): Promise<number> {
   return Number(result?.count || 0)
 }
 
+/**
+ * Get transactions whose category needs a human look: 'Other' or uncategorized,
+ * or categorized with low/medium confidence. Transfers and categories the user
+ * set or approved themselves are skipped.
+ */
+export async function getReviewCandidates(userId: string, limit = 2000) {
+  return db.select({
+    id: transactions.id,
+    date: transactions.date,
+    description: transactions.description,
+    amount: transactions.amount,
+    account: transactions.account,
+    category: transactions.category,
+    categoryConfidence: transactions.categoryConfidence,
+    categoryMethod: transactions.categoryMethod,
+  })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.isTransfer, false),
+      sql`COALESCE(${transactions.categoryMethod}, '') <> 'user'`,
+      sql`(${transactions.category} IS NULL OR ${transactions.category} = 'Other'
+        OR ${transactions.categoryConfidence} IN ('low', 'medium'))`
+    ))
+    .orderBy(desc(transactions.date))
+    .limit(limit)
+}
+
+/**
+ * Set the category of some of a user's transactions as confirmed by the user,
+ * which takes them out of the review queue. Returns the number updated.
+ */
+export async function setReviewedCategory(userId: string, ids: number[], category: string): Promise<number> {
+  if (ids.length === 0) return 0
+  const result = await db.update(transactions)
+    .set({ category, categoryMethod: 'user', categoryConfidence: 'high' })
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)))
+    .returning({ id: transactions.id })
+  return result.length
+}
+
 // ============================================================================
-// CATEGORY RULES QUERIES
+// CATEGORY QUERIES
 // ============================================================================
 
 /**
- * Get all category rules
+ * Get a user's categories, seeding the built-in set the first time
  */
-export async function getCategoryRules(): Promise<CategoryRule[]> {
-  return db.select().from(categoryRules).orderBy(asc(categoryRules.pattern))
+export async function getUserCategories(userId: string): Promise<UserCategory[]> {
+  const rows = await db.select()
+    .from(userCategories)
+    .where(eq(userCategories.userId, userId))
+    .orderBy(asc(userCategories.name))
+  if (rows.length > 0) return rows
+
+  await db.insert(userCategories).values(getDefaultCategories(userId)).onConflictDoNothing()
+  return db.select()
+    .from(userCategories)
+    .where(eq(userCategories.userId, userId))
+    .orderBy(asc(userCategories.name))
 }
 
 /**
- * Insert a category rule
+ * Get the names of a user's categories
  */
-export async function insertCategoryRule(rule: NewCategoryRule): Promise<CategoryRule> {
-  const [result] = await db.insert(categoryRules).values(rule).returning()
+export async function getUserCategoryNames(userId: string): Promise<string[]> {
+  return (await getUserCategories(userId)).map(c => c.name)
+}
+
+/**
+ * Get a single category by ID
+ */
+export async function getUserCategoryById(id: number, userId: string): Promise<UserCategory | undefined> {
+  const [result] = await db.select()
+    .from(userCategories)
+    .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)))
+    .limit(1)
   return result
 }
 
 /**
- * Delete a category rule
+ * Insert a category
  */
-export async function deleteCategoryRule(id: number): Promise<boolean> {
-  const result = await db.delete(categoryRules)
-    .where(eq(categoryRules.id, id))
-    .returning({ id: categoryRules.id })
-  return result.length > 0
+export async function insertUserCategory(category: NewUserCategory): Promise<UserCategory> {
+  const [result] = await db.insert(userCategories).values(category).returning()
+  return result
 }
 
 /**
- * Insert default category rules (upsert-like behavior)
+ * Update a category. Renaming also renames it on the user's transactions,
+ * splits, rules, merchant defaults, budget and envelope, which refer to
+ * categories by name.
  */
-export async function seedCategoryRules(): Promise<number> {
-  const defaultRules: NewCategoryRule[] = [
-    { pattern: 'STARBUCKS', category: 'Coffee' },
-    { pattern: 'COFFEE', category: 'Coffee' },
-    { pattern: 'DUNKIN', category: 'Coffee' },
-    { pattern: 'PEET', category: 'Coffee' },
-    { pattern: 'WHOLE FOODS', category: 'Groceries' },
-    { pattern: 'SAFEWAY', category: 'Groceries' },
-    { pattern: 'TRADER JOE', category: 'Groceries' },
-    { pattern: 'KROGER', category: 'Groceries' },
-    { pattern: 'WALMART', category: 'Groceries' },
-    { pattern: 'TARGET', category: 'Shopping' },
-    { pattern: 'AMAZON', category: 'Shopping' },
-    { pattern: 'UBER', category: 'Transportation' },
-    { pattern: 'LYFT', category: 'Transportation' },
-    { pattern: 'SHELL', category: 'Gas' },
-    { pattern: 'CHEVRON', category: 'Gas' },
-    { pattern: 'EXXON', category: 'Gas' },
-    { pattern: 'BP ', category: 'Gas' },
-    { pattern: 'NETFLIX', category: 'Entertainment' },
-    { pattern: 'SPOTIFY', category: 'Entertainment' },
-    { pattern: 'HULU', category: 'Entertainment' },
-    { pattern: 'DISNEY', category: 'Entertainment' },
-    { pattern: 'RESTAURANT', category: 'Dining' },
-    { pattern: 'PIZZA', category: 'Dining' },
-    { pattern: 'MCDONALD', category: 'Dining' },
-    { pattern: 'CHIPOTLE', category: 'Dining' },
-    { pattern: 'SUBWAY', category: 'Dining' },
-    { pattern: 'VENMO', category: 'Transfer' },
-    { pattern: 'PAYPAL', category: 'Transfer' },
-    { pattern: 'ZELLE', category: 'Transfer' },
-    { pattern: 'ATM', category: 'Cash Withdrawal' },
-    { pattern: 'PHARMACY', category: 'Healthcare' },
-    { pattern: 'CVS', category: 'Healthcare' },
-    { pattern: 'WALGREENS', category: 'Healthcare' },
-    { pattern: 'GYM', category: 'Fitness' },
-    { pattern: 'FITNESS', category: 'Fitness' },
-  ]
+export async function updateUserCategory(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewUserCategory, 'id' | 'userId'>>
+): Promise<UserCategory | undefined> {
+  const existing = await getUserCategoryById(id, userId)
+  if (!existing) return undefined
 
-  let inserted = 0
-  for (const rule of defaultRules) {
-    try {
-      await db.insert(categoryRules)
-        .values(rule)
-        .onConflictDoNothing({ target: categoryRules.pattern })
-      inserted++
-    } catch {
-      // Ignore conflicts
-    }
+  const [result] = await db.update(userCategories)
+    .set(updates)
+    .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)))
+    .returning()
+
+  if (result.name !== existing.name) {
+    await reassignCategory(userId, existing.name, result.name)
   }
-  return inserted
+  return result
+}
+
+/**
+ * Delete a category. Its subcategories become top-level, its budget is
+ * deleted, it's taken out of its envelope, and its transactions, splits,
+ * rules and merchant defaults move to `reassignTo`.
+ */
+export async function deleteUserCategory(id: number, userId: string, reassignTo: string): Promise<boolean> {
+  const existing = await getUserCategoryById(id, userId)
+  if (!existing) return false
+
+  await db.update(userCategories)
+    .set({ parentId: null })
+    .where(and(eq(userCategories.parentId, id), eq(userCategories.userId, userId)))
+  await db.delete(userCategories)
+    .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)))
+  await db.delete(budgets)
+    .where(and(eq(budgets.userId, userId), eq(budgets.category, existing.name)))
+  await db.update(envelopes)
+    .set({ categories: sql`array_remove(${envelopes.categories}, ${existing.name})` })
+    .where(eq(envelopes.userId, userId))
+  await reassignCategory(userId, existing.name, reassignTo)
+  return true
+}
+
+/**
+ * Move a user's transactions, splits, own rules, merchant defaults, budget
+ * and envelope from one category name to another
+ */
+async function reassignCategory(userId: string, from: string, to: string): Promise<void> {
+  await db.batch([
+    db.update(transactions)
+      .set({ category: to })
+      .where(and(eq(transactions.userId, userId), eq(transactions.category, from))),
+    db.update(transactionSplits)
+      .set({ category: to })
+      .where(and(
+        eq(transactionSplits.category, from),
+        inArray(transactionSplits.transactionId,
+          db.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId)))
+      )),
+    db.update(categoryRules)
+      .set({ category: to })
+      .where(and(eq(categoryRules.userId, userId), eq(categoryRules.category, from))),
+    db.update(merchants)
+      .set({ defaultCategory: to })
+      .where(and(eq(merchants.userId, userId), eq(merchants.defaultCategory, from))),
+    db.update(budgets)
+      .set({ category: to })
+      .where(and(eq(budgets.userId, userId), eq(budgets.category, from))),
+    db.update(envelopes)
+      .set({ categories: sql`array_replace(${envelopes.categories}, ${from}, ${to})` })
+      .where(and(eq(envelopes.userId, userId), sql`${from} = ANY(${envelopes.categories})`)),
+  ])
+}
+
+/**
+ * Count a user's allocations per category name (split transactions count once per allocation)
+ */
+export async function getCategoryUsageCounts(userId: string): Promise<Map<string, number>> {
+  const rows = await db.select({
+    category: transactionAllocations.category,
+    count: sql<number>`count(*)`,
+  })
+    .from(transactionAllocations)
+    .where(eq(transactionAllocations.userId, userId))
+    .groupBy(transactionAllocations.category)
+  return new Map(rows.filter(r => r.category !== null).map(r => [r.category!, Number(r.count)]))
 }
 
 // ============================================================================
-// ANALYTICS QUERIES
+// BUDGET QUERIES
 // ============================================================================
 
 /**
- * Get financial summary for a user
+ * Get a user's budgets
  */
-export async function getFinancialSummary(userId: string, dateFilter?: { start: string; end: string }) {
-  // Build conditions array
-  const conditions = [eq(transactions.userId, userId)]
-  
-  if (dateFilter) {
-    conditions.push(gte(transactions.date, dateFilter.start))
-    conditions.push(lt(transactions.date, dateFilter.end))
-  }
+export async function getBudgets(userId: string): Promise<Budget[]> {
+  return db.select()
+    .from(budgets)
+    .where(eq(budgets.userId, userId))
+    .orderBy(asc(budgets.category))
+}
 
-  const [result] = await db.select({
-    totalTransactions: sql<number>`count(*)`,
-    totalExpenses: sql<number>`COALESCE(ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END)), 0)`,
-    totalIncome: sql<number>`COALESCE(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END), 0)`,
-    netSavings: sql<number>`COALESCE(SUM(amount), 0)`,
-    avgExpense: sql<number>`COALESCE(AVG(CASE WHEN amount < 0 THEN ABS(amount) ELSE NULL END), 0)`,
-    earliestDate: sql<string>`MIN(date)`,
-    latestDate: sql<string>`MAX(date)`,
-  }).from(transactions).where(and(...conditions))
+/**
+ * Get a single budget by ID
+ */
+export async function getBudgetById(id: number, userId: string): Promise<Budget | undefined> {
+  const [result] = await db.select()
+    .from(budgets)
+    .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+    .limit(1)
+  return result
+}
 
+/**
+ * Insert a budget
+ */
+export async function insertBudget(budget: NewBudget): Promise<Budget> {
+  const [result] = await db.insert(budgets).values(budget).returning()
   return result
 }
 
 /**
- * Get spending by category
+ * Update a budget
  */
-export async function getSpendingByCategory(userId: string, limit = 10) {
-  return db.select({
-    category: transactions.category,
-    total: sql<number>`ROUND(ABS(SUM(amount))::numeric, 2)`,
-    count: sql<number>`count(*)`,
+export async function updateBudget(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewBudget, 'id' | 'userId'>>
+): Promise<Budget | undefined> {
+  const [result] = await db.update(budgets)
+    .set(updates)
+    .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(budgets)
+    .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+    .returning({ id: budgets.id })
+  return result.length > 0
+}
+
+/**
+ * Get spending and earnings per category per month (YYYY-MM) from `since`
+ * (YYYY-MM-DD) on. Same conventions as getSpendingByCategory: transfers
+ * excluded, `spent` sums the expense allocations as a positive total and
+ * `earned` the income ones. Not rolled up.
+ */
+export async function getMonthlyCategoryTotals(userId: string, since: string) {
+  const month = sql<string>`TO_CHAR(${transactionAllocations.date}::date, 'YYYY-MM')`
+  const rows = await db.select({
+    month,
+    category: transactionAllocations.category,
+    spent: sql<number>`ROUND(ABS(SUM(CASE WHEN ${transactionAllocations.amount} < 0 THEN ${transactionAllocations.amount} ELSE 0 END))::numeric, 2)`,
+    earned: sql<number>`ROUND(SUM(CASE WHEN ${transactionAllocations.amount} > 0 THEN ${transactionAllocations.amount} ELSE 0 END)::numeric, 2)`,
   })
-    .from(transactions)
+    .from(transactionAllocations)
     .where(and(
-      eq(transactions.userId, userId),
-      lt(transactions.amount, 0)
+      eq(transactionAllocations.userId, userId),
+      eq(transactionAllocations.isTransfer, false),
+      gte(transactionAllocations.date, since)
     ))
-    .groupBy(transactions.category)
-    .orderBy(desc(sql`ABS(SUM(amount))`))
-    .limit(limit)
+    .groupBy(month, transactionAllocations.category)
+  return rows.map(r => ({ ...r, spent: Number(r.spent), earned: Number(r.earned) }))
 }
 
+// ============================================================================
+// ENVELOPE QUERIES
+// ============================================================================
+
 /**
- * Get monthly spending trends
+ * Get a user's envelopes
  */
-export async function getMonthlyTrends(userId: string, months = 12) {
+export async function getEnvelopes(userId: string): Promise<Envelope[]> {
+  return db.select()
+    .from(envelopes)
+    .where(eq(envelopes.userId, userId))
+    .orderBy(asc(envelopes.name))
+}
+
+/**
+ * Insert an envelope
+ */
+export async function insertEnvelope(envelope: NewEnvelope): Promise<Envelope> {
+  const [result] = await db.insert(envelopes).values(envelope).returning()
+  return result
+}
+
+/**
+ * Update an envelope
+ */
+export async function updateEnvelope(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewEnvelope, 'id' | 'userId'>>
+): Promise<Envelope | undefined> {
+  const [result] = await db.update(envelopes)
+    .set(updates)
+    .where(and(eq(envelopes.id, id), eq(envelopes.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete an envelope. Ledger rows that touched it are redirected to To Be
+ * Assigned (so what it held goes back there), and rows left moving money
+ * from To Be Assigned to itself are dropped.
+ */
+export async function deleteEnvelope(id: number, userId: string): Promise<boolean> {
+  const [, , , deleted] = await db.batch([
+    db.update(envelopeAllocations)
+      .set({ fromEnvelopeId: null })
+      .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.fromEnvelopeId, id))),
+    db.update(envelopeAllocations)
+      .set({ toEnvelopeId: null })
+      .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.toEnvelopeId, id))),
+    db.delete(envelopeAllocations)
+      .where(and(
+        eq(envelopeAllocations.userId, userId),
+        isNull(envelopeAllocations.fromEnvelopeId),
+        isNull(envelopeAllocations.toEnvelopeId)
+      )),
+    db.delete(envelopes)
+      .where(and(eq(envelopes.id, id), eq(envelopes.userId, userId)))
+      .returning({ id: envelopes.id }),
+  ])
+  return deleted.length > 0
+}
+
+/**
+ * Get a user's envelope ledger, oldest first
+ */
+export async function getEnvelopeAllocations(userId: string): Promise<EnvelopeAllocation[]> {
+  return db.select()
+    .from(envelopeAllocations)
+    .where(eq(envelopeAllocations.userId, userId))
+    .orderBy(asc(envelopeAllocations.month), asc(envelopeAllocations.id))
+}
+
+/**
+ * Record an assignment or move in the envelope ledger
+ */
+export async function insertEnvelopeAllocation(allocation: NewEnvelopeAllocation): Promise<EnvelopeAllocation> {
+  const [result] = await db.insert(envelopeAllocations).values(allocation).returning()
+  return result
+}
+
+/**
+ * Get income transactions (positive, not transfers) in the given categories
+ * between two dates (YYYY-MM-DD, inclusive), newest first
+ */
+export async function getIncomeTransactions(userId: string, start: string, end: string, categories: string[]) {
+  if (categories.length === 0) return []
   return db.select({
-    month: sql<string>`TO_CHAR(date::date, 'YYYY-MM')`,
-    expenses: sql<number>`ROUND(ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END))::numeric, 2)`,
-    income: sql<number>`ROUND(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END)::numeric, 2)`,
-    net: sql<number>`ROUND(SUM(amount)::numeric, 2)`,
+    id: transactions.id,
+    date: transactions.date,
+    description: transactions.description,
+    amount: transactions.amount,
+    category: transactions.category,
+    account: transactions.account,
   })
     .from(transactions)
-    .where(eq(transactions.userId, userId))
-    .groupBy(sql`TO_CHAR(date::date, 'YYYY-MM')`)
-    .orderBy(desc(sql`TO_CHAR(date::date, 'YYYY-MM')`))
-    .limit(months)
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.isTransfer, false),
+      sql`${transactions.amount} > 0`,
+      inArray(transactions.category, categories),
+      gte(transactions.date, start),
+      lte(transactions.date, end)
+    ))
+    .orderBy(desc(transactions.date), desc(transactions.id))
 }
 
 // ============================================================================
-// RAW SQL EXECUTION (for agent tools)
+// GOAL QUERIES
 // ============================================================================
 
 /**
- * Execute a raw SQL query (SELECT only, for agent tools)
- * Injects user_id filter for security
+ * Get a user's goals
  */
-export async function executeRawQuery(userId: string, query: string): Promise<Record<string, unknown>[]> {
-  // Security: Only allow SELECT statements
-  const normalizedQuery = query.trim().toUpperCase()
-  if (!normalizedQuery.startsWith('SELECT')) {
-    throw new Error('Only SELECT queries are allowed')
-  }
+export async function getGoals(userId: string): Promise<Goal[]> {
+  return db.select()
+    .from(goals)
+    .where(eq(goals.userId, userId))
+    .orderBy(asc(goals.createdAt), asc(goals.id))
+}
 
-  // Security: Inject user_id filter
-  let secureQuery = query
-  const upperQuery = query.toUpperCase()
-  const hasTransactions = /FROM\s+TRANSACTIONS\b/.test(upperQuery)
-  
-  if (hasTransactions) {
-    // Check if query already has a WHERE clause after FROM transactions
-    const fromMatch = upperQuery.match(/FROM\s+TRANSACTIONS\b/)
-    if (fromMatch) {
-      const afterFrom = upperQuery.slice(fromMatch.index! + fromMatch[0].length)
-      const hasWhereAfterFrom = /^\s*(WHERE\b|[A-Z_]+\s+WHERE\b)/i.test(afterFrom.trim()) || 
-                                 afterFrom.trim().startsWith('WHERE')
-      
-      // Find keywords that come before WHERE would be inserted
-      const hasGroupBy = /\bGROUP\s+BY\b/.test(afterFrom)
-      const hasOrderBy = /\bORDER\s+BY\b/.test(afterFrom)
-      const hasLimit = /\bLIMIT\b/.test(afterFrom)
-      const hasWhereClause = /\bWHERE\b/.test(afterFrom)
-      
-      if (hasWhereClause) {
-        // Insert user_id condition right after WHERE
-        secureQuery = query.replace(
-          /\bWHERE\b/i,
-          `WHERE user_id = '${userId}' AND`
-        )
-      } else if (hasGroupBy) {
-        // Insert WHERE before GROUP BY
-        secureQuery = query.replace(
-          /\bGROUP\s+BY\b/i,
-          `WHERE user_id = '${userId}' GROUP BY`
-        )
-      } else if (hasOrderBy) {
-        // Insert WHERE before ORDER BY
-        secureQuery = query.replace(
-          /\bORDER\s+BY\b/i,
-          `WHERE user_id = '${userId}' ORDER BY`
-        )
-      } else if (hasLimit) {
-        // Insert WHERE before LIMIT
-        secureQuery = query.replace(
-          /\bLIMIT\b/i,
-          `WHERE user_id = '${userId}' LIMIT`
-        )
-      } else {
-        // Append WHERE at the end
-        secureQuery = query.trimEnd()
-        if (secureQuery.endsWith(';')) {
-          secureQuery = secureQuery.slice(0, -1)
-        }
-        secureQuery += ` WHERE user_id = '${userId}'`
-      }
-    }
-  }
+/**
+ * Get a single goal by ID
+ */
+export async function getGoalById(id: number, userId: string): Promise<Goal | undefined> {
+  const [result] = await db.select()
+    .from(goals)
+    .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Insert a goal
+ */
+export async function insertGoal(goal: NewGoal): Promise<Goal> {
+  const [result] = await db.insert(goals).values(goal).returning()
+  return result
+}
+
+/**
+ * Update a goal
+ */
+export async function updateGoal(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewGoal, 'id' | 'userId'>>
+): Promise<Goal | undefined> {
+  const [result] = await db.update(goals)
+    .set(updates)
+    .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete a goal
+ */
+export async function deleteGoal(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(goals)
+    .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+    .returning({ id: goals.id })
+  return result.length > 0
+}
+
+/**
+ * Get the net amount and count of a user's transactions carrying each of
+ * the given tags
+ */
+export async function getTagTotals(userId: string, tags: string[]): Promise<Map<string, { total: number; count: number }>> {
+  const totals = new Map(tags.map(tag => [tag, { total: 0, count: 0 }]))
+  if (tags.length === 0) return totals
+
+  const rows = await db.select({ amount: transactions.amount, tags: transactions.tags })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), arrayOverlaps(transactions.tags, tags)))
+  for (const row of rows) {
+    for (const tag of row.tags) {
+      const entry = totals.get(tag)
+      if (!entry) continue
+      entry.total = Math.round((entry.total + row.amount) * 100) / 100
+      entry.count++
+    }
+  }
+  return totals
+}
+
+// ============================================================================
+// NET WORTH QUERIES
+// ============================================================================
+
+/**
+ * Get a user's manual assets and liabilities
+ */
+export async function getManualAssets(userId: string): Promise<ManualAsset[]> {
+  return db.select()
+    .from(manualAssets)
+    .where(eq(manualAssets.userId, userId))
+    .orderBy(asc(manualAssets.kind), asc(manualAssets.name))
+}
+
+/**
+ * Get a single manual asset by ID
+ */
+export async function getManualAssetById(id: number, userId: string): Promise<ManualAsset | undefined> {
+  const [result] = await db.select()
+    .from(manualAssets)
+    .where(and(eq(manualAssets.id, id), eq(manualAssets.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Insert a manual asset with its first valuation
+ */
+export async function insertManualAsset(
+  asset: NewManualAsset,
+  valuation: Omit<NewAssetValuation, 'assetId' | 'userId'>
+): Promise<ManualAsset> {
+  const [result] = await db.insert(manualAssets).values(asset).returning()
+  await db.insert(assetValuations).values({ ...valuation, assetId: result.id, userId: asset.userId })
+  return result
+}
+
+/**
+ * Update a manual asset
+ */
+export async function updateManualAsset(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewManualAsset, 'id' | 'userId'>>
+): Promise<ManualAsset | undefined> {
+  const [result] = await db.update(manualAssets)
+    .set(updates)
+    .where(and(eq(manualAssets.id, id), eq(manualAssets.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete a manual asset (its valuations go with it)
+ */
+export async function deleteManualAsset(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(manualAssets)
+    .where(and(eq(manualAssets.id, id), eq(manualAssets.userId, userId)))
+    .returning({ id: manualAssets.id })
+  return result.length > 0
+}
+
+/**
+ * Get all of a user's asset valuations, oldest first
+ */
+export async function getAssetValuations(userId: string): Promise<AssetValuation[]> {
+  return db.select()
+    .from(assetValuations)
+    .where(eq(assetValuations.userId, userId))
+    .orderBy(asc(assetValuations.date), asc(assetValuations.id))
+}
+
+/**
+ * Record what an asset was worth on a date, replacing any valuation already
+ * on that date
+ */
+export async function upsertAssetValuation(valuation: NewAssetValuation): Promise<AssetValuation> {
+  const [result] = await db.insert(assetValuations)
+    .values(valuation)
+    .onConflictDoUpdate({
+      target: [assetValuations.assetId, assetValuations.date],
+      set: { value: valuation.value, note: valuation.note ?? null },
+    })
+    .returning()
+  return result
+}
+
+/**
+ * Delete a valuation. An asset's last valuation can't be deleted; delete the
+ * asset instead.
+ */
+export async function deleteAssetValuation(id: number, userId: string): Promise<'deleted' | 'not_found' | 'last'> {
+  const [valuation] = await db.select()
+    .from(assetValuations)
+    .where(and(eq(assetValuations.id, id), eq(assetValuations.userId, userId)))
+    .limit(1)
+  if (!valuation) return 'not_found'
+
+  const [{ count }] = await db.select({ count: sql<number>`COUNT(*)` })
+    .from(assetValuations)
+    .where(eq(assetValuations.assetId, valuation.assetId))
+  if (Number(count) <= 1) return 'last'
+
+  await db.delete(assetValuations).where(eq(assetValuations.id, id))
+  return 'deleted'
+}
+
+/**
+ * Get the net change of each of a user's accounts per month (YYYY-MM)
+ */
+export async function getAccountMonthlyTotals(userId: string) {
+  const month = sql<string>`TO_CHAR(${transactions.date}::date, 'YYYY-MM')`
+  const rows = await db.select({
+    accountId: transactions.accountId,
+    month,
+    total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), isNotNull(transactions.accountId)))
+    .groupBy(transactions.accountId, month)
+  return rows.map(r => ({ accountId: r.accountId!, month: r.month, total: Number(r.total) }))
+}
+
+/**
+ * Get a user's net worth snapshots, oldest first
+ */
+export async function getNetWorthSnapshots(userId: string): Promise<NetWorthSnapshot[]> {
+  return db.select()
+    .from(netWorthSnapshots)
+    .where(eq(netWorthSnapshots.userId, userId))
+    .orderBy(asc(netWorthSnapshots.date))
+}
+
+/**
+ * Store net worth snapshots, leaving any already recorded for the same date as they are
+ */
+export async function insertNetWorthSnapshots(snapshots: NewNetWorthSnapshot[]): Promise<NetWorthSnapshot[]> {
+  if (snapshots.length === 0) return []
+  return db.insert(netWorthSnapshots)
+    .values(snapshots)
+    .onConflictDoNothing({ target: [netWorthSnapshots.userId, netWorthSnapshots.date] })
+    .returning()
+}
+
+/**
+ * Get the IDs of users with transactions, accounts or manually tracked assets
+ */
+export async function getNetWorthUserIds(): Promise<string[]> {
+  const [transactionUsers, accountUsers, assetUsers] = await Promise.all([
+    db.selectDistinct({ userId: transactions.userId }).from(transactions),
+    db.selectDistinct({ userId: accounts.userId }).from(accounts),
+    db.selectDistinct({ userId: manualAssets.userId }).from(manualAssets),
+  ])
+  return Array.from(new Set([...transactionUsers, ...accountUsers, ...assetUsers].map(r => r.userId)))
+}
+
+// ============================================================================
+// INVESTMENT QUERIES
+// ============================================================================
+
+/**
+ * Get a user's securities
+ */
+export async function getSecurities(userId: string): Promise<Security[]> {
+  return db.select()
+    .from(securities)
+    .where(eq(securities.userId, userId))
+    .orderBy(asc(securities.symbol))
+}
+
+/**
+ * Make sure a security exists for each symbol, creating the missing ones.
+ * Existing securities keep their name and asset class. Returns symbol -> security ID.
+ */
+export async function ensureSecurities(
+  userId: string,
+  wanted: Array<{ symbol: string; name: string; assetClass: AssetClass }>
+): Promise<Map<string, number>> {
+  if (wanted.length === 0) return new Map()
+  await db.insert(securities)
+    .values(wanted.map(s => ({ userId, ...s })))
+    .onConflictDoNothing({ target: [securities.userId, securities.symbol] })
+
+  const rows = await db.select({ id: securities.id, symbol: securities.symbol })
+    .from(securities)
+    .where(and(eq(securities.userId, userId), inArray(securities.symbol, wanted.map(s => s.symbol))))
+  return new Map(rows.map(r => [r.symbol, r.id]))
+}
+
+/**
+ * Update a security's name or asset class
+ */
+export async function updateSecurity(
+  id: number,
+  userId: string,
+  updates: Partial<Pick<NewSecurity, 'name' | 'assetClass'>>
+): Promise<Security | undefined> {
+  const [result] = await db.update(securities)
+    .set(updates)
+    .where(and(eq(securities.id, id), eq(securities.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Get a user's brokerage activity, oldest first
+ */
+export async function getInvestmentTransactions(userId: string): Promise<InvestmentTransaction[]> {
+  return db.select()
+    .from(investmentTransactions)
+    .where(eq(investmentTransactions.userId, userId))
+    .orderBy(asc(investmentTransactions.date), asc(investmentTransactions.id))
+}
+
+/**
+ * Insert brokerage activity, silently skipping rows whose import fingerprint
+ * already exists for the user. Returns only the rows that were inserted.
+ */
+export async function insertNewInvestmentTransactions(rows: NewInvestmentTransaction[]): Promise<InvestmentTransaction[]> {
+  const inserted: InvestmentTransaction[] = []
+  const batchSize = 100
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize)
+    const result = await db.insert(investmentTransactions)
+      .values(batch)
+      .onConflictDoNothing({ target: [investmentTransactions.userId, investmentTransactions.importFingerprint] })
+      .returning()
+    inserted.push(...result)
+  }
+  return inserted
+}
+
+/**
+ * Update a brokerage transaction (a sell's lot selection, or a dividend's income transaction link)
+ */
+export async function updateInvestmentTransaction(
+  id: number,
+  userId: string,
+  updates: Partial<Pick<NewInvestmentTransaction, 'costBasisMethod' | 'lotSelections' | 'transactionId'>>
+): Promise<InvestmentTransaction | undefined> {
+  const [result] = await db.update(investmentTransactions)
+    .set(updates)
+    .where(and(eq(investmentTransactions.id, id), eq(investmentTransactions.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Get a user's lots, oldest first
+ */
+export async function getLots(userId: string): Promise<Lot[]> {
+  return db.select()
+    .from(lots)
+    .where(eq(lots.userId, userId))
+    .orderBy(asc(lots.openDate), asc(lots.id))
+}
+
+/**
+ * Replace all of a user's lots
+ */
+export async function replaceLots(userId: string, newLots: NewLot[]): Promise<Lot[]> {
+  if (newLots.length === 0) {
+    await db.delete(lots).where(eq(lots.userId, userId))
+    return []
+  }
+  const [, inserted] = await db.batch([
+    db.delete(lots).where(eq(lots.userId, userId)),
+    db.insert(lots).values(newLots).returning(),
+  ])
+  return inserted
+}
+
+/**
+ * Get the positions a user's brokerages last reported
+ */
+export async function getHoldings(userId: string): Promise<Holding[]> {
+  return db.select()
+    .from(holdings)
+    .where(eq(holdings.userId, userId))
+}
+
+/**
+ * Record reported positions, replacing older reports for the same account and security
+ */
+export async function upsertHoldings(rows: NewHolding[]): Promise<void> {
+  for (const row of rows) {
+    await db.insert(holdings)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [holdings.accountId, holdings.securityId],
+        set: { quantity: row.quantity, asOf: row.asOf },
+        setWhere: sql`${holdings.asOf} <= ${row.asOf}`,
+      })
+  }
+}
+
+/**
+ * Get all of a user's loaded prices, oldest first
+ */
+export async function getSecurityPrices(userId: string): Promise<SecurityPrice[]> {
+  return db.select()
+    .from(securityPrices)
+    .where(eq(securityPrices.userId, userId))
+    .orderBy(asc(securityPrices.date), asc(securityPrices.id))
+}
+
+/**
+ * Load closing prices, replacing any already loaded for the same security and date
+ */
+export async function upsertSecurityPrices(rows: NewSecurityPrice[]): Promise<number> {
+  let count = 0
+  const batchSize = 100
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize)
+    const result = await db.insert(securityPrices)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: [securityPrices.securityId, securityPrices.date],
+        set: { price: sql`excluded.price` },
+      })
+      .returning({ id: securityPrices.id })
+    count += result.length
+  }
+  return count
+}
+
+// ============================================================================
+// MERCHANT QUERIES
+// ============================================================================
+
+export interface MerchantWithStats extends Merchant {
+  transactionCount: number
+  totalSpent: number // Absolute sum of non-transfer expenses
+  lastDate: string | null
+}
+
+/**
+ * Get a user's merchants with how much was spent at each, biggest first
+ */
+export async function getMerchantsWithStats(userId: string): Promise<MerchantWithStats[]> {
+  const rows = await db.select({
+    merchant: merchants,
+    transactionCount: sql<number>`COUNT(${transactions.id})`,
+    totalSpent: sql<number>`COALESCE(ABS(SUM(CASE WHEN ${transactions.amount} < 0 AND NOT ${transactions.isTransfer} THEN ${transactions.amount} ELSE 0 END)), 0)`,
+    lastDate: sql<string | null>`MAX(${transactions.date})`,
+  })
+    .from(merchants)
+    .leftJoin(transactions, and(eq(transactions.merchantId, merchants.id), eq(transactions.userId, userId)))
+    .where(eq(merchants.userId, userId))
+    .groupBy(merchants.id)
+    .orderBy(desc(sql`COALESCE(ABS(SUM(CASE WHEN ${transactions.amount} < 0 AND NOT ${transactions.isTransfer} THEN ${transactions.amount} ELSE 0 END)), 0)`), asc(merchants.name))
+
+  return rows.map(r => ({
+    ...r.merchant,
+    transactionCount: Number(r.transactionCount),
+    totalSpent: Math.round(Number(r.totalSpent) * 100) / 100,
+    lastDate: r.lastDate,
+  }))
+}
+
+/**
+ * Get a single merchant by ID
+ */
+export async function getMerchantById(id: number, userId: string): Promise<Merchant | undefined> {
+  const [result] = await db.select()
+    .from(merchants)
+    .where(and(eq(merchants.id, id), eq(merchants.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Get several of a user's merchants by ID
+ */
+export async function getMerchantsByIds(ids: number[], userId: string): Promise<Merchant[]> {
+  if (ids.length === 0) return []
+  return db.select()
+    .from(merchants)
+    .where(and(eq(merchants.userId, userId), inArray(merchants.id, ids)))
+}
+
+/**
+ * Insert a merchant
+ */
+export async function insertMerchant(merchant: NewMerchant): Promise<Merchant> {
+  const [result] = await db.insert(merchants).values(merchant).returning()
+  return result
+}
+
+/**
+ * Update a merchant
+ */
+export async function updateMerchant(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewMerchant, 'id' | 'userId'>>
+): Promise<Merchant | undefined> {
+  const [result] = await db.update(merchants)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(merchants.id, id), eq(merchants.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Find or create the merchants for a set of merchant keys. Keys already in a
+ * merchant's aliases map to it; new keys get a merchant of their own, or join
+ * the merchant that already has their display name. Returns key -> merchant ID.
+ */
+export async function ensureMerchants(
+  userId: string,
+  wanted: Array<{ key: string; name: string }>
+): Promise<Map<string, number>> {
+  const byKey = new Map<string, string>()
+  for (const { key, name } of wanted) {
+    if (!byKey.has(key)) byKey.set(key, name)
+  }
+  const keys = Array.from(byKey.keys())
+  if (keys.length === 0) return new Map()
+
+  const findByAlias = async (aliasKeys: string[]) => {
+    const found = new Map<string, number>()
+    const rows = await db.select({ id: merchants.id, aliases: merchants.aliases })
+      .from(merchants)
+      .where(and(eq(merchants.userId, userId), arrayOverlaps(merchants.aliases, aliasKeys)))
+    for (const row of rows) {
+      for (const alias of row.aliases) {
+        if (byKey.has(alias) && !found.has(alias)) found.set(alias, row.id)
+      }
+    }
+    return found
+  }
+
+  const ids = await findByAlias(keys)
+  const missing = keys.filter(k => !ids.has(k))
+  if (missing.length === 0) return ids
+
+  await db.insert(merchants)
+    .values(missing.map(key => ({ userId, name: byKey.get(key)!, aliases: [key] })))
+    .onConflictDoNothing({ target: [merchants.userId, merchants.name] })
+
+  // Keys whose display name was taken become aliases of that merchant
+  const created = await findByAlias(missing)
+  for (const key of missing.filter(k => !created.has(k))) {
+    const [merchant] = await db.update(merchants)
+      .set({ aliases: sql`array_append(${merchants.aliases}, ${key})` })
+      .where(and(eq(merchants.userId, userId), eq(merchants.name, byKey.get(key)!)))
+      .returning({ id: merchants.id })
+    if (merchant) created.set(key, merchant.id)
+  }
+  created.forEach((id, key) => ids.set(key, id))
+  return ids
+}
+
+/**
+ * Get a user's transactions that aren't linked to a merchant yet
+ */
+export async function getUnlinkedMerchantTransactions(userId: string) {
+  return db.select({ id: transactions.id, description: transactions.description })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), isNull(transactions.merchantId)))
+}
+
+/**
+ * Get the transactions linked to a merchant
+ */
+export async function getMerchantTransactions(userId: string, merchantId: number) {
+  return db.select({ id: transactions.id, description: transactions.description })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), eq(transactions.merchantId, merchantId)))
+}
+
+/**
+ * Link some of a user's transactions to a merchant. Returns the number updated.
+ */
+export async function setTransactionMerchant(userId: string, ids: number[], merchantId: number): Promise<number> {
+  if (ids.length === 0) return 0
+  const result = await db.update(transactions)
+    .set({ merchantId })
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)))
+    .returning({ id: transactions.id })
+  return result.length
+}
+
+/**
+ * Merge merchants into a target: the target takes over their aliases and
+ * transactions, and the merged merchants are deleted
+ */
+export async function mergeMerchants(userId: string, target: Merchant, sources: Merchant[]): Promise<Merchant> {
+  const sourceIds = sources.map(m => m.id)
+  const aliases = Array.from(new Set([...target.aliases, ...sources.flatMap(m => m.aliases)]))
+
+  const [, , [merged]] = await db.batch([
+    db.update(transactions)
+      .set({ merchantId: target.id })
+      .where(and(eq(transactions.userId, userId), inArray(transactions.merchantId, sourceIds))),
+    db.delete(merchants)
+      .where(and(eq(merchants.userId, userId), inArray(merchants.id, sourceIds))),
+    db.update(merchants)
+      .set({ aliases, updatedAt: new Date() })
+      .where(and(eq(merchants.id, target.id), eq(merchants.userId, userId)))
+      .returning(),
+  ])
+  return merged
+}
+
+/**
+ * Give a merchant's transactions its default category, except where the
+ * user picked the category themselves. Returns the number updated.
+ */
+export async function applyMerchantCategory(userId: string, merchantId: number, category: string): Promise<number> {
+  const result = await db.update(transactions)
+    .set({ category, categoryMethod: 'merchant', categoryConfidence: 'high' })
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.merchantId, merchantId),
+      eq(transactions.isTransfer, false),
+      sql`COALESCE(${transactions.categoryMethod}, '') <> 'user'`
+    ))
+    .returning({ id: transactions.id })
+  return result.length
+}
+
+/**
+ * Map each alias of the user's merchants that have a default category to that category
+ */
+export async function getMerchantDefaultCategories(userId: string): Promise<Map<string, string>> {
+  const rows = await db.select({ aliases: merchants.aliases, defaultCategory: merchants.defaultCategory })
+    .from(merchants)
+    .where(and(eq(merchants.userId, userId), isNotNull(merchants.defaultCategory)))
+  return new Map(rows.flatMap(r => r.aliases.map(alias => [alias, r.defaultCategory!] as [string, string])))
+}
+
+/**
+ * Top merchants by spending (transfers excluded). Transactions not linked to
+ * a merchant yet are grouped by their description.
+ */
+export async function getTopMerchants(userId: string, limit = 10) {
+  const name = sql<string>`COALESCE(${merchants.name}, ${transactions.description})`
+  return db.select({
+    merchant_id: transactions.merchantId,
+    description: name,
+    category: sql<string | null>`MODE() WITHIN GROUP (ORDER BY ${transactions.category})`,
+    logo_url: sql<string | null>`MAX(${merchants.logoUrl})`,
+    transaction_count: sql<number>`COUNT(*)`,
+    total_amount: sql<number>`ABS(SUM(${transactions.amount}))`,
+  })
+    .from(transactions)
+    .leftJoin(merchants, eq(merchants.id, transactions.merchantId))
+    .where(and(eq(transactions.userId, userId), eq(transactions.isTransfer, false), lt(transactions.amount, 0)))
+    .groupBy(transactions.merchantId, name)
+    .orderBy(desc(sql`ABS(SUM(${transactions.amount}))`))
+    .limit(limit)
+}
+
+// ============================================================================
+// RECURRING SERIES QUERIES
+// ============================================================================
+
+/**
+ * Get a user's transactions linked to a merchant, for recurring series detection
+ */
+export async function getRecurringCandidates(userId: string) {
+  return db.select({
+    id: transactions.id,
+    date: transactions.date,
+    amount: transactions.amount,
+    category: transactions.category,
+    merchantId: merchants.id,
+    merchantName: merchants.name,
+  })
+    .from(transactions)
+    .innerJoin(merchants, eq(merchants.id, transactions.merchantId))
+    .where(and(eq(transactions.userId, userId), eq(transactions.isTransfer, false)))
+    .orderBy(asc(transactions.date), asc(transactions.id))
+}
+
+/**
+ * Get a user's recurring series, soonest due first
+ */
+export async function getRecurringSeries(userId: string): Promise<RecurringSeries[]> {
+  return db.select()
+    .from(recurringSeries)
+    .where(eq(recurringSeries.userId, userId))
+    .orderBy(asc(recurringSeries.nextDueDate), asc(recurringSeries.name))
+}
+
+/**
+ * Replace all of a user's recurring series with a fresh detection
+ */
+export async function replaceRecurringSeries(userId: string, series: NewRecurringSeries[]): Promise<RecurringSeries[]> {
+  if (series.length === 0) {
+    await db.delete(recurringSeries).where(eq(recurringSeries.userId, userId))
+    return []
+  }
+  const [, inserted] = await db.batch([
+    db.delete(recurringSeries).where(eq(recurringSeries.userId, userId)),
+    db.insert(recurringSeries).values(series).returning(),
+  ])
+  return inserted
+}
+
+// ============================================================================
+// NOTIFICATION QUERIES
+// ============================================================================
+
+/**
+ * Insert notifications, skipping any the user already has (same dedupe key),
+ * including dismissed ones. Returns only the new rows.
+ */
+export async function insertNotifications(rows: NewNotification[]): Promise<Notification[]> {
+  if (rows.length === 0) return []
+  return db.insert(notifications)
+    .values(rows)
+    .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+    .returning()
+}
+
+/**
+ * Get a user's notifications that aren't dismissed or snoozed, newest first
+ */
+export async function getActiveNotifications(userId: string): Promise<Notification[]> {
+  return db.select()
+    .from(notifications)
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.dismissedAt),
+      or(isNull(notifications.snoozedUntil), lt(notifications.snoozedUntil, sql`NOW()`))
+    ))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+}
+
+/**
+ * Dismiss a notification for good
+ */
+export async function dismissNotification(id: number, userId: string): Promise<Notification | null> {
+  const [result] = await db.update(notifications)
+    .set({ dismissedAt: new Date() })
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning()
+  return result || null
+}
+
+/**
+ * Hide a notification until the given time
+ */
+export async function snoozeNotification(id: number, userId: string, until: Date): Promise<Notification | null> {
+  const [result] = await db.update(notifications)
+    .set({ snoozedUntil: until })
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning()
+  return result || null
+}
+
+// ============================================================================
+// CATEGORY RULES QUERIES
+// ============================================================================
+
+/**
+ * Get the category rules that apply to a user in evaluation order:
+ * by priority, the user's own rules before the read-only system rules
+ */
+export async function getCategoryRules(userId: string): Promise<CategoryRule[]> {
+  return db.select()
+    .from(categoryRules)
+    .where(or(eq(categoryRules.userId, userId), isNull(categoryRules.userId)))
+    .orderBy(asc(categoryRules.priority), sql`${categoryRules.userId} IS NULL`, asc(categoryRules.id))
+}
+
+/**
+ * Get the fields rule conditions look at for each of a user's transactions
+ * (linked transfer pairs are left alone)
+ */
+export async function getRuleCandidates(userId: string) {
+  return db.select({
+    id: transactions.id,
+    description: transactions.description,
+    amount: transactions.amount,
+    account: transactions.account,
+    date: transactions.date,
+    category: transactions.category,
+    tags: transactions.tags,
+    payee: transactions.payee,
+    isTransfer: transactions.isTransfer,
+    categoryMethod: transactions.categoryMethod,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), isNull(transactions.transferPairId)))
+    .orderBy(desc(transactions.date))
+}
+
+// Category methods whose labels the user set or confirmed, directly or through a rule
+const TRUSTED_CATEGORY_METHODS = ['user', 'rule', 'merchant', 'pattern']
+
+/**
+ * Get a user's most recent categorized transactions to train the local
+ * classifier on. Uncategorized ('Other') rows and linked transfers are skipped,
+ * and so are guesses (the classifier's own, similarity, AI, fallback) unless
+ * they were high-confidence, so the model doesn't learn its own mistakes.
+ */
+export async function getTrainingExamples(userId: string, limit = 5000) {
+  return db.select({
+    description: transactions.description,
+    amount: transactions.amount,
+    category: transactions.category,
+  })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.isTransfer, false),
+      sql`${transactions.category} IS NOT NULL AND ${transactions.category} NOT IN ('', 'Other')`,
+      or(
+        inArray(transactions.categoryMethod, TRUSTED_CATEGORY_METHODS),
+        eq(transactions.categoryConfidence, 'high')
+      )
+    ))
+    .orderBy(desc(transactions.date))
+    .limit(limit)
+}
+
+/**
+ * Get a category rule visible to a user (their own or a system rule)
+ */
+export async function getCategoryRuleById(id: number, userId: string): Promise<CategoryRule | undefined> {
+  const [result] = await db.select()
+    .from(categoryRules)
+    .where(and(
+      eq(categoryRules.id, id),
+      or(eq(categoryRules.userId, userId), isNull(categoryRules.userId))
+    ))
+    .limit(1)
+  return result
+}
+
+/**
+ * Insert a category rule
+ */
+export async function insertCategoryRule(rule: NewCategoryRule): Promise<CategoryRule> {
+  const [result] = await db.insert(categoryRules).values(rule).returning()
+  return result
+}
+
+/**
+ * Update a category rule (only if it belongs to this user; system rules are read-only)
+ */
+export async function updateCategoryRule(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewCategoryRule, 'id' | 'userId'>>
+): Promise<CategoryRule | undefined> {
+  const [result] = await db.update(categoryRules)
+    .set(updates)
+    .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete a category rule (only if it belongs to this user; system rules are read-only)
+ */
+export async function deleteCategoryRule(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(categoryRules)
+    .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+    .returning({ id: categoryRules.id })
+  return result.length > 0
+}
+
+/**
+ * Insert default category rules as system rules (upsert-like behavior)
+ */
+export async function seedCategoryRules(): Promise<number> {
+  const defaultRules: NewCategoryRule[] = [
+    { pattern: 'STARBUCKS', category: 'Coffee' },
+    { pattern: 'COFFEE', category: 'Coffee' },
+    { pattern: 'DUNKIN', category: 'Coffee' },
+    { pattern: 'PEET', category: 'Coffee' },
+    { pattern: 'WHOLE FOODS', category: 'Groceries' },
+    { pattern: 'SAFEWAY', category: 'Groceries' },
+    { pattern: 'TRADER JOE', category: 'Groceries' },
+    { pattern: 'KROGER', category: 'Groceries' },
+    { pattern: 'WALMART', category: 'Groceries' },
+    { pattern: 'TARGET', category: 'Shopping' },
+    { pattern: 'AMAZON', category: 'Shopping' },
+    { pattern: 'UBER', category: 'Transportation' },
+    { pattern: 'LYFT', category: 'Transportation' },
+    { pattern: 'SHELL', category: 'Gas' },
+    { pattern: 'CHEVRON', category: 'Gas' },
+    { pattern: 'EXXON', category: 'Gas' },
+    { pattern: 'BP ', category: 'Gas' },
+    { pattern: 'NETFLIX', category: 'Entertainment' },
+    { pattern: 'SPOTIFY', category: 'Entertainment' },
+    { pattern: 'HULU', category: 'Entertainment' },
+    { pattern: 'DISNEY', category: 'Entertainment' },
+    { pattern: 'RESTAURANT', category: 'Dining' },
+    { pattern: 'PIZZA', category: 'Dining' },
+    { pattern: 'MCDONALD', category: 'Dining' },
+    { pattern: 'CHIPOTLE', category: 'Dining' },
+    { pattern: 'SUBWAY', category: 'Dining' },
+    { pattern: 'VENMO', category: 'Transfer' },
+    { pattern: 'PAYPAL', category: 'Transfer' },
+    { pattern: 'ZELLE', category: 'Transfer' },
+    { pattern: 'ATM', category: 'Cash Withdrawal' },
+    { pattern: 'PHARMACY', category: 'Healthcare' },
+    { pattern: 'CVS', category: 'Healthcare' },
+    { pattern: 'WALGREENS', category: 'Healthcare' },
+    { pattern: 'GYM', category: 'Fitness' },
+    { pattern: 'FITNESS', category: 'Fitness' },
+  ]
+
+  let inserted = 0
+  for (const rule of defaultRules) {
+    try {
+      await db.insert(categoryRules)
+        .values(rule)
+        .onConflictDoNothing()
+      inserted++
+    } catch {
+      // Ignore conflicts
+    }
+  }
+  return inserted
+}
+
+// ============================================================================
+// IMPORT PROFILE QUERIES
+// ============================================================================
+
+/**
+ * Get all import profiles for a user
+ */
+export async function getImportProfiles(userId: string): Promise<ImportProfile[]> {
+  return db.select()
+    .from(importProfiles)
+    .where(eq(importProfiles.userId, userId))
+    .orderBy(asc(importProfiles.name))
+}
+
+/**
+ * Get a single import profile by ID
+ */
+export async function getImportProfileById(id: number, userId: string): Promise<ImportProfile | undefined> {
+  const [result] = await db.select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Insert an import profile
+ */
+export async function insertImportProfile(profile: NewImportProfile): Promise<ImportProfile> {
+  const [result] = await db.insert(importProfiles).values(profile).returning()
+  return result
+}
+
+/**
+ * Update an import profile
+ */
+export async function updateImportProfile(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewImportProfile, 'id' | 'userId'>>
+): Promise<ImportProfile | undefined> {
+  const [result] = await db.update(importProfiles)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Delete an import profile
+ */
+export async function deleteImportProfile(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(importProfiles)
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)))
+    .returning({ id: importProfiles.id })
+  return result.length > 0
+}
+
+// ============================================================================
+// ACCOUNT QUERIES
+// ============================================================================
+
+export interface AccountBalance {
+  id: number
+  name: string
+  type: string
+  institution: string | null
+  currency: string
+  archived: boolean
+  openingBalance: number
+  balance: number // Opening balance + all transactions
+  clearedBalance: number // Opening balance + cleared and reconciled transactions
+  transactionCount: number
+  unclearedCount: number
+  lastTransactionDate: string | null
+  lastReconciledDate: string | null
+}
+
+/**
+ * Get a user's accounts
+ */
+export async function getAccounts(userId: string, includeArchived = false): Promise<Account[]> {
+  const conditions = [eq(accounts.userId, userId)]
+  if (!includeArchived) {
+    conditions.push(eq(accounts.archived, false))
+  }
+  return db.select()
+    .from(accounts)
+    .where(and(...conditions))
+    .orderBy(asc(accounts.name))
+}
+
+/**
+ * Get a single account by ID
+ */
+export async function getAccountById(id: number, userId: string): Promise<Account | undefined> {
+  const [result] = await db.select()
+    .from(accounts)
+    .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Insert an account
+ */
+export async function insertAccount(account: NewAccount): Promise<Account> {
+  const [result] = await db.insert(accounts).values(account).returning()
+  return result
+}
+
+/**
+ * Update an account. Renaming also renames it on the account's transactions.
+ */
+export async function updateAccount(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewAccount, 'id' | 'userId'>>
+): Promise<Account | undefined> {
+  const [result] = await db.update(accounts)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+    .returning()
+
+  if (result && updates.name !== undefined) {
+    await db.update(transactions)
+      .set({ account: result.name })
+      .where(and(eq(transactions.accountId, id), eq(transactions.userId, userId)))
+  }
+  return result
+}
+
+/**
+ * Delete an account (callers should make sure it has no transactions)
+ */
+export async function deleteAccount(id: number, userId: string): Promise<boolean> {
+  const result = await db.delete(accounts)
+    .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+    .returning({ id: accounts.id })
+  return result.length > 0
+}
+
+/**
+ * Look up accounts by name, creating any that don't exist yet.
+ * Returns a map of account name -> account ID.
+ */
+export async function ensureAccounts(
+  userId: string,
+  wanted: Array<{ name: string; type?: AccountType }>
+): Promise<Map<string, number>> {
+  const byName = new Map<string, { name: string; type?: AccountType }>()
+  for (const account of wanted) {
+    if (!byName.has(account.name)) byName.set(account.name, account)
+  }
+  const names = Array.from(byName.keys())
+  if (names.length === 0) return new Map()
+
+  await db.insert(accounts)
+    .values(Array.from(byName.values()).map(a => ({ userId, name: a.name, type: a.type || 'checking' })))
+    .onConflictDoNothing({ target: [accounts.userId, accounts.name] })
+
+  const rows = await db.select({ id: accounts.id, name: accounts.name })
+    .from(accounts)
+    .where(and(eq(accounts.userId, userId), inArray(accounts.name, names)))
+  return new Map(rows.map(r => [r.name, r.id]))
+}
+
+/**
+ * Create accounts for transactions that only have a free-text account name
+ * (imported before accounts existed) and link them. Returns rows linked.
+ */
+export async function linkUnassignedTransactions(userId: string): Promise<number> {
+  const unassigned = await db.selectDistinct({ name: sql<string>`COALESCE(${transactions.account}, 'Default')` })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), sql`${transactions.accountId} IS NULL`))
+  if (unassigned.length === 0) return 0
+
+  const ids = await ensureAccounts(userId, unassigned.map(u => ({ name: u.name })))
+  let linked = 0
+  for (const [name, accountId] of Array.from(ids.entries())) {
+    const result = await db.update(transactions)
+      .set({ accountId, account: name })
+      .where(and(
+        eq(transactions.userId, userId),
+        sql`${transactions.accountId} IS NULL`,
+        sql`COALESCE(${transactions.account}, 'Default') = ${name}`
+      ))
+      .returning({ id: transactions.id })
+    linked += result.length
+  }
+  return linked
+}
+
+/**
+ * Get current and cleared balances for each of a user's accounts, or their
+ * balances before a date (YYYY-MM-DD) when `before` is given
+ */
+export async function getAccountBalances(userId: string, includeArchived = false, before?: string): Promise<AccountBalance[]> {
+  const conditions = [eq(accounts.userId, userId)]
+  if (!includeArchived) {
+    conditions.push(eq(accounts.archived, false))
+  }
+  const joinConditions = [eq(transactions.accountId, accounts.id), eq(transactions.userId, accounts.userId)]
+  if (before) {
+    joinConditions.push(lt(transactions.date, before))
+  }
+
+  const rows = await db.select({
+    account: accounts,
+    total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+    cleared: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.clearedStatus} <> 'uncleared' THEN ${transactions.amount} ELSE 0 END), 0)`,
+    transactionCount: sql<number>`COUNT(${transactions.id})`,
+    unclearedCount: sql<number>`COUNT(CASE WHEN ${transactions.clearedStatus} = 'uncleared' THEN 1 END)`,
+    lastTransactionDate: sql<string | null>`MAX(${transactions.date})`,
+    lastReconciledDate: sql<string | null>`(
+      SELECT MAX(r.statement_date) FROM reconciliations r
+      WHERE r.account_id = ${accounts.id} AND r.user_id = ${accounts.userId}
+    )`,
+  })
+    .from(accounts)
+    .leftJoin(transactions, and(...joinConditions))
+    .where(and(...conditions))
+    .groupBy(accounts.id)
+    .orderBy(asc(accounts.name))
+
+  return rows.map(r => ({
+    id: r.account.id,
+    name: r.account.name,
+    type: r.account.type,
+    institution: r.account.institution,
+    currency: r.account.currency,
+    archived: r.account.archived,
+    openingBalance: r.account.openingBalance,
+    balance: Math.round((r.account.openingBalance + Number(r.total)) * 100) / 100,
+    clearedBalance: Math.round((r.account.openingBalance + Number(r.cleared)) * 100) / 100,
+    transactionCount: Number(r.transactionCount),
+    unclearedCount: Number(r.unclearedCount),
+    lastTransactionDate: r.lastTransactionDate,
+    lastReconciledDate: r.lastReconciledDate,
+  }))
+}
+
+/**
+ * Get an account's not-yet-reconciled transactions up to a statement date,
+ * each with the account's running balance after it
+ */
+export async function getUnreconciledTransactions(
+  userId: string,
+  accountId: number,
+  openingBalance: number,
+  statementDate: string
+): Promise<Array<Transaction & { runningBalance: number }>> {
+  const rows = await db.select({
+    transaction: transactions,
+    runningBalance: sql<number>`${openingBalance} + SUM(${transactions.amount}) OVER (ORDER BY ${transactions.date}, ${transactions.id})`,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), eq(transactions.accountId, accountId)))
+    .orderBy(asc(transactions.date), asc(transactions.id))
+
+  return rows
+    .filter(r => r.transaction.date <= statementDate && r.transaction.clearedStatus !== 'reconciled')
+    .map(r => ({ ...r.transaction, runningBalance: Math.round(Number(r.runningBalance) * 100) / 100 }))
+}
+
+/**
+ * Set the cleared status of some of a user's transactions
+ */
+export async function setClearedStatus(
+  userId: string,
+  ids: number[],
+  status: 'uncleared' | 'cleared' | 'reconciled',
+  accountId?: number
+): Promise<number> {
+  if (ids.length === 0) return 0
+  const conditions = [eq(transactions.userId, userId), inArray(transactions.id, ids)]
+  if (accountId !== undefined) {
+    conditions.push(eq(transactions.accountId, accountId))
+  }
+  const result = await db.update(transactions)
+    .set({ clearedStatus: status })
+    .where(and(...conditions))
+    .returning({ id: transactions.id })
+  return result.length
+}
+
+/**
+ * Sum of an account's reconciled transactions
+ */
+export async function getReconciledTotal(userId: string, accountId: number): Promise<number> {
+  const [result] = await db.select({ total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)` })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.accountId, accountId),
+      eq(transactions.clearedStatus, 'reconciled')
+    ))
+  return Number(result?.total || 0)
+}
+
+/**
+ * Record a completed reconciliation
+ */
+export async function insertReconciliation(
+  reconciliation: Omit<Reconciliation, 'id' | 'createdAt'>
+): Promise<Reconciliation> {
+  const [result] = await db.insert(reconciliations).values(reconciliation).returning()
+  return result
+}
+
+/**
+ * Get past reconciliations for an account, newest first
+ */
+export async function getReconciliations(userId: string, accountId: number, limit = 20): Promise<Reconciliation[]> {
+  return db.select()
+    .from(reconciliations)
+    .where(and(eq(reconciliations.userId, userId), eq(reconciliations.accountId, accountId)))
+    .orderBy(desc(reconciliations.statementDate))
+    .limit(limit)
+}
+
+// ============================================================================
+// TRANSFER QUERIES
+// ============================================================================
+
+/**
+ * Get transactions that could be one side of a transfer (not yet linked)
+ */
+export async function getTransferCandidates(userId: string) {
+  return db.select({
+    id: transactions.id,
+    date: transactions.date,
+    amount: transactions.amount,
+    description: transactions.description,
+    category: transactions.category,
+    accountId: transactions.accountId,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), eq(transactions.isTransfer, false)))
+}
+
+/**
+ * Get the pairs a user unlinked, keyed "outflowId:inflowId"
+ */
+export async function getDismissedTransferKeys(userId: string): Promise<Set<string>> {
+  const rows = await db.select({ outflowId: dismissedTransfers.outflowId, inflowId: dismissedTransfers.inflowId })
+    .from(dismissedTransfers)
+    .where(eq(dismissedTransfers.userId, userId))
+  return new Set(rows.map(r => `${r.outflowId}:${r.inflowId}`))
+}
+
+/**
+ * Link two transactions as the two sides of a transfer. Each side's category
+ * is kept aside so unlinking can restore it, and any earlier dismissal of the
+ * pair is cleared.
+ */
+export async function linkTransferPair(userId: string, outflowId: number, inflowId: number): Promise<void> {
+  await db.update(transactions)
+    .set({ isTransfer: true, transferPairId: inflowId, preTransferCategory: sql`${transactions.category}`, category: 'Transfer' })
+    .where(and(eq(transactions.id, outflowId), eq(transactions.userId, userId)))
+  await db.update(transactions)
+    .set({ isTransfer: true, transferPairId: outflowId, preTransferCategory: sql`${transactions.category}`, category: 'Transfer' })
+    .where(and(eq(transactions.id, inflowId), eq(transactions.userId, userId)))
+  await db.delete(dismissedTransfers)
+    .where(and(
+      eq(dismissedTransfers.userId, userId),
+      eq(dismissedTransfers.outflowId, outflowId),
+      eq(dismissedTransfers.inflowId, inflowId)
+    ))
+}
+
+/**
+ * Unlink a transfer pair (both sides count as income/expense again). Each
+ * side gets back the category it had before linking, unless the user changed
+ * it since, and the pair is recorded so detection skips it from now on.
+ * Returns the IDs that were unlinked.
+ */
+export async function unlinkTransferPair(userId: string, id: number): Promise<number[]> {
+  const txn = await getTransactionById(id, userId)
+  if (!txn || !txn.isTransfer) return []
+
+  const ids = txn.transferPairId ? [txn.id, txn.transferPairId] : [txn.id]
+  const result = await db.update(transactions)
+    .set(unlinkedTransferFields())
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)))
+    .returning({ id: transactions.id })
+
+  if (txn.transferPairId) {
+    const [outflowId, inflowId] = txn.amount < 0 ? [txn.id, txn.transferPairId] : [txn.transferPairId, txn.id]
+    await db.insert(dismissedTransfers)
+      .values({ userId, outflowId, inflowId })
+      .onConflictDoNothing()
+  }
+  return result.map(r => r.id)
+}
+
+/**
+ * Get a user's linked transfers, outflow side first, newest first
+ */
+export async function getTransferPairs(userId: string, limit = 100) {
+  const outflows = await db.select()
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.isTransfer, true),
+      lt(transactions.amount, 0)
+    ))
+    .orderBy(desc(transactions.date))
+    .limit(limit)
+
+  const pairIds = outflows.map(t => t.transferPairId).filter((id): id is number => id !== null)
+  const inflows = pairIds.length > 0
+    ? await db.select()
+        .from(transactions)
+        .where(and(eq(transactions.userId, userId), inArray(transactions.id, pairIds)))
+    : []
+  const inflowById = new Map(inflows.map(t => [t.id, t]))
+
+  return outflows.map(outflow => ({
+    outflow,
+    inflow: outflow.transferPairId ? inflowById.get(outflow.transferPairId) || null : null,
+  }))
+}
+
+// ============================================================================
+// SPLIT QUERIES
+// ============================================================================
+
+/**
+ * Get the split allocations of a transaction (empty if it isn't split)
+ */
+export async function getSplits(transactionId: number, userId: string): Promise<TransactionSplit[]> {
+  const rows = await db.select({ split: transactionSplits })
+    .from(transactionSplits)
+    .innerJoin(transactions, eq(transactions.id, transactionSplits.transactionId))
+    .where(and(eq(transactionSplits.transactionId, transactionId), eq(transactions.userId, userId)))
+    .orderBy(asc(transactionSplits.id))
+  return rows.map(r => r.split)
+}
+
+/**
+ * Get split allocations for several transactions, keyed by transaction ID
+ */
+export async function getSplitsForTransactions(
+  userId: string,
+  transactionIds: number[]
+): Promise<Map<number, TransactionSplit[]>> {
+  const byTransaction = new Map<number, TransactionSplit[]>()
+  if (transactionIds.length === 0) return byTransaction
+
+  const rows = await db.select({ split: transactionSplits })
+    .from(transactionSplits)
+    .innerJoin(transactions, eq(transactions.id, transactionSplits.transactionId))
+    .where(and(eq(transactions.userId, userId), inArray(transactionSplits.transactionId, transactionIds)))
+    .orderBy(asc(transactionSplits.id))
+
+  for (const { split } of rows) {
+    const list = byTransaction.get(split.transactionId) || []
+    list.push(split)
+    byTransaction.set(split.transactionId, list)
+  }
+  return byTransaction
+}
+
+/**
+ * Replace a transaction's split allocations. The caller checks ownership and
+ * that the allocations sum to the parent amount.
+ */
+export async function replaceSplits(
+  transactionId: number,
+  splits: Array<{ category: string; amount: number; memo: string | null }>
+): Promise<TransactionSplit[]> {
+  const [, inserted] = await db.batch([
+    db.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId)),
+    db.insert(transactionSplits)
+      .values(splits.map(s => ({ ...s, transactionId })))
+      .returning(),
+  ])
+  return inserted
+}
+
+/**
+ * Remove a transaction's split allocations (only if it belongs to this user).
+ * Returns the number of allocations removed.
+ */
+export async function deleteSplits(transactionId: number, userId: string): Promise<number> {
+  const txn = await getTransactionById(transactionId, userId)
+  if (!txn) return 0
+
+  const result = await db.delete(transactionSplits)
+    .where(eq(transactionSplits.transactionId, transactionId))
+    .returning({ id: transactionSplits.id })
+  return result.length
+}
+
+// ============================================================================
+// IMPORT BATCH QUERIES
+// ============================================================================
+
+/**
+ * Create an import batch record
+ */
+export async function insertImportBatch(batch: NewImportBatch): Promise<ImportBatch> {
+  const [result] = await db.insert(importBatches).values(batch).returning()
+  return result
+}
+
+/**
+ * Update an import batch (e.g. final counts once its rows are inserted)
+ */
+export async function updateImportBatch(
+  id: number,
+  userId: string,
+  updates: Partial<Omit<NewImportBatch, 'id' | 'userId'>>
+): Promise<ImportBatch | undefined> {
+  const [result] = await db.update(importBatches)
+    .set(updates)
+    .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)))
+    .returning()
+  return result
+}
+
+/**
+ * Get a user's import batches, newest first, with how many of their
+ * transactions still exist (rows can be deleted individually or cleared)
+ */
+export async function getImportBatches(userId: string, limit = 50): Promise<Array<ImportBatch & { remainingCount: number }>> {
+  const rows = await db.select({
+    batch: importBatches,
+    remainingCount: sql<number>`(
+      SELECT count(*) FROM transactions t
+      WHERE t.import_batch_id = ${importBatches.id} AND t.user_id = ${importBatches.userId}
+    )`,
+  })
+    .from(importBatches)
+    .where(eq(importBatches.userId, userId))
+    .orderBy(desc(importBatches.createdAt))
+    .limit(limit)
+  return rows.map(r => ({ ...r.batch, remainingCount: Number(r.remainingCount) }))
+}
+
+/**
+ * Get a single import batch by ID
+ */
+export async function getImportBatchById(id: number, userId: string): Promise<ImportBatch | undefined> {
+  const [result] = await db.select()
+    .from(importBatches)
+    .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)))
+    .limit(1)
+  return result
+}
+
+/**
+ * Roll back an import: delete the batch's transactions and their
+ * vector_store embeddings, and mark the batch as rolled back.
+ * Returns the number of transactions deleted.
+ */
+export async function rollbackImportBatch(id: number, userId: string): Promise<number> {
+  const deleted = await db.delete(transactions)
+    .where(and(eq(transactions.importBatchId, id), eq(transactions.userId, userId)))
+    .returning({ id: transactions.id })
+
+  await releaseTransferPartners(userId, deleted.map(d => d.id))
+
+  const sourceIds = deleted.map(d => String(d.id))
+  const batchSize = 500
+  for (let i = 0; i < sourceIds.length; i += batchSize) {
+    await db.delete(vectorStore)
+      .where(and(
+        eq(vectorStore.userId, userId),
+        eq(vectorStore.docType, 'transaction'),
+        inArray(vectorStore.sourceId, sourceIds.slice(i, i + batchSize))
+      ))
+  }
+
+  await db.update(importBatches)
+    .set({ status: 'rolled_back', rolledBackAt: new Date() })
+    .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)))
+
+  return deleted.length
+}
+
+// ============================================================================
+// ANALYTICS QUERIES
+// ============================================================================
+
+/**
+ * Get financial summary for a user
+ */
+export async function getFinancialSummary(userId: string, dateFilter?: { start: string; end: string }) {
+  // Build conditions array
+  // Transfers between the user's own accounts are neither income nor expense
+  const conditions = [eq(transactions.userId, userId), eq(transactions.isTransfer, false)]
+  
+  if (dateFilter) {
+    conditions.push(gte(transactions.date, dateFilter.start))
+    conditions.push(lt(transactions.date, dateFilter.end))
+  }
+
+  const [result] = await db.select({
+    totalTransactions: sql<number>`count(*)`,
+    totalExpenses: sql<number>`COALESCE(ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END)), 0)`,
+    totalIncome: sql<number>`COALESCE(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END), 0)`,
+    netSavings: sql<number>`COALESCE(SUM(amount), 0)`,
+    avgExpense: sql<number>`COALESCE(AVG(CASE WHEN amount < 0 THEN ABS(amount) ELSE NULL END), 0)`,
+    earliestDate: sql<string>`MIN(date)`,
+    latestDate: sql<string>`MAX(date)`,
+  }).from(transactions).where(and(...conditions))
+
+  return result
+}
+
+/**
+ * Get spending by category (split transactions count once per allocation).
+ * With `rollup`, subcategories are counted under their parent category.
+ */
+export async function getSpendingByCategory(userId: string, limit = 10, rollup = true) {
+  const rows = await db.select({
+    category: transactionAllocations.category,
+    total: sql<number>`ROUND(ABS(SUM(amount))::numeric, 2)`,
+    count: sql<number>`count(*)`,
+  })
+    .from(transactionAllocations)
+    .where(and(
+      eq(transactionAllocations.userId, userId),
+      eq(transactionAllocations.isTransfer, false),
+      lt(transactionAllocations.amount, 0)
+    ))
+    .groupBy(transactionAllocations.category)
+    .orderBy(desc(sql`ABS(SUM(amount))`))
+
+  const totals = rollup
+    ? rollUpCategoryTotals(rows, await getUserCategories(userId), ['total', 'count'])
+    : rows
+  return totals.sort((a, b) => Number(b.total) - Number(a.total)).slice(0, limit)
+}
+
+/**
+ * Get monthly spending trends
+ */
+export async function getMonthlyTrends(userId: string, months = 12) {
+  return db.select({
+    month: sql<string>`TO_CHAR(date::date, 'YYYY-MM')`,
+    expenses: sql<number>`ROUND(ABS(SUM(CASE WHEN amount < 0 THEN amount ELSE 0 END))::numeric, 2)`,
+    income: sql<number>`ROUND(SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END)::numeric, 2)`,
+    net: sql<number>`ROUND(SUM(amount)::numeric, 2)`,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), eq(transactions.isTransfer, false)))
+    .groupBy(sql`TO_CHAR(date::date, 'YYYY-MM')`)
+    .orderBy(desc(sql`TO_CHAR(date::date, 'YYYY-MM')`))
+    .limit(months)
+}
+
+/**
+ * Get the account each merchant was last paid from (or paid into), to place
+ * its upcoming recurring transactions
+ */
+export async function getMerchantAccounts(userId: string): Promise<Map<number, number>> {
+  const rows = await db.selectDistinctOn([transactions.merchantId], {
+    merchantId: transactions.merchantId,
+    accountId: transactions.accountId,
+  })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      isNotNull(transactions.merchantId),
+      isNotNull(transactions.accountId)
+    ))
+    .orderBy(transactions.merchantId, desc(transactions.date), desc(transactions.id))
+  return new Map(rows.map(r => [r.merchantId!, r.accountId!]))
+}
+
+/**
+ * Get spending per account and category between two dates (YYYY-MM-DD,
+ * inclusive), split-aware and without transfers. Transactions from
+ * `excludeMerchantIds` are left out.
+ */
+export async function getSpendingByAccountAndCategory(
+  userId: string,
+  start: string,
+  end: string,
+  excludeMerchantIds: number[] = []
+) {
+  const conditions = [
+    eq(transactionAllocations.userId, userId),
+    eq(transactionAllocations.isTransfer, false),
+    sql`${transactionAllocations.amount} < 0`,
+    gte(transactionAllocations.date, start),
+    lte(transactionAllocations.date, end),
+  ]
+  if (excludeMerchantIds.length > 0) {
+    conditions.push(or(isNull(transactions.merchantId), notInArray(transactions.merchantId, excludeMerchantIds))!)
+  }
+
+  const rows = await db.select({
+    accountId: transactionAllocations.accountId,
+    category: transactionAllocations.category,
+    spent: sql<number>`ROUND(ABS(SUM(${transactionAllocations.amount}))::numeric, 2)`,
+  })
+    .from(transactionAllocations)
+    .innerJoin(transactions, eq(transactions.id, transactionAllocations.transactionId))
+    .where(and(...conditions))
+    .groupBy(transactionAllocations.accountId, transactionAllocations.category)
+  return rows.map(r => ({ ...r, spent: Number(r.spent) }))
+}
+
+/**
+ * Get the date of a user's earliest transaction, or null if they have none
+ */
+export async function getFirstTransactionDate(userId: string): Promise<string | null> {
+  const [result] = await db.select({ date: sql<string | null>`MIN(${transactions.date})` })
+    .from(transactions)
+    .where(eq(transactions.userId, userId))
+  return result?.date ?? null
+}
+
+/**
+ * Get transactions dated after `date` (YYYY-MM-DD), oldest first: scheduled
+ * payments and paychecks already imported or entered ahead of time
+ */
+export async function getTransactionsAfter(userId: string, date: string) {
+  return db.select({
+    id: transactions.id,
+    date: transactions.date,
+    description: transactions.description,
+    amount: transactions.amount,
+    category: transactions.category,
+    accountId: transactions.accountId,
+    merchantId: transactions.merchantId,
+  })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), sql`${transactions.date} > ${date}`))
+    .orderBy(asc(transactions.date), asc(transactions.id))
+}
+
+// ============================================================================
+// RAW SQL EXECUTION (for agent tools)
+// ============================================================================
+
+/**
+ * Execute a raw SQL query (SELECT only, for agent tools). Only the tables in
+ * AGENT_QUERYABLE_TABLES can be read, scoped to the user's rows.
+ */
+export async function executeRawQuery(userId: string, query: string): Promise<Record<string, unknown>[]> {
+  const secureQuery = scopeAgentQuery(userId, query)
 
   // Execute using neon - need to use a workaround for dynamic SQL
   // Neon requires tagged template literals, but we need dynamic queries for the agent
@@ -374,7 +2299,7 @@ export async function executeRawQuery(userId: string, query: string): Promise<Re
 // ============================================================================
 
 /**
- * Get all table names
+ * Get the names of the tables and views the agent may query
  */
 export async function getAllTables(): Promise<{ name: string }[]> {
   const { getSql } = await import('./index')
@@ -383,7 +2308,7 @@ export async function getAllTables(): Promise<{ name: string }[]> {
     SELECT table_name as name 
     FROM information_schema.tables 
     WHERE table_schema = 'public' 
-    AND table_type = 'BASE TABLE'
+    AND table_name = ANY(${AGENT_QUERYABLE_TABLES})
   `
   return result as { name: string }[]
 }
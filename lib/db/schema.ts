@@ -5,7 +5,8 @@
  * Uses Drizzle ORM for type-safe queries and migrations.
  */
 
-import { pgTable, text, serial, real, timestamp, index, uniqueIndex, customType } from 'drizzle-orm/pg-core'
+import { pgTable, pgView, text, serial, real, integer, boolean, timestamp, index, uniqueIndex, customType, type AnyPgColumn } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
 
 // Custom type for pgvector
 const vector = customType<{ data: number[]; driverData: string }>({
@@ -31,37 +32,630 @@ export const transactions = pgTable('transactions', {
   userId: text('user_id').notNull(),
   date: text('date').notNull(), // YYYY-MM-DD format
   description: text('description').notNull(),
+  payee: text('payee'), // Display name set by a rename-payee rule, if any
   amount: real('amount').notNull(),
   category: text('category'),
-  account: text('account'),
+  categoryConfidence: text('category_confidence'), // 'high' | 'medium' | 'low' from the categorizer
+  categoryMethod: text('category_method'), // 'rule' | 'merchant' | 'pattern' | 'local' | 'similarity' | 'ai' | 'fallback' | 'user'
+  tags: text('tags').array().notNull().default(sql`'{}'::text[]`),
+  account: text('account'), // Account name, kept in sync with accounts.name
+  accountId: integer('account_id'), // accounts.id
+  merchantId: integer('merchant_id'), // merchants.id, linked by normalized description
+  clearedStatus: text('cleared_status').notNull().default('uncleared'), // 'uncleared' | 'cleared' | 'reconciled'
+  isTransfer: boolean('is_transfer').notNull().default(false), // Money moved between the user's own accounts
+  transferPairId: integer('transfer_pair_id'), // transactions.id of the other side of the transfer
+  preTransferCategory: text('pre_transfer_category'), // Category before linking, restored on unlink
   transactionType: text('transaction_type'), // 'expense' | 'income'
+  externalId: text('external_id'), // ID from the source file (OFX FITID), if any
+  importFingerprint: text('import_fingerprint'), // Used to skip duplicates on re-import
+  importBatchId: integer('import_batch_id'), // import_batches.id of the upload that created it, if any
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   userIdIdx: index('idx_transactions_user_id').on(table.userId),
   dateIdx: index('idx_transactions_date').on(table.date),
   categoryIdx: index('idx_transactions_category').on(table.category),
   userDateIdx: index('idx_transactions_user_date').on(table.userId, table.date),
+  userFingerprintIdx: uniqueIndex('idx_transactions_user_fingerprint').on(table.userId, table.importFingerprint),
+  importBatchIdx: index('idx_transactions_import_batch').on(table.importBatchId),
+  accountIdIdx: index('idx_transactions_account_id').on(table.accountId),
+  merchantIdIdx: index('idx_transactions_merchant_id').on(table.merchantId),
 }))
 
 export type Transaction = typeof transactions.$inferSelect
 export type NewTransaction = typeof transactions.$inferInsert
 
+// ============================================================================
+// TRANSACTION SPLITS TABLE
+// ============================================================================
+
+// Allocations of one transaction across several categories; they sum to the
+// parent's amount. Ownership comes from the parent transaction.
+export const transactionSplits = pgTable('transaction_splits', {
+  id: serial('id').primaryKey(),
+  transactionId: integer('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  category: text('category').notNull(),
+  amount: real('amount').notNull(), // Same sign as the parent
+  memo: text('memo'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  transactionIdIdx: index('idx_transaction_splits_transaction_id').on(table.transactionId),
+}))
+
+export type TransactionSplit = typeof transactionSplits.$inferSelect
+export type NewTransactionSplit = typeof transactionSplits.$inferInsert
+
+// One row per split allocation, or per transaction when it isn't split.
+// Category totals read from here so split transactions count once per category.
+export const transactionAllocations = pgView('transaction_allocations', {
+  transactionId: integer('transaction_id').notNull(),
+  splitId: integer('split_id'),
+  userId: text('user_id').notNull(),
+  date: text('date').notNull(),
+  description: text('description').notNull(),
+  category: text('category'),
+  amount: real('amount').notNull(),
+  memo: text('memo'),
+  account: text('account'),
+  accountId: integer('account_id'),
+  isTransfer: boolean('is_transfer').notNull(),
+}).as(sql`
+  SELECT t.id AS transaction_id, s.id AS split_id, t.user_id, t.date, t.description,
+    COALESCE(s.category, t.category) AS category, COALESCE(s.amount, t.amount) AS amount,
+    s.memo, t.account, t.account_id, t.is_transfer
+  FROM transactions t
+  LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+`)
+
+// ============================================================================
+// ACCOUNTS TABLE
+// ============================================================================
+
+export const ACCOUNT_TYPES = ['checking', 'savings', 'credit_card', 'loan', 'brokerage'] as const
+export type AccountType = typeof ACCOUNT_TYPES[number]
+
+export const accounts = pgTable('accounts', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  type: text('type').notNull().default('checking'), // See ACCOUNT_TYPES
+  institution: text('institution'),
+  currency: text('currency').notNull().default('USD'),
+  openingBalance: real('opening_balance').notNull().default(0), // Balance before the first transaction
+  archived: boolean('archived').notNull().default(false),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_accounts_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_accounts_user_name').on(table.userId, table.name),
+}))
+
+export type Account = typeof accounts.$inferSelect
+export type NewAccount = typeof accounts.$inferInsert
+
+// A completed reconciliation against a bank statement
+export const reconciliations = pgTable('reconciliations', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  accountId: integer('account_id').notNull(),
+  statementDate: text('statement_date').notNull(), // YYYY-MM-DD
+  statementBalance: real('statement_balance').notNull(),
+  clearedBalance: real('cleared_balance').notNull(), // Opening balance + reconciled transactions
+  transactionCount: integer('transaction_count').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userAccountIdx: index('idx_reconciliations_user_account').on(table.userId, table.accountId),
+}))
+
+export type Reconciliation = typeof reconciliations.$inferSelect
+export type NewReconciliation = typeof reconciliations.$inferInsert
+
+// Transfer pairs the user unlinked, so detection doesn't link them again
+export const dismissedTransfers = pgTable('dismissed_transfers', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  outflowId: integer('outflow_id').notNull(), // transactions.id
+  inflowId: integer('inflow_id').notNull(), // transactions.id
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userPairIdx: uniqueIndex('idx_dismissed_transfers_user_pair').on(table.userId, table.outflowId, table.inflowId),
+}))
+
+export type DismissedTransfer = typeof dismissedTransfers.$inferSelect
+
+// ============================================================================
+// CATEGORIES TABLE
+// ============================================================================
+
+export const CATEGORY_KINDS = ['expense', 'income', 'transfer'] as const
+export type CategoryKind = typeof CATEGORY_KINDS[number]
+
+// Each user's own category set, seeded from the built-in CATEGORIES on first
+// use. Transactions, splits and rules refer to categories by name. One level
+// of nesting: a subcategory's parent is always a top-level category, and
+// analytics roll subcategories up into it.
+export const userCategories = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  parentId: integer('parent_id').references((): AnyPgColumn => userCategories.id, { onDelete: 'set null' }),
+  kind: text('kind').notNull().default('expense'), // See CATEGORY_KINDS
+  color: text('color'), // Hex color for charts, e.g. '#3b82f6'
+  icon: text('icon'), // lucide-react icon name, e.g. 'Coffee'
+  excludeFromBudget: boolean('exclude_from_budget').notNull().default(false),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_categories_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_categories_user_name').on(table.userId, table.name),
+}))
+
+export type UserCategory = typeof userCategories.$inferSelect
+export type NewUserCategory = typeof userCategories.$inferInsert
+
+// ============================================================================
+// BUDGETS TABLE
+// ============================================================================
+
+export const BUDGET_PERIODS = ['monthly', 'quarterly', 'yearly'] as const
+export type BudgetPeriod = typeof BUDGET_PERIODS[number]
+
+// What happens to a budget's balance when a period ends:
+// 'none' starts fresh, 'carry_unspent' adds what was left over to the next
+// period, 'carry_all' also carries overspending forward (less to spend next time)
+export const ROLLOVER_POLICIES = ['none', 'carry_unspent', 'carry_all'] as const
+export type RolloverPolicy = typeof ROLLOVER_POLICIES[number]
+
+// A spending limit for one category (including its subcategories) per period.
+// Rollover is counted from the period the budget was created in.
+export const budgets = pgTable('budgets', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  category: text('category').notNull(), // Category name, like transactions.category
+  period: text('period').notNull().default('monthly'), // 'monthly' | 'quarterly' | 'yearly'
+  amount: real('amount').notNull(), // Positive limit per period
+  rollover: text('rollover').notNull().default('none'), // 'none' | 'carry_unspent' | 'carry_all'
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_budgets_user_id').on(table.userId),
+  userCategoryIdx: uniqueIndex('idx_budgets_user_category').on(table.userId, table.category),
+}))
+
+export type Budget = typeof budgets.$inferSelect
+export type NewBudget = typeof budgets.$inferInsert
+
+// ============================================================================
+// ENVELOPES TABLES
+// ============================================================================
+
+// Envelope (zero-based) budgeting: income is assigned out to envelopes, and
+// spending in an envelope's categories (and their subcategories) draws it
+// down. Unspent money stays in the envelope from month to month.
+export const envelopes = pgTable('envelopes', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  categories: text('categories').array().notNull().default(sql`'{}'::text[]`), // Category names it pays for
+  startMonth: text('start_month').notNull(), // YYYY-MM; spending counts against it from this month on
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_envelopes_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_envelopes_user_name').on(table.userId, table.name),
+}))
+
+export type Envelope = typeof envelopes.$inferSelect
+export type NewEnvelope = typeof envelopes.$inferInsert
+
+// The envelope ledger. Each row moves money in a month: from To Be Assigned
+// into an envelope (from null), back out of one (to null), or between two.
+export const envelopeAllocations = pgTable('envelope_allocations', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  month: text('month').notNull(), // YYYY-MM
+  fromEnvelopeId: integer('from_envelope_id'), // envelopes.id; null = To Be Assigned
+  toEnvelopeId: integer('to_envelope_id'), // envelopes.id; null = To Be Assigned
+  amount: real('amount').notNull(), // Always positive
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_envelope_allocations_user_id').on(table.userId),
+  userMonthIdx: index('idx_envelope_allocations_user_month').on(table.userId, table.month),
+}))
+
+export type EnvelopeAllocation = typeof envelopeAllocations.$inferSelect
+export type NewEnvelopeAllocation = typeof envelopeAllocations.$inferInsert
+
+// ============================================================================
+// GOALS TABLE
+// ============================================================================
+
+export const GOAL_PRIORITIES = ['high', 'medium', 'low'] as const
+export type GoalPriority = typeof GOAL_PRIORITIES[number]
+
+// A savings target. Progress comes from either a linked account's balance or
+// the transactions carrying a tag (exactly one of the two is set).
+export const goals = pgTable('goals', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  targetAmount: real('target_amount').notNull(),
+  targetDate: text('target_date'), // YYYY-MM-DD; null = no deadline
+  accountId: integer('account_id'), // accounts.id
+  tag: text('tag'), // Matches transactions.tags
+  priority: text('priority').notNull().default('medium'), // 'high' | 'medium' | 'low'
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_goals_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_goals_user_name').on(table.userId, table.name),
+}))
+
+export type Goal = typeof goals.$inferSelect
+export type NewGoal = typeof goals.$inferInsert
+
+// ============================================================================
+// NET WORTH TABLES
+// ============================================================================
+
+// Things of value (or debts) outside the imported accounts, tracked by hand
+export const MANUAL_ASSET_KINDS = ['asset', 'liability'] as const
+export type ManualAssetKind = typeof MANUAL_ASSET_KINDS[number]
+
+export const MANUAL_ASSET_TYPES: Record<ManualAssetKind, readonly string[]> = {
+  asset: ['property', 'vehicle', 'investment', 'other'],
+  liability: ['mortgage', 'student_loan', 'auto_loan', 'other'],
+}
+
+export const manualAssets = pgTable('manual_assets', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  kind: text('kind').notNull(), // 'asset' | 'liability'
+  type: text('type').notNull().default('other'), // See MANUAL_ASSET_TYPES
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_manual_assets_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_manual_assets_user_name').on(table.userId, table.name),
+}))
+
+export type ManualAsset = typeof manualAssets.$inferSelect
+export type NewManualAsset = typeof manualAssets.$inferInsert
+
+// What a manual asset was worth (or a liability owed) as of a date. The
+// latest valuation on or before a date is its value then.
+export const assetValuations = pgTable('asset_valuations', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  assetId: integer('asset_id').notNull().references(() => manualAssets.id, { onDelete: 'cascade' }),
+  date: text('date').notNull(), // YYYY-MM-DD
+  value: real('value').notNull(), // Positive; for liabilities, the amount owed
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_asset_valuations_user_id').on(table.userId),
+  assetDateIdx: uniqueIndex('idx_asset_valuations_asset_date').on(table.assetId, table.date),
+}))
+
+export type AssetValuation = typeof assetValuations.$inferSelect
+export type NewAssetValuation = typeof assetValuations.$inferInsert
+
+// Net worth at the end of each month, recorded once the month is over by
+// scripts/record-net-worth-snapshots.ts and kept as recorded.
+export const netWorthSnapshots = pgTable('net_worth_snapshots', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  date: text('date').notNull(), // YYYY-MM-DD
+  assets: real('assets').notNull(),
+  liabilities: real('liabilities').notNull(), // Positive amount owed
+  netWorth: real('net_worth').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userDateIdx: uniqueIndex('idx_net_worth_snapshots_user_date').on(table.userId, table.date),
+}))
+
+export type NetWorthSnapshot = typeof netWorthSnapshots.$inferSelect
+export type NewNetWorthSnapshot = typeof netWorthSnapshots.$inferInsert
+
+// ============================================================================
+// INVESTMENT TABLES
+// ============================================================================
+
+export const ASSET_CLASSES = ['stock', 'etf', 'mutual_fund', 'bond', 'cash', 'other'] as const
+export type AssetClass = typeof ASSET_CLASSES[number]
+
+export const INVESTMENT_ACTIVITY_TYPES = ['buy', 'sell', 'dividend', 'fee'] as const
+export type InvestmentActivityType = typeof INVESTMENT_ACTIVITY_TYPES[number]
+
+// How a sell picks the lots it closes
+export const COST_BASIS_METHODS = ['fifo', 'specific'] as const
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number]
+
+export const securities = pgTable('securities', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  symbol: text('symbol').notNull(), // Ticker, or the CUSIP when the brokerage gives no ticker
+  name: text('name').notNull(),
+  assetClass: text('asset_class').notNull().default('other'), // See ASSET_CLASSES
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userSymbolIdx: uniqueIndex('idx_securities_user_symbol').on(table.userId, table.symbol),
+}))
+
+export type Security = typeof securities.$inferSelect
+export type NewSecurity = typeof securities.$inferInsert
+
+// Brokerage activity. Dividends are also recorded as an income transaction
+// (transactionId) so they show up in income analytics.
+export const investmentTransactions = pgTable('investment_transactions', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  accountId: integer('account_id').notNull().references(() => accounts.id, { onDelete: 'cascade' }),
+  securityId: integer('security_id').references(() => securities.id, { onDelete: 'cascade' }), // Null for account-level fees
+  date: text('date').notNull(), // YYYY-MM-DD trade date
+  type: text('type').notNull(), // See INVESTMENT_ACTIVITY_TYPES
+  quantity: real('quantity').notNull().default(0), // Shares bought or sold, always positive
+  price: real('price').notNull().default(0), // Per share
+  fees: real('fees').notNull().default(0), // Commissions and fees included in amount
+  amount: real('amount').notNull(), // Cash effect: negative for buys and fees, positive for sells and dividends
+  costBasisMethod: text('cost_basis_method').notNull().default('fifo'), // Sells only; see COST_BASIS_METHODS
+  lotSelections: text('lot_selections'), // Sells only, JSON [{ buyId, quantity }] for the specific method
+  transactionId: integer('transaction_id'), // transactions.id of a dividend's income transaction
+  externalId: text('external_id'), // OFX FITID, if any
+  importFingerprint: text('import_fingerprint'), // Used to skip duplicates on re-import
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userDateIdx: index('idx_investment_transactions_user_date').on(table.userId, table.date),
+  userFingerprintIdx: uniqueIndex('idx_investment_transactions_user_fingerprint').on(table.userId, table.importFingerprint),
+}))
+
+export type InvestmentTransaction = typeof investmentTransactions.$inferSelect
+export type NewInvestmentTransaction = typeof investmentTransactions.$inferInsert
+
+// Shares bought together and what's left of them after sells. Rebuilt from
+// investment_transactions whenever activity is imported or a sell's lots change.
+export const lots = pgTable('lots', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  accountId: integer('account_id').notNull().references(() => accounts.id, { onDelete: 'cascade' }),
+  securityId: integer('security_id').notNull().references(() => securities.id, { onDelete: 'cascade' }),
+  buyId: integer('buy_id').notNull().references(() => investmentTransactions.id, { onDelete: 'cascade' }),
+  openDate: text('open_date').notNull(), // YYYY-MM-DD
+  quantity: real('quantity').notNull(), // Shares bought
+  remainingQuantity: real('remaining_quantity').notNull(),
+  costBasis: real('cost_basis').notNull(), // Of the remaining shares, fees included
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_lots_user_id').on(table.userId),
+  buyIdIdx: uniqueIndex('idx_lots_buy_id').on(table.buyId),
+}))
+
+export type Lot = typeof lots.$inferSelect
+export type NewLot = typeof lots.$inferInsert
+
+// Positions as reported by the brokerage (OFX INVPOSLIST), kept to check
+// the quantities worked out from activity against
+export const holdings = pgTable('holdings', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  accountId: integer('account_id').notNull().references(() => accounts.id, { onDelete: 'cascade' }),
+  securityId: integer('security_id').notNull().references(() => securities.id, { onDelete: 'cascade' }),
+  quantity: real('quantity').notNull(),
+  asOf: text('as_of').notNull(), // YYYY-MM-DD
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_holdings_user_id').on(table.userId),
+  accountSecurityIdx: uniqueIndex('idx_holdings_account_security').on(table.accountId, table.securityId),
+}))
+
+export type Holding = typeof holdings.$inferSelect
+export type NewHolding = typeof holdings.$inferInsert
+
+// Closing prices loaded by the user (a price CSV, or the unit prices in an
+// OFX position list). The latest price on or before a date values a holding.
+export const securityPrices = pgTable('security_prices', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  securityId: integer('security_id').notNull().references(() => securities.id, { onDelete: 'cascade' }),
+  date: text('date').notNull(), // YYYY-MM-DD
+  price: real('price').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_security_prices_user_id').on(table.userId),
+  securityDateIdx: uniqueIndex('idx_security_prices_security_date').on(table.securityId, table.date),
+}))
+
+export type SecurityPrice = typeof securityPrices.$inferSelect
+export type NewSecurityPrice = typeof securityPrices.$inferInsert
+
+// ============================================================================
+// MERCHANTS TABLE
+// ============================================================================
+
+// One row per merchant a user has transactions with. Aliases are the
+// normalized descriptions (see merchantKey in lib/smartCategorization.ts)
+// that belong to it; merging merchants combines their aliases.
+export const merchants = pgTable('merchants', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(), // Canonical display name
+  aliases: text('aliases').array().notNull().default(sql`'{}'::text[]`),
+  defaultCategory: text('default_category'), // Applied after the user's rules, before the built-in patterns
+  logoUrl: text('logo_url'),
+  website: text('website'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_merchants_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_merchants_user_name').on(table.userId, table.name),
+  aliasesIdx: index('idx_merchants_aliases').using('gin', table.aliases),
+}))
+
+export type Merchant = typeof merchants.$inferSelect
+export type NewMerchant = typeof merchants.$inferInsert
+
+// ============================================================================
+// RECURRING SERIES TABLE
+// ============================================================================
+
+export const RECURRING_CADENCES = ['weekly', 'biweekly', 'monthly', 'annual'] as const
+export type RecurringCadence = typeof RECURRING_CADENCES[number]
+
+// Charges (or deposits) that repeat at a regular cadence from one merchant,
+// found by lib/recurring.ts. Rebuilt from the transactions on every scan.
+export const recurringSeries = pgTable('recurring_series', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  merchantId: integer('merchant_id').notNull(), // merchants.id
+  name: text('name').notNull(), // Merchant name when detected
+  category: text('category'),
+  cadence: text('cadence').notNull(), // 'weekly' | 'biweekly' | 'monthly' | 'annual'
+  expectedAmount: real('expected_amount').notNull(), // Negative for charges, positive for deposits
+  amountStdDev: real('amount_std_dev').notNull().default(0),
+  occurrences: integer('occurrences').notNull(),
+  firstDate: text('first_date').notNull(),
+  lastDate: text('last_date').notNull(),
+  nextDueDate: text('next_due_date').notNull(),
+  status: text('status').notNull().default('active'), // 'active' | 'cancelled' (overdue past its grace period)
+  detectedAt: timestamp('detected_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_recurring_series_user_id').on(table.userId),
+  merchantIdIdx: index('idx_recurring_series_merchant_id').on(table.merchantId),
+}))
+
+export type RecurringSeries = typeof recurringSeries.$inferSelect
+export type NewRecurringSeries = typeof recurringSeries.$inferInsert
+
+// ============================================================================
+// NOTIFICATIONS TABLE
+// ============================================================================
+
+export const NOTIFICATION_TYPES = ['price_increase', 'trial_conversion', 'off_cadence'] as const
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+// In-app alerts shown in the header. dedupe_key identifies what the alert is
+// about (e.g. 'price_increase:<transaction id>') so rescans don't repeat it.
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  type: text('type').notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  merchantId: integer('merchant_id'), // merchants.id
+  transactionId: integer('transaction_id'), // transactions.id of the charge that raised the alert
+  dedupeKey: text('dedupe_key').notNull(),
+  snoozedUntil: timestamp('snoozed_until'),
+  dismissedAt: timestamp('dismissed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_notifications_user_id').on(table.userId),
+  userDedupeIdx: uniqueIndex('idx_notifications_user_dedupe').on(table.userId, table.dedupeKey),
+}))
+
+export type Notification = typeof notifications.$inferSelect
+export type NewNotification = typeof notifications.$inferInsert
+
 // ============================================================================
 // CATEGORY RULES TABLE
 // ============================================================================
 
+export const RULE_MATCH_TYPES = ['contains', 'regex', 'merchant'] as const
+export type RuleMatchType = typeof RULE_MATCH_TYPES[number]
+
+// Rules with a user_id belong to that user; rules without one are the seeded
+// system defaults, which every user sees but nobody can change.
+// Every condition that is set must hold for a rule to match (null = any).
+// See lib/ruleEngine.ts for evaluation order and stop-processing semantics.
 export const categoryRules = pgTable('category_rules', {
   id: serial('id').primaryKey(),
-  pattern: text('pattern').notNull().unique(),
-  category: text('category').notNull(),
+  userId: text('user_id'), // null = system rule
+  // Conditions
+  pattern: text('pattern'), // Description text, regex or merchant name, per matchType
+  matchType: text('match_type').notNull().default('contains'), // 'contains' | 'regex' | 'merchant'
+  amountMin: real('amount_min'), // Absolute amount, inclusive
+  amountMax: real('amount_max'),
+  sign: text('sign'), // 'expense' | 'income'
+  account: text('account'), // Account name
+  dayOfMonthMin: integer('day_of_month_min'), // 1-31, inclusive
+  dayOfMonthMax: integer('day_of_month_max'),
+  // Evaluation
+  priority: integer('priority').notNull().default(100), // Lower runs first
+  stopProcessing: boolean('stop_processing').notNull().default(false),
+  // Actions
+  category: text('category'),
+  setTag: text('set_tag'),
+  renamePayee: text('rename_payee'),
+  markTransfer: boolean('mark_transfer').notNull().default(false),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
-  patternIdx: uniqueIndex('idx_category_rules_pattern').on(table.pattern),
+  // One rule per pattern and set of conditions per user (or among system rules), so
+  // "AMAZON under $50" and "AMAZON over $50" can coexist; rules without a pattern aren't limited
+  userPatternIdx: uniqueIndex('idx_category_rules_user_pattern')
+    .on(
+      sql`COALESCE(user_id, '')`, table.matchType, table.pattern,
+      sql`COALESCE(amount_min, -1)`, sql`COALESCE(amount_max, -1)`, sql`COALESCE(sign, '')`,
+      sql`COALESCE(account, '')`, sql`COALESCE(day_of_month_min, 0)`, sql`COALESCE(day_of_month_max, 0)`
+    )
+    .where(sql`pattern IS NOT NULL`),
+  userIdIdx: index('idx_category_rules_user_id').on(table.userId),
 }))
 
 export type CategoryRule = typeof categoryRules.$inferSelect
 export type NewCategoryRule = typeof categoryRules.$inferInsert
 
+// ============================================================================
+// IMPORT PROFILES TABLE
+// ============================================================================
+
+// Saved CSV column mappings, auto-matched on upload by header fingerprint
+export const importProfiles = pgTable('import_profiles', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  headerFingerprint: text('header_fingerprint').notNull(), // Normalized header row, e.g. "date|description|amount"
+  delimiter: text('delimiter').notNull().default(''), // '' = auto-detect
+  headerRowOffset: integer('header_row_offset').notNull().default(0), // Preamble lines before the header
+  dateColumn: text('date_column').notNull(),
+  descriptionColumn: text('description_column').notNull(),
+  amountColumn: text('amount_column'),
+  debitColumn: text('debit_column'),
+  creditColumn: text('credit_column'),
+  accountColumn: text('account_column'),
+  defaultAccount: text('default_account'),
+  dateFormat: text('date_format').notNull().default('auto'), // See DATE_FORMATS in lib/import/csv.ts
+  amountSign: text('amount_sign').notNull().default('signed'), // 'signed' | 'inverted' | 'debit_credit'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdIdx: index('idx_import_profiles_user_id').on(table.userId),
+  userNameIdx: uniqueIndex('idx_import_profiles_user_name').on(table.userId, table.name),
+}))
+
+export type ImportProfile = typeof importProfiles.$inferSelect
+export type NewImportProfile = typeof importProfiles.$inferInsert
+
+// ============================================================================
+// IMPORT BATCHES TABLE
+// ============================================================================
+
+// One row per committed upload, so a bad import can be listed and rolled back
+export const importBatches = pgTable('import_batches', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  fileName: text('file_name').notNull(),
+  format: text('format').notNull(), // 'csv' | 'ofx'
+  profileId: integer('profile_id'), // import_profiles.id used for a CSV, if any
+  totalRows: integer('total_rows').notNull().default(0),
+  insertedCount: integer('inserted_count').notNull().default(0),
+  duplicateCount: integer('duplicate_count').notNull().default(0),
+  errorCount: integer('error_count').notNull().default(0),
+  methodCounts: text('method_counts').default('{}'), // JSON: categorization method -> count
+  status: text('status').notNull().default('completed'), // 'completed' | 'rolled_back'
+  createdAt: timestamp('created_at').defaultNow(),
+  rolledBackAt: timestamp('rolled_back_at'),
+}, (table) => ({
+  userIdIdx: index('idx_import_batches_user_id').on(table.userId),
+}))
+
+export type ImportBatch = typeof importBatches.$inferSelect
+export type NewImportBatch = typeof importBatches.$inferInsert
+
 // ============================================================================
 // VECTOR STORE TABLE (pgvector)
 // ============================================================================
@@ -0,0 +1,334 @@
+/**
+ * Envelope Budgeting
+ *
+ * Zero-based budgeting on top of the transaction history. Income lands in To
+ * Be Assigned, and from there every dollar is assigned to an envelope. Spending
+ * in an envelope's categories (and their subcategories) draws it down and
+ * refunds top it back up. Whatever isn't spent stays in the envelope from month
+ * to month; an overspent envelope stays negative until money is moved into it.
+ *
+ * The ledger only records assignments and moves; balances are always derived
+ * from it plus the transactions. To Be Assigned starts with what the on-budget
+ * accounts held before the first envelope's start month.
+ */
+
+import {
+  getEnvelopes,
+  getEnvelopeAllocations,
+  getUserCategories,
+  getMonthlyCategoryTotals,
+  getAccountBalances,
+  getIncomeTransactions,
+} from './db/queries'
+import type { AccountType, Envelope, EnvelopeAllocation, NewEnvelope, NewEnvelopeAllocation, UserCategory } from './db/schema'
+import { getRollupMap } from './categories'
+import { addDays, addMonths, currentDate } from './dates'
+
+// Accounts whose money is budgeted. Loans and brokerage accounts sit outside.
+export const ON_BUDGET_ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'credit_card']
+
+export interface EnvelopeBalance {
+  id: number
+  name: string
+  categories: string[]
+  startMonth: string
+  assigned: number // Net moved in this month
+  activity: number // Net transactions in its categories this month (negative when spending)
+  available: number // Everything assigned and spent up to the end of the month
+  overspent: boolean
+}
+
+export interface EnvelopeMonth {
+  month: string // YYYY-MM
+  budgetStart: string | null // Earliest envelope start month
+  startingBalance: number // On-budget account balances before budgetStart
+  income: number
+  assigned: number // Net moved out of To Be Assigned this month
+  toBeAssigned: number
+  paychecks: Awaited<ReturnType<typeof getIncomeTransactions>>
+  envelopes: EnvelopeBalance[]
+}
+
+export interface EnvelopeReconciliation {
+  accounts: Array<{ id: number; name: string; type: string; balance: number }>
+  accountsTotal: number
+  toBeAssigned: number
+  envelopesTotal: number
+  budgetTotal: number // toBeAssigned + envelopesTotal
+  difference: number // accountsTotal - budgetTotal
+  outsideEnvelopes: number // Net transactions in categories no envelope covered at the time
+  unexplained: number // Transfers to off-budget accounts and anything else left over
+}
+
+interface MonthlyTotal {
+  month: string
+  category: string | null
+  spent: number
+  earned: number
+}
+
+export interface EnvelopeLedger {
+  envelopes: Envelope[]
+  allocations: EnvelopeAllocation[]
+  categories: UserCategory[]
+  totals: MonthlyTotal[]
+  budgetStart: string | null
+  startingBalance: number
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function monthEnd(month: string): string {
+  return addDays(addMonths(`${month}-01`, 1), -1)
+}
+
+export function currentMonth(): string {
+  return currentDate().slice(0, 7)
+}
+
+/**
+ * Load everything needed to work out envelope balances for a user
+ */
+export async function loadEnvelopeLedger(userId: string): Promise<EnvelopeLedger> {
+  const [envelopes, allocations, categories] = await Promise.all([
+    getEnvelopes(userId),
+    getEnvelopeAllocations(userId),
+    getUserCategories(userId),
+  ])
+  if (envelopes.length === 0) {
+    return { envelopes, allocations, categories, totals: [], budgetStart: null, startingBalance: 0 }
+  }
+
+  const budgetStart = envelopes.map(e => e.startMonth).reduce((a, b) => (a < b ? a : b))
+  const since = `${budgetStart}-01`
+  const [totals, balances] = await Promise.all([
+    getMonthlyCategoryTotals(userId, since),
+    getAccountBalances(userId, false, since),
+  ])
+  const startingBalance = balances
+    .filter(b => ON_BUDGET_ACCOUNT_TYPES.includes(b.type as AccountType))
+    .reduce((sum, b) => sum + b.balance, 0)
+
+  return { envelopes, allocations, categories, totals, budgetStart, startingBalance: round2(startingBalance) }
+}
+
+/**
+ * Map a category to the envelope that pays for it: the envelope holding the
+ * category itself, or failing that the one holding its parent
+ */
+function envelopeResolver(envelopes: Envelope[], categories: UserCategory[]) {
+  const byCategory = new Map<string, Envelope>()
+  for (const envelope of envelopes) {
+    for (const name of envelope.categories) byCategory.set(name, envelope)
+  }
+  const rollup = getRollupMap(categories)
+  return (category: string | null): Envelope | undefined => {
+    if (category === null) return undefined
+    return byCategory.get(category) ?? byCategory.get(rollup.get(category) ?? category)
+  }
+}
+
+/**
+ * Work out To Be Assigned and every envelope's balance for a month (YYYY-MM).
+ * Balances include everything up to the end of that month.
+ */
+export function computeEnvelopeMonth(ledger: EnvelopeLedger, month: string): Omit<EnvelopeMonth, 'paychecks'> {
+  const { envelopes, allocations, categories, totals, budgetStart, startingBalance } = ledger
+  const resolve = envelopeResolver(envelopes, categories)
+  const incomeCategories = new Set(categories.filter(c => c.kind === 'income').map(c => c.name))
+
+  const balances = new Map(envelopes.map(e => [e.id, { assigned: 0, activity: 0, available: 0 }]))
+  let income = 0
+  let totalIncome = 0
+  let assigned = 0
+  let totalAssigned = 0
+
+  for (const row of allocations) {
+    if (row.month > month) continue
+    const current = row.month === month
+    for (const [id, sign] of [[row.toEnvelopeId, 1], [row.fromEnvelopeId, -1]] as const) {
+      const amount = sign * row.amount
+      if (id === null) {
+        // Money leaving To Be Assigned counts as assigned
+        totalAssigned -= amount
+        if (current) assigned -= amount
+        continue
+      }
+      const balance = balances.get(id)
+      if (!balance) continue
+      balance.available += amount
+      if (current) balance.assigned += amount
+    }
+  }
+
+  for (const row of totals) {
+    if (row.month > month) continue
+    const net = row.earned - row.spent
+    const current = row.month === month
+    if (row.category !== null && incomeCategories.has(row.category)) {
+      totalIncome += net
+      if (current) income += net
+      continue
+    }
+    const envelope = resolve(row.category)
+    if (!envelope || row.month < envelope.startMonth) continue
+    const balance = balances.get(envelope.id)!
+    balance.available += net
+    if (current) balance.activity += net
+  }
+
+  return {
+    month,
+    budgetStart,
+    startingBalance,
+    income: round2(income),
+    assigned: round2(assigned),
+    toBeAssigned: budgetStart && month >= budgetStart ? round2(startingBalance + totalIncome - totalAssigned) : 0,
+    envelopes: envelopes.map(envelope => {
+      const balance = balances.get(envelope.id)!
+      return {
+        id: envelope.id,
+        name: envelope.name,
+        categories: envelope.categories,
+        startMonth: envelope.startMonth,
+        assigned: round2(balance.assigned),
+        activity: round2(balance.activity),
+        available: round2(balance.available),
+        overspent: round2(balance.available) < 0,
+      }
+    }),
+  }
+}
+
+/**
+ * Get a user's envelope budget for a month, with the paychecks that came in
+ */
+export async function getEnvelopeMonth(userId: string, month = currentMonth()): Promise<EnvelopeMonth> {
+  const ledger = await loadEnvelopeLedger(userId)
+  const incomeCategories = ledger.categories.filter(c => c.kind === 'income').map(c => c.name)
+  const paychecks = await getIncomeTransactions(userId, `${month}-01`, monthEnd(month), incomeCategories)
+  return { ...computeEnvelopeMonth(ledger, month), paychecks }
+}
+
+/**
+ * Compare what the envelopes say the user has against what their on-budget
+ * accounts actually hold. The two drift apart by spending in categories no
+ * envelope covers and by money moved to or from off-budget accounts.
+ */
+export async function reconcileEnvelopes(userId: string): Promise<EnvelopeReconciliation> {
+  const ledger = await loadEnvelopeLedger(userId)
+  const balances = await getAccountBalances(userId)
+  const accounts = balances
+    .filter(b => ON_BUDGET_ACCOUNT_TYPES.includes(b.type as AccountType))
+    .map(b => ({ id: b.id, name: b.name, type: b.type, balance: b.balance }))
+
+  // Include future-dated transactions and assignments so both sides see the same history
+  const latest = [...ledger.totals.map(t => t.month), ...ledger.allocations.map(a => a.month), currentMonth()]
+    .reduce((a, b) => (a > b ? a : b))
+  const month = computeEnvelopeMonth(ledger, latest)
+
+  const resolve = envelopeResolver(ledger.envelopes, ledger.categories)
+  const incomeCategories = new Set(ledger.categories.filter(c => c.kind === 'income').map(c => c.name))
+  let outsideEnvelopes = 0
+  for (const row of ledger.totals) {
+    if (row.category !== null && incomeCategories.has(row.category)) continue
+    const envelope = resolve(row.category)
+    if (!envelope || row.month < envelope.startMonth) outsideEnvelopes += row.earned - row.spent
+  }
+
+  const accountsTotal = accounts.reduce((sum, a) => sum + a.balance, 0)
+  const envelopesTotal = month.envelopes.reduce((sum, e) => sum + e.available, 0)
+  const budgetTotal = month.toBeAssigned + envelopesTotal
+  const difference = accountsTotal - budgetTotal
+
+  return {
+    accounts,
+    accountsTotal: round2(accountsTotal),
+    toBeAssigned: month.toBeAssigned,
+    envelopesTotal: round2(envelopesTotal),
+    budgetTotal: round2(budgetTotal),
+    difference: round2(difference),
+    outsideEnvelopes: round2(outsideEnvelopes),
+    unexplained: round2(difference - outsideEnvelopes),
+  }
+}
+
+/**
+ * Validate an envelope payload from the API. Categories must be the user's
+ * expense categories and can't already belong to another envelope. With
+ * `partial`, only the fields present are checked (for PATCH).
+ */
+export function validateEnvelopeInput(
+  body: Record<string, unknown>,
+  categories: UserCategory[],
+  envelopes: Envelope[],
+  partial = false
+): { values: Partial<Omit<NewEnvelope, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewEnvelope, 'userId'>> = {}
+  const others = envelopes.filter(e => e.id !== Number(body.id))
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > 50) return { error: 'name must be 50 characters or fewer' }
+    values.name = name
+  }
+  if (body.categories !== undefined) {
+    if (!Array.isArray(body.categories)) return { error: 'categories must be a list of category names' }
+    const names: string[] = []
+    for (const value of body.categories) {
+      const name = typeof value === 'string' ? value.trim().toLowerCase() : ''
+      const category = categories.find(c => c.name.toLowerCase() === name)
+      if (!category) return { error: 'categories must be your categories' }
+      if (category.kind !== 'expense') return { error: `${category.name} is not an expense category` }
+      const owner = others.find(e => e.categories.includes(category.name))
+      if (owner) return { error: `${category.name} is already in the ${owner.name} envelope` }
+      if (!names.includes(category.name)) names.push(category.name)
+    }
+    values.categories = names
+  }
+  if (body.startMonth !== undefined) {
+    if (typeof body.startMonth !== 'string' || !MONTH_PATTERN.test(body.startMonth)) {
+      return { error: 'startMonth must be a month like 2024-01' }
+    }
+    values.startMonth = body.startMonth
+  }
+
+  return { values }
+}
+
+/**
+ * Validate an assignment or move. A missing fromEnvelopeId or toEnvelopeId
+ * means To Be Assigned, so { toEnvelopeId } assigns, { fromEnvelopeId }
+ * un-assigns and both move money between envelopes.
+ */
+export function validateAllocationInput(
+  body: Record<string, unknown>,
+  envelopes: Envelope[]
+): { values: Omit<NewEnvelopeAllocation, 'userId'>; error?: undefined } | { values?: undefined; error: string } {
+  if (typeof body.month !== 'string' || !MONTH_PATTERN.test(body.month)) {
+    return { error: 'month must be a month like 2024-01' }
+  }
+  const amount = Number(body.amount)
+  if (!Number.isFinite(amount) || round2(amount) <= 0) return { error: 'amount must be a positive number' }
+
+  const ids: Array<number | null> = []
+  for (const value of [body.fromEnvelopeId, body.toEnvelopeId]) {
+    if (value === undefined || value === null || value === '') {
+      ids.push(null)
+      continue
+    }
+    const envelope = envelopes.find(e => e.id === Number(value))
+    if (!envelope) return { error: 'Envelope not found' }
+    ids.push(envelope.id)
+  }
+  const [fromEnvelopeId, toEnvelopeId] = ids
+  if (fromEnvelopeId === toEnvelopeId) return { error: 'Choose two different places to move money between' }
+
+  const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+  return { values: { month: body.month, fromEnvelopeId, toEnvelopeId, amount: round2(amount), note } }
+}
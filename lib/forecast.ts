@@ -0,0 +1,279 @@
+/**
+ * Cash-Flow Forecast
+ *
+ * Projects daily balances for the cash accounts (checking, savings and credit
+ * cards) over the next 30, 60 or 90 days from:
+ * - recurring series: each active series repeats at its cadence from its
+ *   next due date, in the account its merchant was last paid from
+ * - scheduled transactions: anything already dated after today
+ * - discretionary spending: the average daily spend per category over the
+ *   last 90 days (or since the first transaction, for shorter histories),
+ *   leaving out merchants with a recurring charge, split between accounts
+ *   the way it was spent
+ * Only income that's known to be coming (recurring deposits and scheduled
+ * ones) is counted.
+ *
+ * buildForecast does no I/O and never reads the clock, so the same inputs
+ * and `today` always give the same forecast.
+ */
+
+import {
+  getRecurringSeries,
+  getMerchantAccounts,
+  getAccountBalances,
+  getTransactionsAfter,
+  getSpendingByAccountAndCategory,
+  getFirstTransactionDate,
+  getRecurringCandidates,
+} from './db/queries'
+import type { AccountType, RecurringCadence, RecurringSeries } from './db/schema'
+import { CADENCES, nextOccurrence, findRecurringSeries } from './recurring'
+import { ON_BUDGET_ACCOUNT_TYPES } from './envelopes'
+import { daysBetween, addDays, currentDate } from './dates'
+
+export const FORECAST_HORIZONS = [30, 60, 90] as const
+export const MAX_FORECAST_DAYS = 365
+const LOOKBACK_DAYS = 90
+
+export interface ForecastInput {
+  accounts: Array<{ id: number; name: string; type: string; balance: number }> // Balances at the end of today
+  series: Array<Pick<RecurringSeries, 'merchantId' | 'name' | 'category' | 'cadence' | 'expectedAmount' | 'nextDueDate' | 'status'> & {
+    accountId: number | null
+  }>
+  scheduled: Array<{ date: string; description: string; amount: number; category: string | null; accountId: number | null; merchantId: number | null }>
+  spending: Array<{ accountId: number | null; category: string | null; spent: number }> // Totals over lookbackDays
+  lookbackDays: number
+}
+
+export interface ForecastEvent {
+  date: string
+  name: string
+  amount: number
+  category: string | null
+  accountId: number
+  accountName: string
+  source: 'recurring' | 'scheduled'
+}
+
+export interface ForecastDay {
+  date: string
+  balance: number // All cash accounts together
+  inflow: number
+  outflow: number // Positive; includes discretionary spending
+}
+
+export interface AccountForecast {
+  id: number
+  name: string
+  type: string
+  startingBalance: number
+  endingBalance: number
+  lowestBalance: number
+  lowestDate: string
+  belowThresholdDate: string | null // Not tracked for credit cards, whose balances run negative
+  balances: number[] // One per day, starting with today
+}
+
+export interface CashFlowForecast {
+  today: string
+  days: number
+  threshold: number
+  startingBalance: number
+  endingBalance: number
+  lowestBalance: number
+  lowestDate: string
+  belowThresholdDate: string | null // First day the overall balance drops below the threshold
+  dailyDiscretionary: number
+  discretionaryByCategory: Array<{ category: string | null; monthly: number }>
+  daily: ForecastDay[]
+  accounts: AccountForecast[]
+  events: ForecastEvent[]
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * How many days of history the discretionary average covers: from the first
+ * transaction through today, capped at the 90-day lookback
+ */
+export function spendingLookbackDays(firstTransactionDate: string | null, today: string): number {
+  if (!firstTransactionDate || firstTransactionDate > today) return LOOKBACK_DAYS
+  return Math.min(LOOKBACK_DAYS, daysBetween(firstTransactionDate, today) + 1)
+}
+
+/**
+ * Project balances `days` days past `today` (YYYY-MM-DD). Balances below
+ * `threshold` are flagged on the first day they happen.
+ */
+export function buildForecast(input: ForecastInput, today: string, days: number, threshold = 0): CashFlowForecast {
+  const end = addDays(today, days)
+  const accounts = input.accounts
+  const byId = new Map(accounts.map(a => [a.id, a]))
+  const fallback = accounts.find(a => a.type === 'checking') ?? accounts[0]
+
+  // Transactions with no account land in the main checking account; ones in
+  // accounts outside the forecast (loans, brokerage, archived) are left out
+  const resolveAccount = (accountId: number | null) =>
+    accountId === null ? fallback : byId.get(accountId)
+
+  const events: ForecastEvent[] = []
+  const addEvent = (event: Omit<ForecastEvent, 'accountId' | 'accountName'>, accountId: number | null) => {
+    const account = resolveAccount(accountId)
+    if (account) events.push({ ...event, accountId: account.id, accountName: account.name })
+  }
+
+  for (const txn of input.scheduled) {
+    if (txn.date <= today || txn.date > end) continue
+    addEvent({ date: txn.date, name: txn.description, amount: txn.amount, category: txn.category, source: 'scheduled' }, txn.accountId)
+  }
+
+  for (const series of input.series) {
+    if (series.status !== 'active') continue
+    const cadence = series.cadence as RecurringCadence
+    const spec = CADENCES[cadence]
+    if (!spec) continue
+
+    // A charge that's a little overdue is still coming; older misses are skipped
+    let date = series.nextDueDate
+    if (date <= today && daysBetween(date, today) <= spec.graceDays) date = addDays(today, 1)
+    while (date <= today) date = nextOccurrence(date, cadence)
+
+    // Already-imported future transactions from the merchant stand in for an occurrence
+    const window = Math.floor(spec.minDays / 2)
+    const scheduled = input.scheduled.filter(t =>
+      t.merchantId === series.merchantId && Math.sign(t.amount) === Math.sign(series.expectedAmount)
+    )
+    for (; date <= end; date = nextOccurrence(date, cadence)) {
+      if (scheduled.some(t => Math.abs(daysBetween(t.date, date)) <= window)) continue
+      addEvent({ date, name: series.name, amount: series.expectedAmount, category: series.category, source: 'recurring' }, series.accountId)
+    }
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date) || a.amount - b.amount || a.name.localeCompare(b.name))
+
+  // Average daily discretionary spending, per account and per category
+  const dailySpend = new Map<number, number>()
+  const categorySpend = new Map<string | null, number>()
+  for (const row of input.spending) {
+    const account = resolveAccount(row.accountId)
+    if (!account) continue
+    const daily = row.spent / input.lookbackDays
+    dailySpend.set(account.id, (dailySpend.get(account.id) || 0) + daily)
+    categorySpend.set(row.category, (categorySpend.get(row.category) || 0) + daily)
+  }
+
+  const balances = new Map(accounts.map(a => [a.id, a.balance]))
+  const history = new Map<number, number[]>(accounts.map(a => [a.id, [a.balance]]))
+  const total = () => Array.from(balances.values()).reduce((sum, b) => sum + b, 0)
+  const daily: ForecastDay[] = [{ date: today, balance: round2(total()), inflow: 0, outflow: 0 }]
+
+  let next = 0
+  for (let i = 1; i <= days; i++) {
+    const date = addDays(today, i)
+    let inflow = 0
+    let outflow = 0
+
+    for (const [id, spend] of Array.from(dailySpend.entries())) {
+      balances.set(id, balances.get(id)! - spend)
+      outflow += spend
+    }
+    for (; next < events.length && events[next].date === date; next++) {
+      const event = events[next]
+      balances.set(event.accountId, balances.get(event.accountId)! + event.amount)
+      if (event.amount > 0) inflow += event.amount
+      else outflow -= event.amount
+    }
+
+    for (const account of accounts) history.get(account.id)!.push(round2(balances.get(account.id)!))
+    daily.push({ date, balance: round2(total()), inflow: round2(inflow), outflow: round2(outflow) })
+  }
+
+  const lowest = <T>(values: T[], balanceOf: (value: T) => number) =>
+    values.reduce((low, value, i) => (balanceOf(value) < balanceOf(values[low]) ? i : low), 0)
+  const firstBelow = (values: number[]) => {
+    const i = values.findIndex(b => b < threshold)
+    return i === -1 ? null : daily[i].date
+  }
+
+  const overallLow = lowest(daily, d => d.balance)
+  const dailyDiscretionary = Array.from(dailySpend.values()).reduce((sum, d) => sum + d, 0)
+
+  return {
+    today,
+    days,
+    threshold,
+    startingBalance: daily[0].balance,
+    endingBalance: daily[daily.length - 1].balance,
+    lowestBalance: daily[overallLow].balance,
+    lowestDate: daily[overallLow].date,
+    belowThresholdDate: firstBelow(daily.map(d => d.balance)),
+    dailyDiscretionary: round2(dailyDiscretionary),
+    discretionaryByCategory: Array.from(categorySpend.entries())
+      .map(([category, spend]) => ({ category, monthly: round2(spend * 30) }))
+      .sort((a, b) => b.monthly - a.monthly),
+    daily,
+    accounts: accounts.map(account => {
+      const values = history.get(account.id)!
+      const low = lowest(values, b => b)
+      return {
+        id: account.id,
+        name: account.name,
+        type: account.type,
+        startingBalance: values[0],
+        endingBalance: values[values.length - 1],
+        lowestBalance: values[low],
+        lowestDate: daily[low].date,
+        belowThresholdDate: account.type === 'credit_card' ? null : firstBelow(values),
+        balances: values,
+      }
+    }),
+    events: events.map(e => ({ ...e, amount: round2(e.amount) })),
+  }
+}
+
+/**
+ * The projected overall balance at the end of `date`, or null outside the forecast
+ */
+export function forecastBalanceOn(forecast: CashFlowForecast, date: string): number | null {
+  return forecast.daily.find(d => d.date === date)?.balance ?? null
+}
+
+/**
+ * Gather a user's balances, recurring series, scheduled transactions and
+ * recent spending, and forecast the next `days` days. Read-only: series come
+ * from the last detection run (at import), or are found on the fly without
+ * being saved when detection hasn't run yet.
+ */
+export async function getCashFlowForecast(
+  userId: string,
+  days: number = FORECAST_HORIZONS[0],
+  threshold = 0,
+  today = currentDate()
+): Promise<CashFlowForecast> {
+  let series: Array<Omit<ForecastInput['series'][number], 'accountId'>> = await getRecurringSeries(userId)
+  if (series.length === 0) {
+    series = findRecurringSeries(await getRecurringCandidates(userId), today)
+      .map(s => ({ ...s, category: s.category ?? null, status: s.status ?? 'active' }))
+  }
+
+  const recurringMerchants = series.filter(s => s.status === 'active' && s.expectedAmount < 0).map(s => s.merchantId)
+  const [merchantAccounts, balances, scheduled, spending, firstTransactionDate] = await Promise.all([
+    getMerchantAccounts(userId),
+    getAccountBalances(userId, false, addDays(today, 1)),
+    getTransactionsAfter(userId, today),
+    getSpendingByAccountAndCategory(userId, addDays(today, 1 - LOOKBACK_DAYS), today, recurringMerchants),
+    getFirstTransactionDate(userId),
+  ])
+
+  return buildForecast({
+    accounts: balances
+      .filter(b => ON_BUDGET_ACCOUNT_TYPES.includes(b.type as AccountType))
+      .map(b => ({ id: b.id, name: b.name, type: b.type, balance: b.balance })),
+    series: series.map(s => ({ ...s, accountId: merchantAccounts.get(s.merchantId) ?? null })),
+    scheduled,
+    spending,
+    lookbackDays: spendingLookbackDays(firstTransactionDate, today),
+  }, today, days, threshold)
+}
@@ -0,0 +1,215 @@
+/**
+ * Savings Goals
+ *
+ * A goal's progress is its linked account's balance, or the net of the
+ * transactions carrying its tag (as a positive amount, so tagging either the
+ * transfers out of checking or the deposits into savings works).
+ *
+ * Whether a goal is on track depends on the user's recent savings rate
+ * (income minus expenses over the last few months, from getFinancialSummary).
+ * That rate is handed out by priority: goals with a target date get the
+ * monthly contribution they need, most important and soonest first, and
+ * whatever is left goes to goals without one.
+ */
+
+import { getGoals, getAccountBalances, getTagTotals, getFinancialSummary } from './db/queries'
+import { GOAL_PRIORITIES, type Goal, type GoalPriority, type NewGoal } from './db/schema'
+import { daysBetween, addDays, addMonths, currentDate } from './dates'
+
+export interface GoalProgress {
+  id: number
+  name: string
+  targetAmount: number
+  targetDate: string | null
+  accountId: number | null
+  accountName: string | null // Null when linked to a tag, or the account is gone
+  tag: string | null
+  priority: GoalPriority
+  current: number
+  remaining: number
+  percentComplete: number
+  monthsLeft: number | null
+  requiredMonthly: number | null // To reach the target by its date; null without one
+  allocatedMonthly: number // Its share of the recent savings rate
+  projectedDate: string | null // When it'll be reached at that share
+  status: 'achieved' | 'on_track' | 'behind'
+}
+
+export interface GoalSummary {
+  monthlySavings: number // Average over the last SAVINGS_LOOKBACK_MONTHS
+  requiredMonthly: number // Sum over goals with a target date
+  onTrackCount: number
+  behindCount: number
+  achievedCount: number
+}
+
+export const SAVINGS_LOOKBACK_MONTHS = 3
+const AVG_MONTH_DAYS = 30.44
+
+const PRIORITY_ORDER: Record<GoalPriority, number> = { high: 0, medium: 1, low: 2 }
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Work out progress for each goal on `today` (YYYY-MM-DD), given current
+ * account balances, tag totals and the user's average monthly savings
+ */
+export function computeGoalProgress(
+  goals: Goal[],
+  accounts: Map<number, { name: string; balance: number }>,
+  tagTotals: Map<string, { total: number }>,
+  monthlySavings: number,
+  today: string
+): GoalProgress[] {
+  const progress = goals.map(goal => {
+    const account = goal.accountId !== null ? accounts.get(goal.accountId) : undefined
+    const current = goal.tag !== null
+      ? Math.abs(tagTotals.get(goal.tag)?.total ?? 0)
+      : account?.balance ?? 0
+    const remaining = Math.max(0, goal.targetAmount - current)
+
+    let monthsLeft: number | null = null
+    let requiredMonthly: number | null = null
+    if (goal.targetDate) {
+      monthsLeft = Math.max(0, daysBetween(today, goal.targetDate) / AVG_MONTH_DAYS)
+      // Less than a month to go (or past due) means the rest is needed now
+      requiredMonthly = remaining / Math.max(1, monthsLeft)
+    }
+
+    return { goal, account, current, remaining, monthsLeft, requiredMonthly, allocated: 0 }
+  })
+
+  // Dated goals get what they need first, by priority and then deadline;
+  // the rest of the savings rate goes to open-ended goals by priority
+  let available = Math.max(0, monthlySavings)
+  const open = progress
+    .filter(p => p.remaining > 0)
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.goal.priority as GoalPriority] - PRIORITY_ORDER[b.goal.priority as GoalPriority] ||
+      (a.goal.targetDate ?? '9999-12-31').localeCompare(b.goal.targetDate ?? '9999-12-31') ||
+      a.goal.id - b.goal.id
+    )
+  for (const p of open) {
+    if (p.requiredMonthly === null) continue
+    p.allocated = Math.min(p.requiredMonthly, available)
+    available -= p.allocated
+  }
+  for (const p of open) {
+    if (p.requiredMonthly !== null) continue
+    p.allocated = Math.min(p.remaining, available)
+    available -= p.allocated
+  }
+
+  return progress.map(({ goal, account, current, remaining, monthsLeft, requiredMonthly, allocated }) => {
+    const achieved = remaining === 0
+    const onTrack = requiredMonthly !== null ? allocated >= requiredMonthly - 0.005 : allocated > 0
+    return {
+      id: goal.id,
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      targetDate: goal.targetDate,
+      accountId: goal.accountId,
+      accountName: account?.name ?? null,
+      tag: goal.tag,
+      priority: goal.priority as GoalPriority,
+      current: round2(current),
+      remaining: round2(remaining),
+      percentComplete: Math.min(100, Math.round((current / goal.targetAmount) * 100)),
+      monthsLeft: monthsLeft !== null ? Math.round(monthsLeft * 10) / 10 : null,
+      requiredMonthly: requiredMonthly !== null ? round2(requiredMonthly) : null,
+      allocatedMonthly: round2(allocated),
+      projectedDate: achieved ? today : allocated > 0 ? addDays(today, Math.ceil((remaining / allocated) * AVG_MONTH_DAYS)) : null,
+      status: achieved ? 'achieved' : onTrack ? 'on_track' : 'behind',
+    }
+  })
+}
+
+/**
+ * Get progress on each of a user's goals, with their recent savings rate
+ */
+export async function getGoalProgress(
+  userId: string,
+  today = currentDate()
+): Promise<{ goals: GoalProgress[]; summary: GoalSummary }> {
+  const goals = await getGoals(userId)
+  const tags = Array.from(new Set(goals.map(g => g.tag).filter((t): t is string => t !== null)))
+  const [balances, tagTotals, savings] = await Promise.all([
+    getAccountBalances(userId, true),
+    getTagTotals(userId, tags),
+    getFinancialSummary(userId, { start: addMonths(today, -SAVINGS_LOOKBACK_MONTHS), end: addDays(today, 1) }),
+  ])
+
+  const monthlySavings = round2(Number(savings?.netSavings ?? 0) / SAVINGS_LOOKBACK_MONTHS)
+  const accounts = new Map(balances.map(b => [b.id, { name: b.name, balance: b.balance }]))
+  const progress = computeGoalProgress(goals, accounts, tagTotals, monthlySavings, today)
+
+  return {
+    goals: progress,
+    summary: {
+      monthlySavings,
+      requiredMonthly: round2(progress.reduce((sum, g) => sum + (g.status !== 'achieved' ? g.requiredMonthly ?? 0 : 0), 0)),
+      onTrackCount: progress.filter(g => g.status === 'on_track').length,
+      behindCount: progress.filter(g => g.status === 'behind').length,
+      achievedCount: progress.filter(g => g.status === 'achieved').length,
+    },
+  }
+}
+
+/**
+ * Validate a goal payload from the API against the user's account IDs. A
+ * goal tracks either an account or a tag; setting one clears the other. With
+ * `partial`, only the fields present are checked (for PATCH).
+ */
+export function validateGoalInput(
+  body: Record<string, unknown>,
+  accountIds: number[],
+  partial = false
+): { values: Partial<Omit<NewGoal, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewGoal, 'userId'>> = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > 100) return { error: 'name must be 100 characters or fewer' }
+    values.name = name
+  }
+  if (body.targetAmount !== undefined || !partial) {
+    const amount = Number(body.targetAmount)
+    if (!Number.isFinite(amount) || amount <= 0) return { error: 'targetAmount must be a positive number' }
+    values.targetAmount = round2(amount)
+  }
+  if (body.targetDate !== undefined) {
+    if (body.targetDate === null || body.targetDate === '') {
+      values.targetDate = null
+    } else if (typeof body.targetDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.targetDate) || isNaN(Date.parse(body.targetDate))) {
+      return { error: 'targetDate must be a date like 2025-12-31' }
+    } else {
+      values.targetDate = body.targetDate
+    }
+  }
+  if (body.priority !== undefined) {
+    if (!GOAL_PRIORITIES.includes(body.priority as GoalPriority)) {
+      return { error: `priority must be one of: ${GOAL_PRIORITIES.join(', ')}` }
+    }
+    values.priority = body.priority as GoalPriority
+  }
+
+  const hasAccount = body.accountId !== undefined && body.accountId !== null && body.accountId !== ''
+  const tag = typeof body.tag === 'string' ? body.tag.trim() : ''
+  if (hasAccount && tag) return { error: 'Link a goal to an account or a tag, not both' }
+  if (hasAccount) {
+    const accountId = Number(body.accountId)
+    if (!accountIds.includes(accountId)) return { error: 'Account not found' }
+    values.accountId = accountId
+    values.tag = null
+  } else if (tag) {
+    values.tag = tag
+    values.accountId = null
+  } else if (!partial) {
+    return { error: 'Link the goal to an account or a tag' }
+  }
+
+  return { values }
+}
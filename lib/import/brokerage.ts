@@ -0,0 +1,353 @@
+/**
+ * Brokerage Activity Import
+ *
+ * Reads buys, sells, dividends and fees from a brokerage OFX/QFX statement
+ * (INVTRANLIST, plus the positions in INVPOSLIST and the SECLIST) or from a
+ * brokerage CSV export with one row per activity. Rows are validated and
+ * fingerprinted here; nothing is written.
+ *
+ * Also parses the price files users load to value their holdings: a CSV of
+ * symbol, date and closing price.
+ */
+
+import Papa from 'papaparse'
+import type { AssetClass, InvestmentActivityType } from '../db/schema'
+import { isOFX, isInvestmentOFX, parseInvestmentOFX, formatOFXInvestmentAccountName } from './ofx'
+import { buildImportFingerprints } from './fingerprint'
+import { parseDateWithFormat, parseMoney } from './csv'
+
+export interface BrokerageImportRow {
+  line: number
+  date: string | null // YYYY-MM-DD trade date
+  rawDate: string
+  type: InvestmentActivityType | null
+  rawType: string
+  symbol: string
+  quantity: number // Always positive
+  price: number
+  fees: number
+  amount: number | null // Cash effect: negative for buys and fees
+  account: string
+  externalId?: string
+  fingerprint: string | null
+  errors: string[]
+}
+
+export interface BrokerageSecurity {
+  symbol: string
+  name: string
+  assetClass: AssetClass
+}
+
+export interface BrokeragePosition {
+  account: string
+  symbol: string
+  quantity: number
+  price: number
+  asOf: string // YYYY-MM-DD
+}
+
+export interface PreparedBrokerageImport {
+  format: 'csv' | 'ofx'
+  rows: BrokerageImportRow[]
+  securities: BrokerageSecurity[]
+  positions: BrokeragePosition[]
+  fileErrors: string[]
+  error?: string
+  details?: unknown
+}
+
+// Header names recognised in brokerage CSV exports
+const DATE_HEADERS = ['date', 'trade date', 'run date', 'transaction date', 'settlement date']
+const ACTION_HEADERS = ['action', 'type', 'activity', 'transaction type', 'transaction']
+const SYMBOL_HEADERS = ['symbol', 'ticker', 'security symbol']
+const NAME_HEADERS = ['description', 'security description', 'security', 'name', 'security name']
+const QUANTITY_HEADERS = ['quantity', 'shares', 'units', 'qty']
+const PRICE_HEADERS = ['price', 'unit price', 'price ($)', 'share price']
+const AMOUNT_HEADERS = ['amount', 'net amount', 'total', 'amount ($)', 'value']
+const FEE_HEADERS = ['fees', 'commission', 'fees & comm', 'fees ($)', 'commission ($)']
+const ACCOUNT_HEADERS = ['account', 'account name', 'account number']
+
+const DEFAULT_ACCOUNT = 'Brokerage'
+
+function findColumn(headers: string[], candidates: string[]): string | null {
+  for (const candidate of candidates) {
+    const match = headers.find(h => h.toLowerCase() === candidate)
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Map a brokerage action ("YOU BOUGHT", "Reinvest Dividend", "Sell") to the
+ * activity it records. Reinvested dividends are both a dividend and a buy.
+ */
+function classifyAction(action: string): InvestmentActivityType[] {
+  const value = action.toLowerCase()
+  if (value.includes('reinvest')) return ['dividend', 'buy']
+  if (/\b(buy|bought|purchase)/.test(value)) return ['buy']
+  if (/\b(sell|sold|sale|redemption)/.test(value)) return ['sell']
+  if (/\b(div|dividend|interest|distribution|capital gain)/.test(value)) return ['dividend']
+  if (/\b(fee|commission|charge)/.test(value)) return ['fee']
+  return []
+}
+
+/**
+ * Guess an asset class from the OFX security kind (STOCK, MF, DEBT, ...) and name
+ */
+export function guessAssetClass(kind: string, name: string): AssetClass {
+  const upper = name.toUpperCase()
+  if (/MONEY MARKET|CASH RESERVES|SWEEP/.test(upper)) return 'cash'
+  if (/\bETF\b|ISHARES|SPDR/.test(upper)) return 'etf'
+  if (kind === 'DEBT' || /\bBOND\b|TREASURY|\bNOTE\b/.test(upper)) return 'bond'
+  if (kind === 'MF' || /\bFUND\b/.test(upper)) return 'mutual_fund'
+  if (kind === 'STOCK') return 'stock'
+  return 'other'
+}
+
+/**
+ * Fill in the cash effect of a row from its quantity, price and fees when
+ * the file leaves it out, and give it the sign for its type
+ */
+function signedAmount(type: InvestmentActivityType, amount: number | null, quantity: number, price: number, fees: number): number | null {
+  if (amount === null) {
+    if (type === 'buy') return -(quantity * price + fees)
+    if (type === 'sell') return quantity * price - fees
+    if (type === 'fee' && fees > 0) return -fees
+    return null
+  }
+  return type === 'buy' || type === 'fee' ? -Math.abs(amount) : Math.abs(amount)
+}
+
+function validateRow(row: BrokerageImportRow): string[] {
+  const errors: string[] = []
+  if (!row.date) {
+    errors.push(row.rawDate ? `Invalid date "${row.rawDate}"` : 'Missing date')
+  }
+  if (!row.type) {
+    errors.push(row.rawType ? `Unsupported activity "${row.rawType}"` : 'Missing activity type')
+    return errors
+  }
+  if (!row.symbol && row.type !== 'fee') {
+    errors.push('Missing symbol')
+  }
+  if ((row.type === 'buy' || row.type === 'sell') && !(row.quantity > 0)) {
+    errors.push('Missing quantity')
+  }
+  if (row.amount === null) {
+    errors.push('Missing amount')
+  }
+  return errors
+}
+
+function parseBrokerageCSV(text: string): Omit<PreparedBrokerageImport, 'format'> {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.replace(/^\uFEFF/, '').trim(),
+  })
+  const headers = result.meta.fields || []
+  const columns = {
+    date: findColumn(headers, DATE_HEADERS),
+    action: findColumn(headers, ACTION_HEADERS),
+    symbol: findColumn(headers, SYMBOL_HEADERS),
+    name: findColumn(headers, NAME_HEADERS),
+    quantity: findColumn(headers, QUANTITY_HEADERS),
+    price: findColumn(headers, PRICE_HEADERS),
+    amount: findColumn(headers, AMOUNT_HEADERS),
+    fees: findColumn(headers, FEE_HEADERS),
+    account: findColumn(headers, ACCOUNT_HEADERS),
+  }
+  if (!columns.date || !columns.action) {
+    return {
+      rows: [], securities: [], positions: [], fileErrors: [],
+      error: 'Brokerage CSV needs a date column and an action/type column',
+      details: { headers },
+    }
+  }
+
+  const cell = (row: Record<string, string>, column: string | null) => (column ? (row[column] || '').trim() : '')
+  const rows: BrokerageImportRow[] = []
+  const securities = new Map<string, BrokerageSecurity>()
+
+  result.data.forEach((record, index) => {
+    const rawDate = cell(record, columns.date)
+    const rawType = cell(record, columns.action)
+    const symbol = cell(record, columns.symbol).toUpperCase()
+    const name = cell(record, columns.name)
+    const quantity = Math.abs(parseMoney(cell(record, columns.quantity)) ?? 0)
+    const price = Math.abs(parseMoney(cell(record, columns.price)) ?? 0)
+    const fees = Math.abs(parseMoney(cell(record, columns.fees)) ?? 0)
+    const amount = parseMoney(cell(record, columns.amount))
+    const account = cell(record, columns.account) || DEFAULT_ACCOUNT
+    const types = classifyAction(rawType)
+
+    if (symbol && !securities.has(symbol)) {
+      // Fund tickers are five letters ending in X; other short tickers are usually stocks or ETFs
+      const kind = /^[A-Z]{4}X$/.test(symbol) ? 'MF' : /^[A-Z.-]{1,5}$/.test(symbol) ? 'STOCK' : ''
+      securities.set(symbol, { symbol, name: name || symbol, assetClass: guessAssetClass(kind, name) })
+    }
+
+    for (const type of types.length > 0 ? types : [null]) {
+      // A reinvestment's dividend is the cash that paid for the buy
+      const reinvestedDividend = type === 'dividend' && types.length > 1
+      rows.push({
+        line: index + 1,
+        date: parseDateWithFormat(rawDate, 'auto'),
+        rawDate,
+        type,
+        rawType,
+        symbol,
+        quantity: type === 'buy' || type === 'sell' ? quantity : 0,
+        price: type === 'buy' || type === 'sell' ? price : 0,
+        fees: type === 'dividend' ? 0 : fees,
+        amount: type
+          ? signedAmount(type, reinvestedDividend && amount === null ? quantity * price : amount, quantity, price, fees)
+          : amount,
+        account,
+        fingerprint: null,
+        errors: [],
+      })
+    }
+  })
+
+  return {
+    rows,
+    securities: Array.from(securities.values()),
+    positions: [],
+    fileErrors: result.errors.map(e => `Row ${(e.row ?? 0) + 1}: ${e.message}`),
+  }
+}
+
+function readBrokerageOFX(text: string): Omit<PreparedBrokerageImport, 'format'> {
+  const { statements, securities: ofxSecurities } = parseInvestmentOFX(text)
+
+  // Activity refers to securities by CUSIP; show them by ticker where the SECLIST has one
+  const symbols = new Map<string, string>()
+  const securities = new Map<string, BrokerageSecurity>()
+  for (const security of ofxSecurities) {
+    const symbol = (security.ticker || security.uniqueId).toUpperCase()
+    symbols.set(security.uniqueId, symbol)
+    securities.set(symbol, {
+      symbol,
+      name: security.name || symbol,
+      assetClass: guessAssetClass(security.kind, security.name || ''),
+    })
+  }
+  const symbolFor = (uniqueId: string | undefined) => {
+    if (!uniqueId) return ''
+    const symbol = symbols.get(uniqueId) || uniqueId.toUpperCase()
+    if (!securities.has(symbol)) securities.set(symbol, { symbol, name: symbol, assetClass: 'other' })
+    return symbol
+  }
+
+  const rows: BrokerageImportRow[] = []
+  const positions: BrokeragePosition[] = []
+  for (const statement of statements) {
+    const account = formatOFXInvestmentAccountName(statement.account)
+    for (const trn of statement.transactions) {
+      rows.push({
+        line: rows.length + 1,
+        date: trn.tradeDate,
+        rawDate: trn.tradeDate,
+        type: trn.type,
+        rawType: trn.type,
+        symbol: symbolFor(trn.securityId),
+        quantity: trn.units,
+        price: trn.unitPrice,
+        fees: trn.fees,
+        amount: trn.total,
+        account,
+        externalId: trn.fitId || undefined,
+        fingerprint: null,
+        errors: [],
+      })
+    }
+    for (const position of statement.positions) {
+      positions.push({
+        account,
+        symbol: symbolFor(position.securityId),
+        quantity: position.units,
+        price: position.unitPrice,
+        asOf: position.priceAsOf,
+      })
+    }
+  }
+
+  return { rows, securities: Array.from(securities.values()), positions, fileErrors: [] }
+}
+
+/**
+ * Parse, validate and fingerprint a brokerage statement file
+ */
+export function prepareBrokerageImport(text: string): PreparedBrokerageImport {
+  let parsed: Omit<PreparedBrokerageImport, 'format'>
+  const format = isOFX(text) ? 'ofx' : 'csv'
+  if (format === 'ofx') {
+    if (!isInvestmentOFX(text)) {
+      return { format, rows: [], securities: [], positions: [], fileErrors: [], error: 'This is a bank statement; import it from the Upload page' }
+    }
+    try {
+      parsed = readBrokerageOFX(text)
+    } catch (error) {
+      return { format, rows: [], securities: [], positions: [], fileErrors: [], error: 'Error parsing OFX', details: String(error) }
+    }
+  } else {
+    parsed = parseBrokerageCSV(text)
+    if (parsed.error) return { format, ...parsed }
+  }
+
+  for (const row of parsed.rows) {
+    row.errors = validateRow(row)
+  }
+
+  // Type, symbol and quantity go in the description so a buy and a dividend
+  // of the same amount on the same day aren't taken for duplicates
+  const validRows = parsed.rows.filter(r => r.errors.length === 0)
+  const fingerprints = buildImportFingerprints(validRows.map(r => ({
+    date: r.date!,
+    amount: r.amount!,
+    description: `${r.type} ${r.symbol} ${r.quantity}`,
+    account: r.account,
+    externalId: r.externalId,
+  })))
+  validRows.forEach((row, i) => { row.fingerprint = fingerprints[i] })
+
+  return { format, ...parsed }
+}
+
+/**
+ * Parse a price CSV with symbol, date and price (or close) columns
+ */
+export function parsePriceCSV(text: string): {
+  prices: Array<{ symbol: string; date: string; price: number }>
+  errors: string[]
+} {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.replace(/^\uFEFF/, '').trim(),
+  })
+  const headers = result.meta.fields || []
+  const symbolColumn = findColumn(headers, SYMBOL_HEADERS)
+  const dateColumn = findColumn(headers, DATE_HEADERS)
+  const priceColumn = findColumn(headers, ['price', 'close', 'closing price', 'adj close', 'last price'])
+  if (!symbolColumn || !dateColumn || !priceColumn) {
+    return { prices: [], errors: ['Price CSV needs symbol, date and price columns'] }
+  }
+
+  const prices: Array<{ symbol: string; date: string; price: number }> = []
+  const errors: string[] = []
+  result.data.forEach((record, index) => {
+    const symbol = (record[symbolColumn] || '').trim().toUpperCase()
+    const rawDate = (record[dateColumn] || '').trim()
+    const date = parseDateWithFormat(rawDate, 'auto')
+    const price = parseMoney(record[priceColumn])
+    if (!symbol || !date || price === null || price < 0) {
+      errors.push(`Skipping row ${index + 1}: needs a symbol, a date and a price`)
+      return
+    }
+    prices.push({ symbol, date, price })
+  })
+  return { prices, errors }
+}
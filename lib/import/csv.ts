@@ -0,0 +1,251 @@
+/**
+ * CSV Statement Parser
+ *
+ * Parses bank CSV exports using an explicit column mapping (an "import profile"):
+ * which columns hold the date/description/amount, the date format, the sign
+ * convention, the delimiter and how many preamble lines precede the header row.
+ *
+ * This module has no server-only dependencies so the upload UI can use it to
+ * read headers and preview mappings in the browser.
+ */
+
+import Papa from 'papaparse'
+
+export const DATE_FORMATS = ['auto', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY/MM/DD', 'DD.MM.YYYY'] as const
+export type DateFormat = typeof DATE_FORMATS[number]
+
+// signed:       one amount column, negative = expense
+// inverted:     one amount column, positive = expense (common on credit card exports)
+// debit_credit: separate debit and credit columns, both usually positive
+export const AMOUNT_SIGNS = ['signed', 'inverted', 'debit_credit'] as const
+export type AmountSign = typeof AMOUNT_SIGNS[number]
+
+export interface CSVImportSettings {
+  delimiter: string // '' = auto-detect
+  headerRowOffset: number // Lines to skip before the header row
+  dateColumn: string
+  descriptionColumn: string
+  amountColumn?: string | null
+  debitColumn?: string | null
+  creditColumn?: string | null
+  accountColumn?: string | null
+  defaultAccount?: string | null
+  dateFormat: DateFormat
+  amountSign: AmountSign
+}
+
+export interface ParsedCSVRow {
+  line: number // 1-based data row number, for error messages
+  date: string | null // YYYY-MM-DD, null if unparseable
+  rawDate: string
+  description: string
+  amount: number | null // Signed: negative = expense, null if unparseable
+  rawAmount: string
+  account: string
+}
+
+// Header names we recognise when no profile exists yet
+const DATE_HEADERS = ['date', 'transaction date', 'posting date', 'posted date', 'trans. date', 'value date']
+const DESCRIPTION_HEADERS = ['description', 'merchant', 'name', 'payee', 'memo', 'details', 'transaction description']
+const AMOUNT_HEADERS = ['amount', 'transaction amount', 'amount (usd)']
+const DEBIT_HEADERS = ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out']
+const CREDIT_HEADERS = ['credit', 'credit amount', 'deposit', 'deposits', 'money in']
+const ACCOUNT_HEADERS = ['account', 'account name', 'card', 'account number']
+
+function skipPreamble(text: string, headerRowOffset: number): string {
+  if (headerRowOffset <= 0) return text
+  return text.split(/\r?\n/).slice(headerRowOffset).join('\n')
+}
+
+/**
+ * Read the header row of a CSV file
+ */
+export function readCSVHeaders(
+  text: string,
+  options: { delimiter?: string; headerRowOffset?: number } = {}
+): { headers: string[]; delimiter: string } {
+  const result = Papa.parse<string[]>(skipPreamble(text, options.headerRowOffset || 0), {
+    delimiter: options.delimiter || '',
+    preview: 1,
+    skipEmptyLines: true,
+  })
+  const headers = (result.data[0] || []).map(h => h.trim()).filter(h => h.length > 0)
+  return { headers, delimiter: result.meta.delimiter }
+}
+
+/**
+ * Fingerprint a header row so a saved profile can be matched on upload.
+ * Case, whitespace and a UTF-8 BOM are ignored; column order is not.
+ */
+export function computeHeaderFingerprint(headers: string[]): string {
+  return headers
+    .map(h => h.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|')
+}
+
+function findHeader(headers: string[], candidates: string[]): string | null {
+  for (const candidate of candidates) {
+    const match = headers.find(h => h.trim().toLowerCase() === candidate)
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Guess import settings from a header row (used when no saved profile matches)
+ */
+export function guessCSVSettings(headers: string[], delimiter = ''): CSVImportSettings {
+  const amountColumn = findHeader(headers, AMOUNT_HEADERS)
+  const debitColumn = findHeader(headers, DEBIT_HEADERS)
+  const creditColumn = findHeader(headers, CREDIT_HEADERS)
+  const useDebitCredit = !amountColumn && !!(debitColumn || creditColumn)
+
+  return {
+    delimiter,
+    headerRowOffset: 0,
+    dateColumn: findHeader(headers, DATE_HEADERS) || headers[0] || '',
+    descriptionColumn: findHeader(headers, DESCRIPTION_HEADERS) || headers[1] || '',
+    amountColumn: useDebitCredit ? null : amountColumn,
+    debitColumn: useDebitCredit ? debitColumn : null,
+    creditColumn: useDebitCredit ? creditColumn : null,
+    accountColumn: findHeader(headers, ACCOUNT_HEADERS),
+    defaultAccount: null,
+    dateFormat: 'auto',
+    amountSign: useDebitCredit ? 'debit_credit' : 'signed',
+  }
+}
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1) return null // e.g. 31/02
+  return date.toISOString().split('T')[0]
+}
+
+function expandYear(year: string): number {
+  const value = parseInt(year, 10)
+  if (year.length > 2) return value
+  return value < 70 ? 2000 + value : 1900 + value
+}
+
+/**
+ * Parse a date string using an explicit format. Returns YYYY-MM-DD or null.
+ * 'auto' accepts ISO dates and anything Date can parse (US month-first).
+ */
+export function parseDateWithFormat(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const parts = trimmed.split(/[\s T]/)[0].split(/[-/.]/)
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      if (parts.length !== 3) return null
+      return toISODate(parseInt(parts[0], 10), parseInt(parts[1], 10), parseInt(parts[2], 10))
+    case 'MM/DD/YYYY':
+      if (parts.length !== 3) return null
+      return toISODate(expandYear(parts[2]), parseInt(parts[0], 10), parseInt(parts[1], 10))
+    case 'DD/MM/YYYY':
+    case 'DD.MM.YYYY':
+      if (parts.length !== 3) return null
+      return toISODate(expandYear(parts[2]), parseInt(parts[1], 10), parseInt(parts[0], 10))
+    case 'auto': {
+      const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+      if (iso) return toISODate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10))
+      const date = new Date(trimmed)
+      if (isNaN(date.getTime())) return null
+      return toISODate(date.getFullYear(), date.getMonth() + 1, date.getDate())
+    }
+  }
+}
+
+/**
+ * Parse a money value: handles currency symbols, thousands separators, decimal
+ * commas, trailing minus signs and accounting-style parentheses. Returns null if unparseable.
+ */
+export function parseMoney(value: string | number | undefined | null): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value
+  if (!value) return null
+
+  let cleaned = value.trim()
+  if (!cleaned) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true
+    cleaned = cleaned.slice(1, -1)
+  }
+  if (cleaned.endsWith('-')) {
+    negative = true
+    cleaned = cleaned.slice(0, -1)
+  }
+
+  cleaned = cleaned.replace(/[^\d.,+-]/g, '')
+  const lastComma = cleaned.lastIndexOf(',')
+  const isDecimalComma = lastComma > cleaned.lastIndexOf('.') && /,\d{1,2}$/.test(cleaned)
+  cleaned = isDecimalComma
+    ? cleaned.replace(/\./g, '').replace(',', '.') // European: 1.234,56
+    : cleaned.replace(/,/g, '')
+  if (!/\d/.test(cleaned)) return null
+
+  const amount = parseFloat(cleaned)
+  if (isNaN(amount)) return null
+  return negative ? -Math.abs(amount) : amount
+}
+
+function computeAmount(row: Record<string, string>, settings: CSVImportSettings): { amount: number | null; raw: string } {
+  if (settings.amountSign === 'debit_credit') {
+    const rawDebit = settings.debitColumn ? (row[settings.debitColumn] || '') : ''
+    const rawCredit = settings.creditColumn ? (row[settings.creditColumn] || '') : ''
+    const debit = parseMoney(rawDebit)
+    const credit = parseMoney(rawCredit)
+    const raw = [rawDebit, rawCredit].filter(Boolean).join(' / ')
+    if (debit === null && credit === null) return { amount: null, raw }
+    return { amount: Math.abs(credit || 0) - Math.abs(debit || 0), raw }
+  }
+
+  const raw = settings.amountColumn ? (row[settings.amountColumn] || '') : ''
+  const amount = parseMoney(raw)
+  if (amount === null) return { amount: null, raw }
+  return { amount: settings.amountSign === 'inverted' ? -amount : amount, raw }
+}
+
+/**
+ * Parse CSV text into rows using the given settings
+ */
+export function parseCSVWithSettings(
+  text: string,
+  settings: CSVImportSettings
+): { rows: ParsedCSVRow[]; errors: string[] } {
+  const result = Papa.parse<Record<string, string>>(skipPreamble(text, settings.headerRowOffset), {
+    header: true,
+    delimiter: settings.delimiter || '',
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  })
+
+  const errors = result.errors.map(e => `Row ${(e.row ?? 0) + 1}: ${e.message}`)
+  const rows: ParsedCSVRow[] = []
+
+  result.data.forEach((row, index) => {
+    const rawDate = (row[settings.dateColumn] || '').trim()
+    const description = (row[settings.descriptionColumn] || '').trim()
+    const { amount, raw: rawAmount } = computeAmount(row, settings)
+    const account = (settings.accountColumn ? row[settings.accountColumn] : '')?.trim()
+      || settings.defaultAccount
+      || 'Default'
+
+    rows.push({
+      line: index + 1,
+      date: parseDateWithFormat(rawDate, settings.dateFormat),
+      rawDate,
+      description,
+      amount,
+      rawAmount,
+      account,
+    })
+  })
+
+  return { rows, errors }
+}
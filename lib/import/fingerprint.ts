@@ -0,0 +1,61 @@
+/**
+ * Import Fingerprints
+ *
+ * Every imported transaction gets a stable fingerprint so that uploading the
+ * same (or an overlapping) statement twice doesn't create duplicates.
+ *
+ * - When the source carries an external ID (OFX FITID) the fingerprint is
+ *   built from the account and that ID.
+ * - Otherwise it's built from date + amount + normalized description + account,
+ *   plus an occurrence counter so two genuinely identical transactions in the
+ *   same file (two $5.50 coffees on the same day) are both kept.
+ */
+
+import { createHash } from 'crypto'
+
+export interface FingerprintInput {
+  date: string // YYYY-MM-DD
+  amount: number
+  description: string
+  account: string
+  externalId?: string
+}
+
+/**
+ * Normalize a description for fingerprinting. Deliberately conservative:
+ * only case and whitespace are folded so different merchants never collide.
+ */
+export function normalizeDescriptionForFingerprint(description: string): string {
+  return description.toUpperCase().replace(/\s+/g, ' ').trim()
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32)
+}
+
+/**
+ * Build fingerprints for a list of rows from a single file, in file order
+ */
+export function buildImportFingerprints(rows: FingerprintInput[]): string[] {
+  const occurrences = new Map<string, number>()
+
+  return rows.map(row => {
+    const account = row.account.trim().toUpperCase()
+
+    if (row.externalId) {
+      return hash(`ext|${account}|${row.externalId}`)
+    }
+
+    const key = [
+      row.date,
+      row.amount.toFixed(2),
+      normalizeDescriptionForFingerprint(row.description),
+      account,
+    ].join('|')
+
+    const occurrence = (occurrences.get(key) || 0) + 1
+    occurrences.set(key, occurrence)
+
+    return hash(`row|${key}|${occurrence}`)
+  })
+}
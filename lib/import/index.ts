@@ -0,0 +1,187 @@
+/**
+ * Statement Import Pipeline
+ *
+ * Shared by the upload route's preview (dry-run) and commit modes:
+ * 1. Parse the file (OFX/QFX or CSV via an import profile) into rows
+ * 2. Validate each row, keeping per-row errors instead of silently
+ *    falling back to today's date or a zero amount
+ * 3. Fingerprint valid rows and flag duplicates of existing transactions
+ * 4. Categorize the rows that would be inserted
+ */
+
+import { getExistingFingerprints, getImportProfiles } from '../db/queries'
+import type { ImportProfile, AccountType } from '../db/schema'
+import { batchCategorize, type CategorizationResult } from '../smartCategorization'
+import { isOFX, parseOFX, formatOFXAccountName } from './ofx'
+import { buildImportFingerprints } from './fingerprint'
+import { parseCSVWithSettings } from './csv'
+import { resolveCSVSettings } from './profiles'
+
+export type ImportFormat = 'csv' | 'ofx'
+
+export interface ImportRow {
+  line: number
+  date: string | null // YYYY-MM-DD
+  rawDate: string
+  description: string
+  amount: number | null
+  rawAmount: string
+  account: string
+  accountType?: AccountType // Known for OFX statements
+  externalId?: string
+}
+
+export interface PreparedImportRow extends ImportRow {
+  fingerprint: string | null
+  duplicate: boolean
+  errors: string[]
+  categorization: CategorizationResult | null
+}
+
+export interface PreparedImport {
+  format: ImportFormat
+  profile: ImportProfile | null
+  headers: string[]
+  rows: PreparedImportRow[]
+  fileErrors: string[]
+  error?: string
+  details?: unknown
+}
+
+const OFX_ACCOUNT_TYPES: Record<string, AccountType> = {
+  CHECKING: 'checking',
+  SAVINGS: 'savings',
+  MONEYMRKT: 'savings',
+  CREDITLINE: 'credit_card',
+  CREDITCARD: 'credit_card',
+}
+
+/**
+ * Parse a statement file into raw rows
+ */
+async function parseStatementFile(
+  userId: string,
+  text: string,
+  profileId?: number
+): Promise<Omit<PreparedImport, 'rows'> & { rows: ImportRow[] }> {
+  if (isOFX(text)) {
+    try {
+      const rows: ImportRow[] = []
+      for (const statement of parseOFX(text)) {
+        const account = formatOFXAccountName(statement.account)
+        const accountType = OFX_ACCOUNT_TYPES[statement.account.accountType]
+        for (const trn of statement.transactions) {
+          rows.push({
+            line: rows.length + 1,
+            date: trn.datePosted,
+            rawDate: trn.datePosted,
+            description: trn.name,
+            amount: trn.amount,
+            rawAmount: String(trn.amount),
+            account,
+            accountType,
+            externalId: trn.fitId || undefined,
+          })
+        }
+      }
+      return { format: 'ofx', profile: null, headers: [], rows, fileErrors: [] }
+    } catch (error) {
+      return { format: 'ofx', profile: null, headers: [], rows: [], fileErrors: [], error: 'Error parsing OFX', details: String(error) }
+    }
+  }
+
+  // CSV: use the chosen profile, a profile matching the header row, or guessed columns
+  const profiles = await getImportProfiles(userId)
+  const explicitProfile = profileId !== undefined
+    ? profiles.find(p => p.id === profileId)
+    : undefined
+  if (profileId !== undefined && !explicitProfile) {
+    return { format: 'csv', profile: null, headers: [], rows: [], fileErrors: [], error: 'Import profile not found' }
+  }
+
+  const { settings, profile, headers } = resolveCSVSettings(text, profiles, explicitProfile)
+  const result = parseCSVWithSettings(text, settings)
+
+  if (result.errors.length > 0 && result.rows.length === 0) {
+    return { format: 'csv', profile, headers, rows: [], fileErrors: result.errors, error: 'Error parsing CSV', details: result.errors }
+  }
+
+  return { format: 'csv', profile, headers, rows: result.rows, fileErrors: result.errors }
+}
+
+/**
+ * Validate a parsed row, returning human-readable problems
+ */
+function validateRow(row: ImportRow): string[] {
+  const errors: string[] = []
+  if (!row.date) {
+    errors.push(row.rawDate ? `Invalid date "${row.rawDate}"` : 'Missing date')
+  }
+  if (!row.description) {
+    errors.push('Missing description')
+  }
+  if (row.amount === null) {
+    errors.push(row.rawAmount ? `Invalid amount "${row.rawAmount}"` : 'Missing amount')
+  }
+  return errors
+}
+
+/**
+ * Parse, validate, de-duplicate and categorize a statement file without writing anything
+ */
+export async function prepareImport(
+  userId: string,
+  text: string,
+  options: {
+    profileId?: number
+    ignoreExisting?: boolean // Set when existing transactions are about to be cleared
+  } = {}
+): Promise<PreparedImport> {
+  const parsed = await parseStatementFile(userId, text, options.profileId)
+  if (parsed.error) {
+    return { ...parsed, rows: [] }
+  }
+
+  const rows: PreparedImportRow[] = parsed.rows.map(row => ({
+    ...row,
+    fingerprint: null,
+    duplicate: false,
+    errors: validateRow(row),
+    categorization: null,
+  }))
+
+  // Fingerprint valid rows so re-imports can be detected
+  const validRows = rows.filter(r => r.errors.length === 0)
+  const fingerprints = buildImportFingerprints(validRows.map(r => ({
+    date: r.date!,
+    amount: r.amount!,
+    description: r.description,
+    account: r.account,
+    externalId: r.externalId,
+  })))
+  validRows.forEach((row, i) => { row.fingerprint = fingerprints[i] })
+
+  // Flag rows that already exist (overlapping or repeated statement uploads)
+  const existing = options.ignoreExisting
+    ? new Set<string>()
+    : await getExistingFingerprints(userId, fingerprints)
+  const seenInFile = new Set<string>()
+  for (const row of validRows) {
+    if (existing.has(row.fingerprint!) || seenInFile.has(row.fingerprint!)) {
+      row.duplicate = true
+    }
+    seenInFile.add(row.fingerprint!)
+  }
+
+  // Batch categorize only the rows that would be inserted
+  const toCategorize = validRows.filter(r => !r.duplicate)
+  const categorizations = await batchCategorize(userId, toCategorize.map(r => ({
+    description: r.description,
+    amount: r.amount,
+    account: r.account,
+    date: r.date,
+  })))
+  toCategorize.forEach((row, i) => { row.categorization = categorizations[i] })
+
+  return { ...parsed, rows }
+}
@@ -0,0 +1,381 @@
+/**
+ * OFX/QFX Statement Parser
+ *
+ * Parses Open Financial Exchange statements exported by most banks.
+ * Handles both the SGML flavour (OFX 1.x, where leaf elements have no
+ * closing tags) and the XML flavour (OFX 2.x). QFX is OFX with a few
+ * Intuit-specific extras, so it goes through the same parser.
+ */
+
+export interface OFXAccount {
+  accountId: string
+  accountType: string // CHECKING | SAVINGS | CREDITLINE | CREDITCARD | MONEYMRKT
+  bankId?: string
+}
+
+export interface OFXTransaction {
+  fitId: string
+  type: string // DEBIT | CREDIT | POS | ATM | XFER | ...
+  datePosted: string // YYYY-MM-DD
+  amount: number
+  name: string
+  memo?: string
+  checkNumber?: string
+}
+
+export interface OFXSecurity {
+  uniqueId: string // CUSIP, usually
+  ticker?: string
+  name?: string
+  kind: string // STOCK | MF | DEBT | OPT | OTHER, from the SECLIST aggregate it came from
+}
+
+export interface OFXInvestmentTransaction {
+  fitId: string
+  type: 'buy' | 'sell' | 'dividend' | 'fee'
+  tradeDate: string // YYYY-MM-DD
+  securityId?: string // SECID UNIQUEID
+  units: number // Always positive
+  unitPrice: number
+  fees: number // Commission plus fees
+  total: number // Cash effect: negative for buys and fees
+  memo?: string
+}
+
+export interface OFXPosition {
+  securityId: string
+  units: number
+  unitPrice: number
+  priceAsOf: string // YYYY-MM-DD
+}
+
+export interface OFXInvestmentStatement {
+  account: { accountId: string; brokerId?: string }
+  transactions: OFXInvestmentTransaction[]
+  positions: OFXPosition[]
+}
+
+export interface OFXStatement {
+  account: OFXAccount
+  currency?: string
+  ledgerBalance?: {
+    amount: number
+    asOf: string // YYYY-MM-DD
+  }
+  transactions: OFXTransaction[]
+}
+
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  CHECKING: 'Checking',
+  SAVINGS: 'Savings',
+  MONEYMRKT: 'Money Market',
+  CREDITLINE: 'Credit Line',
+  CREDITCARD: 'Credit Card',
+}
+
+/**
+ * Detect whether file contents look like an OFX/QFX statement
+ */
+export function isOFX(text: string): boolean {
+  const head = text.slice(0, 2048).toUpperCase()
+  return head.includes('OFXHEADER') || head.includes('<OFX>') || /<\?OFX\s/.test(head)
+}
+
+/**
+ * Decode the handful of entities that appear in OFX values
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+}
+
+/**
+ * Read a leaf element value. Works for SGML (`<NAME>Foo`) and
+ * XML (`<NAME>Foo</NAME>`) since the value always ends at the next tag or newline.
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  if (!match) return undefined
+  const value = decodeEntities(match[1]).trim()
+  return value.length > 0 ? value : undefined
+}
+
+/**
+ * Read every occurrence of an aggregate (aggregates are closed in both flavours)
+ */
+function readAggregates(block: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')
+  const blocks: string[] = []
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(block)) !== null) {
+    blocks.push(match[1])
+  }
+  return blocks
+}
+
+/**
+ * Convert an OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]) to YYYY-MM-DD
+ */
+export function parseOFXDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) return null
+  return `${match[1]}-${match[2]}-${match[3]}`
+}
+
+/**
+ * Parse an OFX amount. Some banks emit a comma as the decimal separator
+ * ("12,50"); a comma is read that way only when there's no dot and at most
+ * two digits follow it, otherwise commas are thousands separators ("1,234.56").
+ */
+function parseOFXAmount(value: string | undefined): number | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  const normalized = /^[+-]?\d*,\d{1,2}$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed.replace(/,/g, '')
+  const amount = parseFloat(normalized.replace(/[^\d.+-]/g, ''))
+  return isNaN(amount) ? null : amount
+}
+
+function parseStatement(block: string, isCreditCard: boolean): OFXStatement {
+  const accountBlock = readAggregates(block, isCreditCard ? 'CCACCTFROM' : 'BANKACCTFROM')[0] || ''
+  const account: OFXAccount = {
+    accountId: readTag(accountBlock, 'ACCTID') || 'UNKNOWN',
+    accountType: isCreditCard ? 'CREDITCARD' : (readTag(accountBlock, 'ACCTTYPE') || 'CHECKING').toUpperCase(),
+    bankId: readTag(accountBlock, 'BANKID'),
+  }
+
+  const transactions: OFXTransaction[] = []
+  for (const trn of readAggregates(block, 'STMTTRN')) {
+    const datePosted = parseOFXDate(readTag(trn, 'DTPOSTED') || '')
+    const amount = parseOFXAmount(readTag(trn, 'TRNAMT'))
+    if (!datePosted || amount === null) continue
+
+    const name = readTag(trn, 'NAME')
+    const memo = readTag(trn, 'MEMO')
+    // Some banks put the payee in a nested PAYEE aggregate instead of NAME
+    const payeeName = readAggregates(trn, 'PAYEE').map(p => readTag(p, 'NAME'))[0]
+
+    transactions.push({
+      fitId: readTag(trn, 'FITID') || '',
+      type: (readTag(trn, 'TRNTYPE') || 'OTHER').toUpperCase(),
+      datePosted,
+      amount,
+      name: name || payeeName || memo || '',
+      memo: memo && memo !== name ? memo : undefined,
+      checkNumber: readTag(trn, 'CHECKNUM'),
+    })
+  }
+
+  const ledgerBlock = readAggregates(block, 'LEDGERBAL')[0]
+  const balanceAmount = ledgerBlock ? parseOFXAmount(readTag(ledgerBlock, 'BALAMT')) : null
+  const balanceDate = ledgerBlock ? parseOFXDate(readTag(ledgerBlock, 'DTASOF') || '') : null
+
+  return {
+    account,
+    currency: readTag(block, 'CURDEF'),
+    ledgerBalance: balanceAmount !== null && balanceDate
+      ? { amount: balanceAmount, asOf: balanceDate }
+      : undefined,
+    transactions,
+  }
+}
+
+/**
+ * Parse an OFX/QFX document into one statement per account block.
+ * Files exported for several accounts at once contain several STMTRS/CCSTMTRS blocks.
+ */
+export function parseOFX(text: string): OFXStatement[] {
+  const statements: OFXStatement[] = []
+
+  for (const block of readAggregates(text, 'STMTRS')) {
+    statements.push(parseStatement(block, false))
+  }
+  for (const block of readAggregates(text, 'CCSTMTRS')) {
+    statements.push(parseStatement(block, true))
+  }
+
+  if (statements.length === 0) {
+    if (isInvestmentOFX(text)) {
+      throw new Error('This is a brokerage statement; import it from the Portfolio page')
+    }
+    throw new Error('No bank or credit card statement found in OFX file')
+  }
+
+  return statements
+}
+
+// Accounts are matched by name, so the name carries the bank or broker ID:
+// two institutions can both have a checking account ending in 1234
+function formatAccountName(label: string, accountId: string, institutionId?: string): string {
+  const lastFour = accountId.replace(/\s/g, '').slice(-4)
+  const institution = institutionId?.trim()
+  return institution ? `${label} ••${lastFour} (${institution})` : `${label} ••${lastFour}`
+}
+
+/**
+ * Human-readable account name from an OFX account block, e.g.
+ * "Checking ••1234 (021000021)"
+ */
+export function formatOFXAccountName(account: OFXAccount): string {
+  return formatAccountName(ACCOUNT_TYPE_LABELS[account.accountType] || 'Account', account.accountId, account.bankId)
+}
+
+// Aggregates inside INVTRANLIST, by the activity they record. Reinvested
+// income is read twice: once as the dividend and once as the buy.
+const INVESTMENT_BUY_TAGS = ['BUYSTOCK', 'BUYMF', 'BUYDEBT', 'BUYOTHER', 'REINVEST']
+const INVESTMENT_SELL_TAGS = ['SELLSTOCK', 'SELLMF', 'SELLDEBT', 'SELLOTHER']
+const INVESTMENT_INCOME_TAGS = ['INCOME', 'REINVEST']
+const INVESTMENT_FEE_TAGS = ['INVEXPENSE', 'MARGININTEREST']
+const SECURITY_INFO_TAGS: Record<string, string> = {
+  STOCKINFO: 'STOCK',
+  MFINFO: 'MF',
+  DEBTINFO: 'DEBT',
+  OPTINFO: 'OPT',
+  OTHERINFO: 'OTHER',
+}
+
+/**
+ * Detect whether an OFX document holds brokerage statements
+ */
+export function isInvestmentOFX(text: string): boolean {
+  return /<INVSTMTRS>/i.test(text)
+}
+
+function readSecurityId(block: string): string | undefined {
+  const secId = readAggregates(block, 'SECID')[0]
+  return secId ? readTag(secId, 'UNIQUEID') : undefined
+}
+
+/**
+ * Read one investment transaction aggregate (BUYSTOCK, INCOME, ...). Returns
+ * null when it has no usable date or total.
+ */
+function parseInvestmentTransaction(
+  tag: string,
+  block: string,
+  type: OFXInvestmentTransaction['type']
+): OFXInvestmentTransaction | null {
+  const invTran = readAggregates(block, 'INVTRAN')[0] || ''
+  const tradeDate = parseOFXDate(readTag(invTran, 'DTTRADE') || '')
+  const total = parseOFXAmount(readTag(block, 'TOTAL'))
+  if (!tradeDate || total === null) return null
+
+  const fees = (parseOFXAmount(readTag(block, 'COMMISSION')) ?? 0) + (parseOFXAmount(readTag(block, 'FEES')) ?? 0)
+  const fitId = readTag(invTran, 'FITID') || ''
+  const base = {
+    // A REINVEST yields two rows from one FITID, so keep them apart
+    fitId: tag === 'REINVEST' && fitId ? `${fitId}:${type}` : fitId,
+    tradeDate,
+    securityId: readSecurityId(block),
+    memo: readTag(invTran, 'MEMO'),
+  }
+
+  if (type === 'dividend') {
+    return { ...base, type, units: 0, unitPrice: 0, fees: 0, total: Math.abs(total) }
+  }
+  if (type === 'fee') {
+    return { ...base, type, units: 0, unitPrice: 0, fees: Math.abs(total), total: -Math.abs(total) }
+  }
+  return {
+    ...base,
+    type,
+    units: Math.abs(parseOFXAmount(readTag(block, 'UNITS')) ?? 0),
+    unitPrice: parseOFXAmount(readTag(block, 'UNITPRICE')) ?? 0,
+    fees,
+    total: type === 'buy' ? -Math.abs(total) : Math.abs(total),
+  }
+}
+
+/**
+ * Read every aggregate named in `tags`, in document order
+ */
+function readAggregatesOf(block: string, tags: string[]): Array<{ tag: string; body: string; index: number }> {
+  const found: Array<{ tag: string; body: string; index: number }> = []
+  for (const tag of tags) {
+    const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(block)) !== null) {
+      found.push({ tag, body: match[1], index: match.index })
+    }
+  }
+  return found.sort((a, b) => a.index - b.index)
+}
+
+function parseInvestmentStatement(block: string): OFXInvestmentStatement {
+  const accountBlock = readAggregates(block, 'INVACCTFROM')[0] || ''
+  const tranList = readAggregates(block, 'INVTRANLIST')[0] || ''
+
+  const transactions: OFXInvestmentTransaction[] = []
+  const kinds: Array<[string[], OFXInvestmentTransaction['type']]> = [
+    [INVESTMENT_INCOME_TAGS, 'dividend'],
+    [INVESTMENT_BUY_TAGS, 'buy'],
+    [INVESTMENT_SELL_TAGS, 'sell'],
+    [INVESTMENT_FEE_TAGS, 'fee'],
+  ]
+  const rows: Array<{ index: number; trn: OFXInvestmentTransaction }> = []
+  for (const [tags, type] of kinds) {
+    for (const { tag, body, index } of readAggregatesOf(tranList, tags)) {
+      const trn = parseInvestmentTransaction(tag, body, type)
+      if (trn) rows.push({ index, trn })
+    }
+  }
+  // Stable sort keeps a reinvestment's dividend ahead of its buy
+  transactions.push(...rows.sort((a, b) => a.index - b.index).map(r => r.trn))
+
+  const positions: OFXPosition[] = []
+  for (const pos of readAggregates(block, 'INVPOS')) {
+    const securityId = readSecurityId(pos)
+    const units = parseOFXAmount(readTag(pos, 'UNITS'))
+    const unitPrice = parseOFXAmount(readTag(pos, 'UNITPRICE'))
+    const priceAsOf = parseOFXDate(readTag(pos, 'DTPRICEASOF') || '')
+    if (!securityId || units === null || unitPrice === null || !priceAsOf) continue
+    positions.push({ securityId, units, unitPrice, priceAsOf })
+  }
+
+  return {
+    account: {
+      accountId: readTag(accountBlock, 'ACCTID') || 'UNKNOWN',
+      brokerId: readTag(accountBlock, 'BROKERID'),
+    },
+    transactions,
+    positions,
+  }
+}
+
+/**
+ * Parse the brokerage statements in an OFX/QFX document, with the securities
+ * listed in its SECLIST
+ */
+export function parseInvestmentOFX(text: string): { statements: OFXInvestmentStatement[]; securities: OFXSecurity[] } {
+  const statements = readAggregates(text, 'INVSTMTRS').map(parseInvestmentStatement)
+  if (statements.length === 0) {
+    throw new Error('No brokerage statement found in OFX file')
+  }
+
+  const securities: OFXSecurity[] = []
+  const secList = readAggregates(text, 'SECLIST')[0] || ''
+  for (const { tag, body } of readAggregatesOf(secList, Object.keys(SECURITY_INFO_TAGS))) {
+    const secInfo = readAggregates(body, 'SECINFO')[0] || ''
+    const uniqueId = readSecurityId(secInfo)
+    if (!uniqueId) continue
+    securities.push({
+      uniqueId,
+      ticker: readTag(secInfo, 'TICKER'),
+      name: readTag(secInfo, 'SECNAME'),
+      kind: SECURITY_INFO_TAGS[tag],
+    })
+  }
+
+  return { statements, securities }
+}
+
+/**
+ * Human-readable brokerage account name, e.g. "Brokerage ••1234 (fidelity.com)"
+ */
+export function formatOFXInvestmentAccountName(account: OFXInvestmentStatement['account']): string {
+  return formatAccountName('Brokerage', account.accountId, account.brokerId)
+}
@@ -0,0 +1,122 @@
+/**
+ * Import Profile Helpers
+ *
+ * Converts saved import profiles into CSV parser settings and picks the
+ * profile that matches an uploaded file's header row.
+ */
+
+import type { ImportProfile, NewImportProfile } from '../db/schema'
+import {
+  readCSVHeaders,
+  computeHeaderFingerprint,
+  guessCSVSettings,
+  DATE_FORMATS,
+  AMOUNT_SIGNS,
+  type CSVImportSettings,
+  type DateFormat,
+  type AmountSign,
+} from './csv'
+
+/**
+ * Convert a saved profile into parser settings
+ */
+export function profileToSettings(profile: ImportProfile): CSVImportSettings {
+  return {
+    delimiter: profile.delimiter,
+    headerRowOffset: profile.headerRowOffset,
+    dateColumn: profile.dateColumn,
+    descriptionColumn: profile.descriptionColumn,
+    amountColumn: profile.amountColumn,
+    debitColumn: profile.debitColumn,
+    creditColumn: profile.creditColumn,
+    accountColumn: profile.accountColumn,
+    defaultAccount: profile.defaultAccount,
+    dateFormat: (DATE_FORMATS as readonly string[]).includes(profile.dateFormat)
+      ? profile.dateFormat as DateFormat
+      : 'auto',
+    amountSign: (AMOUNT_SIGNS as readonly string[]).includes(profile.amountSign)
+      ? profile.amountSign as AmountSign
+      : 'signed',
+  }
+}
+
+/**
+ * Resolve the settings to parse a CSV file with.
+ * An explicitly chosen profile wins; otherwise the first profile whose header
+ * fingerprint matches the file is used; otherwise columns are guessed.
+ */
+export function resolveCSVSettings(
+  text: string,
+  profiles: ImportProfile[],
+  explicitProfile?: ImportProfile
+): { settings: CSVImportSettings; profile: ImportProfile | null; headers: string[] } {
+  if (explicitProfile) {
+    const { headers } = readCSVHeaders(text, explicitProfile)
+    return { settings: profileToSettings(explicitProfile), profile: explicitProfile, headers }
+  }
+
+  for (const profile of profiles) {
+    const { headers } = readCSVHeaders(text, profile)
+    if (headers.length > 0 && computeHeaderFingerprint(headers) === profile.headerFingerprint) {
+      return { settings: profileToSettings(profile), profile, headers }
+    }
+  }
+
+  const { headers, delimiter } = readCSVHeaders(text)
+  return { settings: guessCSVSettings(headers, delimiter), profile: null, headers }
+}
+
+/**
+ * Validate a profile payload from the API. Returns the values to store or an error message.
+ */
+export function validateProfileInput(
+  body: Record<string, unknown>
+): { values: Omit<NewImportProfile, 'userId'>; error?: undefined } | { values?: undefined; error: string } {
+  const str = (key: string) => {
+    const value = body[key]
+    return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null
+  }
+
+  const name = str('name')
+  const dateColumn = str('dateColumn')
+  const descriptionColumn = str('descriptionColumn')
+  const headers = Array.isArray(body.headers) ? (body.headers as unknown[]).map(String) : null
+  const headerFingerprint = str('headerFingerprint') || (headers ? computeHeaderFingerprint(headers) : null)
+  const dateFormat = str('dateFormat') || 'auto'
+  const amountSign = str('amountSign') || 'signed'
+  const headerRowOffset = Number(body.headerRowOffset ?? 0)
+
+  if (!name || !dateColumn || !descriptionColumn || !headerFingerprint) {
+    return { error: 'name, dateColumn, descriptionColumn and headers (or headerFingerprint) are required' }
+  }
+  if (!(DATE_FORMATS as readonly string[]).includes(dateFormat)) {
+    return { error: `dateFormat must be one of: ${DATE_FORMATS.join(', ')}` }
+  }
+  if (!(AMOUNT_SIGNS as readonly string[]).includes(amountSign)) {
+    return { error: `amountSign must be one of: ${AMOUNT_SIGNS.join(', ')}` }
+  }
+  if (!Number.isInteger(headerRowOffset) || headerRowOffset < 0 || headerRowOffset > 50) {
+    return { error: 'headerRowOffset must be an integer between 0 and 50' }
+  }
+  if (amountSign === 'debit_credit' ? !(str('debitColumn') || str('creditColumn')) : !str('amountColumn')) {
+    return { error: amountSign === 'debit_credit' ? 'debitColumn or creditColumn is required' : 'amountColumn is required' }
+  }
+
+  return {
+    values: {
+      name,
+      headerFingerprint,
+      delimiter: typeof body.delimiter === 'string' ? body.delimiter : '',
+      headerRowOffset,
+      dateColumn,
+      descriptionColumn,
+      amountColumn: amountSign === 'debit_credit' ? null : str('amountColumn'),
+      debitColumn: amountSign === 'debit_credit' ? str('debitColumn') : null,
+      creditColumn: amountSign === 'debit_credit' ? str('creditColumn') : null,
+      accountColumn: str('accountColumn'),
+      defaultAccount: str('defaultAccount'),
+      dateFormat,
+      amountSign,
+    },
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * Investments
+ *
+ * Holdings are worked out from brokerage activity rather than trusted from
+ * the brokerage: every buy opens a lot, and every sell closes shares from the
+ * lots of the same security in the same account, either oldest first (FIFO)
+ * or from the lots the user picked (specific lot). Lots are rebuilt from the
+ * activity whenever it changes, so picking lots for an old sell carries
+ * through to everything after it.
+ *
+ * Positions are valued at the latest price the user has loaded on or before
+ * today; nothing is fetched from a market data service. Positions without a
+ * price are left out of market value and allocation.
+ *
+ * Dividends are also recorded as income transactions when imported, so they
+ * count in income analytics like any other deposit.
+ */
+
+import {
+  getAccounts,
+  getSecurities,
+  getInvestmentTransactions,
+  getHoldings,
+  getSecurityPrices,
+  replaceLots,
+} from './db/queries'
+import {
+  ASSET_CLASSES,
+  type AssetClass, type CostBasisMethod, type InvestmentTransaction, type NewLot, type NewSecurity, type Security,
+} from './db/schema'
+import { daysBetween, currentDate } from './dates'
+
+export interface LotSelection {
+  buyId: number
+  quantity: number
+}
+
+export interface OpenLot {
+  buyId: number
+  accountId: number
+  securityId: number
+  openDate: string
+  quantity: number // Shares bought
+  remainingQuantity: number
+  costBasis: number // Of the remaining shares
+}
+
+export interface RealizedGain {
+  sellId: number
+  accountId: number
+  securityId: number
+  date: string
+  quantity: number
+  proceeds: number // Net of fees
+  costBasis: number
+  gain: number // Only over the shares matched to a lot
+  shortTerm: number // Part of the gain on shares held a year or less
+  longTerm: number
+  method: CostBasisMethod
+  unmatchedQuantity: number // Sold with no buy on record, e.g. bought before the imported history
+  lots: Array<{ buyId: number; openDate: string; quantity: number; costBasis: number }>
+}
+
+export interface PortfolioPosition {
+  accountId: number
+  accountName: string
+  securityId: number
+  symbol: string
+  name: string
+  assetClass: AssetClass
+  quantity: number
+  costBasis: number
+  averageCost: number
+  price: number | null
+  priceDate: string | null
+  marketValue: number | null
+  unrealizedGain: number | null
+  unrealizedPercent: number | null
+  reportedQuantity: number | null // Last position the brokerage reported, if any
+  lots: Array<{
+    buyId: number
+    openDate: string
+    quantity: number
+    costBasis: number
+    unrealizedGain: number | null
+    term: 'short' | 'long'
+  }>
+}
+
+export interface PortfolioSummary {
+  costBasis: number
+  marketValue: number // Priced positions only
+  unrealizedGain: number // Priced positions only
+  unpricedCount: number
+  realizedGain: number
+  realizedGainYearToDate: number
+  dividends: number
+  dividendsYearToDate: number
+}
+
+export interface Portfolio {
+  positions: PortfolioPosition[]
+  allocation: Array<{ assetClass: AssetClass; marketValue: number; percent: number }>
+  realized: Array<RealizedGain & { symbol: string; accountName: string }>
+  summary: PortfolioSummary
+}
+
+export interface PortfolioInputs {
+  accounts: Array<{ id: number; name: string }>
+  securities: Security[]
+  activity: InvestmentTransaction[]
+  prices: Array<{ securityId: number; date: string; price: number }> // Oldest first
+  reported: Array<{ accountId: number; securityId: number; quantity: number }>
+}
+
+// Shares held longer than this are long-term
+const LONG_TERM_DAYS = 365
+// Quantities are real numbers; anything smaller than this is nothing left
+const EPSILON = 1e-6
+
+const TYPE_ORDER: Record<string, number> = { buy: 0, dividend: 1, fee: 2, sell: 3 }
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+/**
+ * Read a sell's stored lot selections, ignoring anything malformed
+ */
+export function parseLotSelections(value: string | null): LotSelection[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .map(s => ({ buyId: Number(s?.buyId), quantity: Number(s?.quantity) }))
+      .filter(s => Number.isInteger(s.buyId) && Number.isFinite(s.quantity) && s.quantity > 0)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Replay brokerage activity in date order, opening a lot for each buy and
+ * closing shares for each sell. Returns the lots (open or not) and the gain
+ * realized by each sell.
+ */
+export function matchLots(activity: InvestmentTransaction[]): { lots: OpenLot[]; realized: RealizedGain[] } {
+  const ordered = [...activity].sort((a, b) =>
+    a.date.localeCompare(b.date) || (TYPE_ORDER[a.type] ?? 9) - (TYPE_ORDER[b.type] ?? 9) || a.id - b.id
+  )
+
+  const allLots: Array<OpenLot & { unitCost: number }> = []
+  const byPosition = new Map<string, Array<OpenLot & { unitCost: number }>>()
+  const realized: RealizedGain[] = []
+
+  for (const trn of ordered) {
+    if (trn.securityId === null || !(trn.quantity > 0)) continue
+    const key = `${trn.accountId}:${trn.securityId}`
+    const positionLots = byPosition.get(key) || []
+    byPosition.set(key, positionLots)
+
+    if (trn.type === 'buy') {
+      const cost = Math.abs(trn.amount)
+      const lot = {
+        buyId: trn.id,
+        accountId: trn.accountId,
+        securityId: trn.securityId,
+        openDate: trn.date,
+        quantity: trn.quantity,
+        remainingQuantity: trn.quantity,
+        costBasis: cost,
+        unitCost: cost / trn.quantity,
+      }
+      positionLots.push(lot)
+      allLots.push(lot)
+      continue
+    }
+    if (trn.type !== 'sell') continue
+
+    const pieces: RealizedGain['lots'] = []
+    let toSell = trn.quantity
+    const take = (lot: OpenLot & { unitCost: number }, wanted: number) => {
+      const quantity = Math.min(wanted, lot.remainingQuantity)
+      if (quantity <= EPSILON) return
+      lot.remainingQuantity = roundQuantity(lot.remainingQuantity - quantity)
+      lot.costBasis = lot.remainingQuantity > EPSILON ? lot.remainingQuantity * lot.unitCost : 0
+      pieces.push({ buyId: lot.buyId, openDate: lot.openDate, quantity: roundQuantity(quantity), costBasis: quantity * lot.unitCost })
+      toSell = roundQuantity(toSell - quantity)
+    }
+
+    // Picked lots first; whatever they don't cover comes out oldest first
+    const method = trn.costBasisMethod === 'specific' ? 'specific' : 'fifo'
+    if (method === 'specific') {
+      for (const selection of parseLotSelections(trn.lotSelections)) {
+        const lot = positionLots.find(l => l.buyId === selection.buyId)
+        if (lot) take(lot, Math.min(selection.quantity, toSell))
+      }
+    }
+    for (const lot of positionLots) {
+      if (toSell <= EPSILON) break
+      take(lot, toSell)
+    }
+
+    const matched = trn.quantity - Math.max(0, toSell)
+    const proceeds = Math.abs(trn.amount)
+    const proceedsPerShare = proceeds / trn.quantity
+    let shortTerm = 0
+    let longTerm = 0
+    for (const piece of pieces) {
+      const gain = piece.quantity * proceedsPerShare - piece.costBasis
+      if (daysBetween(piece.openDate, trn.date) > LONG_TERM_DAYS) longTerm += gain
+      else shortTerm += gain
+    }
+    const costBasis = pieces.reduce((sum, p) => sum + p.costBasis, 0)
+
+    realized.push({
+      sellId: trn.id,
+      accountId: trn.accountId,
+      securityId: trn.securityId,
+      date: trn.date,
+      quantity: trn.quantity,
+      proceeds: round2(proceeds),
+      costBasis: round2(costBasis),
+      gain: round2(matched * proceedsPerShare - costBasis),
+      shortTerm: round2(shortTerm),
+      longTerm: round2(longTerm),
+      method,
+      unmatchedQuantity: toSell > EPSILON ? roundQuantity(toSell) : 0,
+      lots: pieces.map(p => ({ ...p, costBasis: round2(p.costBasis) })),
+    })
+  }
+
+  return {
+    lots: allLots.map(({ unitCost, ...lot }) => ({ ...lot, costBasis: round2(lot.costBasis) })),
+    realized,
+  }
+}
+
+/**
+ * Build the portfolio on `today` (YYYY-MM-DD) from activity, loaded prices and
+ * reported positions
+ */
+export function buildPortfolio(inputs: PortfolioInputs, today: string): Portfolio {
+  const { lots, realized } = matchLots(inputs.activity)
+  const securities = new Map(inputs.securities.map(s => [s.id, s]))
+  const accountNames = new Map(inputs.accounts.map(a => [a.id, a.name]))
+
+  // Prices come oldest first, so the last one on or before today wins
+  const latestPrices = new Map<number, { price: number; date: string }>()
+  for (const price of inputs.prices) {
+    if (price.date <= today) latestPrices.set(price.securityId, { price: price.price, date: price.date })
+  }
+
+  const byPosition = new Map<string, OpenLot[]>()
+  for (const lot of lots) {
+    if (lot.remainingQuantity <= EPSILON) continue
+    const key = `${lot.accountId}:${lot.securityId}`
+    byPosition.set(key, [...(byPosition.get(key) || []), lot])
+  }
+  // A reported position with no activity behind it still shows, so the gap is visible
+  for (const holding of inputs.reported) {
+    const key = `${holding.accountId}:${holding.securityId}`
+    if (!byPosition.has(key) && holding.quantity > EPSILON) byPosition.set(key, [])
+  }
+
+  const positions: PortfolioPosition[] = []
+  for (const [key, positionLots] of Array.from(byPosition.entries())) {
+    const [accountId, securityId] = key.split(':').map(Number)
+    const security = securities.get(securityId)
+    if (!security) continue
+    const latest = latestPrices.get(securityId)
+    const quantity = roundQuantity(positionLots.reduce((sum, l) => sum + l.remainingQuantity, 0))
+    const costBasis = positionLots.reduce((sum, l) => sum + l.costBasis, 0)
+    const marketValue = latest ? quantity * latest.price : null
+    const reported = inputs.reported.find(h => h.accountId === accountId && h.securityId === securityId)
+
+    positions.push({
+      accountId,
+      accountName: accountNames.get(accountId) || 'Unknown account',
+      securityId,
+      symbol: security.symbol,
+      name: security.name,
+      assetClass: security.assetClass as AssetClass,
+      quantity,
+      costBasis: round2(costBasis),
+      averageCost: quantity > 0 ? round2(costBasis / quantity) : 0,
+      price: latest?.price ?? null,
+      priceDate: latest?.date ?? null,
+      marketValue: marketValue !== null ? round2(marketValue) : null,
+      unrealizedGain: marketValue !== null ? round2(marketValue - costBasis) : null,
+      unrealizedPercent: marketValue !== null && costBasis > 0
+        ? Math.round(((marketValue - costBasis) / costBasis) * 1000) / 10
+        : null,
+      reportedQuantity: reported ? reported.quantity : null,
+      lots: positionLots.map(lot => ({
+        buyId: lot.buyId,
+        openDate: lot.openDate,
+        quantity: lot.remainingQuantity,
+        costBasis: lot.costBasis,
+        unrealizedGain: latest ? round2(lot.remainingQuantity * latest.price - lot.costBasis) : null,
+        term: daysBetween(lot.openDate, today) > LONG_TERM_DAYS ? 'long' : 'short',
+      })),
+    })
+  }
+  positions.sort((a, b) => (b.marketValue ?? b.costBasis) - (a.marketValue ?? a.costBasis) || a.symbol.localeCompare(b.symbol))
+
+  const priced = positions.filter(p => p.marketValue !== null)
+  const marketValue = priced.reduce((sum, p) => sum + p.marketValue!, 0)
+  const byClass = new Map<AssetClass, number>()
+  for (const position of priced) {
+    byClass.set(position.assetClass, (byClass.get(position.assetClass) || 0) + position.marketValue!)
+  }
+  const allocation = Array.from(byClass.entries())
+    .map(([assetClass, value]) => ({
+      assetClass,
+      marketValue: round2(value),
+      percent: marketValue > 0 ? Math.round((value / marketValue) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => b.marketValue - a.marketValue)
+
+  const yearStart = `${today.slice(0, 4)}-01-01`
+  const dividends = inputs.activity.filter(t => t.type === 'dividend' && t.date <= today)
+
+  return {
+    positions,
+    allocation,
+    realized: realized
+      .map(r => ({
+        ...r,
+        symbol: securities.get(r.securityId)?.symbol || '',
+        accountName: accountNames.get(r.accountId) || 'Unknown account',
+      }))
+      .reverse(),
+    summary: {
+      costBasis: round2(positions.reduce((sum, p) => sum + p.costBasis, 0)),
+      marketValue: round2(marketValue),
+      unrealizedGain: round2(priced.reduce((sum, p) => sum + p.unrealizedGain!, 0)),
+      unpricedCount: positions.length - priced.length,
+      realizedGain: round2(realized.reduce((sum, r) => sum + r.gain, 0)),
+      realizedGainYearToDate: round2(realized.filter(r => r.date >= yearStart).reduce((sum, r) => sum + r.gain, 0)),
+      dividends: round2(dividends.reduce((sum, t) => sum + t.amount, 0)),
+      dividendsYearToDate: round2(dividends.filter(t => t.date >= yearStart).reduce((sum, t) => sum + t.amount, 0)),
+    },
+  }
+}
+
+/**
+ * Rebuild and store a user's lots from their brokerage activity
+ */
+export async function rebuildLots(userId: string): Promise<void> {
+  const { lots } = matchLots(await getInvestmentTransactions(userId))
+  const rows: NewLot[] = lots.map(lot => ({ userId, ...lot }))
+  await replaceLots(userId, rows)
+}
+
+/**
+ * Get a user's portfolio as of today
+ */
+export async function getPortfolio(userId: string, today = currentDate()): Promise<Portfolio> {
+  const [accounts, securities, activity, prices, reported] = await Promise.all([
+    getAccounts(userId, true),
+    getSecurities(userId),
+    getInvestmentTransactions(userId),
+    getSecurityPrices(userId),
+    getHoldings(userId),
+  ])
+  return buildPortfolio({ accounts, securities, activity, prices, reported }, today)
+}
+
+/**
+ * The lots of a sell's position that were open just before it, i.e. the
+ * ones it can close
+ */
+export function lotsOpenBefore(sell: InvestmentTransaction, activity: InvestmentTransaction[]): OpenLot[] {
+  const before = activity.filter(t => t.id !== sell.id && (
+    t.date < sell.date ||
+    (t.date === sell.date && (t.type !== 'sell' || t.id < sell.id))
+  ))
+  return matchLots(before).lots.filter(l =>
+    l.accountId === sell.accountId && l.securityId === sell.securityId && l.remainingQuantity > EPSILON
+  )
+}
+
+/**
+ * Validate a sell's lot selection against the lots open before it. Sending
+ * `method: 'fifo'` (or no lots) goes back to oldest first. Returns the values
+ * to store on the sell.
+ */
+export function validateLotSelectionInput(
+  body: Record<string, unknown>,
+  sell: InvestmentTransaction,
+  activity: InvestmentTransaction[]
+):
+  | { values: { costBasisMethod: CostBasisMethod; lotSelections: string | null }; error?: undefined }
+  | { values?: undefined; error: string } {
+  if (sell.type !== 'sell') return { error: 'Lots can only be picked for a sell' }
+  if (body.method === 'fifo' || !Array.isArray(body.lots) || body.lots.length === 0) {
+    if (body.method !== undefined && body.method !== 'fifo' && body.method !== 'specific') {
+      return { error: 'method must be fifo or specific' }
+    }
+    if (body.method === 'specific') return { error: 'Pick at least one lot' }
+    return { values: { costBasisMethod: 'fifo', lotSelections: null } }
+  }
+
+  const available = new Map(lotsOpenBefore(sell, activity).map(l => [l.buyId, l.remainingQuantity]))
+
+  const selections: LotSelection[] = []
+  for (const raw of body.lots as unknown[]) {
+    const item = (raw || {}) as Record<string, unknown>
+    const buyId = Number(item.buyId)
+    const quantity = Number(item.quantity)
+    if (!available.has(buyId)) return { error: `Lot ${item.buyId} isn't open in this position before the sell` }
+    if (!Number.isFinite(quantity) || quantity <= 0) return { error: 'Each lot needs a positive quantity' }
+    if (quantity > available.get(buyId)! + EPSILON) {
+      return { error: `Lot ${buyId} only has ${available.get(buyId)} shares left` }
+    }
+    if (selections.some(s => s.buyId === buyId)) return { error: `Lot ${buyId} is picked twice` }
+    selections.push({ buyId, quantity: roundQuantity(quantity) })
+  }
+  const total = selections.reduce((sum, s) => sum + s.quantity, 0)
+  if (Math.abs(total - sell.quantity) > EPSILON) {
+    return { error: `Picked lots add up to ${roundQuantity(total)} shares; the sell was ${sell.quantity}` }
+  }
+
+  return { values: { costBasisMethod: 'specific', lotSelections: JSON.stringify(selections) } }
+}
+
+/**
+ * Validate a security update from the API: { name?, assetClass? }
+ */
+export function validateSecurityInput(
+  body: Record<string, unknown>
+): { values: Partial<Pick<NewSecurity, 'name' | 'assetClass'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Pick<NewSecurity, 'name' | 'assetClass'>> = {}
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > 100) return { error: 'name must be 100 characters or fewer' }
+    values.name = name
+  }
+  if (body.assetClass !== undefined) {
+    if (!ASSET_CLASSES.includes(body.assetClass as AssetClass)) {
+      return { error: `assetClass must be one of: ${ASSET_CLASSES.join(', ')}` }
+    }
+    values.assetClass = body.assetClass as AssetClass
+  }
+  return { values }
+}
@@ -0,0 +1,138 @@
+/**
+ * Local Classifier
+ *
+ * A multinomial naive Bayes model trained on a user's own categorized
+ * transactions. Features are character n-grams and words of the normalized
+ * merchant name, plus the sign and order of magnitude of the amount.
+ *
+ * Runs in-process with no API calls, so categorization keeps working (and
+ * stays deterministic) without an OpenAI key. The model is a plain object and
+ * can be cached or serialized as-is.
+ */
+
+export interface TrainingExample {
+  text: string // Normalized merchant name
+  amount?: number | null
+  category: string
+}
+
+interface CategoryStats {
+  docCount: number
+  featureTotal: number
+  features: Record<string, number>
+}
+
+export interface LocalModel {
+  categories: Record<string, CategoryStats>
+  vocabulary: Record<string, true>
+  vocabularySize: number
+  exampleCount: number
+}
+
+export interface LocalPrediction {
+  category: string
+  probability: number // Posterior of the top category, 0-1
+}
+
+const NGRAM_SIZES = [3, 4]
+const SMOOTHING = 1 // Laplace smoothing
+
+// A handful of very frequent merchants shouldn't swamp the category priors
+const MAX_COPIES_PER_MERCHANT = 3
+
+// Below this the model is considered untrained
+export const MIN_TRAINING_EXAMPLES = 10
+
+/**
+ * Turn a normalized merchant name and amount into bag-of-features tokens
+ */
+export function extractFeatures(text: string, amount?: number | null): string[] {
+  const features: string[] = []
+  const words = text.toUpperCase().replace(/[^A-Z0-9&' ]/g, ' ').split(/\s+/).filter(Boolean)
+
+  for (const word of words) {
+    if (/^\d+$/.test(word)) continue // Store numbers and references carry no signal
+    features.push(`w:${word}`)
+    const padded = ` ${word} `
+    for (const size of NGRAM_SIZES) {
+      for (let i = 0; i + size <= padded.length; i++) {
+        features.push(`c:${padded.slice(i, i + size)}`)
+      }
+    }
+  }
+
+  if (amount !== null && amount !== undefined && amount !== 0) {
+    features.push(amount < 0 ? 's:-' : 's:+')
+    // Order of magnitude: 0 for under $10, 1 for $10-99, 2 for $100-999, ...
+    features.push(`a:${Math.min(5, Math.floor(Math.log10(Math.max(1, Math.abs(amount)))))}`)
+  }
+
+  return features
+}
+
+/**
+ * Train a model from labeled examples. Returns null when there isn't enough
+ * data (fewer than MIN_TRAINING_EXAMPLES or only one category).
+ */
+export function trainLocalModel(examples: TrainingExample[]): LocalModel | null {
+  const model: LocalModel = { categories: {}, vocabulary: {}, vocabularySize: 0, exampleCount: 0 }
+  const copies = new Map<string, number>()
+
+  for (const example of examples) {
+    const key = `${example.category}\u0000${example.text}`
+    const seen = copies.get(key) ?? 0
+    if (seen >= MAX_COPIES_PER_MERCHANT) continue
+    copies.set(key, seen + 1)
+
+    const features = extractFeatures(example.text, example.amount)
+    if (features.length === 0) continue
+
+    const stats = model.categories[example.category] ??= { docCount: 0, featureTotal: 0, features: {} }
+    stats.docCount++
+    for (const feature of features) {
+      stats.features[feature] = (stats.features[feature] ?? 0) + 1
+      stats.featureTotal++
+      if (!model.vocabulary[feature]) {
+        model.vocabulary[feature] = true
+        model.vocabularySize++
+      }
+    }
+    model.exampleCount++
+  }
+
+  if (model.exampleCount < MIN_TRAINING_EXAMPLES || Object.keys(model.categories).length < 2) {
+    return null
+  }
+  return model
+}
+
+/**
+ * Predict the most likely category. Features never seen in training are
+ * ignored; returns null when none of the input's features are known.
+ */
+export function predictCategory(model: LocalModel, text: string, amount?: number | null): LocalPrediction | null {
+  const features = extractFeatures(text, amount).filter(f => model.vocabulary[f])
+  // Sign and amount alone are too weak to go on
+  if (!features.some(f => f.startsWith('w:') || f.startsWith('c:'))) return null
+
+  const scores: Array<[string, number]> = []
+  for (const [category, stats] of Object.entries(model.categories)) {
+    let score = Math.log(stats.docCount / model.exampleCount)
+    const denominator = stats.featureTotal + SMOOTHING * model.vocabularySize
+    for (const feature of features) {
+      score += Math.log(((stats.features[feature] ?? 0) + SMOOTHING) / denominator)
+    }
+    scores.push([category, score])
+  }
+
+  // Softmax over log scores for a posterior probability
+  const max = Math.max(...scores.map(([, score]) => score))
+  let total = 0
+  let best: [string, number] = scores[0]
+  for (const entry of scores) {
+    total += Math.exp(entry[1] - max)
+    if (entry[1] > best[1]) best = entry
+  }
+
+  return { category: best[0], probability: Math.exp(best[1] - max) / total }
+}
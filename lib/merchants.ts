@@ -0,0 +1,119 @@
+/**
+ * Merchants
+ *
+ * Links transactions to merchant records by their normalized description, so
+ * "SQ *BLUE BOTTLE #12" and "BLUE BOTTLE COFFEE SF" count as one merchant once
+ * their aliases are merged. Also validates merchant payloads and splits
+ * aliases off into a merchant of their own.
+ */
+
+import {
+  ensureMerchants,
+  getUnlinkedMerchantTransactions,
+  getMerchantTransactions,
+  setTransactionMerchant,
+  insertMerchant,
+  updateMerchant,
+} from './db/queries'
+import type { Merchant, NewMerchant } from './db/schema'
+import { merchantKey } from './smartCategorization'
+
+/**
+ * Display name for a new merchant from its key, e.g. "BLUE BOTTLE" -> "Blue Bottle"
+ */
+export function merchantDisplayName(key: string): string {
+  return key.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase())
+}
+
+/**
+ * Find or create the merchant for each description. Returns description -> merchant ID.
+ */
+export async function resolveMerchantIds(userId: string, descriptions: string[]): Promise<Map<string, number>> {
+  const keys = new Map(descriptions.map(d => [d, merchantKey(d)]))
+  const ids = await ensureMerchants(
+    userId,
+    Array.from(new Set(keys.values())).map(key => ({ key, name: merchantDisplayName(key) }))
+  )
+
+  const byDescription = new Map<string, number>()
+  keys.forEach((key, description) => {
+    const id = ids.get(key)
+    if (id !== undefined) byDescription.set(description, id)
+  })
+  return byDescription
+}
+
+/**
+ * Link transactions that have no merchant yet (imported before merchants
+ * existed). Returns the number linked.
+ */
+export async function linkTransactionMerchants(userId: string): Promise<number> {
+  const unlinked = await getUnlinkedMerchantTransactions(userId)
+  if (unlinked.length === 0) return 0
+
+  const ids = await resolveMerchantIds(userId, unlinked.map(t => t.description))
+  const byMerchant = new Map<number, number[]>()
+  for (const txn of unlinked) {
+    const merchantId = ids.get(txn.description)
+    if (merchantId === undefined) continue
+    byMerchant.set(merchantId, [...(byMerchant.get(merchantId) || []), txn.id])
+  }
+
+  let linked = 0
+  for (const [merchantId, transactionIds] of Array.from(byMerchant.entries())) {
+    linked += await setTransactionMerchant(userId, transactionIds, merchantId)
+  }
+  return linked
+}
+
+/**
+ * Split some aliases off a merchant into a new merchant, moving the
+ * transactions whose description maps to those aliases along with them
+ */
+export async function splitMerchant(
+  userId: string,
+  merchant: Merchant,
+  aliases: string[],
+  name: string
+): Promise<{ merchant: Merchant; moved: number }> {
+  const split = new Set(aliases)
+  const created = await insertMerchant({ userId, name, aliases: Array.from(split) })
+  await updateMerchant(merchant.id, userId, { aliases: merchant.aliases.filter(a => !split.has(a)) })
+
+  const toMove = (await getMerchantTransactions(userId, merchant.id))
+    .filter(t => split.has(merchantKey(t.description)))
+    .map(t => t.id)
+  const moved = await setTransactionMerchant(userId, toMove, created.id)
+
+  return { merchant: created, moved }
+}
+
+/**
+ * Validate a merchant payload from the API. With `partial`, only the fields
+ * present are checked (for PATCH). Aliases change through merge and split,
+ * not here. Returns the values to store or an error message.
+ */
+export function validateMerchantInput(
+  body: Record<string, unknown>,
+  partial = false
+): { values: Partial<Omit<NewMerchant, 'userId' | 'aliases'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewMerchant, 'userId' | 'aliases'>> = {}
+  const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null)
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    values.name = name
+  }
+  if (body.defaultCategory !== undefined) {
+    values.defaultCategory = optionalText(body.defaultCategory)
+  }
+  for (const field of ['logoUrl', 'website'] as const) {
+    if (body[field] === undefined) continue
+    const url = optionalText(body[field])
+    if (url && !/^https?:\/\/\S+$/i.test(url)) return { error: `${field} must be an http(s) URL` }
+    values[field] = url
+  }
+
+  return { values }
+}
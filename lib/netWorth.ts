@@ -0,0 +1,326 @@
+/**
+ * Net Worth
+ *
+ * A balance sheet built from two sources:
+ * - the user's accounts, each worth its opening balance plus every
+ *   transaction up to the date; credit cards and loans are liabilities
+ * - for brokerage accounts, the cash effect of buys, sells and fees (dividends
+ *   already count through their income transaction) plus the securities held,
+ *   at the latest loaded price on or before the date, or at cost when unpriced
+ * - manual assets and liabilities (a home, a car, a mortgage), each worth its
+ *   latest valuation on or before the date, and left out before its first one
+ * Account history is tracked by month, so a balance sheet counts everything
+ * dated in its month up to the month's end.
+ *
+ * History is a snapshot stored at the end of each month, recorded by a
+ * scheduled job (scripts/record-net-worth-snapshots.ts) once the month is
+ * over; the first run backfills month ends back to the first transaction or
+ * valuation (at most MAX_HISTORY_MONTHS). A recorded snapshot is kept as it
+ * was. Reading net worth never writes: today's balance sheet is computed on
+ * the fly and appended to the stored history.
+ */
+
+import {
+  getAccounts,
+  getAccountMonthlyTotals,
+  getManualAssets,
+  getAssetValuations,
+  getNetWorthSnapshots,
+  insertNetWorthSnapshots,
+  getSecurities,
+  getInvestmentTransactions,
+  getSecurityPrices,
+} from './db/queries'
+import {
+  MANUAL_ASSET_KINDS, MANUAL_ASSET_TYPES,
+  type Account, type AssetValuation, type ManualAsset, type ManualAssetKind, type NetWorthSnapshot, type NewManualAsset,
+} from './db/schema'
+import { addDays, addMonths, currentDate } from './dates'
+import { buildPortfolio, type PortfolioInputs } from './investments'
+
+export const LIABILITY_ACCOUNT_TYPES = ['credit_card', 'loan']
+export const MAX_HISTORY_MONTHS = 24
+
+export interface BalanceSheetItem {
+  id: number
+  name: string
+  source: 'account' | 'manual'
+  kind: ManualAssetKind
+  type: string // Account type or manual asset type
+  value: number // Asset value, or amount owed for a liability
+  valuedOn: string | null // Date of the valuation used, for manual items
+}
+
+export interface BalanceSheet {
+  date: string
+  assets: number
+  liabilities: number
+  netWorth: number
+  items: BalanceSheetItem[]
+  breakdown: Array<{ kind: ManualAssetKind; type: string; value: number }>
+}
+
+export type NetWorthPoint = Pick<NetWorthSnapshot, 'date' | 'assets' | 'liabilities' | 'netWorth'>
+
+export interface NetWorthInputs {
+  accounts: Account[]
+  monthlyTotals: Array<{ accountId: number; month: string; total: number }>
+  assets: ManualAsset[]
+  valuations: AssetValuation[]
+  investments: Omit<PortfolioInputs, 'accounts' | 'reported'>
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function monthEnd(month: string): string {
+  return addDays(addMonths(`${month}-01`, 1), -1)
+}
+
+/**
+ * What brokerage activity up to `date`'s month adds to each account: the cash
+ * it moved plus the value of the securities still held
+ */
+function investmentBalances(inputs: NetWorthInputs, date: string): Map<number, number> {
+  const month = date.slice(0, 7)
+  const activity = inputs.investments.activity.filter(t => t.date.slice(0, 7) <= month)
+  const balances = new Map<number, number>()
+  const add = (accountId: number, value: number) => balances.set(accountId, (balances.get(accountId) || 0) + value)
+
+  for (const trn of activity) {
+    // A recorded dividend is already in the account's transactions
+    if (trn.type === 'dividend' && trn.transactionId !== null) continue
+    add(trn.accountId, trn.amount)
+  }
+  const portfolio = buildPortfolio({ ...inputs.investments, accounts: inputs.accounts, activity, reported: [] }, date)
+  for (const position of portfolio.positions) {
+    add(position.accountId, position.marketValue ?? position.costBasis)
+  }
+  return balances
+}
+
+/**
+ * The balance sheet at the end of `date` (YYYY-MM-DD)
+ */
+export function computeBalanceSheet(inputs: NetWorthInputs, date: string): BalanceSheet {
+  const month = date.slice(0, 7)
+  const balances = new Map(inputs.accounts.map(a => [a.id, a.openingBalance]))
+  for (const row of inputs.monthlyTotals) {
+    if (row.month > month || !balances.has(row.accountId)) continue
+    balances.set(row.accountId, balances.get(row.accountId)! + row.total)
+  }
+  for (const [accountId, value] of Array.from(investmentBalances(inputs, date))) {
+    if (balances.has(accountId)) balances.set(accountId, balances.get(accountId)! + value)
+  }
+
+  const items: BalanceSheetItem[] = []
+  for (const account of inputs.accounts) {
+    const balance = round2(balances.get(account.id)!)
+    if (account.archived && balance === 0) continue
+    const liability = LIABILITY_ACCOUNT_TYPES.includes(account.type)
+    items.push({
+      id: account.id,
+      name: account.name,
+      source: 'account',
+      kind: liability ? 'liability' : 'asset',
+      type: account.type,
+      value: liability ? -balance : balance,
+      valuedOn: null,
+    })
+  }
+
+  for (const asset of inputs.assets) {
+    // Valuations come oldest first, so the last one on or before the date wins
+    let latest: AssetValuation | undefined
+    for (const valuation of inputs.valuations) {
+      if (valuation.assetId === asset.id && valuation.date <= date) latest = valuation
+    }
+    if (!latest) continue
+    items.push({
+      id: asset.id,
+      name: asset.name,
+      source: 'manual',
+      kind: asset.kind as ManualAssetKind,
+      type: asset.type,
+      value: round2(latest.value),
+      valuedOn: latest.date,
+    })
+  }
+
+  const breakdown = new Map<string, { kind: ManualAssetKind; type: string; value: number }>()
+  for (const item of items) {
+    const key = `${item.kind}:${item.type}`
+    const entry = breakdown.get(key) || { kind: item.kind, type: item.type, value: 0 }
+    entry.value = round2(entry.value + item.value)
+    breakdown.set(key, entry)
+  }
+
+  const assets = items.filter(i => i.kind === 'asset').reduce((sum, i) => sum + i.value, 0)
+  const liabilities = items.filter(i => i.kind === 'liability').reduce((sum, i) => sum + i.value, 0)
+
+  return {
+    date,
+    assets: round2(assets),
+    liabilities: round2(liabilities),
+    netWorth: round2(assets - liabilities),
+    items: items.sort((a, b) => b.value - a.value),
+    breakdown: Array.from(breakdown.values()).sort((a, b) => b.value - a.value),
+  }
+}
+
+/**
+ * The dates to snapshot: each month end from the first month with data, then `today`
+ */
+export function snapshotDates(inputs: NetWorthInputs, today: string): string[] {
+  const current = today.slice(0, 7)
+  const earliest = addMonths(`${current}-01`, -MAX_HISTORY_MONTHS).slice(0, 7)
+  const first = [
+    ...inputs.monthlyTotals.map(t => t.month),
+    ...inputs.valuations.map(v => v.date.slice(0, 7)),
+    ...inputs.investments.activity.map(t => t.date.slice(0, 7)),
+    current,
+  ]
+    .reduce((a, b) => (a < b ? a : b))
+
+  const dates: string[] = []
+  for (let month = first < earliest ? earliest : first; month < current; month = addMonths(`${month}-01`, 1).slice(0, 7)) {
+    dates.push(monthEnd(month))
+  }
+  dates.push(today)
+  return dates
+}
+
+/**
+ * Change in net worth since `since` (YYYY-MM-DD): measured from the last
+ * snapshot before it (or the first snapshot, if history starts later)
+ */
+export function netWorthChange(history: Array<Pick<NetWorthSnapshot, 'date' | 'netWorth'>>, since: string) {
+  if (history.length === 0) return null
+  const before = history.filter(s => s.date < since)
+  const start = before.length > 0 ? before[before.length - 1] : history[0]
+  const end = history[history.length - 1]
+  const change = end.netWorth - start.netWorth
+  return {
+    from: start.date,
+    to: end.date,
+    startNetWorth: start.netWorth,
+    endNetWorth: end.netWorth,
+    change: round2(change),
+    percentChange: start.netWorth !== 0 ? Math.round((change / Math.abs(start.netWorth)) * 1000) / 10 : null,
+  }
+}
+
+async function loadNetWorthInputs(userId: string): Promise<NetWorthInputs> {
+  const [accounts, monthlyTotals, assets, valuations, securities, activity, prices] = await Promise.all([
+    getAccounts(userId, true),
+    getAccountMonthlyTotals(userId),
+    getManualAssets(userId),
+    getAssetValuations(userId),
+    getSecurities(userId),
+    getInvestmentTransactions(userId),
+    getSecurityPrices(userId),
+  ])
+  return { accounts, monthlyTotals, assets, valuations, investments: { securities, activity, prices } }
+}
+
+/**
+ * Today's balance sheet for a user, with their net worth history: the stored
+ * month-end snapshots followed by today. Read-only.
+ */
+export async function getNetWorth(
+  userId: string,
+  today = currentDate()
+): Promise<{ current: BalanceSheet; history: NetWorthPoint[] }> {
+  const [inputs, snapshots] = await Promise.all([loadNetWorthInputs(userId), getNetWorthSnapshots(userId)])
+  const current = computeBalanceSheet(inputs, today)
+
+  const history: NetWorthPoint[] = snapshots
+    .filter(s => s.date < today)
+    .map(s => ({ date: s.date, assets: s.assets, liabilities: s.liabilities, netWorth: s.netWorth }))
+  history.push({ date: current.date, assets: current.assets, liabilities: current.liabilities, netWorth: current.netWorth })
+
+  return { current, history }
+}
+
+/**
+ * Store a snapshot for each month that has ended since the user's history
+ * starts and doesn't have one yet. Returns the number recorded.
+ */
+export async function recordNetWorthSnapshots(userId: string, today = currentDate()): Promise<number> {
+  const [inputs, snapshots] = await Promise.all([loadNetWorthInputs(userId), getNetWorthSnapshots(userId)])
+  const recorded = new Set(snapshots.map(s => s.date))
+
+  // snapshotDates ends with today, which isn't a finished month
+  const dates = snapshotDates(inputs, today).slice(0, -1).filter(date => !recorded.has(date))
+  const inserted = await insertNetWorthSnapshots(dates.map(date => {
+    const sheet = computeBalanceSheet(inputs, date)
+    return { userId, date, assets: sheet.assets, liabilities: sheet.liabilities, netWorth: sheet.netWorth }
+  }))
+  return inserted.length
+}
+
+/**
+ * Validate a manual asset payload from the API. On create (not `partial`) a
+ * starting value is required, dated `date` or today. Returns the asset
+ * fields and the valuation to record.
+ */
+export function validateManualAssetInput(
+  body: Record<string, unknown>,
+  partial = false,
+  existingKind?: ManualAssetKind
+):
+  | { values: Partial<Omit<NewManualAsset, 'userId'>>; valuation?: { date: string; value: number; note: string | null }; error?: undefined }
+  | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewManualAsset, 'userId'>> = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > 100) return { error: 'name must be 100 characters or fewer' }
+    values.name = name
+  }
+
+  // Kind can't change once there are valuations recorded against it
+  let kind = existingKind
+  if (!partial) {
+    if (!MANUAL_ASSET_KINDS.includes(body.kind as ManualAssetKind)) {
+      return { error: `kind must be one of: ${MANUAL_ASSET_KINDS.join(', ')}` }
+    }
+    kind = body.kind as ManualAssetKind
+    values.kind = kind
+  }
+  if (body.type !== undefined || !partial) {
+    const type = body.type === undefined ? 'other' : body.type
+    const types = MANUAL_ASSET_TYPES[kind!]
+    if (!types.includes(type as string)) return { error: `type must be one of: ${types.join(', ')}` }
+    values.type = type as string
+  }
+
+  if (partial) return { values }
+
+  const { values: valuation, error } = validateValuationInput(body)
+  if (error !== undefined) return { error }
+  return { values, valuation }
+}
+
+/**
+ * Validate a valuation payload: { value, date?, note? }. The date defaults to today.
+ */
+export function validateValuationInput(
+  body: Record<string, unknown>
+): { values: { date: string; value: number; note: string | null }; error?: undefined } | { values?: undefined; error: string } {
+  const value = Number(body.value)
+  if (body.value === undefined || body.value === null || !Number.isFinite(value) || value < 0) {
+    return { error: 'value must be a number of 0 or more' }
+  }
+  let date = currentDate()
+  if (body.date !== undefined && body.date !== null && body.date !== '') {
+    if (typeof body.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.date) || isNaN(Date.parse(body.date))) {
+      return { error: 'date must be a date like 2024-01-31' }
+    }
+    date = body.date
+  }
+  const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+  return { values: { date, value: round2(value), note } }
+}
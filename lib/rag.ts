@@ -5,7 +5,7 @@
  * Uses NeonDB + Drizzle + pgvector for vector similarity search.
  */
 
-import { retrieveContext, searchSimilar, embedTransaction, upsertDocument, type DocumentType } from './vectorStore'
+import { retrieveContext, searchSimilar, searchSimilarByEmbedding, embedTransaction, upsertDocument, type DocumentType, type SearchResult } from './vectorStore'
 import { formatQueryForEmbedding } from './embeddings'
 import { getTransactions } from './db/queries'
 import type { Transaction } from './db/schema'
@@ -63,6 +63,10 @@ TABLE: transactions
 - amount: REAL (negative for expenses, positive for income)
 - category: TEXT (Coffee, Groceries, Dining, Transportation, etc.)
 - transaction_type: TEXT ('expense' or 'income')
+- account: TEXT (account name)
+- is_transfer: BOOLEAN (money moved between the user's own accounts - exclude with is_transfer = false from income/spending totals)
+
+VIEW: transaction_allocations (same columns, one row per split allocation - use it for totals by category)
 
 Use PostgreSQL syntax: TO_CHAR(), CURRENT_DATE, DATE_TRUNC(), INTERVAL, ILIKE, etc.
 
@@ -193,12 +197,12 @@ export function getDefaultQueryExamples(): QueryExample[] {
     },
     {
       naturalLanguage: "What are my top 5 expense categories?",
-      sql: "SELECT category, SUM(ABS(amount)) as total FROM transactions WHERE amount < 0 GROUP BY category ORDER BY total DESC LIMIT 5",
-      explanation: "Group expenses by category, sum amounts, order by total descending",
+      sql: "SELECT category, SUM(ABS(amount)) as total FROM transaction_allocations WHERE amount < 0 AND is_transfer = false GROUP BY category ORDER BY total DESC LIMIT 5",
+      explanation: "Group expense allocations by category (split transactions count in each category, transfers between own accounts excluded), sum amounts, order by total descending",
     },
     {
       naturalLanguage: "Show my spending trend by month",
-      sql: "SELECT TO_CHAR(date::date, 'YYYY-MM') as month, SUM(ABS(amount)) as total FROM transactions WHERE amount < 0 GROUP BY month ORDER BY month",
+      sql: "SELECT TO_CHAR(date::date, 'YYYY-MM') as month, SUM(ABS(amount)) as total FROM transactions WHERE amount < 0 AND is_transfer = false GROUP BY month ORDER BY month",
       explanation: "Group expenses by month, show trend over time",
     },
     {
@@ -208,17 +212,17 @@ export function getDefaultQueryExamples(): QueryExample[] {
     },
     {
       naturalLanguage: "List my largest purchases",
-      sql: "SELECT date, description, ABS(amount) as amount, category FROM transactions WHERE amount < 0 ORDER BY ABS(amount) DESC LIMIT 10",
+      sql: "SELECT date, description, ABS(amount) as amount, category FROM transactions WHERE amount < 0 AND is_transfer = false ORDER BY ABS(amount) DESC LIMIT 10",
       explanation: "Order expenses by absolute amount descending, limit to 10",
     },
     {
       naturalLanguage: "How much income did I receive this year?",
-      sql: "SELECT SUM(amount) as total FROM transactions WHERE amount > 0 AND date >= DATE_TRUNC('year', CURRENT_DATE)::text",
-      explanation: "Sum positive amounts (income) for current year",
+      sql: "SELECT SUM(amount) as total FROM transactions WHERE amount > 0 AND is_transfer = false AND date >= DATE_TRUNC('year', CURRENT_DATE)::text",
+      explanation: "Sum positive amounts (income) for current year, excluding transfers between own accounts",
     },
     {
       naturalLanguage: "Compare my spending this month vs last month",
-      sql: "SELECT 'This Month' as period, SUM(ABS(amount)) as total FROM transactions WHERE amount < 0 AND date >= DATE_TRUNC('month', CURRENT_DATE)::text UNION ALL SELECT 'Last Month', SUM(ABS(amount)) FROM transactions WHERE amount < 0 AND date >= (DATE_TRUNC('month', CURRENT_DATE) - INTERVAL '1 month')::text AND date < DATE_TRUNC('month', CURRENT_DATE)::text",
+      sql: "SELECT 'This Month' as period, SUM(ABS(amount)) as total FROM transactions WHERE amount < 0 AND is_transfer = false AND date >= DATE_TRUNC('month', CURRENT_DATE)::text UNION ALL SELECT 'Last Month', SUM(ABS(amount)) FROM transactions WHERE amount < 0 AND is_transfer = false AND date >= (DATE_TRUNC('month', CURRENT_DATE) - INTERVAL '1 month')::text AND date < DATE_TRUNC('month', CURRENT_DATE)::text",
       explanation: "Use UNION to compare current month vs previous month spending",
     },
     {
@@ -265,10 +269,41 @@ export async function findSimilarTransactions(
     minScore: 0.6,
   })
 
-  return results.map(r => ({
+  return results.map(toSimilarTransaction)
+}
+
+/**
+ * Same as findSimilarTransactions, for a description that's already embedded.
+ * Pass `excludeId` to leave out the transaction being categorized.
+ */
+export async function findSimilarTransactionsByEmbedding(
+  userId: string,
+  embedding: number[],
+  topK: number = 5,
+  excludeId?: number
+): Promise<Array<{
+  description: string
+  category: string
+  amount: number
+  score: number
+}>> {
+  const results = await searchSimilarByEmbedding(userId, embedding, {
+    topK: excludeId === undefined ? topK : topK + 1,
+    docTypes: ['transaction'],
+    minScore: 0.6,
+  })
+
+  return results
+    .filter(r => excludeId === undefined || r.document.sourceId !== String(excludeId))
+    .slice(0, topK)
+    .map(toSimilarTransaction)
+}
+
+function toSimilarTransaction(r: SearchResult) {
+  return {
     description: r.document.text,
     category: (r.document.metadata.category as string) || 'Unknown',
     amount: (r.document.metadata.amount as number) || 0,
     score: r.score,
-  }))
+  }
 }
@@ -0,0 +1,205 @@
+/**
+ * Recurring Series Detection
+ *
+ * Finds charges and deposits that repeat at a regular cadence from the same
+ * merchant (streaming subscriptions, rent, a gym membership, a paycheck). A
+ * series needs:
+ * - enough occurrences: 3, or 2 for annual
+ * - most gaps between them close to one cadence (weekly, biweekly, monthly, annual)
+ * - most amounts within a band around the typical amount, so a grocery store
+ *   visited every week doesn't look like a subscription
+ * A series whose next charge is overdue by more than its grace period is
+ * flagged as cancelled.
+ */
+
+import { getRecurringCandidates, getRecurringSeries, replaceRecurringSeries } from './db/queries'
+import type { RecurringCadence, RecurringSeries, NewRecurringSeries } from './db/schema'
+import { linkTransactionMerchants } from './merchants'
+import { daysBetween, addDays, addMonths, currentDate } from './dates'
+
+export interface RecurringCandidate {
+  id: number
+  date: string // YYYY-MM-DD
+  amount: number
+  category: string | null
+  merchantId: number
+  merchantName: string
+}
+
+export interface Subscription {
+  id: number
+  merchantId: number
+  name: string
+  category: string | null
+  cadence: RecurringCadence
+  amount: number // Positive charge amount
+  amountStdDev: number
+  annualCost: number
+  occurrences: number
+  lastChargedDate: string
+  nextDueDate: string
+  status: 'active' | 'cancelled'
+}
+
+interface CadenceSpec {
+  minDays: number
+  maxDays: number
+  perYear: number
+  graceDays: number // How overdue the next charge can be before the series counts as cancelled
+}
+
+export const CADENCES: Record<RecurringCadence, CadenceSpec> = {
+  weekly: { minDays: 5, maxDays: 9, perYear: 52, graceDays: 5 },
+  biweekly: { minDays: 12, maxDays: 17, perYear: 26, graceDays: 7 },
+  monthly: { minDays: 26, maxDays: 35, perYear: 12, graceDays: 10 },
+  annual: { minDays: 350, maxDays: 380, perYear: 1, graceDays: 30 },
+}
+
+const MIN_OCCURRENCES = 3
+const MIN_ANNUAL_OCCURRENCES = 2
+const MIN_FIT = 0.75 // Share of gaps and amounts that must fit the pattern
+const AMOUNT_TOLERANCE = 0.2 // Amounts within 20% of the median count as the same charge
+const RECENT_WINDOW = 12 // Only the latest occurrences decide the cadence and amount
+
+/**
+ * The date a series is next expected after `date`
+ */
+export function nextOccurrence(date: string, cadence: RecurringCadence): string {
+  switch (cadence) {
+    case 'weekly': return addDays(date, 7)
+    case 'biweekly': return addDays(date, 14)
+    case 'monthly': return addMonths(date, 1)
+    case 'annual': return addMonths(date, 12)
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function matchCadence(gaps: number[]): RecurringCadence | null {
+  const typical = median(gaps)
+  for (const [cadence, spec] of Object.entries(CADENCES) as Array<[RecurringCadence, CadenceSpec]>) {
+    if (typical < spec.minDays || typical > spec.maxDays) continue
+    const fitting = gaps.filter(g => g >= spec.minDays && g <= spec.maxDays).length
+    return fitting / gaps.length >= MIN_FIT ? cadence : null
+  }
+  return null
+}
+
+/**
+ * Group transactions by merchant and direction, charges and deposits
+ * separately, each group oldest first. Zero-amount rows are left out.
+ */
+export function groupByMerchant(candidates: RecurringCandidate[]): RecurringCandidate[][] {
+  const groups = new Map<string, RecurringCandidate[]>()
+  for (const txn of candidates) {
+    if (txn.amount === 0) continue
+    const key = `${txn.merchantId}:${txn.amount < 0 ? 'out' : 'in'}`
+    groups.set(key, [...(groups.get(key) || []), txn])
+  }
+  return Array.from(groups.values()).map(group =>
+    group.sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id)
+  )
+}
+
+/**
+ * Find recurring series among a user's transactions. `today` (YYYY-MM-DD)
+ * decides which series look cancelled.
+ */
+export function findRecurringSeries(
+  candidates: RecurringCandidate[],
+  today: string
+): Array<Omit<NewRecurringSeries, 'userId'>> {
+  const found: Array<Omit<NewRecurringSeries, 'userId'>> = []
+  for (const all of groupByMerchant(candidates)) {
+    const recent = all.slice(-RECENT_WINDOW)
+    if (recent.length < MIN_ANNUAL_OCCURRENCES) continue
+
+    const gaps = recent.slice(1).map((txn, i) => daysBetween(recent[i].date, txn.date))
+    const cadence = matchCadence(gaps)
+    if (!cadence) continue
+    if (cadence !== 'annual' && recent.length < MIN_OCCURRENCES) continue
+
+    const amounts = recent.map(t => Math.abs(t.amount))
+    const typical = median(amounts)
+    const withinBand = amounts.filter(a => Math.abs(a - typical) <= typical * AMOUNT_TOLERANCE).length
+    if (withinBand / amounts.length < MIN_FIT) continue
+
+    // The latest charges set the expected amount, so a price increase shows up right away
+    const expected = median(amounts.slice(-3))
+    const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length
+    const stdDev = Math.sqrt(amounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / amounts.length)
+
+    const last = recent[recent.length - 1]
+    const nextDueDate = nextOccurrence(last.date, cadence)
+    const overdue = daysBetween(nextDueDate, today) > CADENCES[cadence].graceDays
+
+    found.push({
+      merchantId: last.merchantId,
+      name: last.merchantName,
+      category: last.category,
+      cadence,
+      expectedAmount: round2(last.amount < 0 ? -expected : expected),
+      amountStdDev: round2(stdDev),
+      occurrences: all.length,
+      firstDate: all[0].date,
+      lastDate: last.date,
+      nextDueDate,
+      status: overdue ? 'cancelled' : 'active',
+    })
+  }
+
+  return found.sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate))
+}
+
+/**
+ * Rescan a user's transactions and replace their stored recurring series
+ */
+export async function detectRecurringSeries(userId: string, today = currentDate()): Promise<RecurringSeries[]> {
+  await linkTransactionMerchants(userId)
+  const candidates = await getRecurringCandidates(userId)
+  const series = findRecurringSeries(candidates, today)
+  return replaceRecurringSeries(userId, series.map(s => ({ ...s, userId })))
+}
+
+/**
+ * Yearly cost of a series at its expected amount
+ */
+export function annualizedAmount(series: Pick<RecurringSeries, 'cadence' | 'expectedAmount'>): number {
+  const spec = CADENCES[series.cadence as RecurringCadence]
+  return round2(Math.abs(series.expectedAmount) * (spec?.perYear ?? 0))
+}
+
+/**
+ * The user's subscriptions: recurring charges (not deposits), active ones
+ * first, most expensive first. Detects series on first use.
+ */
+export async function getSubscriptions(userId: string): Promise<Subscription[]> {
+  let series = await getRecurringSeries(userId)
+  if (series.length === 0) series = await detectRecurringSeries(userId)
+
+  return series
+    .filter(s => s.expectedAmount < 0)
+    .map(s => ({
+      id: s.id,
+      merchantId: s.merchantId,
+      name: s.name,
+      category: s.category,
+      cadence: s.cadence as RecurringCadence,
+      amount: Math.abs(s.expectedAmount),
+      amountStdDev: s.amountStdDev,
+      annualCost: annualizedAmount(s),
+      occurrences: s.occurrences,
+      lastChargedDate: s.lastDate,
+      nextDueDate: s.nextDueDate,
+      status: s.status as Subscription['status'],
+    }))
+    .sort((a, b) => (a.status === 'active' ? 0 : 1) - (b.status === 'active' ? 0 : 1) || b.annualCost - a.annualCost)
+}
@@ -0,0 +1,107 @@
+/**
+ * Review Queue
+ *
+ * Collects transactions whose category the categorizer wasn't sure about
+ * ('Other', or low/medium confidence) and groups them by normalized merchant,
+ * so a whole merchant can be approved or corrected in one action.
+ */
+
+import { getReviewCandidates, setReviewedCategory } from './db/queries'
+import { merchantKey, learnFromCorrection, applyRuleToExisting, invalidateLocalModel } from './smartCategorization'
+
+export interface ReviewGroup {
+  merchant: string
+  transactionIds: number[]
+  count: number
+  totalAmount: number
+  suggestedCategory: string // Most common current category among the group
+  categories: Record<string, number>
+  confidence: 'low' | 'medium' | null // Lowest confidence in the group; null when never scored
+  methods: string[]
+  lastDate: string
+  samples: Array<{ id: number; date: string; description: string; amount: number; account: string | null }>
+}
+
+const CONFIDENCE_ORDER = ['low', 'medium'] as const
+const MAX_SAMPLES = 5
+
+/**
+ * Get the user's review queue, largest groups first
+ */
+export async function getReviewQueue(userId: string): Promise<ReviewGroup[]> {
+  const rows = await getReviewCandidates(userId)
+  const groups = new Map<string, ReviewGroup>()
+
+  for (const row of rows) {
+    const merchant = merchantKey(row.description)
+    let group = groups.get(merchant)
+    if (!group) {
+      group = {
+        merchant,
+        transactionIds: [],
+        count: 0,
+        totalAmount: 0,
+        suggestedCategory: 'Other',
+        categories: {},
+        confidence: null,
+        methods: [],
+        lastDate: row.date,
+        samples: [],
+      }
+      groups.set(merchant, group)
+    }
+
+    group.transactionIds.push(row.id)
+    group.count++
+    group.totalAmount += row.amount
+    const category = row.category || 'Other'
+    group.categories[category] = (group.categories[category] || 0) + 1
+    if (row.categoryMethod && !group.methods.includes(row.categoryMethod)) {
+      group.methods.push(row.categoryMethod)
+    }
+    for (const level of CONFIDENCE_ORDER) {
+      if (row.categoryConfidence === level && (group.confidence === null || CONFIDENCE_ORDER.indexOf(level) < CONFIDENCE_ORDER.indexOf(group.confidence))) {
+        group.confidence = level
+      }
+    }
+    if (row.date > group.lastDate) group.lastDate = row.date
+    if (group.samples.length < MAX_SAMPLES) {
+      group.samples.push({ id: row.id, date: row.date, description: row.description, amount: row.amount, account: row.account })
+    }
+  }
+
+  for (const group of Array.from(groups.values())) {
+    // Prefer a real category over 'Other' when suggesting one
+    const ranked = Object.entries(group.categories).sort((a, b) =>
+      (a[0] === 'Other' ? 1 : 0) - (b[0] === 'Other' ? 1 : 0) || b[1] - a[1]
+    )
+    group.suggestedCategory = ranked[0][0]
+    group.totalAmount = Math.round(group.totalAmount * 100) / 100
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count || b.lastDate.localeCompare(a.lastDate))
+}
+
+/**
+ * Approve or correct a review group: give its transactions the category and
+ * mark them as user-confirmed. With `createRule`, also create a rule for the
+ * merchant and apply it to the rest of that merchant's transactions.
+ */
+export async function resolveReviewGroup(
+  userId: string,
+  transactionIds: number[],
+  description: string,
+  category: string,
+  createRule: boolean
+): Promise<{ updated: number; ruleCreated: boolean; rulePattern?: string; ruleApplied: number }> {
+  const updated = await setReviewedCategory(userId, transactionIds, category)
+  invalidateLocalModel(userId)
+
+  let ruleApplied = 0
+  const learned = await learnFromCorrection(userId, description, category, createRule)
+  if (learned.rule) {
+    ruleApplied = await applyRuleToExisting(userId, learned.rule)
+  }
+
+  return { updated, ruleCreated: learned.ruleCreated, rulePattern: learned.pattern, ruleApplied }
+}
@@ -0,0 +1,385 @@
+/**
+ * Rule Engine
+ *
+ * Evaluates category rules against a transaction. A rule matches when every
+ * condition it sets holds: description contains / regex / normalized merchant
+ * equals, absolute amount range, sign, account and day of month.
+ *
+ * Rules run in order (priority ascending, the user's rules before system rules).
+ * The first matching rule to set an action wins that action; later matching
+ * rules only fill in actions that are still unset, and tags accumulate.
+ * A matching rule with stopProcessing ends evaluation.
+ */
+
+import { RULE_MATCH_TYPES, type CategoryRule, type NewCategoryRule } from './db/schema'
+
+export interface RuleInput {
+  description: string
+  normalizedMerchant?: string
+  amount?: number | null
+  account?: string | null
+  date?: string | null // YYYY-MM-DD
+}
+
+export interface RuleOutcome {
+  category?: string
+  tags: string[]
+  payee?: string
+  markTransfer: boolean
+  ruleIds: number[] // Rules that matched, in evaluation order
+}
+
+type RuleConditions = Pick<
+  CategoryRule,
+  'pattern' | 'matchType' | 'amountMin' | 'amountMax' | 'sign' | 'account' | 'dayOfMonthMin' | 'dayOfMonthMax'
+>
+
+type RuleActions = Pick<CategoryRule, 'category' | 'setTag' | 'renamePayee' | 'markTransfer' | 'stopProcessing'>
+
+export type EngineRule = RuleConditions & RuleActions & Pick<CategoryRule, 'id' | 'userId' | 'priority'>
+
+export interface DryRunTransaction extends RuleInput {
+  id: number
+  category: string | null
+  tags: string[]
+  payee: string | null
+  isTransfer: boolean
+}
+
+export interface DryRunMatch {
+  id: number
+  date: string | null
+  description: string
+  amount: number | null
+  fromCategory: string | null
+  toCategory: string | null
+  addedTags: string[]
+  payee: string | null
+  markTransfer: boolean
+  // 'change': saving the rule updates the transaction; 'unchanged': it already
+  // looks like this; 'overridden': an earlier rule decides the category instead
+  status: 'change' | 'unchanged' | 'overridden'
+  overriddenBy?: number // Rule ID
+}
+
+export interface RuleConflict {
+  ruleId: number
+  pattern: string | null
+  matchType: string
+  category: string | null
+  isSystem: boolean
+  // 'shadowed_by': the other rule runs first and wins on shared transactions;
+  // 'shadows': this rule runs first and wins over the other one
+  relation: 'shadowed_by' | 'shadows'
+  overlap: number // Transactions both rules match
+  sameCategory: boolean
+}
+
+export interface DryRunResult {
+  matches: DryRunMatch[]
+  counts: { matched: number; changed: number; unchanged: number; overridden: number }
+  conflicts: RuleConflict[]
+}
+
+const regexCache = new Map<string, RegExp | null>()
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern)!
+}
+
+/**
+ * Whether every condition a rule sets holds for the input
+ */
+export function ruleMatches(rule: RuleConditions, input: RuleInput): boolean {
+  if (rule.pattern) {
+    const upperDesc = input.description.toUpperCase()
+    const merchant = (input.normalizedMerchant ?? input.description).toUpperCase()
+    const pattern = rule.pattern.toUpperCase()
+
+    if (rule.matchType === 'regex') {
+      const regex = compileRegex(rule.pattern)
+      if (!regex || !regex.test(input.description)) return false
+    } else if (rule.matchType === 'merchant') {
+      if (merchant !== pattern) return false
+    } else if (!upperDesc.includes(pattern) && !merchant.includes(pattern)) {
+      return false
+    }
+  }
+
+  const hasAmountCondition = rule.amountMin !== null || rule.amountMax !== null || rule.sign !== null
+  if (hasAmountCondition) {
+    if (input.amount === undefined || input.amount === null) return false
+    const abs = Math.abs(input.amount)
+    if (rule.amountMin !== null && abs < rule.amountMin) return false
+    if (rule.amountMax !== null && abs > rule.amountMax) return false
+    if (rule.sign === 'expense' && input.amount >= 0) return false
+    if (rule.sign === 'income' && input.amount <= 0) return false
+  }
+
+  if (rule.account) {
+    if (!input.account || input.account.toLowerCase() !== rule.account.toLowerCase()) return false
+  }
+
+  if (rule.dayOfMonthMin !== null || rule.dayOfMonthMax !== null) {
+    const day = input.date ? parseInt(input.date.slice(8, 10)) : NaN
+    if (!Number.isFinite(day)) return false
+    if (rule.dayOfMonthMin !== null && day < rule.dayOfMonthMin) return false
+    if (rule.dayOfMonthMax !== null && day > rule.dayOfMonthMax) return false
+  }
+
+  return true
+}
+
+/**
+ * Evaluation order: priority ascending, then the user's rules before system
+ * rules, then oldest first
+ */
+export function compareRules(a: EngineRule, b: EngineRule): number {
+  if (a.priority !== b.priority) return a.priority - b.priority
+  if ((a.userId === null) !== (b.userId === null)) return a.userId === null ? 1 : -1
+  return a.id - b.id
+}
+
+/**
+ * Fill in defaults for a rule that hasn't been saved yet
+ */
+export function withRuleDefaults(
+  values: Partial<Omit<NewCategoryRule, 'userId'>>,
+  id: number,
+  userId: string
+): EngineRule {
+  return {
+    id,
+    userId,
+    pattern: values.pattern ?? null,
+    matchType: values.matchType ?? 'contains',
+    amountMin: values.amountMin ?? null,
+    amountMax: values.amountMax ?? null,
+    sign: values.sign ?? null,
+    account: values.account ?? null,
+    dayOfMonthMin: values.dayOfMonthMin ?? null,
+    dayOfMonthMax: values.dayOfMonthMax ?? null,
+    priority: values.priority ?? 100,
+    stopProcessing: values.stopProcessing ?? false,
+    category: values.category ?? null,
+    setTag: values.setTag ?? null,
+    renamePayee: values.renamePayee ?? null,
+    markTransfer: values.markTransfer ?? false,
+  }
+}
+
+/**
+ * Work out what saving `candidate` would do to existing transactions without
+ * changing anything: which transactions it matches, how each would change,
+ * and which other rules overlap with it. `rules` are the user's current rules;
+ * a rule with the candidate's ID is treated as the version being edited.
+ */
+export function dryRunRule(
+  candidate: EngineRule,
+  rules: EngineRule[],
+  transactions: DryRunTransaction[]
+): DryRunResult {
+  const ordered = [...rules.filter(r => r.id !== candidate.id), candidate].sort(compareRules)
+  const position = ordered.indexOf(candidate)
+  const others = ordered.filter(r => r !== candidate)
+
+  const matches: DryRunMatch[] = []
+  const counts = { matched: 0, changed: 0, unchanged: 0, overridden: 0 }
+  const overlaps = new Map<number, { rule: EngineRule; count: number }>()
+
+  for (const txn of transactions) {
+    if (!ruleMatches(candidate, txn)) continue
+    counts.matched++
+
+    const outcome = applyRules(ordered, txn)!
+    const applies = outcome.ruleIds.includes(candidate.id)
+    const outcomeCategory = outcome.category ?? (outcome.markTransfer ? 'Transfer' : undefined)
+    const toCategory = applies ? outcomeCategory ?? txn.category : txn.category
+    const addedTags = applies ? outcome.tags.filter(tag => !txn.tags.includes(tag)) : []
+    const payee = applies && outcome.payee ? outcome.payee : txn.payee
+    const markTransfer = applies && outcome.markTransfer && !txn.isTransfer
+
+    // An earlier rule decided the category, or stopped processing before this one ran
+    const decidedBy = !applies
+      ? outcome.ruleIds[outcome.ruleIds.length - 1]
+      : candidate.category && outcome.category !== candidate.category
+        ? outcome.ruleIds.find(id => id !== candidate.id && ordered.find(r => r.id === id)?.category)
+        : undefined
+
+    let status: DryRunMatch['status']
+    if (decidedBy !== undefined) {
+      status = 'overridden'
+    } else if (toCategory !== txn.category || addedTags.length > 0 || payee !== txn.payee || markTransfer) {
+      status = 'change'
+    } else {
+      status = 'unchanged'
+    }
+    counts[status === 'change' ? 'changed' : status]++
+
+    matches.push({
+      id: txn.id,
+      date: txn.date ?? null,
+      description: txn.description,
+      amount: txn.amount ?? null,
+      fromCategory: txn.category,
+      toCategory,
+      addedTags,
+      payee,
+      markTransfer,
+      status,
+      ...(decidedBy !== undefined && { overriddenBy: decidedBy }),
+    })
+
+    // Rules that also match this transaction and compete with the candidate:
+    // both set a category, or the other one stops processing ahead of it
+    for (const other of others) {
+      const competes = (candidate.category && other.category) ||
+        (other.stopProcessing && ordered.indexOf(other) < position) ||
+        (candidate.stopProcessing && ordered.indexOf(other) > position)
+      if (!competes || !ruleMatches(other, txn)) continue
+      const entry = overlaps.get(other.id) || { rule: other, count: 0 }
+      entry.count++
+      overlaps.set(other.id, entry)
+    }
+  }
+
+  const conflicts: RuleConflict[] = Array.from(overlaps.values())
+    .map(({ rule, count }) => ({
+      ruleId: rule.id,
+      pattern: rule.pattern,
+      matchType: rule.matchType,
+      category: rule.category,
+      isSystem: rule.userId === null,
+      relation: ordered.indexOf(rule) < position ? 'shadowed_by' as const : 'shadows' as const,
+      overlap: count,
+      sameCategory: rule.category === candidate.category,
+    }))
+    .sort((a, b) => b.overlap - a.overlap)
+
+  return { matches, counts, conflicts }
+}
+
+/**
+ * Run rules (already in evaluation order) against a transaction.
+ * Returns null when no rule matched.
+ */
+export function applyRules(rules: Array<RuleConditions & RuleActions & { id: number }>, input: RuleInput): RuleOutcome | null {
+  let outcome: RuleOutcome | null = null
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, input)) continue
+
+    outcome ??= { tags: [], markTransfer: false, ruleIds: [] }
+    outcome.ruleIds.push(rule.id)
+    if (rule.category && outcome.category === undefined) outcome.category = rule.category
+    if (rule.renamePayee && outcome.payee === undefined) outcome.payee = rule.renamePayee
+    if (rule.setTag && !outcome.tags.includes(rule.setTag)) outcome.tags.push(rule.setTag)
+    if (rule.markTransfer) outcome.markTransfer = true
+
+    if (rule.stopProcessing) break
+  }
+
+  return outcome
+}
+
+/**
+ * Validate a rule payload from the API. With `partial`, only the fields
+ * present are checked (for PATCH). Returns the values to store or an error message.
+ */
+export function validateRuleInput(
+  body: Record<string, unknown>,
+  partial = false
+): { values: Partial<Omit<NewCategoryRule, 'userId'>>; error?: undefined } | { values?: undefined; error: string } {
+  const values: Partial<Omit<NewCategoryRule, 'userId'>> = {}
+
+  const optionalText = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : null
+  const optionalNumber = (value: unknown) =>
+    value === null || value === '' ? null : Number(value)
+
+  if (body.matchType !== undefined) {
+    if (!(RULE_MATCH_TYPES as readonly unknown[]).includes(body.matchType)) {
+      return { error: `matchType must be one of: ${RULE_MATCH_TYPES.join(', ')}` }
+    }
+    values.matchType = body.matchType as string
+  }
+  if (body.pattern !== undefined) {
+    const pattern = optionalText(body.pattern)
+    const matchType = values.matchType ?? 'contains'
+    if (pattern && matchType === 'regex') {
+      try {
+        new RegExp(pattern)
+      } catch {
+        return { error: 'pattern is not a valid regular expression' }
+      }
+    }
+    // Substring and merchant patterns are matched case-insensitively; store them upper-cased
+    values.pattern = pattern && matchType !== 'regex' ? pattern.toUpperCase() : pattern
+  }
+
+  for (const key of ['amountMin', 'amountMax'] as const) {
+    if (body[key] !== undefined) {
+      const amount = optionalNumber(body[key])
+      if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+        return { error: `${key} must be a non-negative number` }
+      }
+      values[key] = amount
+    }
+  }
+  if (values.amountMin != null && values.amountMax != null && values.amountMin > values.amountMax) {
+    return { error: 'amountMin must not exceed amountMax' }
+  }
+
+  if (body.sign !== undefined) {
+    const sign = optionalText(body.sign)
+    if (sign !== null && sign !== 'expense' && sign !== 'income') {
+      return { error: "sign must be 'expense' or 'income'" }
+    }
+    values.sign = sign
+  }
+  if (body.account !== undefined) {
+    values.account = optionalText(body.account)
+  }
+
+  for (const key of ['dayOfMonthMin', 'dayOfMonthMax'] as const) {
+    if (body[key] !== undefined) {
+      const day = optionalNumber(body[key])
+      if (day !== null && (!Number.isInteger(day) || day < 1 || day > 31)) {
+        return { error: `${key} must be a whole number from 1 to 31` }
+      }
+      values[key] = day
+    }
+  }
+
+  if (body.priority !== undefined) {
+    const priority = Number(body.priority)
+    if (!Number.isInteger(priority)) return { error: 'priority must be a whole number' }
+    values.priority = priority
+  }
+  if (body.stopProcessing !== undefined) {
+    values.stopProcessing = Boolean(body.stopProcessing)
+  }
+
+  if (body.category !== undefined) values.category = optionalText(body.category)
+  if (body.setTag !== undefined) values.setTag = optionalText(body.setTag)
+  if (body.renamePayee !== undefined) values.renamePayee = optionalText(body.renamePayee)
+  if (body.markTransfer !== undefined) values.markTransfer = Boolean(body.markTransfer)
+
+  if (!partial) {
+    const hasCondition = values.pattern || values.amountMin != null || values.amountMax != null ||
+      values.sign || values.account || values.dayOfMonthMin != null || values.dayOfMonthMax != null
+    if (!hasCondition) return { error: 'A rule needs at least one condition' }
+
+    const hasAction = values.category || values.setTag || values.renamePayee || values.markTransfer
+    if (!hasAction) return { error: 'A rule needs at least one action (category, tag, payee or transfer)' }
+  }
+
+  return { values }
+}
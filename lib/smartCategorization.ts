@@ -4,15 +4,26 @@
  * Enhanced merchant/payee categorization with:
  * - Merchant name normalization
  * - Rule-based pattern matching (fast, free)
+ * - Default categories set on the user's merchants
+ * - Local classifier trained on the user's own history (offline, free)
+ * - Nearest-neighbor vote over similar past transactions (pgvector)
  * - AI-powered fallback using OpenAI (accurate, handles edge cases)
  * - Confidence scoring
  * - Learning from user corrections
  */
 
 import { OpenAI } from 'openai'
-import { getCategoryRules, insertCategoryRule } from './db/queries'
+import {
+  getCategoryRules, insertCategoryRule, getRuleCandidates, applyRuleActionsToMany, getTrainingExamples, getUserCategories,
+  getMerchantDefaultCategories, type RuleActionUpdate,
+} from './db/queries'
+import type { CategoryRule } from './db/schema'
+import { applyRules, ruleMatches, dryRunRule, type EngineRule, type DryRunResult, type RuleOutcome } from './ruleEngine'
+import { trainLocalModel, predictCategory, type LocalModel } from './localClassifier'
+import { getDefaultCategoryNodes, describeCategoriesForPrompt, findCategoryName, type CategoryNode } from './categories'
 
-// Available categories for the system
+// Built-in categories. Each user's own set starts as a copy of these (see
+// lib/categories.ts); the built-in patterns below categorize into them.
 export const CATEGORIES = [
   'Coffee',
   'Groceries', 
@@ -41,13 +52,44 @@ export const CATEGORIES = [
 export type Category = typeof CATEGORIES[number]
 
 export interface CategorizationResult {
-  category: Category
+  category: string // One of the user's categories
   confidence: 'high' | 'medium' | 'low'
-  method: 'rule' | 'pattern' | 'ai' | 'fallback'
+  method: 'rule' | 'merchant' | 'pattern' | 'local' | 'similarity' | 'ai' | 'fallback'
   normalizedMerchant: string
   suggestRule?: boolean // True if we should offer to create a rule
+  tags?: string[] // Tags set by matching rules
+  payee?: string // Payee name set by a matching rule
+  markTransfer?: boolean // A matching rule marks this as a transfer
 }
 
+// What rule conditions can look at besides the description
+export interface CategorizationInput {
+  id?: number // Set when recategorizing, so the transaction doesn't vote for itself
+  description: string
+  amount?: number | null
+  account?: string | null
+  date?: string | null // YYYY-MM-DD
+}
+
+type RuleActions = Pick<CategorizationResult, 'tags' | 'payee' | 'markTransfer'>
+
+// Local predictions at or above this posterior are used without asking the AI
+const LOCAL_MIN_PROBABILITY = 0.7
+const LOCAL_HIGH_PROBABILITY = 0.95
+
+// Trained models are cached per user and retrained after this long
+const LOCAL_MODEL_TTL_MS = 10 * 60 * 1000
+const localModels = new Map<string, { model: LocalModel | null; trainedAt: number }>()
+
+// Neighbors considered by the similarity vote. Embeddings of the same merchant
+// (text-embedding-3-small) typically score 0.85+, unrelated ones below 0.7.
+const SIMILARITY_TOP_K = 7
+const SIMILARITY_HIGH = { share: 0.8, bestScore: 0.9, support: 2 }
+const SIMILARITY_MEDIUM = { share: 0.6, bestScore: 0.8 }
+const UNLABELED_CATEGORIES = new Set(['Other', 'Unknown', 'Uncategorized', ''])
+
+type Neighbor = { category: string; score: number }
+
 // Common merchant prefixes to strip for normalization
 const MERCHANT_PREFIXES = [
   'SQ *', 'SQU*', 'SQ*',           // Square
@@ -134,34 +176,81 @@ export function normalizeMerchant(description: string): string {
 }
 
 /**
- * Pattern-based categorization (fast, no API calls)
+ * The key a description is grouped under as a merchant: its normalized
+ * merchant name, or the whole description when normalization strips everything
+ */
+export function merchantKey(description: string): string {
+  return normalizeMerchant(description) || description.toUpperCase().trim()
+}
+
+/**
+ * Whether a description looks like money moving between accounts rather
+ * than a purchase, using the Transfer patterns. Used by the transfer matcher.
+ */
+export function isTransferDescription(description: string): boolean {
+  const upperDesc = description.toUpperCase()
+  return EXTENDED_PATTERNS['Transfer'].some(pattern => upperDesc.includes(pattern))
+}
+
+function toInput(input: string | CategorizationInput): CategorizationInput {
+  return typeof input === 'string' ? { description: input } : input
+}
+
+function toActions(outcome: RuleOutcome | null): RuleActions {
+  if (!outcome) return {}
+  return {
+    ...(outcome.tags.length > 0 && { tags: outcome.tags }),
+    ...(outcome.payee && { payee: outcome.payee }),
+    ...(outcome.markTransfer && { markTransfer: true }),
+  }
+}
+
+/**
+ * Run the rule engine, then the merchant's default category, then the
+ * built-in patterns. Rule actions (tags, payee, transfer) are returned even
+ * when no rule set a category, so the caller can attach them to an AI result.
+ * With `categories`, categories the user no longer has (renamed or deleted)
+ * are passed over. `merchantDefaults` maps merchant keys to default categories.
  */
-export async function categorizeByPattern(description: string): Promise<CategorizationResult | null> {
+async function matchRulesAndPatterns(
+  input: CategorizationInput,
+  rules: CategoryRule[],
+  categories?: ReadonlySet<string>,
+  merchantDefaults?: ReadonlyMap<string, string>
+): Promise<{ result: CategorizationResult | null; actions: RuleActions }> {
+  const allowed = (category: string) => !categories || categories.has(category)
+  const { description } = input
   const normalizedMerchant = normalizeMerchant(description)
   const upperDesc = normalizedMerchant.toUpperCase()
   
-  // First check user-defined rules in database (highest priority)
-  const rules = await getCategoryRules()
-  for (const rule of rules) {
-    if (upperDesc.includes(rule.pattern.toUpperCase())) {
-      return {
-        category: rule.category as Category,
-        confidence: 'high',
-        method: 'rule',
-        normalizedMerchant,
-      }
+  // First run database rules: the user's own, then system defaults (highest priority)
+  const outcome = applyRules(rules, { ...input, normalizedMerchant })
+  const actions = toActions(outcome)
+  const category = outcome?.category ?? (outcome?.markTransfer ? 'Transfer' : undefined)
+  if (category && allowed(category)) {
+    return {
+      result: { category, confidence: 'high', method: 'rule', normalizedMerchant, ...actions },
+      actions,
+    }
+  }
+  
+  // Then the default category the user set on this merchant
+  const merchantCategory = merchantDefaults?.get(merchantKey(description))
+  if (merchantCategory && allowed(merchantCategory)) {
+    return {
+      result: { category: merchantCategory, confidence: 'high', method: 'merchant', normalizedMerchant, ...actions },
+      actions,
     }
   }
   
   // Then check extended patterns
   for (const [category, patterns] of Object.entries(EXTENDED_PATTERNS)) {
+    if (!allowed(category)) continue
     for (const pattern of patterns) {
       if (upperDesc.includes(pattern)) {
         return {
-          category: category as Category,
-          confidence: 'high',
-          method: 'pattern',
-          normalizedMerchant,
+          result: { category, confidence: 'high', method: 'pattern', normalizedMerchant, ...actions },
+          actions,
         }
       }
     }
@@ -170,26 +259,173 @@ export async function categorizeByPattern(description: string): Promise<Categori
   // Check for common payment processor patterns
   if (description.toUpperCase().startsWith('SQ *') || description.toUpperCase().startsWith('SQU*')) {
     // Square - could be anything, suggest AI categorization
-    return null
+    return { result: null, actions }
   }
   
-  if (description.toUpperCase().startsWith('TST*') || description.toUpperCase().startsWith('TOAST*')) {
+  if ((description.toUpperCase().startsWith('TST*') || description.toUpperCase().startsWith('TOAST*')) && allowed('Dining')) {
     return {
-      category: 'Dining',
-      confidence: 'medium',
-      method: 'pattern',
-      normalizedMerchant,
+      result: { category: 'Dining', confidence: 'medium', method: 'pattern', normalizedMerchant, ...actions },
+      actions,
     }
   }
   
-  return null
+  return { result: null, actions }
+}
+
+/**
+ * Get the user's local classifier, training it from their categorized
+ * transactions when there is no fresh cached model. Null when the user
+ * doesn't have enough history yet.
+ */
+export async function getLocalModel(userId: string): Promise<LocalModel | null> {
+  const cached = localModels.get(userId)
+  if (cached && Date.now() - cached.trainedAt < LOCAL_MODEL_TTL_MS) {
+    return cached.model
+  }
+
+  const examples = await getTrainingExamples(userId)
+  const model = trainLocalModel(examples.map(row => ({
+    text: normalizeMerchant(row.description),
+    amount: row.amount,
+    category: row.category!,
+  })))
+  localModels.set(userId, { model, trainedAt: Date.now() })
+  return model
+}
+
+/**
+ * Drop the user's cached local classifier so the next categorization
+ * retrains it (call after the user corrects a category)
+ */
+export function invalidateLocalModel(userId: string): void {
+  localModels.delete(userId)
+}
+
+/**
+ * Categorize with the local classifier. Confidence reflects the model's
+ * posterior; callers decide whether a low-confidence guess beats asking the AI.
+ */
+function categorizeLocally(
+  model: LocalModel | null,
+  input: CategorizationInput,
+  normalizedMerchant: string
+): CategorizationResult | null {
+  if (!model) return null
+  const prediction = predictCategory(model, normalizedMerchant, input.amount)
+  if (!prediction) return null
+
+  return {
+    category: prediction.category,
+    confidence: prediction.probability >= LOCAL_HIGH_PROBABILITY ? 'high'
+      : prediction.probability >= LOCAL_MIN_PROBABILITY ? 'medium'
+      : 'low',
+    method: 'local',
+    normalizedMerchant,
+    suggestRule: true,
+  }
+}
+
+/**
+ * Weighted vote over similar past transactions. Each neighbor votes for its
+ * category with its similarity score. Confidence needs both agreement (the
+ * winner's share of the vote) and closeness (its best neighbor's score);
+ * returns null when the neighbors don't clear the medium bar.
+ */
+function voteOnNeighbors(neighbors: Neighbor[], normalizedMerchant: string): CategorizationResult | null {
+  const votes = new Map<string, { weight: number; support: number; bestScore: number }>()
+  let totalWeight = 0
+  for (const { category, score } of neighbors) {
+    if (UNLABELED_CATEGORIES.has(category)) continue
+    const vote = votes.get(category) ?? { weight: 0, support: 0, bestScore: 0 }
+    vote.weight += score
+    vote.support++
+    vote.bestScore = Math.max(vote.bestScore, score)
+    votes.set(category, vote)
+    totalWeight += score
+  }
+
+  const winner = Array.from(votes.entries()).sort((a, b) => b[1].weight - a[1].weight)[0]
+  if (!winner) return null
+  const [category, { weight, support, bestScore }] = winner
+  const share = weight / totalWeight
+
+  let confidence: CategorizationResult['confidence']
+  if (share >= SIMILARITY_HIGH.share && bestScore >= SIMILARITY_HIGH.bestScore && support >= SIMILARITY_HIGH.support) {
+    confidence = 'high'
+  } else if (share >= SIMILARITY_MEDIUM.share && bestScore >= SIMILARITY_MEDIUM.bestScore) {
+    confidence = 'medium'
+  } else {
+    return null
+  }
+
+  return { category, confidence, method: 'similarity', normalizedMerchant, suggestRule: true }
+}
+
+/**
+ * Categorize by similarity to the user's already-categorized transactions in
+ * the vector store. Needs OpenAI for the embeddings, so the embedding modules
+ * are only loaded when a key is configured.
+ */
+async function categorizeBySimilarity(
+  userId: string,
+  inputs: Array<{ input: CategorizationInput; normalizedMerchant: string }>
+): Promise<Array<CategorizationResult | null>> {
+  if (!process.env.OPENAI_API_KEY || inputs.length === 0) {
+    return inputs.map(() => null)
+  }
+
+  try {
+    const { embedTexts } = await import('./embeddings')
+    const { findSimilarTransactionsByEmbedding } = await import('./rag')
+    const embeddings = await embedTexts(inputs.map(({ input }) => input.description))
+    // embedTexts drops blank texts, which would misalign the results
+    if (embeddings.length !== inputs.length) return inputs.map(() => null)
+
+    const results: Array<CategorizationResult | null> = []
+    for (let i = 0; i < inputs.length; i++) {
+      const neighbors = await findSimilarTransactionsByEmbedding(userId, embeddings[i], SIMILARITY_TOP_K, inputs[i].input.id)
+      results.push(voteOnNeighbors(neighbors, inputs[i].normalizedMerchant))
+    }
+    return results
+  } catch (error) {
+    console.error('Similarity categorization failed:', error)
+    return inputs.map(() => null)
+  }
+}
+
+/**
+ * Pattern-based categorization (fast, no API calls)
+ * Pass `rules` when categorizing many transactions to avoid reloading them.
+ */
+export async function categorizeByPattern(
+  userId: string,
+  input: string | CategorizationInput,
+  rules?: CategoryRule[]
+): Promise<CategorizationResult | null> {
+  const [categoryRules, categories, merchantDefaults] = await Promise.all([
+    rules ?? getCategoryRules(userId),
+    getUserCategories(userId),
+    getMerchantDefaultCategories(userId),
+  ])
+  const { result } = await matchRulesAndPatterns(
+    toInput(input),
+    categoryRules,
+    new Set(categories.map(c => c.name)),
+    merchantDefaults
+  )
+  return result
 }
 
 /**
  * AI-powered categorization using OpenAI
- * Only called when pattern matching fails
+ * Only called when pattern matching fails. Pass the user's categories so the
+ * model picks from their set; defaults to the built-in categories.
  */
-export async function categorizeByAI(description: string, normalizedMerchant: string): Promise<CategorizationResult> {
+export async function categorizeByAI(
+  description: string,
+  normalizedMerchant: string,
+  categories: CategoryNode[] = getDefaultCategoryNodes()
+): Promise<CategorizationResult> {
   // Check if OpenAI is configured
   if (!process.env.OPENAI_API_KEY) {
     return {
@@ -211,7 +447,7 @@ export async function categorizeByAI(description: string, normalizedMerchant: st
           role: 'system',
           content: `You are a financial transaction categorizer. Given a merchant/payee name, determine the most appropriate category.
 
-Available categories: ${CATEGORIES.join(', ')}
+${describeCategoriesForPrompt(categories)}
 
 Rules:
 - Respond with ONLY the category name, nothing else
@@ -231,10 +467,8 @@ Normalized merchant: "${normalizedMerchant}"`
     
     const aiCategory = response.choices[0].message.content?.trim() || 'Other'
     
-    // Validate the AI response is a valid category
-    const validCategory = CATEGORIES.includes(aiCategory as Category) 
-      ? (aiCategory as Category)
-      : 'Other'
+    // Validate the AI response is one of the user's categories
+    const validCategory = findCategoryName(categories.map(c => c.name), aiCategory) ?? 'Other'
     
     return {
       category: validCategory,
@@ -255,29 +489,138 @@ Normalized merchant: "${normalizedMerchant}"`
   }
 }
 
+// The tiers a categorization runs through. smartCategorize supplies the
+// user's own; the eval harness swaps in fixed rules, a model and a stub AI.
+// With `categories`, results outside that set are passed over.
+export interface CategorizationTiers {
+  rules: CategoryRule[]
+  categories?: ReadonlySet<string>
+  merchantDefaults?: ReadonlyMap<string, string> // Merchant key -> default category
+  getLocalModel: () => Promise<LocalModel | null>
+  similarity?: (input: CategorizationInput, normalizedMerchant: string) => Promise<CategorizationResult | null>
+  ai: (description: string, normalizedMerchant: string) => Promise<CategorizationResult>
+}
+
 /**
- * Smart categorization - tries pattern matching first, falls back to AI
+ * Run one transaction through the tiers in order: rules and patterns, the
+ * local classifier, similar past transactions, then the AI
  */
-export async function smartCategorize(description: string): Promise<CategorizationResult> {
-  // Try pattern-based first (fast, free)
-  const patternResult = await categorizeByPattern(description)
-  if (patternResult) {
-    return patternResult
+export async function categorizeWithTiers(
+  input: CategorizationInput,
+  tiers: CategorizationTiers
+): Promise<CategorizationResult> {
+  const { description } = input
+  const allowed = (result: CategorizationResult | null) =>
+    result && (!tiers.categories || tiers.categories.has(result.category)) ? result : null
+
+  // Try rules and patterns first (fast, free)
+  const { result, actions } = await matchRulesAndPatterns(input, tiers.rules, tiers.categories, tiers.merchantDefaults)
+  if (result) {
+    return result
   }
   
-  // Fall back to AI categorization
+  // Then the local classifier, when it's confident enough
   const normalizedMerchant = normalizeMerchant(description)
-  return categorizeByAI(description, normalizedMerchant)
+  const local = allowed(categorizeLocally(await tiers.getLocalModel(), input, normalizedMerchant))
+  if (local && local.confidence !== 'low') {
+    return { ...local, ...actions }
+  }
+
+  // Then a vote over similar past transactions
+  const similar = allowed(tiers.similarity ? await tiers.similarity(input, normalizedMerchant) : null)
+  if (similar) {
+    return { ...similar, ...actions }
+  }
+
+  // Fall back to AI categorization, keeping any rule actions. Without the AI
+  // a low-confidence local guess still beats 'Other'.
+  const aiResult = await tiers.ai(description, normalizedMerchant)
+  return { ...(aiResult.method === 'fallback' && local ? local : aiResult), ...actions }
 }
 
 /**
- * Learn from user correction - optionally create a new rule
+ * Smart categorization - tries rules and pattern matching first, then the
+ * user's local classifier and similar past transactions, and falls back to AI
+ */
+export async function smartCategorize(
+  userId: string,
+  input: string | CategorizationInput
+): Promise<CategorizationResult> {
+  const [rules, categories, merchantDefaults] = await Promise.all([
+    getCategoryRules(userId),
+    getUserCategories(userId),
+    getMerchantDefaultCategories(userId),
+  ])
+  return categorizeWithTiers(toInput(input), {
+    rules,
+    categories: new Set(categories.map(c => c.name)),
+    merchantDefaults,
+    getLocalModel: () => getLocalModel(userId),
+    similarity: async (input, normalizedMerchant) =>
+      (await categorizeBySimilarity(userId, [{ input, normalizedMerchant }]))[0],
+    ai: (description, normalizedMerchant) => categorizeByAI(description, normalizedMerchant, categories),
+  })
+}
+
+/**
+ * Apply a new or edited rule to the user's existing transactions. Only
+ * transactions the rule matches are touched, and each gets the outcome of the
+ * full rule set so higher-priority rules still win. Transactions the user
+ * categorized by hand are left alone unless `overrideUserCategories` is set.
+ * Returns the number of transactions updated.
+ */
+export async function applyRuleToExisting(
+  userId: string,
+  rule: CategoryRule,
+  overrideUserCategories = false
+): Promise<number> {
+  const [rules, candidates] = await Promise.all([getCategoryRules(userId), getRuleCandidates(userId)])
+
+  // Group matches by the change they get so each distinct change is one UPDATE
+  const groups = new Map<string, { actions: RuleActionUpdate; ids: number[] }>()
+  for (const txn of candidates) {
+    if (txn.categoryMethod === 'user' && !overrideUserCategories) continue
+    const input = { ...txn, normalizedMerchant: normalizeMerchant(txn.description) }
+    if (!ruleMatches(rule, input)) continue
+
+    // Skip when a higher-priority rule stopped processing before this one ran
+    const outcome = applyRules(rules, input)
+    if (!outcome || !outcome.ruleIds.includes(rule.id)) continue
+
+    const category = outcome.category ?? (outcome.markTransfer ? 'Transfer' : undefined)
+    const actions = { category, method: 'rule', confidence: 'high', ...toActions(outcome) }
+    const key = JSON.stringify(actions)
+    const group = groups.get(key) || { actions, ids: [] }
+    group.ids.push(txn.id)
+    groups.set(key, group)
+  }
+
+  let updated = 0
+  for (const { actions, ids } of groups.values()) {
+    updated += await applyRuleActionsToMany(userId, ids, actions)
+  }
+  return updated
+}
+
+/**
+ * Dry-run a rule against the user's existing transactions without saving it
+ * or changing anything (see dryRunRule)
+ */
+export async function testRule(userId: string, candidate: EngineRule): Promise<DryRunResult> {
+  const [rules, candidates] = await Promise.all([getCategoryRules(userId), getRuleCandidates(userId)])
+  const inputs = candidates.map(txn => ({ ...txn, normalizedMerchant: normalizeMerchant(txn.description) }))
+  return dryRunRule(candidate, rules, inputs)
+}
+
+/**
+ * Learn from user correction - optionally create a new rule for this user
  */
 export async function learnFromCorrection(
+  userId: string,
   originalDescription: string,
   correctedCategory: string,
   createRule: boolean = false
-): Promise<{ ruleCreated: boolean; pattern?: string }> {
+): Promise<{ ruleCreated: boolean; pattern?: string; rule?: CategoryRule }> {
   if (!createRule) {
     return { ruleCreated: false }
   }
@@ -290,7 +633,8 @@ export async function learnFromCorrection(
   }
   
   try {
-    await insertCategoryRule({
+    const rule = await insertCategoryRule({
+      userId,
       pattern: normalizedMerchant,
       category: correctedCategory,
     })
@@ -298,6 +642,7 @@ export async function learnFromCorrection(
     return {
       ruleCreated: true,
       pattern: normalizedMerchant,
+      rule,
     }
   } catch (error: any) {
     // Rule might already exist (conflict)
@@ -311,29 +656,63 @@ export async function learnFromCorrection(
 
 /**
  * Batch categorize multiple transactions
- * Uses pattern matching for most, AI for unknowns
+ * Uses rules and pattern matching for most, then the local classifier and
+ * similar past transactions, and AI for unknowns
  */
 export async function batchCategorize(
-  descriptions: string[]
+  userId: string,
+  inputs: Array<string | CategorizationInput>
 ): Promise<CategorizationResult[]> {
   const results: CategorizationResult[] = []
-  const needsAI: { index: number; description: string; normalized: string }[] = []
+  let needsAI: {
+    index: number
+    input: CategorizationInput
+    description: string
+    normalized: string
+    actions: RuleActions
+    local: CategorizationResult | null
+  }[] = []
+  const [rules, model, categories, merchantDefaults] = await Promise.all([
+    getCategoryRules(userId),
+    getLocalModel(userId),
+    getUserCategories(userId),
+    getMerchantDefaultCategories(userId),
+  ])
+  const categoryNames = categories.map(c => c.name)
+  const categorySet = new Set(categoryNames)
+  const allowed = (result: CategorizationResult | null) => (result && categorySet.has(result.category) ? result : null)
   
-  // First pass: pattern matching
-  for (let i = 0; i < descriptions.length; i++) {
-    const patternResult = await categorizeByPattern(descriptions[i])
-    if (patternResult) {
-      results[i] = patternResult
+  // First pass: rules, pattern matching and the local classifier
+  for (let i = 0; i < inputs.length; i++) {
+    const input = toInput(inputs[i])
+    const { result, actions } = await matchRulesAndPatterns(input, rules, categorySet, merchantDefaults)
+    if (result) {
+      results[i] = result
+      continue
+    }
+
+    const normalized = normalizeMerchant(input.description)
+    const local = allowed(categorizeLocally(model, input, normalized))
+    if (local && local.confidence !== 'low') {
+      results[i] = { ...local, ...actions }
     } else {
-      needsAI.push({
-        index: i,
-        description: descriptions[i],
-        normalized: normalizeMerchant(descriptions[i]),
-      })
+      needsAI.push({ index: i, input, description: input.description, normalized, actions, local })
     }
   }
+
+  // Second pass: vote over similar past transactions (one embedding batch)
+  const similar = await categorizeBySimilarity(
+    userId,
+    needsAI.map(item => ({ input: item.input, normalizedMerchant: item.normalized }))
+  )
+  needsAI = needsAI.filter((item, i) => {
+    const match = allowed(similar[i])
+    if (!match) return true
+    results[item.index] = { ...match, ...item.actions }
+    return false
+  })
   
-  // Second pass: AI for remaining (batched for efficiency)
+  // Third pass: AI for remaining (batched for efficiency)
   if (needsAI.length > 0 && process.env.OPENAI_API_KEY) {
     try {
       const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
@@ -350,7 +729,7 @@ export async function batchCategorize(
               role: 'system',
               content: `You are a financial transaction categorizer. Categorize each merchant/payee.
 
-Available categories: ${CATEGORIES.join(', ')}
+${describeCategoriesForPrompt(categories)}
 
 Respond with a JSON array of category names, one per input merchant, in the same order.
 Example: ["Dining", "Shopping", "Coffee"]`
@@ -366,12 +745,10 @@ Example: ["Dining", "Shopping", "Coffee"]`
         
         try {
           const content = response.choices[0].message.content || '[]'
-          const categories = JSON.parse(content) as string[]
+          const answers = JSON.parse(content) as string[]
           
           for (let j = 0; j < batch.length; j++) {
-            const category = (categories[j] && CATEGORIES.includes(categories[j] as Category))
-              ? (categories[j] as Category)
-              : 'Other'
+            const category = (answers[j] && findCategoryName(categoryNames, answers[j])) || 'Other'
             
             results[batch[j].index] = {
               category,
@@ -421,6 +798,13 @@ Example: ["Dining", "Shopping", "Coffee"]`
       }
     }
   }
+
+  // Keep rule actions (tags, payee, transfer) on rows the rules couldn't categorize,
+  // and prefer a low-confidence local guess over 'Other' when the AI wasn't available
+  for (const item of needsAI) {
+    const result = results[item.index].method === 'fallback' && item.local ? item.local : results[item.index]
+    results[item.index] = { ...result, ...item.actions }
+  }
   
   return results
 }
@@ -0,0 +1,58 @@
+/**
+ * Split Helpers
+ *
+ * Validation for splitting one transaction across several categories.
+ */
+
+export interface SplitInput {
+  category: string
+  amount: number
+  memo: string | null
+}
+
+/**
+ * Validate split allocations against their parent amount. Each allocation needs
+ * a category and a non-zero amount with the parent's sign, and together they
+ * must add up to the parent to the cent. Returns the allocations to store or an error message.
+ */
+export function validateSplits(
+  parentAmount: number,
+  input: unknown
+): { splits: SplitInput[]; error?: undefined } | { splits?: undefined; error: string } {
+  if (!Array.isArray(input) || input.length < 2) {
+    return { error: 'splits must be an array with at least two allocations' }
+  }
+
+  const splits: SplitInput[] = []
+  for (const [index, raw] of input.entries()) {
+    const item = (raw || {}) as Record<string, unknown>
+    const category = typeof item.category === 'string' ? item.category.trim() : ''
+    if (!category) return { error: `Split ${index + 1}: category is required` }
+
+    const amount = Math.round(Number(item.amount) * 100) / 100
+    if (!Number.isFinite(amount) || amount === 0) {
+      return { error: `Split ${index + 1}: amount must be a non-zero number` }
+    }
+    if (Math.sign(amount) !== Math.sign(parentAmount)) {
+      return { error: `Split ${index + 1}: amount must have the same sign as the transaction` }
+    }
+
+    const memo = typeof item.memo === 'string' && item.memo.trim() ? item.memo.trim() : null
+    splits.push({ category, amount, memo })
+  }
+
+  const remaining = splitRemainder(parentAmount, splits.map(s => s.amount))
+  if (remaining !== 0) {
+    return { error: `Splits must add up to ${parentAmount.toFixed(2)} (${remaining.toFixed(2)} unallocated)` }
+  }
+
+  return { splits }
+}
+
+/**
+ * Amount of the parent not yet covered by the allocations, rounded to the cent
+ */
+export function splitRemainder(parentAmount: number, amounts: number[]): number {
+  const allocated = amounts.reduce((sum, a) => sum + (Number.isFinite(a) ? a : 0), 0)
+  return Math.round((parentAmount - allocated) * 100) / 100
+}
@@ -0,0 +1,234 @@
+/**
+ * Agent SQL Guard
+ *
+ * Checks the SQL the agent writes before it runs, denying by default: every
+ * relation read after FROM, JOIN or a comma in a FROM list must be one of
+ * AGENT_QUERYABLE_TABLES (or a CTE the query defines). Names are matched
+ * with quotes and a `public.` schema stripped, so `"goals"` and
+ * `public.goals` are caught like `goals`.
+ *
+ * Each allowed relation is swapped for a subquery of the user's own rows, so
+ * every reference is scoped, including ones in subqueries, joins and unions.
+ */
+
+// Relations the agent may read; each has a user_id column
+export const AGENT_QUERYABLE_TABLES = ['transactions', 'transaction_allocations']
+
+// Tables with a dedicated tool, named in the error so the agent can recover
+const TOOL_HINTS: Record<string, string> = {
+  accounts: 'get_account_balances',
+  categories: 'get_categories',
+  budgets: 'get_budget_status',
+  envelopes: 'get_envelopes',
+  goals: 'get_goal_progress',
+  manual_assets: 'get_net_worth',
+  net_worth_snapshots: 'get_net_worth',
+  securities: 'get_portfolio',
+  investment_transactions: 'get_portfolio',
+  merchants: 'get_top_merchants',
+  recurring_series: 'get_subscriptions',
+}
+
+// Set-returning functions that may appear in FROM
+const FROM_FUNCTIONS = ['generate_series', 'unnest']
+
+// Functions that read tables or files by name, bypassing the relation check
+const BLOCKED_FUNCTION = /^(query_to_|table_to_|schema_to_|database_to_|cursor_to_|dblink|lo_|pg_)/
+
+// Statements and clauses a read-only query never needs
+const BLOCKED_WORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'DROP', 'ALTER', 'CREATE', 'GRANT', 'REVOKE',
+  'COPY', 'INTO', 'TABLE', 'CALL', 'DO', 'SET', 'LOCK', 'VACUUM',
+])
+
+// Functions whose arguments use FROM without naming a relation: EXTRACT(YEAR FROM date)
+const FROM_ARGUMENT_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION'])
+
+// Keywords that end a FROM list
+const FROM_LIST_END = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'UNION', 'INTERSECT', 'EXCEPT', 'WINDOW', 'FETCH', 'FOR',
+])
+
+// Keywords that can follow a relation, so aren't its alias
+const NOT_ALIAS = new Set([
+  ...Array.from(FROM_LIST_END),
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'ON', 'USING',
+])
+
+interface SqlToken {
+  kind: 'word' | 'quoted' | 'string' | 'punct' | 'other'
+  text: string // Identifier text (unquoted) or the character
+  upper: string
+  start: number
+  end: number
+}
+
+function tokenize(query: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  let i = 0
+  const push = (kind: SqlToken['kind'], text: string, start: number) =>
+    tokens.push({ kind, text, upper: text.toUpperCase(), start, end: i })
+
+  while (i < query.length) {
+    const ch = query[i]
+    const start = i
+    if (/\s/.test(ch)) {
+      i++
+    } else if (query.startsWith('--', i)) {
+      while (i < query.length && query[i] !== '\n') i++
+    } else if (query.startsWith('/*', i)) {
+      const close = query.indexOf('*/', i + 2)
+      if (close === -1) throw new Error('Unterminated comment')
+      i = close + 2
+    } else if (ch === "'" || ch === '"') {
+      let text = ''
+      i++
+      for (;;) {
+        if (i >= query.length) throw new Error('Unterminated quote')
+        if (query[i] === ch) {
+          if (query[i + 1] === ch) { text += ch; i += 2; continue }
+          i++
+          break
+        }
+        text += query[i++]
+      }
+      push(ch === '"' ? 'quoted' : 'string', text, start)
+    } else if (/[A-Za-z_]/.test(ch)) {
+      while (i < query.length && /[A-Za-z0-9_]/.test(query[i])) i++
+      push('word', query.slice(start, i), start)
+    } else if (/[0-9]/.test(ch)) {
+      while (i < query.length && /[0-9.eE]/.test(query[i])) i++
+      push('other', query.slice(start, i), start)
+    } else {
+      i++
+      push('punct', ch, start)
+    }
+  }
+  return tokens
+}
+
+function isName(token: SqlToken | undefined): boolean {
+  return token !== undefined && (token.kind === 'word' || token.kind === 'quoted')
+}
+
+function isPunct(token: SqlToken | undefined, ch: string): boolean {
+  return token !== undefined && token.kind === 'punct' && token.text === ch
+}
+
+function nameOf(token: SqlToken): string {
+  return token.kind === 'quoted' ? token.text : token.text.toLowerCase()
+}
+
+/**
+ * Check an agent query and scope it to `userId`. Throws when the query isn't
+ * a single read-only SELECT over the queryable tables.
+ */
+export function scopeAgentQuery(userId: string, query: string): string {
+  // Backslash escapes and dollar quoting change where strings end; nothing legitimate needs them
+  if (/[\\$]/.test(query)) throw new Error('Backslashes and $ are not allowed in queries')
+
+  const tokens = tokenize(query)
+  const first = tokens[0]?.upper
+  if (first !== 'SELECT' && first !== 'WITH') {
+    throw new Error('Only SELECT queries are allowed')
+  }
+  const semicolon = tokens.findIndex(t => isPunct(t, ';'))
+  if (semicolon !== -1 && semicolon !== tokens.length - 1) {
+    throw new Error('Only one statement is allowed')
+  }
+
+  // Names defined by WITH: `name AS (` or `name (columns) AS (`
+  const cteNames = new Set<string>()
+  tokens.forEach((token, i) => {
+    if (token.upper !== 'AS' || !isPunct(tokens[i + 1], '(')) return
+    let nameIndex = i - 1
+    if (isPunct(tokens[nameIndex], ')')) {
+      let depth = 0
+      for (; nameIndex >= 0; nameIndex--) {
+        if (isPunct(tokens[nameIndex], ')')) depth++
+        if (isPunct(tokens[nameIndex], '(') && --depth === 0) break
+      }
+      nameIndex--
+    }
+    if (isName(tokens[nameIndex])) cteNames.add(nameOf(tokens[nameIndex]))
+  })
+
+  const scoped = `(SELECT * FROM public.%s WHERE user_id = '${userId.replace(/'/g, "''")}')`
+  const replacements = new Map<number, { end: number; text: string }>()
+
+  const readRelation = (index: number) => {
+    while (tokens[index] && (tokens[index].upper === 'LATERAL' || tokens[index].upper === 'ONLY')) index++
+    const token = tokens[index]
+    if (!token || isPunct(token, '(')) return // Subquery; its own FROM is checked separately
+    if (!isName(token)) throw new Error('Could not read the table name after FROM or JOIN')
+
+    const parts = [token]
+    while (isPunct(tokens[index + 1], '.') && isName(tokens[index + 2])) {
+      parts.push(tokens[index + 2])
+      index += 2
+    }
+    const name = nameOf(parts[parts.length - 1])
+    const schema = parts.length > 1 ? nameOf(parts[0]) : null
+    if (parts.length > 2 || (schema !== null && schema !== 'public')) {
+      throw new Error(`${parts.map(nameOf).join('.')} cannot be queried`)
+    }
+
+    if (isPunct(tokens[index + 1], '(')) {
+      if (schema === null && FROM_FUNCTIONS.includes(name)) return
+      throw new Error(`${name}() cannot be used in FROM`)
+    }
+    if (schema === null && cteNames.has(name)) return
+    if (!AGENT_QUERYABLE_TABLES.includes(name)) {
+      const hint = TOOL_HINTS[name]
+      throw new Error(`${name} cannot be queried directly${hint ? `; use ${hint}` : ''}. Query ${AGENT_QUERYABLE_TABLES.join(' or ')}`)
+    }
+
+    const next = tokens[index + 1]
+    const hasAlias = next !== undefined && (next.upper === 'AS' || next.kind === 'quoted' || (next.kind === 'word' && !NOT_ALIAS.has(next.upper)))
+    replacements.set(token.start, {
+      end: tokens[index].end,
+      text: scoped.replace('%s', name) + (hasAlias ? '' : ` AS ${name}`),
+    })
+  }
+
+  const openedBy: string[] = [] // The word before each open parenthesis
+  tokens.forEach((token, i) => {
+    if (isPunct(token, '(')) {
+      openedBy.push(tokens[i - 1]?.kind === 'word' ? tokens[i - 1].upper : '')
+      return
+    }
+    if (isPunct(token, ')')) {
+      openedBy.pop()
+      return
+    }
+    if (isName(token) && isPunct(tokens[i + 1], '(') && BLOCKED_FUNCTION.test(nameOf(token))) {
+      throw new Error(`${token.text}() is not allowed in queries`)
+    }
+    if (token.kind !== 'word') return
+    if (BLOCKED_WORDS.has(token.upper)) throw new Error(`${token.upper} is not allowed in queries`)
+
+    if (token.upper === 'JOIN') {
+      readRelation(i + 1)
+    } else if (token.upper === 'FROM') {
+      if (tokens[i - 1]?.upper === 'DISTINCT') return // IS DISTINCT FROM
+      if (FROM_ARGUMENT_FUNCTIONS.has(openedBy[openedBy.length - 1])) return
+      readRelation(i + 1)
+
+      // Every comma at this depth, up to the end of the FROM list, starts another relation
+      let depth = 0
+      for (let j = i + 1; j < tokens.length; j++) {
+        const t = tokens[j]
+        if (isPunct(t, '(')) depth++
+        else if (isPunct(t, ')') && --depth < 0) break
+        else if (depth === 0 && (isPunct(t, ';') || (t.kind === 'word' && FROM_LIST_END.has(t.upper)))) break
+        else if (depth === 0 && isPunct(t, ',')) readRelation(j + 1)
+      }
+    }
+  })
+
+  let result = query
+  for (const [start, { end, text }] of Array.from(replacements.entries()).sort((a, b) => b[0] - a[0])) {
+    result = result.slice(0, start) + text + result.slice(end)
+  }
+  return result.trim().replace(/;$/, '')
+}
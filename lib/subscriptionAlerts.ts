@@ -0,0 +1,152 @@
+/**
+ * Subscription Alerts
+ *
+ * Raises in-app notifications about recurring charges:
+ * - price_increase: a fixed-price subscription charges more than it used to
+ * - trial_conversion: the first paid charge from a merchant whose only earlier
+ *   charge was $0-$1 (a free trial sign-up) a few weeks before, once the
+ *   merchant has a recurring series or the paid charge repeats on a cadence
+ * - off_cadence: a subscription charges early, twice, or long after it was due
+ * Only charges from the last few weeks raise alerts, so the first scan over
+ * years of history doesn't flood the header. Each charge alerts at most once.
+ */
+
+import { getRecurringCandidates, getRecurringSeries, insertNotifications } from './db/queries'
+import type { Notification, NewNotification, RecurringCadence, RecurringSeries } from './db/schema'
+import { CADENCES, groupByMerchant, type RecurringCandidate } from './recurring'
+import { daysBetween, addDays, currentDate } from './dates'
+
+export type SubscriptionAlert = Omit<NewNotification, 'userId'>
+
+const ALERT_WINDOW_DAYS = 45
+const TRIAL_MAX_AMOUNT = 1
+const TRIAL_MAX_DAYS = 35
+const FIXED_PRICE_SPREAD = 0.01 // Earlier charges within 1% of each other count as a fixed price
+const PRICE_HISTORY = 3 // Earlier charges a new one is compared against
+
+function formatAmount(amount: number): string {
+  return `$${Math.abs(amount).toFixed(2)}`
+}
+
+const CADENCE_WORDS: Record<RecurringCadence, string> = {
+  weekly: 'weekly',
+  biweekly: 'every two weeks',
+  monthly: 'monthly',
+  annual: 'yearly',
+}
+
+// A one-off small charge followed by a purchase isn't a trial; the paid
+// charges have to recur
+function isRecurring(paid: RecurringCandidate, next: RecurringCandidate | undefined, cadence?: RecurringCadence): boolean {
+  if (cadence) return true
+  if (!next) return false
+  const gap = daysBetween(paid.date, next.date)
+  return Object.values(CADENCES).some(spec => gap >= spec.minDays && gap <= spec.maxDays)
+}
+
+function findTrialConversions(
+  candidates: RecurringCandidate[],
+  cadenceByMerchant: Map<number, RecurringCadence>,
+  since: string
+): SubscriptionAlert[] {
+  const byMerchant = new Map<number, RecurringCandidate[]>()
+  for (const txn of candidates) {
+    if (txn.amount > 0) continue
+    byMerchant.set(txn.merchantId, [...(byMerchant.get(txn.merchantId) || []), txn])
+  }
+
+  const alerts: SubscriptionAlert[] = []
+  for (const charges of Array.from(byMerchant.values())) {
+    charges.sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id)
+    const firstPaid = charges.findIndex(t => Math.abs(t.amount) > TRIAL_MAX_AMOUNT)
+    if (firstPaid <= 0) continue
+
+    const paid = charges[firstPaid]
+    const trial = charges[firstPaid - 1]
+    const days = daysBetween(trial.date, paid.date)
+    if (paid.date < since || days > TRIAL_MAX_DAYS) continue
+    if (!isRecurring(paid, charges[firstPaid + 1], cadenceByMerchant.get(paid.merchantId))) continue
+
+    alerts.push({
+      type: 'trial_conversion',
+      title: `${paid.merchantName} trial ended`,
+      message: `First paid charge of ${formatAmount(paid.amount)} on ${paid.date}, ${days} days after a ${formatAmount(trial.amount)} sign-up charge.`,
+      merchantId: paid.merchantId,
+      transactionId: paid.id,
+      dedupeKey: `trial_conversion:${paid.id}`,
+    })
+  }
+  return alerts
+}
+
+/**
+ * Find alerts among a user's transactions given their detected recurring
+ * series. `today` (YYYY-MM-DD) sets the window of charges that can alert.
+ */
+export function findSubscriptionAlerts(
+  candidates: RecurringCandidate[],
+  series: Array<Pick<RecurringSeries, 'merchantId' | 'cadence' | 'expectedAmount'>>,
+  today: string
+): SubscriptionAlert[] {
+  const since = addDays(today, -ALERT_WINDOW_DAYS)
+  const cadenceByMerchant = new Map(
+    series.filter(s => s.expectedAmount < 0).map(s => [s.merchantId, s.cadence as RecurringCadence])
+  )
+
+  const alerts = findTrialConversions(candidates, cadenceByMerchant, since)
+
+  for (const charges of groupByMerchant(candidates)) {
+    const cadence = cadenceByMerchant.get(charges[0].merchantId)
+    if (!cadence || charges[0].amount > 0) continue
+    const spec = CADENCES[cadence]
+
+    for (let i = 1; i < charges.length; i++) {
+      const txn = charges[i]
+      if (txn.date < since) continue
+      const name = txn.merchantName
+
+      const gap = daysBetween(charges[i - 1].date, txn.date)
+      if (gap < spec.minDays || gap > spec.maxDays) {
+        alerts.push({
+          type: 'off_cadence',
+          title: gap < spec.minDays ? `${name} charged early` : `${name} charged late`,
+          message: `Charged ${formatAmount(txn.amount)} on ${txn.date}, ${gap} day${gap !== 1 ? 's' : ''} after the previous charge. It usually bills ${CADENCE_WORDS[cadence]}.`,
+          merchantId: txn.merchantId,
+          transactionId: txn.id,
+          dedupeKey: `off_cadence:${txn.id}`,
+        })
+      }
+
+      const previous = charges.slice(Math.max(0, i - PRICE_HISTORY), i).map(t => Math.abs(t.amount))
+      if (previous.length < 2) continue
+      const usual = Math.max(...previous)
+      const isFixedPrice = usual - Math.min(...previous) <= usual * FIXED_PRICE_SPREAD
+      if (isFixedPrice && Math.abs(txn.amount) > usual * (1 + FIXED_PRICE_SPREAD)) {
+        const increase = Math.round(((Math.abs(txn.amount) - usual) / usual) * 100)
+        alerts.push({
+          type: 'price_increase',
+          title: `${name} price went up`,
+          message: `Charged ${formatAmount(txn.amount)} on ${txn.date}, up from ${formatAmount(usual)} (+${increase}%).`,
+          merchantId: txn.merchantId,
+          transactionId: txn.id,
+          dedupeKey: `price_increase:${txn.id}`,
+        })
+      }
+    }
+  }
+
+  return alerts
+}
+
+/**
+ * Check a user's recent charges against their stored recurring series and
+ * notify them of anything new. Run after detectRecurringSeries.
+ */
+export async function detectSubscriptionAlerts(userId: string, today = currentDate()): Promise<Notification[]> {
+  const [candidates, series] = await Promise.all([
+    getRecurringCandidates(userId),
+    getRecurringSeries(userId),
+  ])
+  const alerts = findSubscriptionAlerts(candidates, series, today)
+  return insertNotifications(alerts.map(alert => ({ ...alert, userId })))
+}
@@ -134,6 +134,8 @@ Important Notes:
 - Use date for filtering by time periods (format: YYYY-MM-DD)
 - category contains auto-categorized transaction types (Coffee, Groceries, Dining, Entertainment, Shopping, Transportation, Gas, Healthcare, Fitness, Utilities, Insurance, Subscriptions, Travel, Education, Personal Care, Pets, Home, Transfer, Cash Withdrawal, Fees, Income, Other)
 - transaction_type is either 'expense' or 'income'
+- is_transfer is true for money moved between the user's own accounts; exclude those rows (is_transfer = false) from income and spending totals
+- A transaction can be split across several categories; for totals by category use the transaction_allocations view (same columns as transactions plus split_id and memo, one row per allocation)
 - Today's date is ${new Date().toISOString().split('T')[0]}
 
 Rules:
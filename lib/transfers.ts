@@ -0,0 +1,136 @@
+/**
+ * Transfer Detection
+ *
+ * Pairs transactions that are really money moving between the user's own
+ * accounts (checking -> savings, checking -> credit card payment) so they can
+ * be excluded from income and expense totals. A pair is an outflow and an
+ * inflow of the same amount, in different accounts, a few days apart, where
+ * at least one side looks like a transfer:
+ * - its description matches the Transfer patterns in smartCategorization
+ * - it is already categorized as 'Transfer'
+ * - the inflow lands on a credit card or loan account (a payment)
+ * Pairs the user unlinked are never matched again.
+ */
+
+import {
+  getTransferCandidates,
+  getDismissedTransferKeys,
+  linkTransferPair,
+  getAccounts,
+} from './db/queries'
+import { isTransferDescription } from './smartCategorization'
+
+export interface TransferCandidate {
+  id: number
+  date: string // YYYY-MM-DD
+  amount: number
+  description: string
+  category: string | null
+  accountId: number | null
+}
+
+export type TransferReason = 'pattern' | 'category' | 'card_payment'
+
+export interface TransferMatch {
+  outflowId: number
+  inflowId: number
+  amount: number
+  daysApart: number
+  reason: TransferReason
+}
+
+const DEFAULT_WINDOW_DAYS = 3
+const DEBT_ACCOUNT_TYPES = ['credit_card', 'loan']
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000
+}
+
+function transferReason(
+  outflow: TransferCandidate,
+  inflow: TransferCandidate,
+  accountTypes: Map<number, string>
+): TransferReason | null {
+  if (isTransferDescription(outflow.description) || isTransferDescription(inflow.description)) return 'pattern'
+  if (outflow.category === 'Transfer' || inflow.category === 'Transfer') return 'category'
+  if (DEBT_ACCOUNT_TYPES.includes(accountTypes.get(inflow.accountId!) || '')) return 'card_payment'
+  return null
+}
+
+/**
+ * Find transfer pairs among a user's transactions. Each transaction is used
+ * at most once; the closest-dated qualifying inflow wins. Pairs listed in
+ * dismissed ("outflowId:inflowId") are skipped.
+ */
+export function matchTransfers(
+  candidates: TransferCandidate[],
+  accountTypes: Map<number, string> = new Map(),
+  windowDays = DEFAULT_WINDOW_DAYS,
+  dismissed: Set<string> = new Set()
+): TransferMatch[] {
+  // Index inflows by amount in cents so each outflow only scans equal amounts
+  const inflowsByCents = new Map<number, TransferCandidate[]>()
+  for (const txn of candidates) {
+    if (txn.amount <= 0 || txn.accountId === null) continue
+    const cents = Math.round(txn.amount * 100)
+    const list = inflowsByCents.get(cents) || []
+    list.push(txn)
+    inflowsByCents.set(cents, list)
+  }
+
+  const outflows = candidates
+    .filter(t => t.amount < 0 && t.accountId !== null)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id)
+
+  const used = new Set<number>()
+  const matches: TransferMatch[] = []
+
+  for (const outflow of outflows) {
+    const inflows = inflowsByCents.get(Math.round(-outflow.amount * 100)) || []
+    let best: { inflow: TransferCandidate; days: number; reason: TransferReason } | null = null
+
+    for (const inflow of inflows) {
+      if (used.has(inflow.id) || inflow.accountId === outflow.accountId) continue
+      if (dismissed.has(`${outflow.id}:${inflow.id}`)) continue
+      const days = daysBetween(outflow.date, inflow.date)
+      if (days > windowDays) continue
+      const reason = transferReason(outflow, inflow, accountTypes)
+      if (!reason) continue
+      if (!best || days < best.days) {
+        best = { inflow, days, reason }
+      }
+    }
+
+    if (best) {
+      used.add(best.inflow.id)
+      matches.push({
+        outflowId: outflow.id,
+        inflowId: best.inflow.id,
+        amount: Math.abs(outflow.amount),
+        daysApart: Math.round(best.days),
+        reason: best.reason,
+      })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Detect and link transfer pairs among a user's unlinked transactions.
+ * Returns the pairs that were linked.
+ */
+export async function detectTransfers(userId: string, windowDays = DEFAULT_WINDOW_DAYS): Promise<TransferMatch[]> {
+  const [candidates, accounts, dismissed] = await Promise.all([
+    getTransferCandidates(userId),
+    getAccounts(userId, true),
+    getDismissedTransferKeys(userId),
+  ])
+  const accountTypes = new Map(accounts.map(a => [a.id, a.type]))
+
+  const matches = matchTransfers(candidates, accountTypes, windowDays, dismissed)
+  for (const match of matches) {
+    await linkTransferPair(userId, match.outflowId, match.inflowId)
+  }
+  return matches
+}
@@ -109,10 +109,25 @@ export async function searchSimilar(
     minScore?: number
   } = {}
 ): Promise<SearchResult[]> {
-  const { topK = 10, docTypes, minScore = 0.5 } = options
-
   // Generate query embedding
   const queryEmbedding = await embedText(query)
+  return searchSimilarByEmbedding(userId, queryEmbedding, options)
+}
+
+/**
+ * Search for similar documents given an already computed query embedding
+ * (lets callers embed many queries in one batch)
+ */
+export async function searchSimilarByEmbedding(
+  userId: string,
+  queryEmbedding: number[],
+  options: {
+    topK?: number
+    docTypes?: DocumentType[]
+    minScore?: number
+  } = {}
+): Promise<SearchResult[]> {
+  const { topK = 10, docTypes, minScore = 0.5 } = options
   const embeddingStr = `[${queryEmbedding.join(',')}]`
 
   // Build doc_type filter
@@ -0,0 +1,118 @@
+#!/usr/bin/env npx tsx
+/**
+ * Categorization Eval Script
+ *
+ * Runs a labeled CSV (description, amount, expected category) through the
+ * categorization tiers and reports accuracy, precision/recall per category,
+ * a confusion matrix and how much each method covered. Run it before and
+ * after changing EXTENDED_PATTERNS, MERCHANT_PREFIXES or the AI prompt.
+ *
+ * The local classifier is scored with k-fold cross-validation: each row is
+ * predicted by a model trained on the other folds. The AI tier is a stub that
+ * answers 'Other' unless --live-ai is set, so the eval runs offline.
+ *
+ * Usage:
+ *   npm run eval:categorization -- [file.csv] [--user-id <userId>] [--folds <n>]
+ *                                  [--no-local] [--live-ai] [--min-accuracy <0-1>] [--json]
+ *
+ * Options:
+ *   file.csv        Labeled CSV (default: sample-data/categorization-eval.csv)
+ *   --user-id       Also apply this user's rules and the system rules from the database
+ *   --folds         Cross-validation folds for the local classifier (default: 5)
+ *   --no-local      Skip the local classifier tier
+ *   --live-ai       Call OpenAI for rows no other tier handles (needs OPENAI_API_KEY)
+ *   --min-accuracy  Exit with status 1 when accuracy falls below this
+ *   --json          Print the full report as JSON
+ */
+
+import { readFileSync } from 'fs'
+import { parseLabeledCSV, evaluate, formatReport, type EvalCase } from '../lib/categorizationEval'
+import { categorizeWithTiers, categorizeByAI, normalizeMerchant, type CategorizationResult } from '../lib/smartCategorization'
+import { trainLocalModel } from '../lib/localClassifier'
+import type { CategoryRule } from '../lib/db/schema'
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const getArg = (name: string): string | null => {
+  const idx = args.indexOf(name)
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : null
+}
+const VALUE_FLAGS = ['--user-id', '--folds', '--min-accuracy']
+const file = args.find((arg, i) => !arg.startsWith('--') && !VALUE_FLAGS.includes(args[i - 1]))
+  || 'sample-data/categorization-eval.csv'
+const userId = getArg('--user-id')
+const folds = Math.max(2, parseInt(getArg('--folds') || '5', 10))
+const minAccuracy = getArg('--min-accuracy') ? parseFloat(getArg('--min-accuracy')!) : null
+const useLocal = !args.includes('--no-local')
+const liveAI = args.includes('--live-ai')
+const asJSON = args.includes('--json')
+
+// Stands in for the LLM so results are deterministic and free
+async function stubAI(_description: string, normalizedMerchant: string): Promise<CategorizationResult> {
+  return { category: 'Other', confidence: 'low', method: 'ai', normalizedMerchant, suggestRule: true }
+}
+
+async function main() {
+  const { rows, errors } = parseLabeledCSV(readFileSync(file, 'utf-8'))
+  for (const error of errors) console.warn(`⚠️  ${error}`)
+  if (rows.length === 0) {
+    console.error(`No labeled rows found in ${file}`)
+    process.exit(1)
+  }
+
+  let rules: CategoryRule[] = []
+  if (userId) {
+    // Loaded lazily so the default run doesn't need a database
+    const { getCategoryRules } = await import('../lib/db/queries')
+    rules = await getCategoryRules(userId)
+  }
+
+  if (liveAI && !process.env.OPENAI_API_KEY) {
+    console.error('--live-ai needs OPENAI_API_KEY')
+    process.exit(1)
+  }
+
+  if (!asJSON) {
+    console.log(`Evaluating ${rows.length} rows from ${file}`)
+    console.log(`  - Rules: ${userId ? `${rules.length} (user ${userId} + system)` : 'none (pass --user-id to include)'}`)
+    console.log(`  - Local classifier: ${useLocal ? `${folds}-fold cross-validation` : 'off'}`)
+    console.log(`  - AI: ${liveAI ? 'live (OpenAI)' : 'stub'}\n`)
+  }
+
+  const cases: EvalCase[] = []
+  for (let fold = 0; fold < folds; fold++) {
+    const testRows = rows.filter((_, i) => i % folds === fold)
+    const model = useLocal
+      ? trainLocalModel(rows
+        .filter((_, i) => i % folds !== fold)
+        .map(row => ({ text: normalizeMerchant(row.description), amount: row.amount, category: row.expected })))
+      : null
+
+    for (const row of testRows) {
+      const result = await categorizeWithTiers(
+        { description: row.description, amount: row.amount },
+        { rules, getLocalModel: async () => model, ai: liveAI ? categorizeByAI : stubAI }
+      )
+      cases.push({
+        description: row.description,
+        expected: row.expected,
+        predicted: result.category,
+        method: result.method,
+        confidence: result.confidence,
+      })
+    }
+  }
+
+  const report = evaluate(cases)
+  console.log(asJSON ? JSON.stringify(report, null, 2) : formatReport(report))
+
+  if (minAccuracy !== null && report.accuracy < minAccuracy) {
+    console.error(`\n❌ Accuracy ${(report.accuracy * 100).toFixed(1)}% is below the minimum of ${(minAccuracy * 100).toFixed(1)}%`)
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error('Eval failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,58 @@
+#!/usr/bin/env npx tsx
+/**
+ * Record Net Worth Snapshots Script
+ *
+ * Stores a net worth snapshot for every month that has ended and doesn't have
+ * one yet. Schedule it to run daily (or at least once after each month end),
+ * e.g. from cron; the first run backfills the history. Snapshots already
+ * recorded are never changed.
+ *
+ * Usage:
+ *   npm run snapshots:net-worth -- [--user-id <userId>]
+ *
+ * Options:
+ *   --user-id    Record only this user's snapshots (default: all users)
+ */
+
+import { getNetWorthUserIds, linkUnassignedTransactions } from '../lib/db/queries'
+import { recordNetWorthSnapshots } from '../lib/netWorth'
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const getUserIdArg = (): string | null => {
+  const idx = args.indexOf('--user-id')
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : null
+}
+
+async function main() {
+  const specificUserId = getUserIdArg()
+  const userIds = specificUserId ? [specificUserId] : await getNetWorthUserIds()
+
+  if (userIds.length === 0) {
+    console.log('⚠️  No users found with transactions, accounts or assets.')
+    return
+  }
+
+  let totalRecorded = 0
+  let failed = 0
+  for (const userId of userIds) {
+    try {
+      // Transactions imported before accounts existed count once they're linked to one
+      await linkUnassignedTransactions(userId)
+      const recorded = await recordNetWorthSnapshots(userId)
+      if (recorded > 0) console.log(`   ✅ ${userId.substring(0, 12)}...: ${recorded} snapshot(s) recorded`)
+      totalRecorded += recorded
+    } catch (error) {
+      console.error(`   ❌ Error recording snapshots for user ${userId}:`, error)
+      failed++
+    }
+  }
+
+  console.log(`\n✅ Recorded ${totalRecorded} snapshot(s) for ${userIds.length} user(s)`)
+  if (failed > 0) process.exit(1)
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
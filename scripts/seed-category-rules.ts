@@ -56,7 +56,7 @@ async function fallbackRawInsert() {
   let inserted = 0
   for (const r of DEFAULT_RULES) {
     try {
-      await sql`INSERT INTO category_rules (pattern, category) VALUES (${r.pattern}, ${r.category}) ON CONFLICT (pattern) DO NOTHING`
+      await sql`INSERT INTO category_rules (pattern, category) VALUES (${r.pattern}, ${r.category}) ON CONFLICT DO NOTHING`
       inserted++
     } catch (e) {
       // log and continue
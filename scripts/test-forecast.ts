@@ -0,0 +1,95 @@
+#!/usr/bin/env npx tsx
+/**
+ * Forecast Fixture Test
+ *
+ * Runs buildForecast against fixed accounts, recurring series, scheduled
+ * transactions and spending, and checks the projected balances, events and
+ * low-balance alerts. Needs no database or network.
+ *
+ * Usage:
+ *   npx tsx scripts/test-forecast.ts
+ */
+
+import { buildForecast, forecastBalanceOn, spendingLookbackDays, type ForecastInput } from '../lib/forecast'
+
+const TODAY = '2026-01-15'
+
+const fixture: ForecastInput = {
+  accounts: [
+    { id: 1, name: 'Checking', type: 'checking', balance: 1000 },
+    { id: 2, name: 'Savings', type: 'savings', balance: 500 },
+  ],
+  series: [
+    { merchantId: 10, name: 'Rent', category: 'Home', cadence: 'monthly', expectedAmount: -1200, nextDueDate: '2026-02-01', status: 'active', accountId: 1 },
+    { merchantId: 11, name: 'Paycheck', category: 'Income', cadence: 'biweekly', expectedAmount: 800, nextDueDate: '2026-01-23', status: 'active', accountId: 1 },
+    { merchantId: 12, name: 'Old gym', category: 'Fitness', cadence: 'monthly', expectedAmount: -40, nextDueDate: '2026-01-20', status: 'cancelled', accountId: 1 },
+  ],
+  scheduled: [
+    { date: '2026-01-20', description: 'Electric bill', amount: -50, category: 'Utilities', accountId: null, merchantId: 13 },
+  ],
+  // $600 of groceries over a 30-day history: $20 a day
+  spending: [
+    { accountId: 1, category: 'Groceries', spent: 600 },
+  ],
+  lookbackDays: spendingLookbackDays('2025-12-17', TODAY),
+}
+
+let failures = 0
+function check(name: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`   ✓ ${name}`)
+  } else {
+    console.error(`   ✗ ${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+    failures++
+  }
+}
+
+function testLookback() {
+  console.log('1. spendingLookbackDays...')
+  check('30 days of history', spendingLookbackDays('2025-12-17', TODAY), 30)
+  check('first transaction today', spendingLookbackDays(TODAY, TODAY), 1)
+  check('long history is capped at 90', spendingLookbackDays('2024-06-01', TODAY), 90)
+  check('no history', spendingLookbackDays(null, TODAY), 90)
+}
+
+function testForecast() {
+  console.log('2. buildForecast (30 days, threshold $800)...')
+  const forecast = buildForecast(fixture, TODAY, 30, 800)
+
+  check('deterministic', JSON.stringify(buildForecast(fixture, TODAY, 30, 800)), JSON.stringify(forecast))
+  check('one entry per day plus today', forecast.daily.length, 31)
+  check('daily discretionary spend', forecast.dailyDiscretionary, 20)
+  check('monthly groceries', forecast.discretionaryByCategory, [{ category: 'Groceries', monthly: 600 }])
+  check('events', forecast.events.map(e => `${e.date} ${e.name} ${e.amount} ${e.accountName}`), [
+    '2026-01-20 Electric bill -50 Checking',
+    '2026-01-23 Paycheck 800 Checking',
+    '2026-02-01 Rent -1200 Checking',
+    '2026-02-06 Paycheck 800 Checking',
+  ])
+  check('starting balance', forecast.startingBalance, 1500)
+  check('balance the day before rent', forecastBalanceOn(forecast, '2026-01-31'), 1930)
+  check('balance on rent day', forecastBalanceOn(forecast, '2026-02-01'), 710)
+  check('ending balance', forecast.endingBalance, 1250)
+  check('first day below threshold', forecast.belowThresholdDate, '2026-02-01')
+  check('checking first below threshold', forecast.accounts[0].belowThresholdDate, '2026-02-01')
+  check('savings already below threshold today', forecast.accounts[1].belowThresholdDate, TODAY)
+  check('outside the forecast', forecastBalanceOn(forecast, '2026-03-01'), null)
+}
+
+function testShortHistory() {
+  console.log('3. Short history isn\'t averaged over the full lookback...')
+  const diluted = buildForecast({ ...fixture, lookbackDays: 90 }, TODAY, 30)
+  const actual = buildForecast(fixture, TODAY, 30)
+  check('90-day average understates spend', diluted.dailyDiscretionary, 6.67)
+  check('30-day average', actual.dailyDiscretionary, 20)
+}
+
+testLookback()
+testForecast()
+testShortHistory()
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`)
+  process.exit(1)
+}
+console.log('\nAll forecast checks passed!')
@@ -0,0 +1,81 @@
+#!/usr/bin/env npx tsx
+/**
+ * SQL Guard Test
+ *
+ * Runs agent-style queries through scopeAgentQuery and checks that only the
+ * queryable tables get through, each scoped to the user. Needs no database.
+ *
+ * Usage:
+ *   npx tsx scripts/test-sql-guard.ts
+ */
+
+import { scopeAgentQuery } from '../lib/sqlGuard'
+
+const USER_ID = 'user_123'
+const SCOPED = (name: string) => `(SELECT * FROM public.${name} WHERE user_id = 'user_123')`
+
+let failures = 0
+
+function allowed(name: string, query: string, expected?: string) {
+  try {
+    const result = scopeAgentQuery(USER_ID, query)
+    if (expected !== undefined && result !== expected) {
+      console.error(`   ✗ ${name}: got ${result}`)
+      failures++
+      return
+    }
+    console.log(`   ✓ ${name}`)
+  } catch (e: any) {
+    console.error(`   ✗ ${name}: rejected (${e.message})`)
+    failures++
+  }
+}
+
+function rejected(name: string, query: string) {
+  try {
+    const result = scopeAgentQuery(USER_ID, query)
+    console.error(`   ✗ ${name}: allowed as ${result}`)
+    failures++
+  } catch {
+    console.log(`   ✓ ${name}`)
+  }
+}
+
+console.log('1. Allowed queries are scoped to the user...')
+allowed('plain select', 'SELECT * FROM transactions', `SELECT * FROM ${SCOPED('transactions')} AS transactions`)
+allowed('alias kept', 'SELECT t.amount FROM transactions t WHERE t.amount < 0;', `SELECT t.amount FROM ${SCOPED('transactions')} t WHERE t.amount < 0`)
+allowed('quoted and schema-qualified', 'SELECT * FROM public."transactions"', `SELECT * FROM ${SCOPED('transactions')} AS transactions`)
+allowed('every reference in a union', 'SELECT id FROM transactions UNION SELECT transaction_id FROM transaction_allocations',
+  `SELECT id FROM ${SCOPED('transactions')} AS transactions UNION SELECT transaction_id FROM ${SCOPED('transaction_allocations')} AS transaction_allocations`)
+allowed('join and comma list', 'SELECT * FROM transactions a JOIN transactions b ON a.transfer_pair_id = b.id, transaction_allocations c')
+allowed('CTE', 'WITH monthly AS (SELECT SUBSTRING(date, 1, 7) AS month, SUM(amount) AS total FROM transactions GROUP BY 1) SELECT * FROM monthly')
+allowed('EXTRACT ... FROM', "SELECT EXTRACT(YEAR FROM date::date) AS year FROM transactions WHERE category IS DISTINCT FROM 'Other'")
+allowed('generate_series', "SELECT d FROM generate_series(1, 12) d")
+allowed('strings and comments', "SELECT 'FROM goals' AS label FROM transactions -- FROM goals")
+
+console.log('2. Everything else is rejected...')
+rejected('other table', 'SELECT * FROM goals')
+rejected('schema-qualified', 'SELECT * FROM public.goals')
+rejected('quoted', 'SELECT * FROM "goals"')
+rejected('after a comma', 'SELECT * FROM transactions, goals')
+rejected('after a comma past a join', 'SELECT * FROM transactions t JOIN transactions u ON t.id = u.id, goals g')
+rejected('in a subquery', 'SELECT * FROM transactions WHERE amount > (SELECT MAX(target_amount) FROM goals)')
+rejected('in a select-list subquery', 'SELECT (SELECT COUNT(*) FROM accounts) AS n')
+rejected('vector_store', 'SELECT * FROM vector_store')
+rejected('catalog', 'SELECT * FROM pg_catalog.pg_tables')
+rejected('information_schema', 'SELECT * FROM information_schema.tables')
+rejected('CTE name used schema-qualified', 'WITH goals AS (SELECT 1) SELECT * FROM public.goals')
+rejected('query_to_xml', "SELECT query_to_xml('SELECT * FROM goals', true, false, '')")
+rejected('quoted function', `SELECT "pg_read_file"('/etc/passwd')`)
+rejected('second statement', 'SELECT 1; DELETE FROM transactions')
+rejected('select into', 'SELECT * INTO copy FROM transactions')
+rejected('not a select', 'DELETE FROM transactions')
+rejected('writing CTE', 'WITH d AS (DELETE FROM transactions RETURNING *) SELECT * FROM d')
+rejected('TABLE shorthand', 'SELECT * FROM (TABLE goals) g')
+rejected('dollar quoting', 'SELECT $$x$$ FROM transactions')
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`)
+  process.exit(1)
+}
+console.log('\nAll SQL guard checks passed!')
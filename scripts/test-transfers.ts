@@ -0,0 +1,69 @@
+import * as dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import {
+  insertTransactions,
+  linkTransferPair,
+  unlinkTransferPair,
+  deleteTransaction,
+  getTransactionById,
+  clearTransactions,
+} from '../lib/db/queries'
+
+// Runs against the database in DATABASE_URL with a throwaway user, and
+// removes that user's transactions when it's done
+const TEST_USER_ID = `test-transfers-${Date.now()}`
+
+let failures = 0
+function check(name: string, actual: unknown, expected: unknown) {
+  if (actual === expected) {
+    console.log(`   ✓ ${name}`)
+  } else {
+    console.error(`   ✗ ${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+    failures++
+  }
+}
+
+async function insertPair() {
+  const [outflow, inflow] = await insertTransactions([
+    { userId: TEST_USER_ID, date: '2026-01-10', description: 'ONLINE PAYMENT THANK YOU', amount: -250, category: 'Bills', transactionType: 'expense' },
+    { userId: TEST_USER_ID, date: '2026-01-11', description: 'PAYMENT RECEIVED', amount: 250, category: 'Income', transactionType: 'income' },
+  ])
+  await linkTransferPair(TEST_USER_ID, outflow.id, inflow.id)
+  return { outflow, inflow }
+}
+
+async function testTransfers() {
+  console.log('Testing transfer linking against the database...\n')
+
+  try {
+    console.log('1. Unlinking restores both categories...')
+    const { outflow, inflow } = await insertPair()
+    check('linked outflow is categorized Transfer', (await getTransactionById(outflow.id, TEST_USER_ID))?.category, 'Transfer')
+    await unlinkTransferPair(TEST_USER_ID, outflow.id)
+    check('outflow category restored', (await getTransactionById(outflow.id, TEST_USER_ID))?.category, 'Bills')
+    check('inflow category restored', (await getTransactionById(inflow.id, TEST_USER_ID))?.category, 'Income')
+
+    console.log('2. Deleting one side restores the partner...')
+    const pair = await insertPair()
+    await deleteTransaction(pair.outflow.id, TEST_USER_ID)
+    const partner = await getTransactionById(pair.inflow.id, TEST_USER_ID)
+    check('partner is no longer a transfer', partner?.isTransfer, false)
+    check('partner has no pair', partner?.transferPairId, null)
+    check('partner category restored', partner?.category, 'Income')
+    check('saved category cleared', partner?.preTransferCategory, null)
+  } catch (e: any) {
+    console.error('   ✗ Failed:', e.message)
+    failures++
+  } finally {
+    await clearTransactions(TEST_USER_ID)
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('\nDone!')
+}
+
+testTransfers()
@@ -4,17 +4,49 @@ export interface Transaction {
   id?: number
   date: string
   description: string
+  payee?: string | null
   amount: number
   category?: string
+  categoryConfidence?: 'high' | 'medium' | 'low' | null
+  categoryMethod?: string | null
+  tags?: string[]
   account?: string
+  accountId?: number | null
+  merchantId?: number | null
+  clearedStatus?: 'uncleared' | 'cleared' | 'reconciled'
+  isTransfer?: boolean
+  transferPairId?: number | null
+  splits?: TransactionSplit[]
   transaction_type?: 'expense' | 'income'
   created_at?: string
 }
 
+export interface TransactionSplit {
+  id?: number
+  transactionId?: number
+  category: string
+  amount: number
+  memo?: string | null
+}
+
 export interface CategoryRule {
   id: number
-  pattern: string
-  category: string
+  userId?: string | null
+  isSystem?: boolean
+  pattern: string | null
+  matchType: 'contains' | 'regex' | 'merchant'
+  amountMin: number | null
+  amountMax: number | null
+  sign: 'expense' | 'income' | null
+  account: string | null
+  dayOfMonthMin: number | null
+  dayOfMonthMax: number | null
+  priority: number
+  stopProcessing: boolean
+  category: string | null
+  setTag: string | null
+  renamePayee: string | null
+  markTransfer: boolean
   created_at?: string
 }
 
@@ -57,13 +89,15 @@ export interface AnalyticsData {
   recentTransactions: Transaction[]
   summary: FinancialSummary
   topMerchants: MerchantSummary[]
+  budgets: BudgetStatus[]
 }
 
 export interface CategorySummary {
-  category: string
+  category: string // Top-level category; subcategories are rolled up into it
   transaction_count: number
   total_spent: number
   total_earned: number
+  color: string | null
 }
 
 export interface MonthlyData {
@@ -82,8 +116,10 @@ export interface FinancialSummary {
 }
 
 export interface MerchantSummary {
-  description: string
+  merchant_id: number | null
+  description: string // Merchant name, or the raw description when not linked yet
   category: string
+  logo_url: string | null
   transaction_count: number
   total_amount: number
 }
@@ -92,9 +128,435 @@ export interface UploadResponse {
   success: boolean
   message: string
   processedCount: number
+  duplicateCount?: number
+  batchId?: number
+  errors?: string[]
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'loan' | 'brokerage'
+
+export interface AccountBalance {
+  id: number
+  name: string
+  type: AccountType
+  institution: string | null
+  currency: string
+  archived: boolean
+  openingBalance: number
+  balance: number
+  clearedBalance: number
+  transactionCount: number
+  unclearedCount: number
+  lastTransactionDate: string | null
+  lastReconciledDate: string | null
+}
+
+export interface ImportBatchSummary {
+  id: number
+  fileName: string
+  format: 'csv' | 'ofx'
+  totalRows: number
+  insertedCount: number
+  duplicateCount: number
+  errorCount: number
+  methodCounts: Record<string, number>
+  remainingCount: number
+  status: 'completed' | 'rolled_back'
+  createdAt: string
+  rolledBackAt: string | null
+}
+
+export interface ImportPreviewRow {
+  line: number
+  date: string | null
+  rawDate: string
+  description: string
+  amount: number | null
+  rawAmount: string
+  account: string
+  fingerprint: string | null
+  duplicate: boolean
+  errors: string[]
+  category: string | null
+  method: 'rule' | 'merchant' | 'pattern' | 'local' | 'similarity' | 'ai' | 'fallback' | null
+  confidence: 'high' | 'medium' | 'low' | null
+  payee: string | null
+  tags: string[]
+}
+
+export interface ImportPreviewResponse {
+  preview: true
+  format: 'csv' | 'ofx'
+  profile: { id: number; name: string } | null
+  headers?: string[]
+  categories: string[]
+  summary: {
+    total: number
+    new: number
+    duplicates: number
+    invalid: number
+  }
+  rows: ImportPreviewRow[]
   errors?: string[]
 }
 
+export interface RuleTestMatch {
+  id: number
+  date: string | null
+  description: string
+  amount: number | null
+  fromCategory: string | null
+  toCategory: string | null
+  addedTags: string[]
+  payee: string | null
+  markTransfer: boolean
+  status: 'change' | 'unchanged' | 'overridden'
+  overriddenBy?: number
+}
+
+export interface RuleTestConflict {
+  ruleId: number
+  pattern: string | null
+  matchType: string
+  category: string | null
+  isSystem: boolean
+  relation: 'shadowed_by' | 'shadows'
+  overlap: number
+  sameCategory: boolean
+}
+
+export interface RuleTestResponse {
+  counts: { matched: number; changed: number; unchanged: number; overridden: number }
+  conflicts: RuleTestConflict[]
+  matches: RuleTestMatch[]
+  truncated: boolean
+}
+
+export interface ReviewGroup {
+  merchant: string
+  transactionIds: number[]
+  count: number
+  totalAmount: number
+  suggestedCategory: string
+  categories: Record<string, number>
+  confidence: 'low' | 'medium' | null
+  methods: string[]
+  lastDate: string
+  samples: Array<{ id: number; date: string; description: string; amount: number; account: string | null }>
+}
+
+export type CategoryKind = 'expense' | 'income' | 'transfer'
+
+export interface UserCategory {
+  id: number
+  name: string
+  parentId: number | null
+  kind: CategoryKind
+  color: string | null
+  icon: string | null
+  excludeFromBudget: boolean
+  transactionCount: number
+  protected: boolean // 'Other' and 'Transfer' can't be renamed or deleted
+}
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly'
+export type RolloverPolicy = 'none' | 'carry_unspent' | 'carry_all'
+
+export interface BudgetStatus {
+  id: number
+  category: string
+  period: BudgetPeriod
+  rollover: RolloverPolicy
+  amount: number
+  carryOver: number
+  available: number
+  spent: number
+  remaining: number
+  projected: number
+  percentUsed: number
+  status: 'under' | 'at_risk' | 'over'
+  periodStart: string
+  periodEnd: string
+  daysLeft: number
+}
+
+export interface BudgetSummary {
+  available: number
+  spent: number
+  overCount: number
+  atRiskCount: number
+}
+
+export interface EnvelopeBalance {
+  id: number
+  name: string
+  categories: string[]
+  startMonth: string
+  assigned: number
+  activity: number
+  available: number
+  overspent: boolean
+}
+
+export interface Paycheck {
+  id: number
+  date: string
+  description: string
+  amount: number
+  category: string | null
+  account: string | null
+}
+
+export interface EnvelopeMonth {
+  month: string
+  budgetStart: string | null
+  startingBalance: number
+  income: number
+  assigned: number
+  toBeAssigned: number
+  paychecks: Paycheck[]
+  envelopes: EnvelopeBalance[]
+}
+
+export interface EnvelopeReconciliation {
+  accounts: Array<{ id: number; name: string; type: string; balance: number }>
+  accountsTotal: number
+  toBeAssigned: number
+  envelopesTotal: number
+  budgetTotal: number
+  difference: number
+  outsideEnvelopes: number
+  unexplained: number
+}
+
+export type GoalPriority = 'high' | 'medium' | 'low'
+
+export interface GoalProgress {
+  id: number
+  name: string
+  targetAmount: number
+  targetDate: string | null
+  accountId: number | null
+  accountName: string | null
+  tag: string | null
+  priority: GoalPriority
+  current: number
+  remaining: number
+  percentComplete: number
+  monthsLeft: number | null
+  requiredMonthly: number | null
+  allocatedMonthly: number
+  projectedDate: string | null
+  status: 'achieved' | 'on_track' | 'behind'
+}
+
+export interface GoalSummary {
+  monthlySavings: number
+  requiredMonthly: number
+  onTrackCount: number
+  behindCount: number
+  achievedCount: number
+}
+
+export type ManualAssetKind = 'asset' | 'liability'
+
+export interface BalanceSheetItem {
+  id: number
+  name: string
+  source: 'account' | 'manual'
+  kind: ManualAssetKind
+  type: string
+  value: number
+  valuedOn: string | null
+}
+
+export interface BalanceSheet {
+  date: string
+  assets: number
+  liabilities: number
+  netWorth: number
+  items: BalanceSheetItem[]
+  breakdown: Array<{ kind: ManualAssetKind; type: string; value: number }>
+}
+
+export interface NetWorthSnapshot {
+  date: string
+  assets: number
+  liabilities: number
+  netWorth: number
+}
+
+export interface NetWorthChange {
+  from: string
+  to: string
+  startNetWorth: number
+  endNetWorth: number
+  change: number
+  percentChange: number | null
+}
+
+export interface AssetValuation {
+  id: number
+  assetId: number
+  date: string
+  value: number
+  note: string | null
+}
+
+export interface ManualAsset {
+  id: number
+  name: string
+  kind: ManualAssetKind
+  type: string
+  valuations: AssetValuation[] // Newest first
+}
+
+export interface NetWorthData {
+  current: BalanceSheet
+  history: NetWorthSnapshot[]
+  yearToDate: NetWorthChange | null
+  manualAssets: ManualAsset[]
+  assetTypes: Record<ManualAssetKind, string[]>
+}
+
+export type AssetClass = 'stock' | 'etf' | 'mutual_fund' | 'bond' | 'cash' | 'other'
+
+export interface PortfolioPosition {
+  accountId: number
+  accountName: string
+  securityId: number
+  symbol: string
+  name: string
+  assetClass: AssetClass
+  quantity: number
+  costBasis: number
+  averageCost: number
+  price: number | null
+  priceDate: string | null
+  marketValue: number | null // Null until a price is loaded
+  unrealizedGain: number | null
+  unrealizedPercent: number | null
+  reportedQuantity: number | null // Last position the brokerage reported, if any
+  lots: Array<{
+    buyId: number
+    openDate: string
+    quantity: number
+    costBasis: number
+    unrealizedGain: number | null
+    term: 'short' | 'long'
+  }>
+}
+
+export interface RealizedGain {
+  sellId: number
+  accountId: number
+  accountName: string
+  securityId: number
+  symbol: string
+  date: string
+  quantity: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  shortTerm: number
+  longTerm: number
+  method: 'fifo' | 'specific'
+  unmatchedQuantity: number // Sold with no buy on record
+  lots: Array<{ buyId: number; openDate: string; quantity: number; costBasis: number }>
+}
+
+export interface PortfolioData {
+  positions: PortfolioPosition[]
+  allocation: Array<{ assetClass: AssetClass; marketValue: number; percent: number }>
+  realized: RealizedGain[] // Newest first
+  summary: {
+    costBasis: number
+    marketValue: number
+    unrealizedGain: number
+    unpricedCount: number
+    realizedGain: number
+    realizedGainYearToDate: number
+    dividends: number
+    dividendsYearToDate: number
+  }
+  assetClasses: AssetClass[]
+}
+
+export interface Merchant {
+  id: number
+  name: string
+  aliases: string[]
+  defaultCategory: string | null
+  logoUrl: string | null
+  website: string | null
+  transactionCount: number
+  totalSpent: number
+  lastDate: string | null
+}
+
+export type RecurringCadence = 'weekly' | 'biweekly' | 'monthly' | 'annual'
+
+export interface Subscription {
+  id: number
+  merchantId: number
+  name: string
+  category: string | null
+  cadence: RecurringCadence
+  amount: number
+  amountStdDev: number
+  annualCost: number
+  occurrences: number
+  lastChargedDate: string
+  nextDueDate: string
+  status: 'active' | 'cancelled' // 'cancelled' when the next charge is well overdue
+}
+
+export interface AppNotification {
+  id: number
+  type: 'price_increase' | 'trial_conversion' | 'off_cadence'
+  title: string
+  message: string
+  merchantId: number | null
+  transactionId: number | null
+  createdAt: string
+}
+
+export interface ForecastEvent {
+  date: string
+  name: string
+  amount: number
+  category: string | null
+  accountId: number
+  accountName: string
+  source: 'recurring' | 'scheduled'
+}
+
+export interface CashFlowForecast {
+  today: string
+  days: number
+  threshold: number
+  startingBalance: number
+  endingBalance: number
+  lowestBalance: number
+  lowestDate: string
+  belowThresholdDate: string | null
+  dailyDiscretionary: number
+  discretionaryByCategory: Array<{ category: string | null; monthly: number }>
+  daily: Array<{ date: string; balance: number; inflow: number; outflow: number }>
+  accounts: Array<{
+    id: number
+    name: string
+    type: string
+    startingBalance: number
+    endingBalance: number
+    lowestBalance: number
+    lowestDate: string
+    belowThresholdDate: string | null
+    balances: number[]
+  }>
+  events: ForecastEvent[]
+}
+
 export interface APIError {
   error: string
   details?: string